@@ -8,6 +8,7 @@ import { Command } from 'commander';
 import chalk from 'chalk';
 import * as fs from 'fs';
 import * as path from 'path';
+import type { ModelConstructor } from '@/backend/Models/QueryBuilder';
 
 const SRC_PATH = path.join(process.cwd(), 'src');
 
@@ -19,25 +20,55 @@ export function registerDbCommands(program: Command): void {
   program
     .command('migrate:status')
     .description('Show the status of each migration')
-    .action(() => {
-      migrateStatus();
+    .action(async () => {
+      await migrateStatus();
     });
 
   // migrate:run
   program
     .command('migrate')
     .description('Run all pending migrations')
-    .action(() => {
-      runMigrations();
+    .option('--step', 'Run each migration in its own batch, so they can be rolled back one at a time')
+    .option('--pretend', 'Show the SQL the migrations would run without running it')
+    .action(async (options) => {
+      await runMigrations(options);
     });
 
   // migrate:rollback
   program
     .command('migrate:rollback')
     .description('Rollback the last batch of migrations')
-    .option('--step <number>', 'Number of migrations to rollback', '1')
-    .action((options) => {
-      rollbackMigrations(parseInt(options.step, 10));
+    .option('--step <number>', 'Number of migrations to rollback instead of the last batch')
+    .option('--pretend', 'Show the SQL the rollback would run without running it')
+    .action(async (options) => {
+      await rollbackMigrations({ step: options.step ? parseInt(options.step, 10) : undefined, pretend: options.pretend });
+    });
+
+  // migrate:reset
+  program
+    .command('migrate:reset')
+    .description('Rollback all migrations')
+    .option('--pretend', 'Show the SQL the rollback would run without running it')
+    .action(async (options) => {
+      await resetMigrations(options.pretend);
+    });
+
+  // migrate:refresh
+  program
+    .command('migrate:refresh')
+    .description('Rollback all migrations and run them again')
+    .option('--step', 'Run each migration in its own batch')
+    .action(async (options) => {
+      await refreshMigrations(options.step);
+    });
+
+  // migrate:fresh
+  program
+    .command('migrate:fresh')
+    .description('Drop all tables and run all migrations')
+    .option('--step', 'Run each migration in its own batch')
+    .action(async (options) => {
+      await freshMigrations(options.step);
     });
 
   // db:show
@@ -64,86 +95,151 @@ export function registerDbCommands(program: Command): void {
     .description('Prune models that are no longer needed')
     .option('--model <name>', 'Specific model to prune')
     .option('--dry-run', 'Show what would be pruned without actually pruning')
-    .action((options) => {
-      pruneModels(options.model, options.dryRun);
+    .action(async (options) => {
+      await pruneModels(options.model, options.dryRun);
+    });
+
+  // search:import
+  program
+    .command('search:import [model]')
+    .description('Rebuild the full-text search index of searchable models')
+    .option('--chunk <size>', 'Number of records indexed per chunk', '500')
+    .action(async (model, options) => {
+      await importSearchIndexes(model, parseInt(options.chunk, 10));
     });
 }
 
 /**
  * Show migration status
  */
-function migrateStatus(): void {
-  const migrationsPath = path.join(SRC_PATH, 'database/migrations');
-  
-  if (!fs.existsSync(migrationsPath)) {
-    console.log(chalk.yellow('No migrations directory found.'));
-    return;
-  }
+async function migrateStatus(): Promise<void> {
+  const { Migrator } = await import('@/database/Migrator');
+  const migrations = await migrate(() => new Migrator().status());
+  if (!migrations) return;
 
-  const files = fs.readdirSync(migrationsPath)
-    .filter(file => file.endsWith('.ts'))
-    .sort();
-
-  if (files.length === 0) {
+  if (migrations.length === 0) {
     console.log(chalk.yellow('No migrations found.'));
     return;
   }
 
   console.log(chalk.bold('\nMigration Status\n'));
   console.log(chalk.gray('─'.repeat(60)));
-  console.log(chalk.bold('  Status   │ Migration'));
+  console.log(chalk.bold('  Status   │ Batch │ Migration'));
   console.log(chalk.gray('─'.repeat(60)));
 
-  // TODO: Check against actual database table
-  // For now, show all as pending
-  files.forEach((file) => {
-    const name = file.replace('.ts', '');
-    console.log(chalk.yellow(`  Pending  │ ${name}`));
-  });
+  for (const { migration, ran, batch } of migrations) {
+    const row = `│ ${String(batch ?? '').padEnd(5)} │ ${migration}`;
+    console.log(ran ? chalk.green(`  Ran      ${row}`) : chalk.yellow(`  Pending  ${row}`));
+  }
 
+  const ran = migrations.filter((migration) => migration.ran).length;
   console.log(chalk.gray('─'.repeat(60)));
-  console.log(`\n  Total: ${files.length} migration(s)\n`);
+  console.log(`\n  Total: ${migrations.length} migration(s), ${ran} ran, ${migrations.length - ran} pending\n`);
 }
 
 /**
  * Run pending migrations
  */
-function runMigrations(): void {
+async function runMigrations(options: { step?: boolean; pretend?: boolean }): Promise<void> {
   console.log(chalk.bold('\nRunning Migrations...\n'));
 
-  const migrationsPath = path.join(SRC_PATH, 'database/migrations');
-  
-  if (!fs.existsSync(migrationsPath)) {
-    console.log(chalk.yellow('No migrations directory found.'));
-    return;
+  const { Migrator } = await import('@/database/Migrator');
+  const runs = await migrate(() => new Migrator().run(options));
+
+  if (runs && runs.length === 0) {
+    console.log(chalk.green('Nothing to migrate.'));
   }
+  printMigrationRuns(runs ?? [], 'Migrated', options.pretend);
+}
 
-  const files = fs.readdirSync(migrationsPath)
-    .filter(file => file.endsWith('.ts'))
-    .sort();
+/**
+ * Rollback the last batch of migrations, or the last steps
+ */
+async function rollbackMigrations(options: { step?: number; pretend?: boolean }): Promise<void> {
+  console.log(chalk.bold('\nRolling Back Migrations...\n'));
 
-  if (files.length === 0) {
-    console.log(chalk.green('Nothing to migrate.'));
-    return;
+  const { Migrator } = await import('@/database/Migrator');
+  const runs = await migrate(() => new Migrator().rollback(options));
+
+  if (runs && runs.length === 0) {
+    console.log(chalk.green('Nothing to rollback.'));
   }
+  printMigrationRuns(runs ?? [], 'Rolled back', options.pretend);
+}
 
-  console.log(chalk.cyan('Note: Using Drizzle Kit for migrations.'));
-  console.log(chalk.gray('Run: npm run db:push\n'));
-  
-  // In a full implementation, this would:
-  // 1. Load each migration file
-  // 2. Check if already run (from migrations table)
-  // 3. Execute the up() method
-  // 4. Record in migrations table
+/**
+ * Rollback all migrations
+ */
+async function resetMigrations(pretend?: boolean): Promise<void> {
+  console.log(chalk.bold('\nResetting Migrations...\n'));
+
+  const { Migrator } = await import('@/database/Migrator');
+  const runs = await migrate(() => new Migrator().reset({ pretend }));
+
+  if (runs && runs.length === 0) {
+    console.log(chalk.green('Nothing to rollback.'));
+  }
+  printMigrationRuns(runs ?? [], 'Rolled back', pretend);
+}
+
+/**
+ * Rollback all migrations and run them again
+ */
+async function refreshMigrations(step?: boolean): Promise<void> {
+  console.log(chalk.bold('\nRefreshing Migrations...\n'));
+
+  const { Migrator } = await import('@/database/Migrator');
+  const result = await migrate(() => new Migrator().refresh({ step }));
+  if (!result) return;
+
+  printMigrationRuns(result.rolledBack, 'Rolled back');
+  printMigrationRuns(result.ran, 'Migrated');
 }
 
 /**
- * Rollback migrations
+ * Drop all tables and run all migrations
  */
-function rollbackMigrations(steps: number): void {
-  console.log(chalk.bold(`\nRolling back ${steps} migration(s)...\n`));
-  console.log(chalk.cyan('Note: Using Drizzle Kit for migrations.'));
-  console.log(chalk.gray('Drizzle uses push/pull model. For rollback, modify schema and re-push.\n'));
+async function freshMigrations(step?: boolean): Promise<void> {
+  console.log(chalk.bold('\nDropping All Tables...\n'));
+
+  const { Migrator } = await import('@/database/Migrator');
+  const result = await migrate(() => new Migrator().fresh({ step }));
+  if (!result) return;
+
+  console.log(chalk.green(`  Dropped ${result.dropped.length} table(s).\n`));
+  printMigrationRuns(result.ran, 'Migrated');
+}
+
+/**
+ * Run a migrator operation, reporting a failure instead of throwing
+ *
+ * Connections are closed afterwards so pooled drivers let the process exit.
+ */
+async function migrate<T>(operation: () => Promise<T>): Promise<T | null> {
+  try {
+    return await operation();
+  } catch (error) {
+    console.log(chalk.red(`  ${(error as Error).message}`));
+    process.exitCode = 1;
+    return null;
+  } finally {
+    const { default: DatabaseFactory } = await import('@/database');
+    DatabaseFactory.reset();
+  }
+}
+
+/**
+ * Print the migrations that ran, or the SQL they would run when pretending
+ */
+function printMigrationRuns(runs: { migration: string; batch: number; statements: string[] }[], verb: string, pretend?: boolean): void {
+  for (const { migration, batch, statements } of runs) {
+    if (pretend) {
+      console.log(chalk.cyan(`  ${migration}`));
+      statements.forEach((statement) => console.log(chalk.gray(`    ${statement};`)));
+    } else {
+      console.log(chalk.green(`  ${verb}: ${migration}`) + chalk.gray(` (batch ${batch})`));
+    }
+  }
 }
 
 /**
@@ -217,31 +313,69 @@ function runSeeders(className?: string): void {
 }
 
 /**
- * Prune unused models
+ * Prune models implementing Prunable or MassPrunable
+ *
+ * Records are deleted in chunks by id, so large tables never load at once.
  */
-function pruneModels(modelName?: string, dryRun?: boolean): void {
+async function pruneModels(modelName?: string, dryRun?: boolean): Promise<void> {
   console.log(chalk.bold('\nPruning Models...\n'));
   
   if (dryRun) {
     console.log(chalk.yellow('Dry run mode - no changes will be made.\n'));
   }
 
-  const modelsPath = path.join(SRC_PATH, 'app/Models');
-  
-  if (!fs.existsSync(modelsPath)) {
-    console.log(chalk.yellow('No models directory found.'));
+  const { pruneModels: prune } = await import('@/backend/Models/Prunable');
+
+  let results;
+  try {
+    results = await prune({
+      models: modelName ? [modelName] : undefined,
+      dryRun,
+      path: path.join(SRC_PATH, 'backend/Models'),
+    });
+  } catch (error) {
+    console.log(chalk.red(`  ${(error as Error).message}`));
+    process.exitCode = 1;
     return;
   }
 
-  const files = fs.readdirSync(modelsPath)
-    .filter(file => file.endsWith('.ts') && file !== 'Model.ts')
-    .sort();
+  for (const { model, count } of results) {
+    console.log(dryRun
+      ? chalk.cyan(`  ${model}: ${count} record(s) would be pruned.`)
+      : chalk.green(`  ${model}: ${count} record(s) pruned.`));
+  }
 
-  if (files.length === 0) {
-    console.log(chalk.green('No models to prune.'));
+  if (results.length === 0) {
+    console.log(chalk.green('No prunable models found.'));
+  }
+}
+
+/**
+ * Rebuild the FTS5 index of one or every searchable model
+ */
+async function importSearchIndexes(modelName?: string, chunkSize?: number): Promise<void> {
+  console.log(chalk.bold('\nImporting Search Indexes...\n'));
+
+  const { Model } = await import('@/backend/Models/Model');
+  const { importSearchable } = await import('@/backend/Models/Searchable');
+  const { discoverModels } = await import('@/backend/Models/ModelDiscovery');
+
+  const models = await discoverModels(path.join(SRC_PATH, 'backend/Models'), (value): value is ModelConstructor =>
+    typeof value === 'function'
+      && value.prototype instanceof Model
+      && (!modelName || value.name === modelName)
+      && new (value as ModelConstructor)().isSearchable()
+  );
+
+  if (models.length === 0) {
+    console.log(modelName
+      ? chalk.red(`  Model [${modelName}] is not searchable or was not found.`)
+      : chalk.green('No searchable models found.'));
     return;
   }
 
-  console.log(chalk.cyan('Model pruning identifies models with soft-deleted records past retention.\n'));
-  console.log(chalk.gray('This feature requires model-level prunable configuration.'));
+  for (const model of models) {
+    const count = await importSearchable(model, chunkSize || undefined);
+    console.log(chalk.green(`  ${model.name}: ${count} record(s) indexed.`));
+  }
 }
@@ -616,17 +616,21 @@ function generateMigration(modelName: string, tableName: string): string {
  * Migration: Create ${tableName} table
  */
 
-import { sql } from 'drizzle-orm';
-import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
+import { Schema } from '@/database/SchemaBuilder';
+import type { Migration } from '@/database/Migrator';
 
-export const ${tableName} = sqliteTable('${tableName}', {
-  id: text('id').primaryKey(),
-  created_at: integer('created_at', { mode: 'timestamp' }).notNull().default(sql\`(unixepoch())\`),
-  updated_at: integer('updated_at', { mode: 'timestamp' }).notNull().default(sql\`(unixepoch())\`),
-});
+export default {
+  async up() {
+    await Schema.create('${tableName}', (table) => {
+      table.id();
+      table.timestamps();
+    });
+  },
 
-export type ${modelName}Record = typeof ${tableName}.$inferSelect;
-export type New${modelName}Record = typeof ${tableName}.$inferInsert;
+  async down() {
+    await Schema.dropIfExists('${tableName}');
+  },
+} satisfies Migration;
 `;
 }
 
@@ -635,38 +639,29 @@ function generateFactory(modelName: string): string {
  * ${modelName}Factory
  * 
  * Factory for generating fake ${modelName} data for testing.
+ * 
+ * Usage:
+ *   await ${modelName}Factory.new().create();
+ *   await ${modelName}Factory.count(3).state({ ... }).create();
  */
 
-import { nanoid } from 'nanoid';
+import { Factory } from '@/backend/Models/Factories';
+import { ${modelName} } from '@/backend/Models/${modelName}';
+
+export class ${modelName}Factory extends Factory<${modelName}> {
+  protected model = ${modelName};
 
-export class ${modelName}Factory {
   /**
    * Define the model's default state.
    */
   definition() {
     return {
-      id: nanoid(),
-      created_at: new Date(),
-      updated_at: new Date(),
+      id: this.faker.uuid(),
     };
   }
-
-  /**
-   * Create a single model instance.
-   */
-  make(overrides = {}) {
-    return { ...this.definition(), ...overrides };
-  }
-
-  /**
-   * Create multiple model instances.
-   */
-  count(count: number, overrides = {}) {
-    return Array.from({ length: count }, () => this.make(overrides));
-  }
 }
 
-export default new ${modelName}Factory();
+export default ${modelName}Factory;
 `;
 }
 
@@ -679,17 +674,12 @@ function generateSeeder(modelName: string): string {
  * Seeds the ${tableName} table with sample data.
  */
 
-// import { db } from '@/database';
-// import { ${tableName} } from '@/database/migrations/create_${tableName}_table';
 import ${modelName}Factory from '../factories/${modelName}Factory';
 
 export default async function seed() {
   console.log('Seeding ${tableName}...');
   
-  const records = ${modelName}Factory.count(10);
-  
-  // Insert records into database
-  // await db.insert(${tableName}).values(records);
+  const records = await ${modelName}Factory.count(10).create();
   
   console.log(\`✓ Seeded \${records.length} ${tableName}\`);
 }
@@ -799,21 +789,26 @@ function generateCreateTableMigration(name: string, tableName: string): string {
  * Creates the ${tableName} table.
  */
 
-import { sql } from 'drizzle-orm';
-import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
-
-export const ${tableName} = sqliteTable('${tableName}', {
-  id: text('id').primaryKey(),
-  // Add your columns here
-  // name: text('name').notNull(),
-  // email: text('email').notNull().unique(),
-  // status: text('status').default('active'),
-  created_at: integer('created_at', { mode: 'timestamp' }).notNull().default(sql\`(unixepoch())\`),
-  updated_at: integer('updated_at', { mode: 'timestamp' }).notNull().default(sql\`(unixepoch())\`),
-});
+import { Schema } from '@/database/SchemaBuilder';
+import type { Migration } from '@/database/Migrator';
 
-export type ${capitalizeFirst(tableName)}Record = typeof ${tableName}.$inferSelect;
-export type New${capitalizeFirst(tableName)}Record = typeof ${tableName}.$inferInsert;
+export default {
+  async up() {
+    await Schema.create('${tableName}', (table) => {
+      table.id();
+      // Add your columns here
+      // table.string('name');
+      // table.string('email').unique();
+      // table.string('status').default('active');
+      // table.foreignId('user_id').constrained().cascadeOnDelete();
+      table.timestamps();
+    });
+  },
+
+  async down() {
+    await Schema.dropIfExists('${tableName}');
+  },
+} satisfies Migration;
 `;
 }
 
@@ -824,39 +819,24 @@ function generateAlterTableMigration(name: string, tableName: string): string {
  * Modifies the ${tableName} table.
  */
 
-// Note: Drizzle ORM uses a push-based migration model.
-// To modify a table, update the schema definition and run:
-// npm run db:push
+import { Schema } from '@/database/SchemaBuilder';
+import type { Migration } from '@/database/Migrator';
 
-/*
-Example modifications:
-
-// Add a new column
-ALTER TABLE ${tableName} ADD COLUMN new_column TEXT;
-
-// Add an index
-CREATE INDEX idx_${tableName}_column ON ${tableName}(column_name);
-
-// Add a foreign key (SQLite limitations apply)
-// For SQLite, you may need to recreate the table
-*/
-
-export const migration = {
-  name: '${name}',
-  description: 'Modify ${tableName} table',
-  
+export default {
   async up() {
-    // Execute migration
-    console.log('Running migration: ${name}');
+    await Schema.table('${tableName}', (table) => {
+      // table.string('status').default('active');
+      // table.string('title', 100).nullable().change();
+      // table.renameColumn('body', 'content');
+    });
   },
-  
+
   async down() {
-    // Rollback migration
-    console.log('Rolling back migration: ${name}');
+    await Schema.table('${tableName}', (table) => {
+      // table.dropColumn('status');
+    });
   },
-};
-
-export default migration;
+} satisfies Migration;
 `;
 }
 
@@ -865,26 +845,17 @@ function generateBlankMigration(name: string): string {
  * Migration: ${name}
  */
 
-import { sql } from 'drizzle-orm';
-import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
+import type { Migration } from '@/database/Migrator';
 
-// Define your schema changes here
-
-export const migration = {
-  name: '${name}',
-  
+export default {
   async up() {
-    // Execute migration
-    console.log('Running migration: ${name}');
+    //
   },
-  
+
   async down() {
-    // Rollback migration
-    console.log('Rolling back migration: ${name}');
+    //
   },
-};
-
-export default migration;
+} satisfies Migration;
 `;
 }
 
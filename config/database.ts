@@ -6,7 +6,8 @@
  */
 
 export interface ConnectionConfig {
-  driver: 'sqlite' | 'postgres' | 'mysql';
+  /** `pglite` runs an embedded PostgreSQL, for local development and tests */
+  driver: 'sqlite' | 'postgres' | 'pglite' | 'mysql';
   host?: string;
   port?: number;
   database: string;
@@ -23,11 +24,15 @@ export interface ConnectionConfig {
   /** Read replica configuration */
   read?: {
     host: string[];
+    /** How reads pick a replica (default: round-robin) */
+    strategy?: 'round-robin' | 'random';
   };
   /** Write primary configuration */
   write?: {
     host: string;
   };
+  /** Read from the writer for the rest of a request once it has written */
+  sticky?: boolean;
 }
 
 export interface DatabaseConfig {
@@ -35,6 +40,8 @@ export interface DatabaseConfig {
   default: string;
   /** Database connections dictionary */
   connections: Record<string, ConnectionConfig>;
+  /** Statements taking at least this many milliseconds are logged as slow (null disables) */
+  slowQueryThreshold: number | null;
   /** Migrations configuration */
   migrations: {
     table: string;
@@ -63,6 +70,22 @@ export interface DatabaseConfig {
   };
 }
 
+/**
+ * Read replicas from DB_READ_HOST, a comma-separated list of hosts
+ *
+ * Reads go to the replicas in turn (DB_READ_STRATEGY=random picks one at
+ * random); writes go to DB_HOST.
+ */
+function readReplicas(): ConnectionConfig['read'] {
+  const hosts = (process.env.DB_READ_HOST || '').split(',').map((host) => host.trim()).filter(Boolean);
+  if (hosts.length === 0) return undefined;
+
+  return {
+    host: hosts,
+    strategy: process.env.DB_READ_STRATEGY === 'random' ? 'random' : 'round-robin',
+  };
+}
+
 const config: DatabaseConfig = {
   default: process.env.DB_CONNECTION || 'sqlite',
 
@@ -88,13 +111,14 @@ const config: DatabaseConfig = {
         min: 2,
         max: 10,
       },
-      // Example read/write replica configuration
-      // read: {
-      //   host: ['replica1.example.com', 'replica2.example.com'],
-      // },
-      // write: {
-      //   host: 'primary.example.com',
-      // },
+      read: readReplicas(),
+      sticky: true,
+    },
+
+    // Embedded PostgreSQL stored in a directory (or ':memory:'), no server needed
+    pglite: {
+      driver: 'pglite',
+      database: process.env.DB_DATABASE || './data/pglite',
     },
 
     mysql: {
@@ -110,9 +134,15 @@ const config: DatabaseConfig = {
         min: 2,
         max: 10,
       },
+      read: readReplicas(),
+      sticky: true,
     },
   },
 
+  slowQueryThreshold: process.env.DB_SLOW_QUERY_THRESHOLD
+    ? parseFloat(process.env.DB_SLOW_QUERY_THRESHOLD)
+    : 1000,
+
   migrations: {
     table: 'catalyst_migrations',
     directory: './src/database/migrations',
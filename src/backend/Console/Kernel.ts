@@ -443,10 +443,14 @@ export class AppKernel extends Kernel {
   protected defineSchedule(schedule: Schedule): void {
     // Example scheduled tasks
 
-    // Run database cleanup daily at 3am
-    schedule.command('db:prune')
+    // Prune Prunable and MassPrunable models daily at 3am
+    schedule.call(async () => {
+      const { pruneModels } = await import('@/backend/Models/Prunable');
+      await pruneModels();
+    })
       .dailyAt('3:00')
-      .description('Clean up old database records');
+      .withoutOverlapping()
+      .description('Prune stale model records');
 
     // Run queue monitoring every 5 minutes
     schedule.call(async () => {
@@ -43,6 +43,8 @@ export interface ContextStore {
   errors?: Record<string, string[]>;
   /** Previous URL for redirects */
   previousUrl?: string;
+  /** Database connections written to, whose reads stick to the writer */
+  modifiedConnections?: string[];
   /** Additional context data */
   [key: string]: unknown;
 }
@@ -0,0 +1,76 @@
+/**
+ * Catalyst Attribute Cast Contract
+ *
+ * A cast converts between a stored column value and the value a model
+ * exposes. Map an attribute in `casts` to a built-in cast name, a cast
+ * class, or a cast instance when the cast takes options.
+ *
+ * @example
+ * ```ts
+ * class MoneyCast implements CastsAttributes<Money, Money> {
+ *   get(model: Model, key: string, value: unknown, attributes: Record<string, unknown>) {
+ *     return new Money(Number(value), String(attributes.currency));
+ *   }
+ *
+ *   set(model: Model, key: string, value: Money) {
+ *     return { [key]: value.amount, currency: value.currency }; // sets two columns
+ *   }
+ * }
+ *
+ * class Order extends Model<OrderAttributes> {
+ *   protected casts = { total: MoneyCast, card_number: 'encrypted', billing: 'encrypted:json' };
+ * }
+ * ```
+ */
+
+import type { Model } from './Model';
+
+export interface CastsAttributes<TGet = unknown, TSet = TGet> {
+  /**
+   * Transform the stored value into the value exposed by the model
+   */
+  get(model: Model, key: string, value: unknown, attributes: Record<string, unknown>): TGet;
+
+  /**
+   * Transform a value for storage
+   *
+   * Return a plain object to set several columns at once.
+   */
+  set(model: Model, key: string, value: TSet, attributes: Record<string, unknown>): unknown;
+}
+
+/** A cast class instantiated by the model */
+export type CastsAttributesClass = new () => CastsAttributes;
+
+/** A cast accepted in a model's `casts` map */
+export type CastType = string | CastsAttributes | CastsAttributesClass;
+
+/**
+ * Encrypts values with the model's encrypter (`app.key` / `app.cipher` by default)
+ */
+export class EncryptedCast implements CastsAttributes {
+  /**
+   * @param json - Serialize the value as JSON instead of storing it as a string
+   */
+  constructor(private readonly json: boolean = false) {}
+
+  get(model: Model, _key: string, value: unknown): unknown {
+    if (value === null || value === undefined) return value;
+    return (model.constructor as typeof Model).currentEncrypter().decrypt(String(value), this.json);
+  }
+
+  set(model: Model, _key: string, value: unknown): unknown {
+    if (value === null || value === undefined) return value;
+    return (model.constructor as typeof Model).currentEncrypter().encrypt(this.json ? value : String(value), this.json);
+  }
+}
+
+/** Built-in casts implemented as cast objects */
+export const BUILT_IN_CASTS: Record<string, CastsAttributes> = {
+  encrypted: new EncryptedCast(),
+  'encrypted:json': new EncryptedCast(true),
+  'encrypted:array': new EncryptedCast(true),
+  'encrypted:object': new EncryptedCast(true),
+};
+
+export default CastsAttributes;
@@ -0,0 +1,358 @@
+/**
+ * Catalyst Model Factory
+ *
+ * Builds model instances with fake attributes for tests and seeders.
+ * Factories are immutable: count(), state(), has() and for() return a new
+ * factory, so a configured factory can be shared and reused.
+ *
+ * @example
+ * ```ts
+ * class UserFactory extends Factory<User> {
+ *   protected model = User;
+ *
+ *   definition() {
+ *     return { name: this.faker.name(), email: this.faker.unique().email(), role: 'member' };
+ *   }
+ *
+ *   admin() {
+ *     return this.state({ role: 'admin' });
+ *   }
+ * }
+ *
+ * const user = await UserFactory.new().admin().create();
+ * const users = await UserFactory.count(3).has(PostFactory.count(2), 'posts').create();
+ * const post = await PostFactory.new().for(user, 'author').make(); // not saved
+ * ```
+ */
+
+import type { Model } from '../Model';
+import type { ModelConstructor } from '../QueryBuilder';
+import { QueryBuilder } from '../QueryBuilder';
+import { HasOneOrMany } from '../Relations/HasOneOrMany';
+import { BelongsTo } from '../Relations/BelongsTo';
+import { faker, Faker } from './Faker';
+
+/** The attribute shape of a model class */
+export type AttributesOf<TModel> = TModel extends Model<infer TAttributes> ? TAttributes : Record<string, unknown>;
+
+/**
+ * Attribute values a factory may produce
+ *
+ * A value can be a callback computed from the other attributes, or another
+ * factory whose created model's key is used (for foreign keys).
+ */
+export type FactoryAttributes<TModel> = {
+  [K in keyof AttributesOf<TModel>]?:
+    | AttributesOf<TModel>[K]
+    | Factory<unknown>
+    | ((attributes: Partial<AttributesOf<TModel>>) => AttributesOf<TModel>[K]);
+};
+
+/** A state applied on top of the definition */
+export type FactoryState<TModel> =
+  | FactoryAttributes<TModel>
+  | ((attributes: Partial<AttributesOf<TModel>>) => FactoryAttributes<TModel>);
+
+/** Callback run after a model is made or created */
+export type FactoryCallback<TModel> = (model: TModel) => void | Promise<void>;
+
+/** A factory configured with count(), which makes and creates lists of models */
+export interface CountedFactory<TModel> {
+  make(attributes?: FactoryAttributes<TModel>): Promise<TModel[]>;
+  create(attributes?: FactoryAttributes<TModel>): Promise<TModel[]>;
+}
+
+/**
+ * A stored state: receives the attributes so far and the model's index
+ *
+ * States and callbacks are stored untyped so Factory<User> stays assignable
+ * to Factory<unknown>.
+ */
+type StateResolver = (attributes: Record<string, unknown>, index: number) => Record<string, unknown>;
+
+type StoredCallback = (model: unknown) => void | Promise<void>;
+
+interface ParentDefinition {
+  parent: unknown;
+  relationship?: string;
+}
+
+interface ChildDefinition {
+  factory: Factory<unknown>;
+  relationship?: string;
+}
+
+export abstract class Factory<TModel = Model> {
+  /** The model class built by the factory */
+  protected abstract model: ModelConstructor<TModel>;
+
+  /** Number of models to build, or null for a single model */
+  protected amount: number | null = null;
+
+  protected states: StateResolver[] = [];
+  protected parents: ParentDefinition[] = [];
+  protected children: ChildDefinition[] = [];
+  protected afterMakingCallbacks: StoredCallback[] = [];
+  protected afterCreatingCallbacks: StoredCallback[] = [];
+
+  /**
+   * Define the model's default attributes
+   */
+  abstract definition(): FactoryAttributes<TModel>;
+
+  /**
+   * The fake data generator
+   */
+  protected get faker(): Faker {
+    return faker;
+  }
+
+  /**
+   * Create a new factory instance
+   */
+  static new<F extends Factory<unknown>>(this: new () => F): F {
+    return new this();
+  }
+
+  /**
+   * Create a new factory instance building the given number of models
+   */
+  static count<F extends Factory<unknown>>(this: new () => F, count: number): CountedFactory<ModelOf<F>> & F {
+    return new this().count(count) as CountedFactory<ModelOf<F>> & F;
+  }
+
+  // ==================== CONFIGURATION ====================
+
+  /**
+   * Build the given number of models
+   */
+  count(count: number): CountedFactory<TModel> & this {
+    return this.newInstance({ amount: count }) as CountedFactory<TModel> & this;
+  }
+
+  /**
+   * Apply attribute overrides, or a callback computing them
+   */
+  state(state: FactoryState<TModel>): this {
+    const resolver = (typeof state === 'function' ? state : () => state) as unknown as StateResolver;
+    return this.newInstance({ states: [...this.states, resolver] });
+  }
+
+  /**
+   * Cycle through states for each model built
+   *
+   * @example
+   * ```ts
+   * UserFactory.count(4).sequence({ role: 'admin' }, { role: 'member' });
+   * UserFactory.count(3).sequence((index) => ({ name: `User ${index}` }));
+   * ```
+   */
+  sequence(...states: Array<FactoryAttributes<TModel> | ((index: number) => FactoryAttributes<TModel>)>): this {
+    return this.newInstance({
+      states: [
+        ...this.states,
+        (_attributes, index) => {
+          const state = states[index % states.length];
+          return (typeof state === 'function' ? state(index) : state) as Record<string, unknown>;
+        },
+      ],
+    });
+  }
+
+  /**
+   * Create related models through a has-one or has-many relationship
+   *
+   * The relationship defaults to the pluralized related model name (`posts`).
+   */
+  has(factory: Factory<unknown>, relationship?: string): this {
+    return this.newInstance({ children: [...this.children, { factory, relationship }] });
+  }
+
+  /**
+   * Set the parent of a belongs-to relationship
+   *
+   * The relationship defaults to the parent model name (`user`). A factory
+   * parent is created when the models are built.
+   */
+  for<TParent>(parent: TParent | Factory<TParent>, relationship?: string): this {
+    return this.newInstance({ parents: [...this.parents, { parent, relationship }] });
+  }
+
+  /**
+   * Run a callback after each model is made
+   */
+  afterMaking(callback: FactoryCallback<TModel>): this {
+    return this.newInstance({ afterMakingCallbacks: [...this.afterMakingCallbacks, callback as StoredCallback] });
+  }
+
+  /**
+   * Run a callback after each model is created
+   */
+  afterCreating(callback: FactoryCallback<TModel>): this {
+    return this.newInstance({ afterCreatingCallbacks: [...this.afterCreatingCallbacks, callback as StoredCallback] });
+  }
+
+  // ==================== BUILDING ====================
+
+  /**
+   * Build models without saving them
+   */
+  async make(attributes: FactoryAttributes<TModel> = {}): Promise<TModel> {
+    const models: TModel[] = [];
+    for (let index = 0; index < (this.amount ?? 1); index++) {
+      models.push(await this.makeInstance(attributes, index));
+    }
+    return this.result(models);
+  }
+
+  /**
+   * Build models and save them through Model.save()
+   */
+  async create(attributes: FactoryAttributes<TModel> = {}): Promise<TModel> {
+    const models: TModel[] = [];
+
+    for (let index = 0; index < (this.amount ?? 1); index++) {
+      const model = await this.makeInstance(attributes, index);
+      await this.asModel(model).save();
+      await this.createChildren(model);
+
+      for (const callback of this.afterCreatingCallbacks) {
+        await callback(model);
+      }
+      models.push(model);
+    }
+
+    return this.result(models);
+  }
+
+  /**
+   * Get the attributes for a model without building it
+   */
+  async raw(attributes: FactoryAttributes<TModel> = {}): Promise<Partial<AttributesOf<TModel>>> {
+    return this.expandAttributes(await this.getRawAttributes(attributes, 0));
+  }
+
+  /**
+   * Make a single model, applying states, parents and overrides
+   */
+  protected async makeInstance(attributes: FactoryAttributes<TModel>, index: number): Promise<TModel> {
+    const model = new this.model();
+    const raw = await this.getRawAttributes(attributes, index);
+
+    for (const { parent, relationship } of this.parents) {
+      const owner = this.asModel(parent instanceof Factory ? await parent.create() : parent);
+      const name = relationship ?? this.guessRelationship(owner, false);
+      const relation = QueryBuilder.getRelation(this.asModel(model), name);
+
+      if (!(relation instanceof BelongsTo)) {
+        throw new Error(`Relationship [${name}] on model [${this.model.name}] is not a belongs-to relationship.`);
+      }
+
+      Object.assign(raw, relation.getAssociationAttributes(owner));
+      this.asModel(model).setRelation(name, owner);
+    }
+
+    this.asModel(model).forceFill(await this.expandAttributes(raw));
+
+    for (const callback of this.afterMakingCallbacks) {
+      await callback(model);
+    }
+    return model;
+  }
+
+  /**
+   * Merge the definition, states and overrides
+   */
+  protected async getRawAttributes(attributes: FactoryAttributes<TModel>, index: number): Promise<Record<string, unknown>> {
+    let raw: Record<string, unknown> = { ...this.definition() };
+
+    for (const state of this.states) {
+      raw = { ...raw, ...state(raw, index) };
+    }
+
+    return { ...raw, ...attributes };
+  }
+
+  /**
+   * Resolve factory and callback attribute values
+   */
+  protected async expandAttributes(raw: Record<string, unknown>): Promise<Partial<AttributesOf<TModel>>> {
+    const expanded: Record<string, unknown> = { ...raw };
+
+    for (const [key, value] of Object.entries(raw)) {
+      if (value instanceof Factory) {
+        expanded[key] = this.asModel(await value.create()).getKey();
+      }
+    }
+    for (const [key, value] of Object.entries(expanded)) {
+      if (typeof value === 'function') {
+        expanded[key] = value(expanded);
+      }
+    }
+
+    return expanded as Partial<AttributesOf<TModel>>;
+  }
+
+  /**
+   * Create the has-many children for a saved parent
+   */
+  protected async createChildren(model: TModel): Promise<void> {
+    const parent = this.asModel(model);
+
+    for (const { factory, relationship } of this.children) {
+      const name = relationship ?? this.guessRelationship(this.asModel(new factory.model()), true);
+      const relation = QueryBuilder.getRelation(parent, name);
+
+      if (!(relation instanceof HasOneOrMany)) {
+        throw new Error(`Relationship [${name}] on model [${this.model.name}] is not a has-one or has-many relationship.`);
+      }
+
+      const created = await factory
+        .state(relation.getForeignAttributes())
+        .create();
+      parent.setRelation(name, created);
+    }
+  }
+
+  /**
+   * Guess a relationship name from a model class (`posts` or `user`)
+   */
+  protected guessRelationship(model: Model, plural: boolean): string {
+    const name = model.constructor.name;
+    const camel = `${name.charAt(0).toLowerCase()}${name.slice(1)}`;
+    return plural ? `${camel}s` : camel;
+  }
+
+  /**
+   * Return a single model, or the list when count() was used
+   */
+  protected result(models: TModel[]): TModel {
+    return (this.amount === null ? models[0] : models) as TModel;
+  }
+
+  /**
+   * Copy the factory with changed configuration
+   */
+  protected newInstance(changes: Partial<FactoryConfiguration>): this {
+    return Object.assign(Object.create(Object.getPrototypeOf(this)), this, changes);
+  }
+
+  protected asModel(model: unknown): Model {
+    return model as Model;
+  }
+}
+
+/** The model built by a factory */
+type ModelOf<F> = F extends Factory<infer TModel> ? TModel : never;
+
+/** Factory properties replaced by newInstance() */
+interface FactoryConfiguration {
+  amount: number | null;
+  states: StateResolver[];
+  parents: ParentDefinition[];
+  children: ChildDefinition[];
+  afterMakingCallbacks: StoredCallback[];
+  afterCreatingCallbacks: StoredCallback[];
+}
+
+export default Factory;
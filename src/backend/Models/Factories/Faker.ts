@@ -0,0 +1,258 @@
+/**
+ * Catalyst Fake Data Generator
+ *
+ * A small, dependency-free fake data generator for factories and seeders.
+ * Values come from a seedable PRNG so test data can be made deterministic.
+ *
+ * @example
+ * ```ts
+ * faker.seed(42);
+ * faker.name();             // "Grace Hopper"
+ * faker.unique().email();   // never repeats within the run
+ * faker.dateBetween(new Date('2026-01-01'), new Date());
+ * ```
+ */
+
+const FIRST_NAMES = [
+  'Ada', 'Alan', 'Barbara', 'Brian', 'Carol', 'Charles', 'Dennis', 'Donald', 'Edsger', 'Frances',
+  'Grace', 'Guido', 'Hedy', 'Ivan', 'Joan', 'John', 'Katherine', 'Ken', 'Linus', 'Lynn',
+  'Margaret', 'Niklaus', 'Radia', 'Richard', 'Shafi', 'Sophie', 'Tim', 'Vint', 'Whitfield', 'Yukihiro',
+] as const;
+
+const LAST_NAMES = [
+  'Allen', 'Babbage', 'Backus', 'Berners-Lee', 'Cerf', 'Conway', 'Diffie', 'Dijkstra', 'Floyd', 'Goldwasser',
+  'Hamilton', 'Hopper', 'Johnson', 'Kay', 'Knuth', 'Lamarr', 'Liskov', 'Lovelace', 'Matsumoto', 'McCarthy',
+  'Perlman', 'Ritchie', 'Rossum', 'Spärck', 'Stroustrup', 'Sutherland', 'Thompson', 'Torvalds', 'Turing', 'Wilson',
+] as const;
+
+const WORDS = [
+  'lorem', 'ipsum', 'dolor', 'sit', 'amet', 'consectetur', 'adipiscing', 'elit', 'sed', 'do',
+  'eiusmod', 'tempor', 'incididunt', 'ut', 'labore', 'et', 'dolore', 'magna', 'aliqua', 'enim',
+  'ad', 'minim', 'veniam', 'quis', 'nostrud', 'exercitation', 'ullamco', 'laboris', 'nisi', 'aliquip',
+  'ex', 'ea', 'commodo', 'consequat', 'duis', 'aute', 'irure', 'in', 'reprehenderit', 'voluptate',
+  'velit', 'esse', 'cillum', 'fugiat', 'nulla', 'pariatur', 'excepteur', 'sint', 'occaecat', 'cupidatat',
+] as const;
+
+const SAFE_DOMAINS = ['example.com', 'example.org', 'example.net'] as const;
+
+/** Attempts made by unique() before giving up */
+const MAX_UNIQUE_ATTEMPTS = 10000;
+
+export class Faker {
+  private state: number;
+  private uniqueValues: Map<string, Set<unknown>> = new Map();
+
+  constructor(seed: number = Date.now()) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Reseed the generator to make subsequent values deterministic
+   */
+  seed(seed: number): this {
+    this.state = seed >>> 0;
+    this.uniqueValues.clear();
+    return this;
+  }
+
+  /**
+   * Get a float in [0, 1) (mulberry32)
+   */
+  random(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Return a proxy whose generated values never repeat
+   *
+   * Pass `true` to forget the values generated so far.
+   */
+  unique(reset: boolean = false): this {
+    if (reset) this.uniqueValues.clear();
+
+    return new Proxy(this, {
+      get: (target, property, receiver) => {
+        const value = Reflect.get(target, property, receiver);
+        if (typeof value !== 'function' || typeof property !== 'string') return value;
+
+        return (...args: unknown[]) => {
+          const seen = target.uniqueValues.get(property) ?? new Set<unknown>();
+          target.uniqueValues.set(property, seen);
+
+          for (let attempt = 0; attempt < MAX_UNIQUE_ATTEMPTS; attempt++) {
+            const generated = value.apply(target, args);
+            if (!seen.has(generated)) {
+              seen.add(generated);
+              return generated;
+            }
+          }
+          throw new Error(`Maximum retries of ${MAX_UNIQUE_ATTEMPTS} reached without finding a unique value for [${property}].`);
+        };
+      },
+    });
+  }
+
+  // ==================== PRIMITIVES ====================
+
+  /**
+   * Get an integer between min and max (inclusive)
+   */
+  number(min: number = 0, max: number = 100): number {
+    return Math.floor(this.random() * (max - min + 1)) + min;
+  }
+
+  /**
+   * Get a float between min and max, rounded to the given decimals
+   */
+  float(min: number = 0, max: number = 100, decimals: number = 2): number {
+    const factor = 10 ** decimals;
+    return Math.round((this.random() * (max - min) + min) * factor) / factor;
+  }
+
+  /**
+   * Get a boolean that is true with the given percentage chance
+   */
+  boolean(chanceOfTrue: number = 50): boolean {
+    return this.random() * 100 < chanceOfTrue;
+  }
+
+  /**
+   * Pick a random element from a list
+   */
+  pick<T>(items: readonly T[]): T {
+    if (items.length === 0) {
+      throw new Error('Cannot pick from an empty list.');
+    }
+    return items[Math.floor(this.random() * items.length)];
+  }
+
+  /**
+   * Pick several distinct elements from a list
+   */
+  pickMany<T>(items: readonly T[], count: number): T[] {
+    return this.shuffle(items).slice(0, count);
+  }
+
+  /**
+   * Get a shuffled copy of a list
+   */
+  shuffle<T>(items: readonly T[]): T[] {
+    const copy = [...items];
+    for (let i = copy.length - 1; i > 0; i--) {
+      const j = Math.floor(this.random() * (i + 1));
+      [copy[i], copy[j]] = [copy[j], copy[i]];
+    }
+    return copy;
+  }
+
+  /**
+   * Replace each # with a random digit
+   */
+  numerify(format: string): string {
+    return format.replace(/#/g, () => String(this.number(0, 9)));
+  }
+
+  // ==================== PEOPLE & INTERNET ====================
+
+  firstName(): string {
+    return this.pick(FIRST_NAMES);
+  }
+
+  lastName(): string {
+    return this.pick(LAST_NAMES);
+  }
+
+  name(): string {
+    return `${this.firstName()} ${this.lastName()}`;
+  }
+
+  userName(): string {
+    return `${this.firstName()}.${this.lastName()}${this.number(1, 999)}`
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[^a-z0-9.]/g, '');
+  }
+
+  /**
+   * Get an email address on a reserved example domain
+   */
+  email(): string {
+    return `${this.userName()}@${this.pick(SAFE_DOMAINS)}`;
+  }
+
+  url(): string {
+    return `https://www.${this.pick(SAFE_DOMAINS)}/${this.slug(2)}`;
+  }
+
+  phoneNumber(): string {
+    return this.numerify('555-###-####');
+  }
+
+  /**
+   * Get a random version 4 UUID
+   */
+  uuid(): string {
+    const hex = Array.from({ length: 32 }, () => this.number(0, 15).toString(16));
+    hex[12] = '4';
+    hex[16] = (8 + this.number(0, 3)).toString(16);
+    const value = hex.join('');
+    return `${value.slice(0, 8)}-${value.slice(8, 12)}-${value.slice(12, 16)}-${value.slice(16, 20)}-${value.slice(20)}`;
+  }
+
+  // ==================== TEXT ====================
+
+  word(): string {
+    return this.pick(WORDS);
+  }
+
+  words(count: number = 3): string[] {
+    return Array.from({ length: count }, () => this.word());
+  }
+
+  sentence(words: number = 6): string {
+    const text = this.words(words).join(' ');
+    return `${text.charAt(0).toUpperCase()}${text.slice(1)}.`;
+  }
+
+  paragraph(sentences: number = 3): string {
+    return Array.from({ length: sentences }, () => this.sentence(this.number(4, 10))).join(' ');
+  }
+
+  slug(words: number = 3): string {
+    return this.words(words).join('-');
+  }
+
+  // ==================== DATES ====================
+
+  /**
+   * Get a date between two dates
+   */
+  dateBetween(from: Date, to: Date = new Date()): Date {
+    return new Date(this.number(from.getTime(), to.getTime()));
+  }
+
+  /**
+   * Get a date within the past number of days
+   */
+  past(days: number = 365): Date {
+    const now = Date.now();
+    return this.dateBetween(new Date(now - days * 86400000), new Date(now));
+  }
+
+  /**
+   * Get a date within the coming number of days
+   */
+  future(days: number = 365): Date {
+    const now = Date.now();
+    return this.dateBetween(new Date(now), new Date(now + days * 86400000));
+  }
+}
+
+/** Shared generator used by factories */
+export const faker = new Faker();
+
+export default faker;
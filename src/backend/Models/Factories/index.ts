@@ -0,0 +1,9 @@
+/**
+ * Catalyst Factories Module
+ *
+ * Export the model factory base class and fake data generator.
+ */
+
+export { Factory } from './Factory';
+export type { AttributesOf, FactoryAttributes, FactoryState, FactoryCallback, CountedFactory } from './Factory';
+export { Faker, faker } from './Faker';
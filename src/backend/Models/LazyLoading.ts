@@ -0,0 +1,69 @@
+/**
+ * Catalyst Lazy Loading Detection
+ *
+ * Awaiting a relation on one model after another from the same result is
+ * the N+1 query problem: one query per model where eager loading needs one
+ * query in total. In debug mode the second lazy load of a relation across
+ * models retrieved together logs a warning, once per result and relation.
+ *
+ * @example
+ * ```ts
+ * for (const user of await User.all()) {
+ *   await user.posts(); // Warns on the second user
+ * }
+ *
+ * for (const user of await User.query().with('posts').get()) {
+ *   user.getRelation('posts'); // No extra queries
+ * }
+ * ```
+ */
+
+import type { Model } from './Model';
+import { config } from '@/backend/Services/Config';
+import { logger } from '@/backend/Services/Logger';
+import Context from '@/backend/Core/Context';
+
+/** The models each model was retrieved with */
+const results = new WeakMap<Model, Model[]>();
+
+/** Lazy loads per relation for each result */
+const lazyLoads = new WeakMap<Model[], Map<string, number>>();
+
+/**
+ * Remember that models were retrieved by the same query
+ */
+export function retrievedTogether(models: Model[]): void {
+  if (models.length < 2 || !config<boolean>('app.debug', false)) return;
+
+  const result = [...models];
+  for (const model of result) {
+    results.set(model, result);
+  }
+}
+
+/**
+ * Record a relation lazily loaded on a model, warning when it repeats across its result
+ *
+ * @param relation - A description of the relation, such as `HasMany Post`
+ */
+export function detectLazyLoading(parent: Model, relation: string): void {
+  const result = results.get(parent);
+  if (!result) return;
+
+  const counts = lazyLoads.get(result) ?? new Map<string, number>();
+  lazyLoads.set(result, counts);
+
+  const count = (counts.get(relation) ?? 0) + 1;
+  counts.set(relation, count);
+  if (count !== 2) return;
+
+  const model = parent.constructor.name;
+  logger().warning(
+    `Possible N+1 query: [${relation}] is lazy loaded on each of ${result.length} ${model} models. Eager load it with with() or load().`,
+    {
+      model,
+      relation,
+      request_id: Context.isActive() ? Context.requestId() : null,
+    }
+  );
+}
@@ -10,10 +10,25 @@
  *   protected table = 'users';
  *   protected fillable = ['name', 'email'];
  *   protected hidden = ['password'];
- *   protected casts = { created_at: 'datetime' };
+ *   protected casts = { created_at: 'datetime', ssn: 'encrypted', address: AddressCast };
+ *   protected appends = ['full_name'];
+ *   protected softDeletes = true;
+ *   protected versionColumn = 'version'; // Optimistic locking: stale saves throw StaleModelException
+ *   protected auditable = true; // Record changes in the audits table: user.audits(), user.revertTo(auditId)
+ *   protected searchable = ['name', 'bio']; // Full-text index: User.search('ada').paginate()
+ *   protected uniqueIdType = 'ulid' as const; // Generate ULID keys on insert ('uuid' for ordered UUIDs)
+ *
+ *   // Accessor (get{Name}Attribute) and mutator (set{Name}Attribute)
+ *   getFullNameAttribute() {
+ *     return `${this.getAttribute('first_name')} ${this.getAttribute('last_name')}`;
+ *   }
+ *
+ *   setEmailAttribute(value: string) {
+ *     return value.toLowerCase();
+ *   }
  *
  *   // Define relationships
- *   posts(): Promise<Post[]> {
+ *   posts() {
  *     return this.hasMany(Post, 'user_id');
  *   }
  * }
@@ -22,297 +37,51 @@
  * const user = await User.find('123');
  * const users = await User.query().where('active', true).get();
  * await user.posts(); // Relationship
+ * await User.query().with('posts', 'posts.comments').get(); // Eager loading
+ * await User.onlyTrashed().restore(); // Soft deletes
+ * await User.query().active().get(); // Local scope defined as scopeActive(query)
+ * User.observe(UserObserver); // Lifecycle events, also dispatched through Events
+ * await User.search('ada love', { highlight: ['bio'] }).where('active', true).get(); // Ranked FTS5 search
  * ```
  */
 
+import { AsyncLocalStorage } from 'async_hooks';
 import { db, dbWrite } from '@/database';
-import { eq, and, or, like, gt, gte, lt, lte, ne, inArray, isNull, isNotNull, sql } from 'drizzle-orm';
+import { runTransaction, withWriteLock } from '@/database/transactions';
+import { affectedRows, dialectOf, insertId, isMySql, isPostgres, ModelTable } from '@/database/dialect';
+import { tableFor } from '@/database/tables';
+import { eq, and, isNull, sql, getTableColumns, getTableName, SQL } from 'drizzle-orm';
 import type { SQLiteTable, SQLiteColumn } from 'drizzle-orm/sqlite-core';
-import * as schema from '@/database/schema';
-
-type EventCallback<T> = (model: T) => void | Promise<void>;
-type WhereOperator = '=' | '!=' | '<' | '<=' | '>' | '>=' | 'like' | 'in' | 'not in' | 'is null' | 'is not null';
-
-export interface QueryBuilderOptions {
-  table: SQLiteTable;
-  primaryKey: string;
-}
-
-/**
- * Query Builder for fluent database queries
- */
-export class QueryBuilder<TAttributes extends Record<string, unknown>> {
-  private conditions: Array<ReturnType<typeof eq>> = [];
-  private orderByClause: Array<{ column: string; direction: 'asc' | 'desc' }> = [];
-  private limitValue?: number;
-  private offsetValue?: number;
-  private selectColumns: string[] = [];
-
-  constructor(
-    private modelClass: typeof Model,
-    private options: QueryBuilderOptions
-  ) {}
-
-  /**
-   * Add a where condition
-   */
-  where(column: keyof TAttributes | string, operatorOrValue?: WhereOperator | unknown, value?: unknown): this {
-    const col = this.getColumn(column as string);
-    if (!col) return this;
-
-    // Handle different argument patterns
-    if (value === undefined && operatorOrValue !== undefined) {
-      // where('column', 'value') - equals
-      this.conditions.push(eq(col, operatorOrValue));
-    } else if (operatorOrValue && value !== undefined) {
-      // where('column', 'operator', 'value')
-      const op = operatorOrValue as WhereOperator;
-      switch (op) {
-        case '=':
-          this.conditions.push(eq(col, value));
-          break;
-        case '!=':
-          this.conditions.push(ne(col, value));
-          break;
-        case '<':
-          this.conditions.push(lt(col, value));
-          break;
-        case '<=':
-          this.conditions.push(lte(col, value));
-          break;
-        case '>':
-          this.conditions.push(gt(col, value));
-          break;
-        case '>=':
-          this.conditions.push(gte(col, value));
-          break;
-        case 'like':
-          this.conditions.push(like(col, value as string));
-          break;
-        case 'in':
-          this.conditions.push(inArray(col, value as unknown[]));
-          break;
-        case 'is null':
-          this.conditions.push(isNull(col));
-          break;
-        case 'is not null':
-          this.conditions.push(isNotNull(col));
-          break;
-      }
-    }
-    return this;
-  }
-
-  /**
-   * Add a where equals condition
-   */
-  whereEquals(column: keyof TAttributes | string, value: unknown): this {
-    return this.where(column, '=', value);
-  }
-
-  /**
-   * Add a where not equals condition
-   */
-  whereNot(column: keyof TAttributes | string, value: unknown): this {
-    return this.where(column, '!=', value);
-  }
-
-  /**
-   * Add a where null condition
-   */
-  whereNull(column: keyof TAttributes | string): this {
-    const col = this.getColumn(column as string);
-    if (col) this.conditions.push(isNull(col));
-    return this;
-  }
-
-  /**
-   * Add a where not null condition
-   */
-  whereNotNull(column: keyof TAttributes | string): this {
-    const col = this.getColumn(column as string);
-    if (col) this.conditions.push(isNotNull(col));
-    return this;
-  }
-
-  /**
-   * Add a where in condition
-   */
-  whereIn(column: keyof TAttributes | string, values: unknown[]): this {
-    const col = this.getColumn(column as string);
-    if (col) this.conditions.push(inArray(col, values));
-    return this;
-  }
-
-  /**
-   * Add a where like condition
-   */
-  whereLike(column: keyof TAttributes | string, pattern: string): this {
-    return this.where(column, 'like', pattern);
-  }
-
-  /**
-   * Order by a column
-   */
-  orderBy(column: keyof TAttributes | string, direction: 'asc' | 'desc' = 'asc'): this {
-    this.orderByClause.push({ column: column as string, direction });
-    return this;
-  }
-
-  /**
-   * Order by descending
-   */
-  orderByDesc(column: keyof TAttributes | string): this {
-    return this.orderBy(column, 'desc');
-  }
-
-  /**
-   * Limit results
-   */
-  limit(count: number): this {
-    this.limitValue = count;
-    return this;
-  }
-
-  /**
-   * Alias for limit
-   */
-  take(count: number): this {
-    return this.limit(count);
-  }
-
-  /**
-   * Offset results
-   */
-  offset(count: number): this {
-    this.offsetValue = count;
-    return this;
-  }
-
-  /**
-   * Alias for offset
-   */
-  skip(count: number): this {
-    return this.offset(count);
-  }
-
-  /**
-   * Select specific columns
-   */
-  select(...columns: (keyof TAttributes | string)[]): this {
-    this.selectColumns = columns as string[];
-    return this;
-  }
-
-  /**
-   * Get the column reference from the table
-   */
-  private getColumn(name: string): SQLiteColumn | null {
-    const table = this.options.table as unknown as Record<string, SQLiteColumn>;
-    return table[name] || null;
-  }
-
-  /**
-   * Build and execute the query, return all results
-   */
-  async get(): Promise<Model<TAttributes>[]> {
-    let query = db().select().from(this.options.table);
-
-    // Apply conditions
-    if (this.conditions.length > 0) {
-      query = query.where(and(...this.conditions)) as typeof query;
-    }
-
-    // Apply limit and offset
-    if (this.limitValue !== undefined) {
-      query = query.limit(this.limitValue) as typeof query;
-    }
-    if (this.offsetValue !== undefined) {
-      query = query.offset(this.offsetValue) as typeof query;
-    }
-
-    const results = await query.all();
-
-    return results.map((row) => {
-      const instance = new (this.modelClass as unknown as new (attrs: Partial<TAttributes>) => Model<TAttributes>)(
-        row as Partial<TAttributes>
-      );
-      instance.exists = true;
-      instance.syncOriginal();
-      return instance;
-    });
-  }
-
-  /**
-   * Get the first result
-   */
-  async first(): Promise<Model<TAttributes> | null> {
-    this.limitValue = 1;
-    const results = await this.get();
-    return results[0] || null;
-  }
-
-  /**
-   * Get the first result or throw
-   */
-  async firstOrFail(): Promise<Model<TAttributes>> {
-    const result = await this.first();
-    if (!result) {
-      throw new Error('No record found');
-    }
-    return result;
-  }
-
-  /**
-   * Get count of results
-   */
-  async count(): Promise<number> {
-    let query = db()
-      .select({ count: sql<number>`count(*)` })
-      .from(this.options.table);
-
-    if (this.conditions.length > 0) {
-      query = query.where(and(...this.conditions)) as typeof query;
-    }
-
-    const result = await query.get();
-    return result?.count || 0;
-  }
-
-  /**
-   * Check if any records exist
-   */
-  async exists(): Promise<boolean> {
-    const count = await this.count();
-    return count > 0;
-  }
-
-  /**
-   * Delete matching records
-   */
-  async delete(): Promise<number> {
-    let query = dbWrite().delete(this.options.table);
-
-    if (this.conditions.length > 0) {
-      query = query.where(and(...this.conditions)) as typeof query;
-    }
-
-    await query;
-    return 1; // SQLite doesn't return affected rows easily
-  }
-
-  /**
-   * Update matching records
-   */
-  async update(data: Partial<TAttributes>): Promise<number> {
-    let query = dbWrite().update(this.options.table).set(data as Record<string, unknown>);
-
-    if (this.conditions.length > 0) {
-      query = query.where(and(...this.conditions)) as typeof query;
-    }
-
-    await query;
-    return 1;
+import type { MySqlDatabase, MySqlQueryResultHKT, MySqlTable, PreparedQueryHKTBase } from 'drizzle-orm/mysql-core';
+import { QueryBuilder, ModelConstructor, EagerLoadDefinition, ScopedQueryBuilder } from './QueryBuilder';
+import type { ModelCollection } from './ModelCollection';
+import type { Scope, GlobalScope } from './Scope';
+import { BUILT_IN_CASTS, CastsAttributes, CastType } from './Casts';
+import { Encrypter } from '@/backend/Services/Encrypter';
+import Context from '@/backend/Core/Context';
+import { audits as auditsTable } from '@/database/schema';
+import { HasOne } from './Relations/HasOne';
+import { HasMany } from './Relations/HasMany';
+import { BelongsTo } from './Relations/BelongsTo';
+import { BelongsToMany } from './Relations/BelongsToMany';
+import { MorphOne } from './Relations/MorphOne';
+import { MorphMany } from './Relations/MorphMany';
+import { MorphTo } from './Relations/MorphTo';
+import { MorphToMany } from './Relations/MorphToMany';
+import { HasManyThrough } from './Relations/HasManyThrough';
+import { HasOneThrough } from './Relations/HasOneThrough';
+import { Relation } from './Relations/Relation';
+import { MODEL_EVENTS, ModelEventCallback, ModelEventName, ModelObserver } from './ModelEvents';
+import { SearchIndex, SearchableObserver, SearchOptions } from './Searchable';
+import { newUniqueId, UniqueIdType } from './UniqueIds';
+import { EventDispatcher } from '@/backend/Events/Dispatcher';
+
+export class StaleModelException extends Error {
+  public status: number = 409;
+
+  constructor(public readonly model: Model, message?: string) {
+    super(message ?? `The [${model.constructor.name}] record was modified by another process. Reload it and try again.`);
+    this.name = 'StaleModelException';
   }
 }
 
@@ -320,15 +89,21 @@ export abstract class Model<TAttributes extends Record<string, unknown> = Record
   /** The table name associated with the model */
   protected abstract table: string;
 
-  /** The Drizzle schema table reference */
-  protected abstract schemaTable: SQLiteTable;
+  /** The Drizzle schema table reference, from sqlite-core or pg-core */
+  protected abstract schemaTable: ModelTable;
 
-  /** The primary key column name */
-  protected primaryKey: string = 'id';
+  /** The primary key column name, or the columns of a composite key */
+  protected primaryKey: string | string[] = 'id';
 
   /** Indicates if the model's ID is auto-incrementing */
   protected incrementing: boolean = true;
 
+  /** The type of the primary key, used when reading back an autoincrement id */
+  protected keyType: 'int' | 'string' = 'int';
+
+  /** Generate a UUID (version 7) or ULID for the key on insert, making it a non-incrementing string */
+  protected uniqueIdType: UniqueIdType | null = null;
+
   /** The attributes that are mass assignable */
   protected fillable: (keyof TAttributes)[] = [];
 
@@ -341,8 +116,11 @@ export abstract class Model<TAttributes extends Record<string, unknown> = Record
   /** The attributes that should be visible in JSON serialization */
   protected visible: (keyof TAttributes)[] = [];
 
-  /** The attribute type casting configuration */
-  protected casts: Partial<Record<keyof TAttributes, string>> = {};
+  /** The attribute type casting configuration: a built-in cast name or a cast class */
+  protected casts: Partial<Record<keyof TAttributes, CastType>> = {};
+
+  /** Accessor attributes added to JSON serialization */
+  protected appends: string[] = [];
 
   /** The model's attributes */
   protected attributes: Partial<TAttributes> = {};
@@ -360,16 +138,53 @@ export abstract class Model<TAttributes extends Record<string, unknown> = Record
   protected static CREATED_AT = 'created_at';
   protected static UPDATED_AT = 'updated_at';
 
+  /** Soft delete column name */
+  protected static DELETED_AT = 'deleted_at';
+
   /** Whether to use timestamps */
   protected timestamps: boolean = true;
 
-  /** Event callbacks */
-  private static eventCallbacks: Map<string, EventCallback<Model>[]> = new Map();
+  /** Whether deleting sets deleted_at instead of removing the row */
+  protected softDeletes: boolean = false;
+
+  /** Column incremented on every update for optimistic locking, or null to disable it */
+  protected versionColumn: string | null = null;
+
+  /** Whether changes are recorded in the audits table */
+  protected auditable: boolean = false;
+
+  /** Attributes left out of audits, in addition to hidden attributes */
+  protected auditExclude: string[] = [];
+
+  /** Event recorded for the next update instead of `updated` */
+  private pendingAuditEvent: AuditEvent | null = null;
+
+  /** Columns indexed for full-text search by Model.search() */
+  protected searchable: string[] = [];
+
+  /** Event callbacks and observer methods, keyed by `{Class}.{event}` */
+  private static eventCallbacks: Map<string, ModelEventCallback<Model>[]> = new Map();
+
+  /** Set inside withoutEvents() callbacks, for their async context only */
+  private static eventsMuted = new AsyncLocalStorage<boolean>();
+
+  /** Global scopes registered per model class */
+  private static globalScopes: Map<string, Map<string, GlobalScope>> = new Map();
+
+  /** Model classes that have already been booted */
+  private static bootedModels: Set<string> = new Set();
 
   /** Loaded relationships */
   protected relations: Map<string, unknown> = new Map();
 
+  /** Objects returned by cast classes, written back before saving */
+  private classCastCache: Map<string, unknown> = new Map();
+
+  /** Encrypter used by the encrypted casts, overriding the application encrypter */
+  private static encrypter: Encrypter | null = null;
+
   constructor(attributes: Partial<TAttributes> = {}) {
+    (this.constructor as typeof Model).bootIfNotBooted();
     this.fill(attributes);
   }
 
@@ -380,12 +195,95 @@ export abstract class Model<TAttributes extends Record<string, unknown> = Record
    */
   public static query<T extends Model<R>, R extends Record<string, unknown> = Record<string, unknown>>(
     this: new (attrs?: Partial<R>) => T
-  ): QueryBuilder<R> {
-    const instance = new this();
-    return new QueryBuilder<R>(Model, {
-      table: instance.schemaTable,
-      primaryKey: instance.primaryKey,
-    });
+  ): ScopedQueryBuilder<R, T> {
+    return new this().newQuery() as ScopedQueryBuilder<R, T>;
+  }
+
+  /**
+   * Begin a query with eager loaded relationships
+   */
+  public static with<T extends Model<R>, R extends Record<string, unknown> = Record<string, unknown>>(
+    this: new (attrs?: Partial<R>) => T,
+    ...relations: EagerLoadDefinition[]
+  ): ScopedQueryBuilder<R, T> {
+    return (new this().newQuery() as ScopedQueryBuilder<R, T>).with(...relations);
+  }
+
+  /**
+   * Begin a query that includes soft deleted models
+   */
+  public static withTrashed<T extends Model<R>, R extends Record<string, unknown> = Record<string, unknown>>(
+    this: new (attrs?: Partial<R>) => T
+  ): ScopedQueryBuilder<R, T> {
+    return (new this().newQuery() as ScopedQueryBuilder<R, T>).withTrashed();
+  }
+
+  /**
+   * Begin a query that only returns soft deleted models
+   */
+  public static onlyTrashed<T extends Model<R>, R extends Record<string, unknown> = Record<string, unknown>>(
+    this: new (attrs?: Partial<R>) => T
+  ): ScopedQueryBuilder<R, T> {
+    return (new this().newQuery() as ScopedQueryBuilder<R, T>).onlyTrashed();
+  }
+
+  /**
+   * Begin a full-text search, ordered by relevance (best match first)
+   *
+   * Each model gets a `search_rank` attribute, plus `{column}_highlight`
+   * attributes for the highlighted columns.
+   */
+  public static search<T extends Model<R>, R extends Record<string, unknown> = Record<string, unknown>>(
+    this: new (attrs?: Partial<R>) => T,
+    term: string,
+    options: SearchOptions = {}
+  ): ScopedQueryBuilder<R, T> {
+    const model = new this();
+    if (!model.isSearchable()) {
+      throw new Error(`Model [${this.name}] has no searchable columns.`);
+    }
+    const query = model.newQuery() as ScopedQueryBuilder<R, T>;
+    new SearchIndex(model as unknown as Model).apply(query as unknown as QueryBuilder<Record<string, unknown>>, term, options);
+    return query;
+  }
+
+  /**
+   * Eager load relationships onto already-fetched models that don't have them yet
+   */
+  public static async loadMissing<T extends Model>(models: T[], ...relations: string[]): Promise<T[]> {
+    if (models.length === 0) return models;
+
+    for (const relation of relations) {
+      await Model.loadMissingPath(models, relation.split('.'));
+    }
+    return models;
+  }
+
+  /**
+   * Walk a dotted relation path, loading the first missing segment with the rest nested
+   */
+  private static async loadMissingPath(models: Model[], segments: string[]): Promise<void> {
+    const [name, ...rest] = segments;
+    const missing = models.filter((model) => !model.relationLoaded(name));
+
+    if (missing.length > 0) {
+      await missing[0].newQuery().with(segments.join('.')).eagerLoadRelations(missing);
+    }
+
+    if (rest.length === 0) return;
+
+    const children: Model[] = [];
+    for (const model of models) {
+      if (!missing.includes(model)) {
+        const loaded = model.getRelation<Model | Model[] | null>(name);
+        if (Array.isArray(loaded)) children.push(...loaded);
+        else if (loaded) children.push(loaded);
+      }
+    }
+
+    if (children.length > 0) {
+      await Model.loadMissingPath(children, rest);
+    }
   }
 
   /**
@@ -396,23 +294,11 @@ export abstract class Model<TAttributes extends Record<string, unknown> = Record
     id: unknown
   ): Promise<T | null> {
     const instance = new this();
-    const table = instance.schemaTable as unknown as Record<string, SQLiteColumn>;
-    const pkColumn = table[instance.primaryKey];
-
-    if (!pkColumn) return null;
+    const table = instance.getSchemaTable() as unknown as Record<string, SQLiteColumn>;
 
-    const result = await db()
-      .select()
-      .from(instance.schemaTable)
-      .where(eq(pkColumn, id))
-      .get();
+    if (instance.getKeyNames().some((name) => !table[name])) return null;
 
-    if (!result) return null;
-
-    const model = new this(result as Partial<R>);
-    model.exists = true;
-    model.syncOriginal();
-    return model;
+    return instance.newQuery().find(id);
   }
 
   /**
@@ -435,16 +321,8 @@ export abstract class Model<TAttributes extends Record<string, unknown> = Record
    */
   public static async all<T extends Model<R>, R extends Record<string, unknown>>(
     this: new (attrs?: Partial<R>) => T
-  ): Promise<T[]> {
-    const instance = new this();
-    const results = await db().select().from(instance.schemaTable).all();
-
-    return results.map((row) => {
-      const model = new this(row as Partial<R>);
-      model.exists = true;
-      model.syncOriginal();
-      return model;
-    });
+  ): Promise<ModelCollection<T>> {
+    return new this().newQuery().get();
   }
 
   /**
@@ -467,27 +345,10 @@ export abstract class Model<TAttributes extends Record<string, unknown> = Record
     search: Partial<R>,
     additional: Partial<R> = {}
   ): Promise<T> {
-    const instance = new this();
-    const table = instance.schemaTable as unknown as Record<string, SQLiteColumn>;
-
-    const conditions = Object.entries(search).map(([key, value]) => {
-      const col = table[key];
-      return col ? eq(col, value) : null;
-    }).filter(Boolean);
+    const existing = await Model.firstMatching(new this(), search);
 
-    if (conditions.length > 0) {
-      const existing = await db()
-        .select()
-        .from(instance.schemaTable)
-        .where(and(...(conditions as ReturnType<typeof eq>[])))
-        .get();
-
-      if (existing) {
-        const model = new this(existing as Partial<R>);
-        model.exists = true;
-        model.syncOriginal();
-        return model;
-      }
+    if (existing) {
+      return existing;
     }
 
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -502,28 +363,12 @@ export abstract class Model<TAttributes extends Record<string, unknown> = Record
     search: Partial<R>,
     update: Partial<R>
   ): Promise<T> {
-    const instance = new this();
-    const table = instance.schemaTable as unknown as Record<string, SQLiteColumn>;
-
-    const conditions = Object.entries(search).map(([key, value]) => {
-      const col = table[key];
-      return col ? eq(col, value) : null;
-    }).filter(Boolean);
+    const existing = await Model.firstMatching(new this(), search);
 
-    if (conditions.length > 0) {
-      const existing = await db()
-        .select()
-        .from(instance.schemaTable)
-        .where(and(...(conditions as ReturnType<typeof eq>[])))
-        .get();
-
-      if (existing) {
-        const model = new this(existing as Partial<R>);
-        model.exists = true;
-        model.fill(update);
-        await model.save();
-        return model;
-      }
+    if (existing) {
+      existing.fill(update);
+      await existing.save();
+      return existing;
     }
 
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -538,76 +383,383 @@ export abstract class Model<TAttributes extends Record<string, unknown> = Record
     ids: unknown | unknown[]
   ): Promise<number> {
     const instance = new this();
-    const table = instance.schemaTable as unknown as Record<string, SQLiteColumn>;
-    const pkColumn = table[instance.primaryKey];
+    const table = instance.getSchemaTable() as unknown as Record<string, SQLiteColumn>;
 
-    if (!pkColumn) return 0;
+    if (instance.getKeyNames().some((name) => !table[name])) return 0;
 
-    const idsArray = Array.isArray(ids) ? ids : [ids];
+    // A composite key is an array of values; several keys are an array of those
+    const idsArray = Array.isArray(ids) && !(instance.hasCompositeKey() && !Array.isArray(ids[0])) ? ids : [ids];
 
-    await dbWrite()
-      .delete(instance.schemaTable)
-      .where(inArray(pkColumn, idsArray));
+    await instance.newQuery().whereKey(idsArray).delete();
 
     return idsArray.length;
   }
 
-  // ==================== MODEL EVENTS ====================
-
-  protected static booting(): void {}
-  protected static booted(): void {}
-
-  public static creating<T extends Model>(callback: EventCallback<T>): void {
-    this.registerEvent('creating', callback as EventCallback<Model>);
+  /**
+   * Insert rows in multi-row batches inside one transaction
+   *
+   * Rows are written as given: casts, mutators and model events are skipped.
+   * Timestamps are filled in when the model uses them.
+   *
+   * @returns The number of inserted rows
+   */
+  public static async insert<T extends Model<R>, R extends Record<string, unknown>>(
+    this: new (attrs?: Partial<R>) => T,
+    rows: Partial<R>[]
+  ): Promise<number> {
+    return Model.insertBatches(new this() as unknown as Model, rows);
   }
 
-  public static created<T extends Model>(callback: EventCallback<T>): void {
-    this.registerEvent('created', callback as EventCallback<Model>);
+  /**
+   * Insert rows, skipping those that violate a unique or primary key constraint
+   *
+   * @returns The number of inserted rows
+   */
+  public static async insertOrIgnore<T extends Model<R>, R extends Record<string, unknown>>(
+    this: new (attrs?: Partial<R>) => T,
+    rows: Partial<R>[]
+  ): Promise<number> {
+    return Model.insertBatches(new this() as unknown as Model, rows, { ignore: true });
   }
 
-  public static updating<T extends Model>(callback: EventCallback<T>): void {
-    this.registerEvent('updating', callback as EventCallback<Model>);
-  }
+  /**
+   * Insert rows, updating the existing rows that match on the unique columns
+   *
+   * @param uniqueBy - Columns of a primary key or unique index identifying a row
+   * @param updateColumns - Columns to update on conflict (default: every inserted column except uniqueBy)
+   * @returns The number of inserted or updated rows
+   */
+  public static async upsert<T extends Model<R>, R extends Record<string, unknown>>(
+    this: new (attrs?: Partial<R>) => T,
+    rows: Partial<R>[],
+    uniqueBy: (keyof R & string) | (keyof R & string)[],
+    updateColumns?: (keyof R & string)[]
+  ): Promise<number> {
+    const unique = Array.isArray(uniqueBy) ? uniqueBy : [uniqueBy];
+    const update = updateColumns ?? Array.from(new Set(rows.flatMap((row) => Object.keys(row)))).filter(
+      (column) => !unique.includes(column as keyof R & string)
+    );
 
-  public static updated<T extends Model>(callback: EventCallback<T>): void {
-    this.registerEvent('updated', callback as EventCallback<Model>);
+    return Model.insertBatches(new this() as unknown as Model, rows, { uniqueBy: unique, update });
   }
 
-  public static deleting<T extends Model>(callback: EventCallback<T>): void {
-    this.registerEvent('deleting', callback as EventCallback<Model>);
-  }
+  /** SQLite's default limit on bound variables in one statement */
+  private static readonly MAX_BINDINGS = 999;
+
+  /**
+   * Insert rows in chunks that stay under the SQLite variable limit
+   */
+  private static async insertBatches(
+    instance: Model,
+    rows: Record<string, unknown>[],
+    conflict: { ignore?: boolean; uniqueBy?: string[]; update?: string[] } = {}
+  ): Promise<number> {
+    if (rows.length === 0) return 0;
+
+    const table = instance.getSchemaTable();
+    const columns = getTableColumns(table) as Record<string, SQLiteColumn>;
+    const column = (name: string): SQLiteColumn => {
+      if (!columns[name]) {
+        throw new Error(`Column [${name}] not found on table [${getTableName(table)}].`);
+      }
+      return columns[name];
+    };
+
+    const now = new Date();
+    const timestamps: Record<string, Date> = {};
+    if (instance.timestamps) {
+      for (const name of [Model.CREATED_AT, Model.UPDATED_AT]) {
+        if (columns[name]) timestamps[name] = now;
+      }
+    }
+    const values = rows.map((row) => ({ ...timestamps, ...row }));
+
+    // MySQL refers to the proposed row with VALUES(column) rather than EXCLUDED
+    const mysql = isMySql(dbWrite());
+    const proposed = (name: string): SQL => mysql
+      ? sql`values(${sql.identifier(column(name).name)})`
+      : sql`excluded.${sql.identifier(column(name).name)}`;
+
+    const target = conflict.uniqueBy?.map(column);
+    const set: Record<string, SQL> = {};
+    for (const name of conflict.update ?? []) {
+      set[name] = proposed(name);
+    }
+    if (target && Model.UPDATED_AT in timestamps && !(Model.UPDATED_AT in set)) {
+      set[Model.UPDATED_AT] = proposed(Model.UPDATED_AT);
+    }
 
-  public static deleted<T extends Model>(callback: EventCallback<T>): void {
-    this.registerEvent('deleted', callback as EventCallback<Model>);
+    // Each row binds at most one variable per table column
+    const batchSize = Math.max(1, Math.floor(Model.MAX_BINDINGS / Object.keys(columns).length));
+
+    return runTransaction(dbWrite(), async (tx) => {
+      let changes = 0;
+      for (let offset = 0; offset < values.length; offset += batchSize) {
+        const batch = values.slice(offset, offset + batchSize);
+
+        if (mysql) {
+          changes += affectedRows(await Model.insertMySqlBatch(tx, table, batch, conflict.ignore, target, set));
+          continue;
+        }
+
+        const query = tx.insert(table).values(batch);
+
+        if (conflict.ignore) {
+          changes += affectedRows(await query.onConflictDoNothing());
+        } else if (target && Object.keys(set).length > 0) {
+          changes += affectedRows(await query.onConflictDoUpdate({ target, set }));
+        } else if (target) {
+          changes += affectedRows(await query.onConflictDoNothing({ target }));
+        } else {
+          changes += affectedRows(await query);
+        }
+      }
+      return changes;
+    });
   }
 
-  private static registerEvent(event: string, callback: EventCallback<Model>): void {
-    const key = `${this.name}.${event}`;
-    const callbacks = this.eventCallbacks.get(key) || [];
-    callbacks.push(callback);
-    this.eventCallbacks.set(key, callbacks);
+  /**
+   * Insert a batch on MySQL, which has INSERT IGNORE and ON DUPLICATE KEY UPDATE
+   * in place of conflict targets
+   *
+   * Without columns to update, the first unique column is set to itself so
+   * duplicate rows are skipped rather than failing.
+   */
+  private static insertMySqlBatch(
+    connection: object,
+    table: SQLiteTable,
+    batch: Record<string, unknown>[],
+    ignore: boolean | undefined,
+    target: SQLiteColumn[] | undefined,
+    set: Record<string, SQL>
+  ): Promise<unknown> {
+    const insert = (connection as unknown as MySqlDatabase<MySqlQueryResultHKT, PreparedQueryHKTBase>).insert(table as unknown as MySqlTable);
+
+    if (ignore) {
+      return insert.ignore().values(batch);
+    }
+    if (target && Object.keys(set).length === 0) {
+      set = { [target[0].name]: sql`${sql.identifier(target[0].name)}` };
+    }
+    return target ? insert.values(batch).onDuplicateKeyUpdate({ set }) : insert.values(batch);
   }
 
-  protected async fireEvent(event: string): Promise<void> {
-    const key = `${this.constructor.name}.${event}`;
-    const callbacks = Model.eventCallbacks.get(key) || [];
-    for (const callback of callbacks) {
-      await callback(this as unknown as Model);
+  /**
+   * Find the first model whose columns match the given values
+   */
+  private static async firstMatching<T extends Model<R>, R extends Record<string, unknown>>(
+    instance: T,
+    search: Partial<R>
+  ): Promise<T | null> {
+    const table = instance.getSchemaTable() as unknown as Record<string, SQLiteColumn>;
+    const columns = Object.keys(search).filter((key) => table[key]);
+
+    if (columns.length === 0) return null;
+
+    const query = instance.newQuery();
+    for (const column of columns) {
+      query.where(column, '=', search[column]);
     }
+    return query.first();
   }
 
-  // ==================== ATTRIBUTE MANAGEMENT ====================
+  // ==================== BOOTING & GLOBAL SCOPES ====================
 
-  public fill(attributes: Partial<TAttributes>): this {
-    for (const [key, value] of Object.entries(attributes)) {
-      if (this.isFillable(key as keyof TAttributes)) {
-        this.setAttribute(key as keyof TAttributes, value as TAttributes[keyof TAttributes]);
+  /**
+   * Run the booting/booted hooks the first time a model class is instantiated
+   */
+  protected static bootIfNotBooted(): void {
+    if (Model.bootedModels.has(this.name)) return;
+
+    Model.bootedModels.add(this.name);
+    Relation.registerMorphModel(this as unknown as ModelConstructor);
+    const model = new (this as unknown as ModelConstructor)();
+    if (model.isSearchable()) {
+      try {
+        SearchIndex.assertIndexable(model);
+      } catch (error) {
+        Model.bootedModels.delete(this.name);
+        throw error;
+      }
+      // Other dialects hold no index: search() throws instead of every save failing after its write
+      if (SearchIndex.isAvailable()) {
+        this.observe(SearchableObserver);
       }
     }
-    return this;
+    this.booting();
+    this.booted();
   }
 
-  protected isFillable(key: keyof TAttributes): boolean {
+  protected static booting(): void {}
+  protected static booted(): void {}
+
+  /**
+   * Register a global scope applied to every query for the model
+   */
+  public static addGlobalScope(scope: string | Scope, implementation?: GlobalScope): void {
+    const scopes = Model.globalScopes.get(this.name) || new Map<string, GlobalScope>();
+
+    if (typeof scope === 'string') {
+      if (!implementation) {
+        throw new Error(`Global scope [${scope}] must have an implementation.`);
+      }
+      scopes.set(scope, implementation);
+    } else {
+      scopes.set(scope.constructor.name, scope);
+    }
+
+    Model.globalScopes.set(this.name, scopes);
+  }
+
+  /**
+   * Determine if the model has the given global scope
+   */
+  public static hasGlobalScope(scope: string | (new () => Scope)): boolean {
+    const name = typeof scope === 'string' ? scope : scope.name;
+    return Model.globalScopes.get(this.name)?.has(name) ?? false;
+  }
+
+  /**
+   * Get the global scopes registered for this model's class
+   */
+  public getGlobalScopes(): Map<string, GlobalScope> {
+    return Model.globalScopes.get(this.constructor.name) || new Map<string, GlobalScope>();
+  }
+
+  // ==================== MODEL EVENTS ====================
+
+  public static retrieved<T extends Model>(callback: ModelEventCallback<T>): void {
+    this.registerEvent('retrieved', callback as ModelEventCallback<Model>);
+  }
+
+  public static creating<T extends Model>(callback: ModelEventCallback<T>): void {
+    this.registerEvent('creating', callback as ModelEventCallback<Model>);
+  }
+
+  public static created<T extends Model>(callback: ModelEventCallback<T>): void {
+    this.registerEvent('created', callback as ModelEventCallback<Model>);
+  }
+
+  public static updating<T extends Model>(callback: ModelEventCallback<T>): void {
+    this.registerEvent('updating', callback as ModelEventCallback<Model>);
+  }
+
+  public static updated<T extends Model>(callback: ModelEventCallback<T>): void {
+    this.registerEvent('updated', callback as ModelEventCallback<Model>);
+  }
+
+  public static saving<T extends Model>(callback: ModelEventCallback<T>): void {
+    this.registerEvent('saving', callback as ModelEventCallback<Model>);
+  }
+
+  public static saved<T extends Model>(callback: ModelEventCallback<T>): void {
+    this.registerEvent('saved', callback as ModelEventCallback<Model>);
+  }
+
+  public static deleting<T extends Model>(callback: ModelEventCallback<T>): void {
+    this.registerEvent('deleting', callback as ModelEventCallback<Model>);
+  }
+
+  public static deleted<T extends Model>(callback: ModelEventCallback<T>): void {
+    this.registerEvent('deleted', callback as ModelEventCallback<Model>);
+  }
+
+  public static restoring<T extends Model>(callback: ModelEventCallback<T>): void {
+    this.registerEvent('restoring', callback as ModelEventCallback<Model>);
+  }
+
+  public static restored<T extends Model>(callback: ModelEventCallback<T>): void {
+    this.registerEvent('restored', callback as ModelEventCallback<Model>);
+  }
+
+  /**
+   * Register an observer whose methods handle the model's events
+   */
+  public static observe<T extends Model>(observer: ModelObserver<T> | (new () => ModelObserver<T>)): void {
+    const instance = typeof observer === 'function' ? new observer() : observer;
+
+    for (const event of Object.keys(MODEL_EVENTS) as ModelEventName[]) {
+      const method = instance[event];
+      if (typeof method === 'function') {
+        this.registerEvent(event, ((model: T) => method.call(instance, model)) as ModelEventCallback<Model>);
+      }
+    }
+  }
+
+  /**
+   * Run a callback without firing model events
+   *
+   * Only code in the callback's async context is muted: concurrent requests
+   * keep their events and observers.
+   */
+  public static async withoutEvents<T>(callback: () => T | Promise<T>): Promise<T> {
+    return Model.eventsMuted.run(true, async () => callback());
+  }
+
+  /**
+   * Remove all event callbacks and observers registered for the model
+   */
+  public static flushEventListeners(): void {
+    for (const key of Array.from(Model.eventCallbacks.keys())) {
+      if (key.startsWith(`${this.name}.`)) {
+        Model.eventCallbacks.delete(key);
+      }
+    }
+  }
+
+  private static registerEvent(event: ModelEventName, callback: ModelEventCallback<Model>): void {
+    const key = `${this.name}.${event}`;
+    const callbacks = this.eventCallbacks.get(key) || [];
+    callbacks.push(callback);
+    this.eventCallbacks.set(key, callbacks);
+  }
+
+  /**
+   * Fire a model event to registered callbacks, then through the EventDispatcher
+   *
+   * @param halt - Stop and return false when a callback returns false
+   * @returns false when the event was cancelled
+   */
+  public async fireModelEvent(event: ModelEventName, halt: boolean = true): Promise<boolean> {
+    if (Model.eventsMuted.getStore()) return true;
+
+    const callbacks = Model.eventCallbacks.get(`${this.constructor.name}.${event}`) || [];
+    for (const callback of callbacks) {
+      if ((await callback(this as unknown as Model)) === false && halt) {
+        return false;
+      }
+    }
+
+    const dispatcher = EventDispatcher.getInstance();
+    const eventClass = MODEL_EVENTS[event];
+    if (dispatcher.isFake() || dispatcher.hasListeners(eventClass.name)) {
+      await dispatcher.dispatch(new eventClass(this as unknown as Model));
+    }
+    return true;
+  }
+
+  // ==================== ATTRIBUTE MANAGEMENT ====================
+
+  public fill(attributes: Partial<TAttributes>): this {
+    for (const [key, value] of Object.entries(attributes)) {
+      if (this.isFillable(key as keyof TAttributes)) {
+        this.setAttribute(key as keyof TAttributes, value as TAttributes[keyof TAttributes]);
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Fill attributes, ignoring the fillable and guarded lists
+   */
+  public forceFill(attributes: Partial<TAttributes>): this {
+    for (const [key, value] of Object.entries(attributes)) {
+      this.setAttribute(key as keyof TAttributes, value as TAttributes[keyof TAttributes]);
+    }
+    return this;
+  }
+
+  protected isFillable(key: keyof TAttributes): boolean {
     if (this.guarded.includes(key)) {
       return false;
     }
@@ -617,17 +769,133 @@ export abstract class Model<TAttributes extends Record<string, unknown> = Record
     return true;
   }
 
+  /**
+   * Set an attribute through its mutator or cast
+   *
+   * A `set{Name}Attribute` mutator's return value is stored; return undefined
+   * after writing attributes yourself.
+   */
   public setAttribute<K extends keyof TAttributes>(key: K, value: TAttributes[K]): this {
+    const mutator = this.getMutator('set', key as string);
+    if (mutator) {
+      const mutated = mutator.call(this, value);
+      if (mutated !== undefined) {
+        this.attributes[key] = mutated as TAttributes[K];
+      }
+      return this;
+    }
+
+    const caster = this.getCaster(key);
+    if (caster) {
+      this.classCastCache.delete(key as string);
+      this.setCastAttribute(key as string, caster.set(this as unknown as Model, key as string, value, this.attributes));
+      return this;
+    }
+
     this.attributes[key] = value;
     return this;
   }
 
+  /**
+   * Get an attribute through its accessor or cast
+   */
   public getAttribute<K extends keyof TAttributes>(key: K): TAttributes[K] | undefined {
     const value = this.attributes[key];
+
+    const accessor = this.getMutator('get', key as string);
+    if (accessor) {
+      return accessor.call(this, value) as TAttributes[K];
+    }
     return this.castAttribute(key, value);
   }
 
+  /**
+   * Get all raw (uncast) attributes
+   */
+  public getAttributes(): Partial<TAttributes> {
+    this.mergeAttributesFromClassCasts();
+    return { ...this.attributes };
+  }
+
+  /**
+   * Add accessor attributes to JSON serialization
+   */
+  public append(...attributes: string[]): this {
+    this.appends = Array.from(new Set([...this.appends, ...attributes]));
+    return this;
+  }
+
+  /**
+   * Use a specific encrypter for encrypted casts (pass null to restore the application encrypter)
+   */
+  public static encryptUsing(encrypter: Encrypter | null): void {
+    Model.encrypter = encrypter;
+  }
+
+  /**
+   * Get the encrypter used by encrypted casts
+   */
+  public static currentEncrypter(): Encrypter {
+    return Model.encrypter ?? Encrypter.getInstance();
+  }
+
+  /**
+   * Find the `get{Name}Attribute` / `set{Name}Attribute` method for an attribute
+   */
+  protected getMutator(prefix: 'get' | 'set', key: string): ((value: unknown) => unknown) | null {
+    const studly = key.replace(/(?:^|[_-])(\w)/g, (_, char: string) => char.toUpperCase());
+    const method = (this as unknown as Record<string, unknown>)[`${prefix}${studly}Attribute`];
+    return typeof method === 'function' ? (method as (value: unknown) => unknown) : null;
+  }
+
+  /**
+   * Resolve the cast object for an attribute: a built-in, a cast class or a cast instance
+   */
+  protected getCaster(key: keyof TAttributes): CastsAttributes | null {
+    const cast = this.casts[key];
+    if (!cast) return null;
+    if (typeof cast === 'string') return BUILT_IN_CASTS[cast] ?? null;
+    return typeof cast === 'function' ? new cast() : cast;
+  }
+
+  /**
+   * Store a value returned by a cast, merging plain objects as several columns
+   */
+  private setCastAttribute(key: string, stored: unknown): void {
+    if (stored !== null && typeof stored === 'object' && Object.getPrototypeOf(stored) === Object.prototype) {
+      Object.assign(this.attributes, stored);
+    } else {
+      this.attributes[key as keyof TAttributes] = stored as TAttributes[keyof TAttributes];
+    }
+  }
+
+  /**
+   * Write objects returned by cast classes back, so changes made to them are saved
+   */
+  private mergeAttributesFromClassCasts(): void {
+    for (const [key, value] of this.classCastCache) {
+      const caster = this.getCaster(key as keyof TAttributes);
+      if (caster) {
+        this.setCastAttribute(key, caster.set(this as unknown as Model, key, value, this.attributes));
+      }
+    }
+  }
+
   protected castAttribute<K extends keyof TAttributes>(key: K, value: unknown): TAttributes[K] | undefined {
+    const caster = this.getCaster(key);
+    if (caster) {
+      if (this.classCastCache.has(key as string)) {
+        return this.classCastCache.get(key as string) as TAttributes[K];
+      }
+
+      const cast = caster.get(this as unknown as Model, key as string, value, this.attributes);
+      // Objects from cast classes are cached so changes to them are saved
+      if (typeof this.casts[key] !== 'string' && cast !== null && typeof cast === 'object') {
+        this.classCastCache.set(key as string, cast);
+      }
+      return cast as TAttributes[K];
+    }
+
     if (value === undefined || value === null) {
       return value as TAttributes[K];
     }
@@ -669,19 +937,129 @@ export abstract class Model<TAttributes extends Record<string, unknown> = Record
     }
   }
 
+  /**
+   * Get the primary key value, or an array of values for a composite key
+   */
   public getKey(): unknown {
+    if (Array.isArray(this.primaryKey)) {
+      return this.primaryKey.map((key) => this.getAttribute(key as keyof TAttributes));
+    }
     return this.getAttribute(this.primaryKey as keyof TAttributes);
   }
 
+  /**
+   * Get the primary key column
+   *
+   * @throws Error for composite keys, which have no single key column
+   */
   public getKeyName(): string {
+    if (Array.isArray(this.primaryKey)) {
+      throw new Error(`Model [${this.constructor.name}] has a composite primary key [${this.primaryKey.join(', ')}].`);
+    }
     return this.primaryKey;
   }
 
+  /**
+   * Get the primary key columns: one column, or several for a composite key
+   */
+  public getKeyNames(): string[] {
+    return Array.isArray(this.primaryKey) ? [...this.primaryKey] : [this.primaryKey];
+  }
+
+  /**
+   * Determine if the primary key spans several columns
+   */
+  public hasCompositeKey(): boolean {
+    return Array.isArray(this.primaryKey);
+  }
+
+  /**
+   * Get the type of the primary key
+   */
+  public getKeyType(): 'int' | 'string' {
+    return this.uniqueIdType ? 'string' : this.keyType;
+  }
+
+  /**
+   * Determine if the database assigns the key on insert
+   */
+  public getIncrementing(): boolean {
+    return this.incrementing && !this.uniqueIdType && !this.hasCompositeKey();
+  }
+
+  /**
+   * Get the columns given a generated unique id on insert
+   */
+  public uniqueIds(): string[] {
+    return this.uniqueIdType ? this.getKeyNames() : [];
+  }
+
+  /**
+   * Generate a new unique id for the model's key
+   */
+  public newUniqueId(): string {
+    return newUniqueId(this.uniqueIdType ?? 'uuid');
+  }
+
+  /**
+   * Build the condition matching this model's row by its key, or undefined
+   * when a key column is missing from the schema table
+   */
+  protected keyCondition(): SQL | undefined {
+    const table = this.getSchemaTable() as unknown as Record<string, SQLiteColumn>;
+    const names = this.getKeyNames();
+    if (names.some((name) => !table[name])) return undefined;
+
+    const conditions = names.map((name) => eq(table[name], this.getAttribute(name as keyof TAttributes)));
+    return conditions.length === 1 ? conditions[0] : and(...conditions);
+  }
+
   public getTable(): string {
     return this.table;
   }
 
+  /**
+   * Get the schema table, typed for the builder API every dialect shares
+   *
+   * Tables declared with `defineTable` are built for the connection's dialect and table prefix.
+   */
+  public getSchemaTable(): SQLiteTable {
+    return tableFor(this.schemaTable, dialectOf(dbWrite())) as SQLiteTable;
+  }
+
+  /**
+   * Get a new query builder for the model's table
+   */
+  public newQuery(): QueryBuilder<TAttributes, this> {
+    return new QueryBuilder<TAttributes, this>(this.constructor as ModelConstructor<this>, {
+      table: this.getSchemaTable(),
+      primaryKey: this.hasCompositeKey() ? this.getKeyNames() : this.getKeyName(),
+    });
+  }
+
+  /**
+   * Create an existing model instance from a database row
+   *
+   * Row values bypass fill() so guarded columns such as the key are kept.
+   */
+  public newFromBuilder(attributes: Record<string, unknown>): this {
+    const model = new (this.constructor as ModelConstructor<this>)();
+    model.setRawAttributes(attributes as Partial<TAttributes>, true);
+    model.exists = true;
+    return model;
+  }
+
+  public setRawAttributes(attributes: Partial<TAttributes>, sync: boolean = false): this {
+    this.attributes = { ...attributes };
+    this.classCastCache.clear();
+    if (sync) {
+      this.syncOriginal();
+    }
+    return this;
+  }
+
   public isDirty(key?: keyof TAttributes): boolean {
+    this.mergeAttributesFromClassCasts();
     if (key) {
       return this.attributes[key] !== this.original[key];
     }
@@ -691,6 +1069,7 @@ export abstract class Model<TAttributes extends Record<string, unknown> = Record
   }
 
   public getDirty(): Partial<TAttributes> {
+    this.mergeAttributesFromClassCasts();
     const dirty: Partial<TAttributes> = {};
     for (const key of Object.keys(this.attributes)) {
       if (this.attributes[key as keyof TAttributes] !== this.original[key as keyof TAttributes]) {
@@ -705,10 +1084,24 @@ export abstract class Model<TAttributes extends Record<string, unknown> = Record
     return this;
   }
 
+  /**
+   * Store values written by a query as the model's raw, persisted attributes
+   *
+   * Mutators are skipped, and other unsaved changes stay dirty.
+   */
+  public setPersistedAttributes(values: Partial<TAttributes>): this {
+    for (const [key, value] of Object.entries(values)) {
+      this.attributes[key as keyof TAttributes] = value as TAttributes[keyof TAttributes];
+      this.original[key as keyof TAttributes] = value as TAttributes[keyof TAttributes];
+      this.classCastCache.delete(key);
+    }
+    return this;
+  }
+
   // ==================== SERIALIZATION ====================
 
   public toJSON(): Partial<TAttributes> {
-    const data = { ...this.attributes };
+    const data = this.attributesToArray();
 
     for (const key of this.hidden) {
       delete data[key];
@@ -721,10 +1114,36 @@ export abstract class Model<TAttributes extends Record<string, unknown> = Record
           visibleData[key] = data[key];
         }
       }
-      return visibleData;
+      return { ...visibleData, ...this.relationsToJSON() };
     }
 
-    return data;
+    return { ...data, ...this.relationsToJSON() };
+  }
+
+  /**
+   * Get the attributes for serialization, with accessors, casts and appends applied
+   */
+  protected attributesToArray(): Partial<TAttributes> {
+    const data: Record<string, unknown> = {};
+    for (const key of [...Object.keys(this.attributes), ...this.appends]) {
+      data[key] = this.getAttribute(key as keyof TAttributes);
+    }
+    return data as Partial<TAttributes>;
+  }
+
+  /**
+   * Serialize loaded relationships
+   */
+  protected relationsToJSON(): Partial<TAttributes> {
+    const data: Record<string, unknown> = {};
+    for (const [name, value] of this.relations) {
+      if (Array.isArray(value)) {
+        data[name] = value.map((item) => (item instanceof Model ? item.toJSON() : item));
+      } else {
+        data[name] = value instanceof Model ? value.toJSON() : value;
+      }
+    }
+    return data as Partial<TAttributes>;
   }
 
   public toArray(): Partial<TAttributes> {
@@ -733,15 +1152,28 @@ export abstract class Model<TAttributes extends Record<string, unknown> = Record
 
   // ==================== LIFECYCLE METHODS ====================
 
+  /**
+   * Insert or update the model, returning false when an event cancelled the save
+   */
   public async save(): Promise<boolean> {
-    if (this.exists) {
-      return this.performUpdate();
-    }
-    return this.performInsert();
+    // Wait for other requests' SQLite transactions instead of writing into them
+    return withWriteLock(dbWrite(), async () => {
+      if (!(await this.fireModelEvent('saving'))) {
+        return false;
+      }
+
+      const saved = this.exists ? await this.performUpdate() : await this.performInsert();
+      if (saved) {
+        await this.fireModelEvent('saved', false);
+      }
+      return saved;
+    });
   }
 
   protected async performInsert(): Promise<boolean> {
-    await this.fireEvent('creating');
+    if (!(await this.fireModelEvent('creating'))) {
+      return false;
+    }
 
     if (this.timestamps) {
       const now = new Date();
@@ -749,15 +1181,38 @@ export abstract class Model<TAttributes extends Record<string, unknown> = Record
       this.setAttribute(Model.UPDATED_AT as keyof TAttributes, now as TAttributes[keyof TAttributes]);
     }
 
-    const insertData = { ...this.attributes };
+    if (this.versionColumn && this.attributes[this.versionColumn as keyof TAttributes] == null) {
+      this.attributes[this.versionColumn as keyof TAttributes] = 1 as TAttributes[keyof TAttributes];
+    }
+
+    for (const column of this.uniqueIds()) {
+      if (this.attributes[column as keyof TAttributes] == null) {
+        this.setAttribute(column as keyof TAttributes, this.newUniqueId() as TAttributes[keyof TAttributes]);
+      }
+    }
+
+    const insertData = this.getAttributes();
 
-    await dbWrite().insert(this.schemaTable).values(insertData as Record<string, unknown>);
+    const insert = dbWrite().insert(this.getSchemaTable()).values(insertData as Record<string, unknown>);
+
+    // Read back the id assigned by an autoincrementing key
+    if (this.getIncrementing() && this.getKey() == null) {
+      const key = this.getKeyName();
+      const inserted = isPostgres(dbWrite())
+        ? (await insert.returning({ id: (getTableColumns(this.getSchemaTable()) as Record<string, SQLiteColumn>)[key] }))[0]?.id
+        : insertId(await insert);
+      const id = this.keyType === 'int' ? Number(inserted) : String(inserted);
+      this.setAttribute(key as keyof TAttributes, id as TAttributes[keyof TAttributes]);
+    } else {
+      await insert;
+    }
 
     this.exists = true;
     this.wasRecentlyCreated = true;
     this.syncOriginal();
 
-    await this.fireEvent('created');
+    await this.recordAudit('created', {}, this.getAttributes());
+    await this.fireModelEvent('created', false);
     return true;
   }
 
@@ -766,57 +1221,223 @@ export abstract class Model<TAttributes extends Record<string, unknown> = Record
       return true;
     }
 
-    await this.fireEvent('updating');
+    if (!(await this.fireModelEvent('updating'))) {
+      return false;
+    }
 
     if (this.timestamps) {
       this.setAttribute(Model.UPDATED_AT as keyof TAttributes, new Date() as TAttributes[keyof TAttributes]);
     }
 
-    const dirty = this.getDirty();
-    const table = this.schemaTable as unknown as Record<string, SQLiteColumn>;
-    const pkColumn = table[this.primaryKey];
+    const table = this.getSchemaTable() as unknown as Record<string, SQLiteColumn>;
+    const key = this.keyCondition();
+    const previous = { ...this.original };
 
-    if (pkColumn) {
+    if (key && this.versionColumn) {
+      await this.performVersionedUpdate(key, table[this.versionColumn]);
+    } else if (key) {
       await dbWrite()
-        .update(this.schemaTable)
-        .set(dirty as Record<string, unknown>)
-        .where(eq(pkColumn, this.getKey()));
+        .update(this.getSchemaTable())
+        .set(this.getDirty() as Record<string, unknown>)
+        .where(key);
     }
 
+    const changes = this.getDirty() as Record<string, unknown>;
     this.syncOriginal();
 
-    await this.fireEvent('updated');
+    const oldValues = Object.fromEntries(Object.keys(changes).map((key) => [key, previous[key as keyof TAttributes] ?? null]));
+    await this.recordAudit(this.pendingAuditEvent ?? 'updated', oldValues, changes);
+    await this.fireModelEvent('updated', false);
     return true;
   }
 
+  /**
+   * Update the row only if its version still matches, incrementing the version
+   *
+   * @throws StaleModelException when the row was updated or deleted since it was read
+   */
+  protected async performVersionedUpdate(key: SQL, versionColumn: SQLiteColumn | undefined): Promise<void> {
+    const name = this.versionColumn as keyof TAttributes;
+    if (!versionColumn) {
+      throw new Error(`Column [${String(name)}] not found on table [${this.table}].`);
+    }
+
+    const version = this.original[name];
+    this.attributes[name] = ((Number(version) || 0) + 1) as TAttributes[keyof TAttributes];
+
+    const result = await dbWrite()
+      .update(this.getSchemaTable())
+      .set(this.getDirty() as Record<string, unknown>)
+      .where(and(key, version == null ? isNull(versionColumn) : eq(versionColumn, version)));
+
+    if (affectedRows(result) === 0) {
+      this.attributes[name] = version as TAttributes[keyof TAttributes];
+      throw new StaleModelException(this as unknown as Model);
+    }
+  }
+
+  /**
+   * Get the optimistic locking version column, or null when it is disabled
+   */
+  public getVersionColumn(): string | null {
+    return this.versionColumn;
+  }
+
   public async delete(): Promise<boolean> {
-    await this.fireEvent('deleting');
+    return withWriteLock(dbWrite(), async () => {
+      if (!(await this.fireModelEvent('deleting'))) {
+        return false;
+      }
+
+      const attributes = this.getAttributes();
+      if (this.softDeletes) {
+        await this.runSoftDelete();
+      } else {
+        await this.performDeleteOnModel();
+      }
 
-    const table = this.schemaTable as unknown as Record<string, SQLiteColumn>;
-    const pkColumn = table[this.primaryKey];
+      await this.recordAudit('deleted', attributes, {});
+      await this.fireModelEvent('deleted', false);
+      return true;
+    });
+  }
+
+  /**
+   * Permanently delete the model, even when it uses soft deletes
+   */
+  public async forceDelete(): Promise<boolean> {
+    return withWriteLock(dbWrite(), async () => {
+      if (!(await this.fireModelEvent('deleting'))) {
+        return false;
+      }
+      const attributes = this.getAttributes();
+      await this.performDeleteOnModel();
+      await this.recordAudit('deleted', attributes, {});
+      await this.fireModelEvent('deleted', false);
+      return true;
+    });
+  }
 
-    if (pkColumn) {
+  /**
+   * Remove the model's row from the table
+   */
+  protected async performDeleteOnModel(): Promise<void> {
+    const key = this.keyCondition();
+
+    if (key) {
       await dbWrite()
-        .delete(this.schemaTable)
-        .where(eq(pkColumn, this.getKey()));
+        .delete(this.getSchemaTable())
+        .where(key);
     }
 
     this.exists = false;
+  }
+
+  /**
+   * Mark the model as deleted by setting its deleted_at column
+   */
+  protected async runSoftDelete(): Promise<void> {
+    const key = this.keyCondition();
+    const columns = this.softDeleteAttributes(new Date());
 
-    await this.fireEvent('deleted');
+    for (const [column, value] of Object.entries(columns)) {
+      this.setAttribute(column as keyof TAttributes, value as TAttributes[keyof TAttributes]);
+    }
+
+    if (key) {
+      await dbWrite()
+        .update(this.getSchemaTable())
+        .set(columns)
+        .where(key);
+    }
+
+    this.syncOriginal();
+  }
+
+  /**
+   * Restore a soft deleted model
+   */
+  public async restore(): Promise<boolean> {
+    if (!this.softDeletes) {
+      return false;
+    }
+
+    if (!(await this.fireModelEvent('restoring'))) {
+      return false;
+    }
+
+    this.setAttribute(Model.DELETED_AT as keyof TAttributes, null as TAttributes[keyof TAttributes]);
+    this.exists = true;
+    this.pendingAuditEvent = 'restored';
+    try {
+      await this.save();
+    } finally {
+      this.pendingAuditEvent = null;
+    }
+
+    await this.fireModelEvent('restored', false);
     return true;
   }
 
+  /**
+   * Determine if the model has been soft deleted
+   */
+  public trashed(): boolean {
+    if (!this.softDeletes) {
+      return false;
+    }
+    const deletedAt = this.attributes[Model.DELETED_AT as keyof TAttributes];
+    return deletedAt !== undefined && deletedAt !== null;
+  }
+
+  /**
+   * Determine if the model uses soft deletes
+   */
+  public usesSoftDeletes(): boolean {
+    return this.softDeletes;
+  }
+
+  /**
+   * Check if the model maintains created_at and updated_at columns
+   */
+  public usesTimestamps(): boolean {
+    return this.timestamps;
+  }
+
+  /**
+   * Get the name of the update timestamp column
+   */
+  public getUpdatedAtColumn(): string {
+    return Model.UPDATED_AT;
+  }
+
+  /**
+   * Get the name of the soft delete column
+   */
+  public getDeletedAtColumn(): string {
+    return Model.DELETED_AT;
+  }
+
+  /**
+   * Get the columns written when soft deleting at the given time
+   */
+  public softDeleteAttributes(time: Date): Record<string, unknown> {
+    const columns: Record<string, unknown> = { [Model.DELETED_AT]: time };
+    if (this.timestamps) {
+      columns[Model.UPDATED_AT] = time;
+    }
+    return columns;
+  }
+
   public async refresh(): Promise<this> {
-    const table = this.schemaTable as unknown as Record<string, SQLiteColumn>;
-    const pkColumn = table[this.primaryKey];
+    const key = this.keyCondition();
 
-    if (pkColumn) {
-      const fresh = await db()
+    if (key) {
+      const [fresh] = await db()
         .select()
-        .from(this.schemaTable)
-        .where(eq(pkColumn, this.getKey()))
-        .get();
+        .from(this.getSchemaTable())
+        .where(key)
+        .limit(1);
 
       if (fresh) {
         this.attributes = fresh as Partial<TAttributes>;
@@ -827,171 +1448,341 @@ export abstract class Model<TAttributes extends Record<string, unknown> = Record
     return this;
   }
 
+  // ==================== AUDITING ====================
+
+  /**
+   * Get the audits recorded for the model
+   */
+  public audits(): MorphMany<Audit> {
+    return this.morphMany(Audit, 'auditable');
+  }
+
+  /**
+   * Restore the attributes the model had right after an audit, and save
+   *
+   * Changes recorded after the audit are undone newest first; the revert is
+   * recorded as a new audit.
+   */
+  public async revertTo(audit: Audit | number): Promise<this> {
+    const id = typeof audit === 'number' ? audit : audit.getKey();
+    if (!(await this.audits().where('id', id).exists())) {
+      throw new Error(`Audit [${id}] does not belong to [${this.constructor.name}] model [${this.getKey()}].`);
+    }
+
+    const later = await this.audits().where('id', '>', id).orderByDesc('id').get();
+    const table = getTableColumns(this.getSchemaTable()) as Record<string, SQLiteColumn>;
+
+    for (const entry of later) {
+      for (const [key, value] of Object.entries(entry.getAttribute('old_values') ?? {})) {
+        if (!table[key] || this.getKeyNames().includes(key) || key === this.versionColumn) continue;
+        // Dates were stored as ISO strings
+        this.attributes[key as keyof TAttributes] = (table[key].dataType === 'date' && typeof value === 'string'
+          ? new Date(value)
+          : value) as TAttributes[keyof TAttributes];
+        this.classCastCache.delete(key);
+      }
+    }
+
+    await this.save();
+    return this;
+  }
+
+  /**
+   * Determine if the model records audits
+   */
+  public isAuditable(): boolean {
+    return this.auditable;
+  }
+
+  /**
+   * Write an audit row for a change, leaving out hidden and excluded attributes
+   */
+  protected async recordAudit(event: AuditEvent, oldValues: Record<string, unknown>, newValues: Record<string, unknown>): Promise<void> {
+    if (!this.auditable) return;
+
+    const excluded = new Set<string>([...(this.hidden as string[]), ...this.auditExclude]);
+    const filter = (values: Record<string, unknown>) => Object.fromEntries(Object.entries(values).filter(([key]) => !excluded.has(key)));
+    const [before, after] = [filter(oldValues), filter(newValues)];
+
+    if (event === 'updated' && Object.keys(after).length === 0) return;
+
+    // JSON values are stored encoded; the json casts decode them on read
+    const attributes: Record<string, unknown> = {
+      auditable_type: this.getMorphClass(),
+      auditable_id: this.getKey(),
+      event,
+      old_values: JSON.stringify(before),
+      new_values: JSON.stringify(after),
+      user_id: Context.id(),
+      request_id: Context.isActive() ? Context.requestId() : null,
+      created_at: new Date(),
+    };
+    await new Audit().forceFill(attributes as Partial<AuditAttributes>).save();
+  }
+
+  // ==================== FULL-TEXT SEARCH ====================
+
+  /**
+   * Determine if the model is indexed for full-text search
+   */
+  public isSearchable(): boolean {
+    return this.searchable.length > 0;
+  }
+
+  /**
+   * Get the columns indexed for full-text search
+   */
+  public getSearchableColumns(): string[] {
+    return [...this.searchable];
+  }
+
+  /**
+   * Get the name of the model's FTS5 index table
+   */
+  public searchableAs(): string {
+    return `${this.table}_fts`;
+  }
+
+  /**
+   * Get the text indexed for each searchable column, read through accessors
+   */
+  public toSearchableArray(): Record<string, string | null> {
+    const values: Record<string, string | null> = {};
+    for (const column of this.searchable) {
+      const value = this.getAttribute(column as keyof TAttributes);
+      values[column] = value === null || value === undefined ? null : String(value);
+    }
+    return values;
+  }
+
   // ==================== RELATIONSHIPS ====================
 
   /**
    * Define a one-to-one relationship
    */
-  protected async hasOne<T extends Model<R>, R extends Record<string, unknown>>(
+  protected hasOne<T extends Model<R>, R extends Record<string, unknown>>(
     related: new (attrs?: Partial<R>) => T,
     foreignKey?: string,
     localKey?: string
-  ): Promise<T | null> {
+  ): HasOne<T> {
     const fk = foreignKey || `${this.constructor.name.toLowerCase()}_id`;
-    const lk = localKey || this.primaryKey;
-    const localValue = this.getAttribute(lk as keyof TAttributes);
-
-    const relatedInstance = new related();
-    const table = relatedInstance.schemaTable as unknown as Record<string, SQLiteColumn>;
-    const fkColumn = table[fk];
-
-    if (!fkColumn || localValue === undefined) return null;
-
-    const result = await db()
-      .select()
-      .from(relatedInstance.schemaTable)
-      .where(eq(fkColumn, localValue))
-      .get();
-
-    if (!result) return null;
-
-    const model = new related(result as Partial<R>);
-    model.exists = true;
-    model.syncOriginal();
-    return model;
+    const lk = localKey || this.getKeyName();
+    return new HasOne<T>(this as unknown as Model, new related(), fk, lk);
   }
 
   /**
    * Define a one-to-many relationship
    */
-  protected async hasMany<T extends Model<R>, R extends Record<string, unknown>>(
+  protected hasMany<T extends Model<R>, R extends Record<string, unknown>>(
     related: new (attrs?: Partial<R>) => T,
     foreignKey?: string,
     localKey?: string
-  ): Promise<T[]> {
+  ): HasMany<T> {
     const fk = foreignKey || `${this.constructor.name.toLowerCase()}_id`;
-    const lk = localKey || this.primaryKey;
-    const localValue = this.getAttribute(lk as keyof TAttributes);
-
-    const relatedInstance = new related();
-    const table = relatedInstance.schemaTable as unknown as Record<string, SQLiteColumn>;
-    const fkColumn = table[fk];
-
-    if (!fkColumn || localValue === undefined) return [];
-
-    const results = await db()
-      .select()
-      .from(relatedInstance.schemaTable)
-      .where(eq(fkColumn, localValue))
-      .all();
-
-    return results.map((row) => {
-      const model = new related(row as Partial<R>);
-      model.exists = true;
-      model.syncOriginal();
-      return model;
-    });
+    const lk = localKey || this.getKeyName();
+    return new HasMany<T>(this as unknown as Model, new related(), fk, lk);
   }
 
   /**
    * Define an inverse one-to-one or one-to-many relationship
    */
-  protected async belongsTo<T extends Model<R>, R extends Record<string, unknown>>(
+  protected belongsTo<T extends Model<R>, R extends Record<string, unknown>>(
     related: new (attrs?: Partial<R>) => T,
     foreignKey?: string,
     ownerKey?: string
-  ): Promise<T | null> {
+  ): BelongsTo<T> {
     const relatedInstance = new related();
     const fk = foreignKey || `${relatedInstance.constructor.name.toLowerCase()}_id`;
-    const ok = ownerKey || relatedInstance.primaryKey;
-    const foreignValue = this.getAttribute(fk as keyof TAttributes);
-
-    const table = relatedInstance.schemaTable as unknown as Record<string, SQLiteColumn>;
-    const okColumn = table[ok];
-
-    if (!okColumn || foreignValue === undefined) return null;
-
-    const result = await db()
-      .select()
-      .from(relatedInstance.schemaTable)
-      .where(eq(okColumn, foreignValue))
-      .get();
-
-    if (!result) return null;
-
-    const model = new related(result as Partial<R>);
-    model.exists = true;
-    model.syncOriginal();
-    return model;
+    const ok = ownerKey || relatedInstance.getKeyName();
+    return new BelongsTo<T>(this as unknown as Model, relatedInstance, fk, ok);
   }
 
   /**
    * Define a many-to-many relationship
    */
-  protected async belongsToMany<T extends Model<R>, R extends Record<string, unknown>>(
+  protected belongsToMany<T extends Model<R>, R extends Record<string, unknown>>(
     related: new (attrs?: Partial<R>) => T,
-    pivotTable?: string,
+    pivotTable?: string | ModelTable,
     foreignPivotKey?: string,
     relatedPivotKey?: string
-  ): Promise<T[]> {
+  ): BelongsToMany<T> {
     const relatedInstance = new related();
     const pt = pivotTable || [this.constructor.name, relatedInstance.constructor.name].sort().join('_').toLowerCase();
     const fpk = foreignPivotKey || `${this.constructor.name.toLowerCase()}_id`;
     const rpk = relatedPivotKey || `${relatedInstance.constructor.name.toLowerCase()}_id`;
 
-    const localValue = this.getKey();
-    if (localValue === undefined) return [];
+    return new BelongsToMany<T>(
+      this as unknown as Model,
+      relatedInstance,
+      pt,
+      fpk,
+      rpk,
+      this.getKeyName(),
+      relatedInstance.getKeyName()
+    );
+  }
 
-    // Get pivot table from schema
-    const pivotSchema = (schema as Record<string, SQLiteTable>)[pt];
-    if (!pivotSchema) return [];
+  /**
+   * Define a polymorphic one-to-one relationship
+   *
+   * The related table holds `{name}_id` and `{name}_type` columns.
+   */
+  protected morphOne<T extends Model<R>, R extends Record<string, unknown>>(
+    related: new (attrs?: Partial<R>) => T,
+    name: string,
+    type?: string,
+    id?: string,
+    localKey?: string
+  ): MorphOne<T> {
+    return new MorphOne<T>(this as unknown as Model, new related(), type || `${name}_type`, id || `${name}_id`, localKey || this.getKeyName());
+  }
 
-    const pivotTableCols = pivotSchema as unknown as Record<string, SQLiteColumn>;
-    const fpkColumn = pivotTableCols[fpk];
-    const rpkColumn = pivotTableCols[rpk];
+  /**
+   * Define a polymorphic one-to-many relationship
+   *
+   * The related table holds `{name}_id` and `{name}_type` columns.
+   */
+  protected morphMany<T extends Model<R>, R extends Record<string, unknown>>(
+    related: new (attrs?: Partial<R>) => T,
+    name: string,
+    type?: string,
+    id?: string,
+    localKey?: string
+  ): MorphMany<T> {
+    return new MorphMany<T>(this as unknown as Model, new related(), type || `${name}_type`, id || `${name}_id`, localKey || this.getKeyName());
+  }
 
-    if (!fpkColumn || !rpkColumn) return [];
+  /**
+   * Define the inverse of a polymorphic relationship
+   *
+   * The owner class is resolved from this model's `{name}_type` column.
+   */
+  protected morphTo<T = Model>(name: string, type?: string, id?: string, ownerKey?: string): MorphTo<T> {
+    const typeColumn = type || `${name}_type`;
+    const morphType = this.getAttribute(typeColumn as keyof TAttributes);
 
-    // Get related IDs from pivot
-    const pivotResults = await db()
-      .select()
-      .from(pivotSchema)
-      .where(eq(fpkColumn, localValue))
-      .all();
+    // Without a type the relation resolves to null; this model stands in for the owner
+    const owner = morphType
+      ? MorphTo.createModelByType(String(morphType))
+      : new (this.constructor as ModelConstructor)();
 
-    const relatedIds = pivotResults.map((row) => (row as Record<string, unknown>)[rpk]);
+    return new MorphTo<T>(this as unknown as Model, owner as unknown as T, id || `${name}_id`, ownerKey ?? null, typeColumn);
+  }
 
-    if (relatedIds.length === 0) return [];
+  /**
+   * Define a polymorphic many-to-many relationship
+   *
+   * The pivot table (default `{name}s`) holds `{name}_id`, `{name}_type` and the related key.
+   */
+  protected morphToMany<T extends Model<R>, R extends Record<string, unknown>>(
+    related: new (attrs?: Partial<R>) => T,
+    name: string,
+    pivotTable?: string | ModelTable,
+    foreignPivotKey?: string,
+    relatedPivotKey?: string,
+    inverse: boolean = false
+  ): MorphToMany<T> {
+    const relatedInstance = new related();
+    const fpk = foreignPivotKey || (inverse ? `${this.constructor.name.toLowerCase()}_id` : `${name}_id`);
+    const rpk = relatedPivotKey || (inverse ? `${name}_id` : `${relatedInstance.constructor.name.toLowerCase()}_id`);
+
+    return new MorphToMany<T>(
+      this as unknown as Model,
+      relatedInstance,
+      `${name}_type`,
+      pivotTable || `${name}s`,
+      fpk,
+      rpk,
+      this.getKeyName(),
+      relatedInstance.getKeyName(),
+      inverse
+    );
+  }
 
-    // Get related models
-    const relatedTable = relatedInstance.schemaTable as unknown as Record<string, SQLiteColumn>;
-    const relatedPkColumn = relatedTable[relatedInstance.primaryKey];
+  /**
+   * Define the inverse of a polymorphic many-to-many relationship
+   */
+  protected morphedByMany<T extends Model<R>, R extends Record<string, unknown>>(
+    related: new (attrs?: Partial<R>) => T,
+    name: string,
+    pivotTable?: string | ModelTable,
+    foreignPivotKey?: string,
+    relatedPivotKey?: string
+  ): MorphToMany<T> {
+    return this.morphToMany(related, name, pivotTable, foreignPivotKey, relatedPivotKey, true);
+  }
 
-    if (!relatedPkColumn) return [];
+  /**
+   * Define a has-many relationship through an intermediate model
+   *
+   * @param firstKey - Key on the intermediate table pointing at this model
+   * @param secondKey - Key on the related table pointing at the intermediate model
+   */
+  protected hasManyThrough<T extends Model<R>, R extends Record<string, unknown>, I extends Model<RI>, RI extends Record<string, unknown>>(
+    related: new (attrs?: Partial<R>) => T,
+    through: new (attrs?: Partial<RI>) => I,
+    firstKey?: string,
+    secondKey?: string,
+    localKey?: string,
+    secondLocalKey?: string
+  ): HasManyThrough<T> {
+    const throughInstance = new through();
+    return new HasManyThrough<T>(
+      this as unknown as Model,
+      new related(),
+      throughInstance as unknown as Model,
+      firstKey || `${this.constructor.name.toLowerCase()}_id`,
+      secondKey || `${throughInstance.constructor.name.toLowerCase()}_id`,
+      localKey || this.getKeyName(),
+      secondLocalKey || throughInstance.getKeyName()
+    );
+  }
 
-    const results = await db()
-      .select()
-      .from(relatedInstance.schemaTable)
-      .where(inArray(relatedPkColumn, relatedIds))
-      .all();
+  /**
+   * Define a has-one relationship through an intermediate model
+   */
+  protected hasOneThrough<T extends Model<R>, R extends Record<string, unknown>, I extends Model<RI>, RI extends Record<string, unknown>>(
+    related: new (attrs?: Partial<R>) => T,
+    through: new (attrs?: Partial<RI>) => I,
+    firstKey?: string,
+    secondKey?: string,
+    localKey?: string,
+    secondLocalKey?: string
+  ): HasOneThrough<T> {
+    const throughInstance = new through();
+    return new HasOneThrough<T>(
+      this as unknown as Model,
+      new related(),
+      throughInstance as unknown as Model,
+      firstKey || `${this.constructor.name.toLowerCase()}_id`,
+      secondKey || `${throughInstance.constructor.name.toLowerCase()}_id`,
+      localKey || this.getKeyName(),
+      secondLocalKey || throughInstance.getKeyName()
+    );
+  }
 
-    return results.map((row) => {
-      const model = new related(row as Partial<R>);
-      model.exists = true;
-      model.syncOriginal();
-      return model;
-    });
+  /**
+   * Get the type stored in morph type columns for this model
+   *
+   * The morph map alias when registered with Relation.morphMap(), otherwise the class name.
+   */
+  public getMorphClass(): string {
+    return Relation.getMorphAlias(this.constructor as ModelConstructor);
   }
 
   /**
-   * Load a relationship
+   * Eager load relationships onto this model
    */
-  public async load<K extends string>(relation: K): Promise<this> {
-    const method = (this as unknown as Record<string, () => Promise<unknown>>)[relation];
-    if (typeof method === 'function') {
-      const result = await method.call(this);
-      this.relations.set(relation, result);
-    }
+  public async load(...relations: EagerLoadDefinition[]): Promise<this> {
+    await this.newQuery().with(...relations).eagerLoadRelations([this as unknown as Model]);
+    return this;
+  }
+
+  /**
+   * Eager load relationships that have not been loaded yet
+   */
+  public async loadMissing(...relations: string[]): Promise<this> {
+    await Model.loadMissing([this as unknown as Model], ...relations);
     return this;
   }
 
@@ -1001,6 +1792,111 @@ export abstract class Model<TAttributes extends Record<string, unknown> = Record
   public getRelation<T>(name: string): T | undefined {
     return this.relations.get(name) as T | undefined;
   }
+
+  /**
+   * Set a loaded relationship
+   */
+  public setRelation(name: string, value: unknown): this {
+    this.relations.set(name, value);
+    return this;
+  }
+
+  /**
+   * The pivot row of a model loaded through a many-to-many relationship
+   */
+  public get pivot(): Record<string, unknown> | undefined {
+    return this.getRelation<Record<string, unknown>>('pivot');
+  }
+
+  /**
+   * Determine if a relationship has been loaded
+   */
+  public relationLoaded(name: string): boolean {
+    return this.relations.has(name);
+  }
+
+  /**
+   * Get all loaded relationships
+   */
+  public getRelations(): Map<string, unknown> {
+    return this.relations;
+  }
 }
 
+/** Changes recorded by auditable models */
+export type AuditEvent = 'created' | 'updated' | 'deleted' | 'restored';
+
+/** A serializable audit entry for the dashboard diff view */
+export interface AuditDiff {
+  id: number;
+  event: AuditEvent;
+  userId: string | null;
+  requestId: string | null;
+  createdAt: string;
+  changes: Array<{ attribute: string; old: unknown; new: unknown }>;
+}
+
+interface AuditAttributes extends Record<string, unknown> {
+  id: number;
+  auditable_type: string;
+  auditable_id: string | number;
+  event: AuditEvent;
+  old_values: Record<string, unknown>;
+  new_values: Record<string, unknown>;
+  user_id: string | null;
+  request_id: string | null;
+  created_at: Date;
+}
+
+/**
+ * A recorded change to an auditable model
+ */
+export class Audit extends Model<AuditAttributes> {
+  protected table = 'audits';
+  protected schemaTable = auditsTable;
+  protected timestamps = false;
+  protected casts = { old_values: 'json', new_values: 'json', created_at: 'datetime' } as const;
+
+  /**
+   * Get the audited model
+   */
+  auditableModel() {
+    return this.morphTo('auditable');
+  }
+
+  /**
+   * Get the old and new value of each changed attribute
+   */
+  getModified(): Record<string, { old: unknown; new: unknown }> {
+    const before = this.getAttribute('old_values') ?? {};
+    const after = this.getAttribute('new_values') ?? {};
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+    return Object.fromEntries(keys.map((key) => [key, { old: before[key] ?? null, new: after[key] ?? null }]));
+  }
+
+  /**
+   * Serialize the audit for the AuditDiff dashboard component
+   */
+  toDiff(): AuditDiff {
+    const createdAt = this.getAttribute('created_at');
+
+    return {
+      id: Number(this.getKey()),
+      event: this.getAttribute('event') as AuditEvent,
+      userId: this.getAttribute('user_id') ?? null,
+      requestId: this.getAttribute('request_id') ?? null,
+      createdAt: createdAt instanceof Date ? createdAt.toISOString() : String(createdAt),
+      changes: Object.entries(this.getModified()).map(([attribute, values]) => ({ attribute, ...values })),
+    };
+  }
+}
+
+export { QueryBuilder } from './QueryBuilder';
+export type { QueryBuilderOptions, ScopedQueryBuilder } from './QueryBuilder';
+export type { Scope, ScopeCallback } from './Scope';
+export type { CastsAttributes, CastType } from './Casts';
+export type { LockMode } from './QueryBuilder';
+export type { ModelEventName, ModelEventCallback, ModelObserver } from './ModelEvents';
+
 export default Model;
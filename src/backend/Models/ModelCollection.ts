@@ -0,0 +1,289 @@
+/**
+ * Catalyst Model Collection
+ *
+ * The array of models returned by `QueryBuilder.get()` and `Model.all()`.
+ * It is a real array, so indexing, iteration and `map()` work as before;
+ * `map()`, `slice()` and `concat()` return plain arrays while `filter()`
+ * and the methods below keep returning collections.
+ *
+ * @example
+ * ```ts
+ * const users = await User.query().where('active', true).get();
+ *
+ * users.pluck('email');                  // ['ada@example.com', ...]
+ * users.keyBy('id')[42];                 // User 42
+ * users.groupBy('role').admin;           // ModelCollection of admins
+ * users.sortByDesc('created_at').first();
+ *
+ * await users.load('posts');             // Eager load after the fact
+ * await users.update({ notified: true }); // One UPDATE for every user
+ * ```
+ */
+
+import type { Model } from './Model';
+import type { EagerLoadDefinition, QueryBuilder } from './QueryBuilder';
+
+/** A model attribute name, or a callback computing a value from each model */
+export type CollectionKey<T> = string | ((model: T) => unknown);
+
+export class ModelCollection<T = Model> extends Array<T> {
+  /** Array methods such as map() build plain arrays, since their results need not be models */
+  static get [Symbol.species](): ArrayConstructor {
+    return Array;
+  }
+
+  constructor(models: Iterable<T> = []) {
+    super();
+    for (const model of models) {
+      this.push(model);
+    }
+  }
+
+  /**
+   * Create a collection from an array of models
+   */
+  static make<T>(models: Iterable<T> = []): ModelCollection<T> {
+    return new ModelCollection<T>(models);
+  }
+
+  /**
+   * Get the first model, or null when the collection is empty
+   */
+  first(): T | null {
+    return this.length > 0 ? this[0] : null;
+  }
+
+  /**
+   * Determine if the collection has no models
+   */
+  isEmpty(): boolean {
+    return this.length === 0;
+  }
+
+  /**
+   * Filter the models, keeping the result a collection
+   */
+  filter<S extends T>(predicate: (value: T, index: number, array: T[]) => value is S, thisArg?: unknown): ModelCollection<S>;
+  filter(predicate: (value: T, index: number, array: T[]) => unknown, thisArg?: unknown): ModelCollection<T>;
+  filter(predicate: (value: T, index: number, array: T[]) => unknown, thisArg?: unknown): ModelCollection<T> {
+    return new ModelCollection(Array.from(this).filter(predicate, thisArg));
+  }
+
+  /**
+   * Find a model in the collection by its primary key, or the first model matching a callback
+   */
+  find<S extends T>(predicate: (value: T, index: number, array: T[]) => value is S, thisArg?: unknown): S | undefined;
+  find(predicate: (value: T, index: number, array: T[]) => unknown, thisArg?: unknown): T | undefined;
+  find(id: unknown): T | undefined;
+  find(idOrPredicate: unknown, thisArg?: unknown): T | undefined {
+    if (typeof idOrPredicate === 'function') {
+      return Array.from(this).find(idOrPredicate as (value: T, index: number, array: T[]) => unknown, thisArg);
+    }
+    return Array.from(this).find((model) => sameKey(asModel(model).getKey(), idOrPredicate));
+  }
+
+  /**
+   * Get the primary keys of the models
+   */
+  modelKeys(): unknown[] {
+    return Array.from(this, (model) => asModel(model).getKey());
+  }
+
+  /**
+   * Get the values of an attribute, or an object of values keyed by another attribute
+   */
+  pluck<V = unknown>(column: string): V[];
+  pluck<V = unknown>(column: string, key: string): Record<string, V>;
+  pluck<V = unknown>(column: string, key?: string): V[] | Record<string, V> {
+    if (key === undefined) {
+      return Array.from(this, (model) => attribute(model, column) as V);
+    }
+
+    const values: Record<string, V> = {};
+    for (const model of this) {
+      values[String(attribute(model, key))] = attribute(model, column) as V;
+    }
+    return values;
+  }
+
+  /**
+   * Key the models by an attribute or callback; later models win on duplicate keys
+   */
+  keyBy(key: CollectionKey<T>): Record<string, T> {
+    const keyed: Record<string, T> = {};
+    for (const model of this) {
+      keyed[String(resolve(model, key))] = model;
+    }
+    return keyed;
+  }
+
+  /**
+   * Group the models by an attribute or callback
+   */
+  groupBy(key: CollectionKey<T>): Record<string, ModelCollection<T>> {
+    const groups: Record<string, ModelCollection<T>> = {};
+    for (const model of this) {
+      const group = String(resolve(model, key));
+      (groups[group] ??= new ModelCollection<T>()).push(model);
+    }
+    return groups;
+  }
+
+  /**
+   * Sort the models by an attribute or callback, returning a new collection
+   *
+   * Null and undefined values sort first in ascending order.
+   */
+  sortBy(key: CollectionKey<T>, direction: 'asc' | 'desc' = 'asc'): ModelCollection<T> {
+    const sign = direction === 'desc' ? -1 : 1;
+    const sorted = Array.from(this).sort((a, b) => compare(resolve(a, key), resolve(b, key)) * sign);
+    return new ModelCollection(sorted);
+  }
+
+  /**
+   * Sort the models in descending order
+   */
+  sortByDesc(key: CollectionKey<T>): ModelCollection<T> {
+    return this.sortBy(key, 'desc');
+  }
+
+  /**
+   * Get the models whose primary keys are not in the given models
+   */
+  diff(models: Iterable<T>): ModelCollection<T> {
+    const keys = Array.from(models, (model) => String(asModel(model).getKey()));
+    return this.filter((model) => !keys.includes(String(asModel(model).getKey())));
+  }
+
+  /**
+   * Remove models with a duplicate primary key, or duplicate attribute or callback value
+   */
+  unique(key?: CollectionKey<T>): ModelCollection<T> {
+    const seen = new Set<string>();
+    return this.filter((model) => {
+      const value = String(key === undefined ? asModel(model).getKey() : resolve(model, key));
+      if (seen.has(value)) return false;
+      seen.add(value);
+      return true;
+    });
+  }
+
+  /**
+   * Eager load relationships onto every model with one query per relation
+   */
+  async load(...relations: EagerLoadDefinition[]): Promise<this> {
+    if (this.length > 0) {
+      const models = Array.from(this, asModel);
+      await models[0].newQuery().with(...relations).eagerLoadRelations(models);
+    }
+    return this;
+  }
+
+  /**
+   * Eager load the relationships not loaded yet
+   */
+  async loadMissing(...relations: string[]): Promise<this> {
+    if (this.length > 0) {
+      const model = asModel(this[0]);
+      await (model.constructor as typeof Model).loadMissing(Array.from(this, asModel), ...relations);
+    }
+    return this;
+  }
+
+  /**
+   * Reload the models from the database, dropping those that no longer exist
+   */
+  async fresh(...relations: EagerLoadDefinition[]): Promise<ModelCollection<T>> {
+    if (this.length === 0) return new ModelCollection<T>();
+
+    const fresh = await this.toQuery().with(...relations).get();
+    const keyed = new ModelCollection(fresh as unknown as T[]).keyBy((model) => asModel(model).getKey());
+
+    return new ModelCollection(this.modelKeys().flatMap((key) => keyed[String(key)] ?? []));
+  }
+
+  /**
+   * Get a query matching the models in the collection
+   */
+  toQuery(): QueryBuilder<Record<string, unknown>> {
+    const model = this.first();
+    if (model === null) {
+      throw new Error('Unable to create a query for an empty collection.');
+    }
+
+    const query = asModel(model).newQuery() as unknown as QueryBuilder<Record<string, unknown>>;
+    return query.whereKey(this.modelKeys());
+  }
+
+  /**
+   * Update every model with a single query, without firing model events
+   *
+   * The loaded models are updated to match the values written, including
+   * the update timestamp.
+   */
+  async update(attributes: Record<string, unknown>): Promise<number> {
+    if (this.length === 0) return 0;
+
+    const query = this.toQuery();
+    const values = query.updateValues(attributes);
+    const count = await query.update(values);
+    for (const model of this) {
+      asModel(model).setPersistedAttributes(values);
+    }
+    return count;
+  }
+
+  /**
+   * Delete every model with a single query, without firing model events
+   *
+   * Models using soft deletes are soft deleted.
+   */
+  async delete(): Promise<number> {
+    if (this.length === 0) return 0;
+
+    const model = asModel(this[0]);
+    if (model.usesSoftDeletes()) {
+      return this.update(model.softDeleteAttributes(new Date()));
+    }
+
+    const count = await this.toQuery().forceDelete();
+    for (const deleted of this) {
+      asModel(deleted).exists = false;
+    }
+    return count;
+  }
+
+  /**
+   * Serialize the models, respecting each model's hidden and visible attributes
+   */
+  toJSON(): unknown[] {
+    return Array.from(this, (model) => asModel(model).toJSON());
+  }
+}
+
+function asModel<T>(model: T): Model {
+  return model as unknown as Model;
+}
+
+function attribute<T>(model: T, column: string): unknown {
+  return asModel(model).getAttribute(column);
+}
+
+function resolve<T>(model: T, key: CollectionKey<T>): unknown {
+  return typeof key === 'function' ? key(model) : attribute(model, key);
+}
+
+function sameKey(a: unknown, b: unknown): boolean {
+  return a === b || (a !== null && a !== undefined && b !== null && b !== undefined && String(a) === String(b));
+}
+
+function compare(a: unknown, b: unknown): number {
+  if (a === b) return 0;
+  if (a === null || a === undefined) return -1;
+  if (b === null || b === undefined) return 1;
+  if (a instanceof Date && b instanceof Date) return a.getTime() - b.getTime();
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a).localeCompare(String(b));
+}
+
+export default ModelCollection;
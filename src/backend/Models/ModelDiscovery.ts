@@ -0,0 +1,37 @@
+/**
+ * Catalyst Model Discovery
+ *
+ * Finds model classes by importing every module in a directory, used by
+ * console commands that act on all models of a kind.
+ *
+ * @example
+ * ```ts
+ * const searchable = await discoverModels(modelsPath, (value): value is typeof Post =>
+ *   typeof value === 'function' && value.prototype instanceof Model && new value().isSearchable()
+ * );
+ * ```
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Import the modules in a directory and collect the exports accepted by the filter
+ */
+export async function discoverModels<T>(directory: string, filter: (value: unknown) => value is T): Promise<T[]> {
+  if (!fs.existsSync(directory)) return [];
+
+  const files = fs.readdirSync(directory).filter((file) => /\.(ts|js)$/.test(file) && !file.endsWith('.d.ts')).sort();
+  const models: T[] = [];
+
+  for (const file of files) {
+    const exports = (await import(path.join(directory, file))) as Record<string, unknown>;
+    for (const value of Object.values(exports)) {
+      if (filter(value) && !models.includes(value)) {
+        models.push(value);
+      }
+    }
+  }
+
+  return models;
+}
@@ -0,0 +1,93 @@
+/**
+ * Catalyst Model Events
+ *
+ * Lifecycle events fired by models. Callbacks registered on the model and
+ * observers run first; the event is then dispatched through the global
+ * EventDispatcher so listeners, `Events.fake()` and wildcard listeners see it.
+ * Returning false from a `*ing` callback or observer method cancels the
+ * operation.
+ *
+ * @example
+ * ```ts
+ * class UserObserver implements ModelObserver<User> {
+ *   creating(user: User) {
+ *     user.setAttribute('email', user.getAttribute('email').toLowerCase());
+ *   }
+ *
+ *   deleting(user: User) {
+ *     return !user.getAttribute('is_admin'); // admins cannot be deleted
+ *   }
+ * }
+ *
+ * User.observe(UserObserver);
+ *
+ * Events.listen(ModelCreated, (event) => {
+ *   if (event.model instanceof User) sendWelcomeEmail(event.model);
+ * });
+ * ```
+ */
+
+import { Event } from '@/backend/Events/Event';
+import type { Model } from './Model';
+
+export type ModelEventName =
+  | 'retrieved'
+  | 'creating'
+  | 'created'
+  | 'updating'
+  | 'updated'
+  | 'saving'
+  | 'saved'
+  | 'deleting'
+  | 'deleted'
+  | 'restoring'
+  | 'restored';
+
+/** A callback registered for a model event; return false from a `*ing` event to cancel */
+export type ModelEventCallback<T = Model> = (model: T) => unknown;
+
+/** An observer handles any of the model events with a method of the same name */
+export type ModelObserver<T = Model> = Partial<Record<ModelEventName, ModelEventCallback<T>>>;
+
+/**
+ * Base class for model events dispatched through the EventDispatcher
+ */
+export abstract class ModelEvent<T = Model> extends Event {
+  constructor(public readonly model: T) {
+    super();
+  }
+
+  /**
+   * Get the class name of the model that fired the event
+   */
+  public getModelName(): string {
+    return (this.model as object).constructor.name;
+  }
+}
+
+export class ModelRetrieved<T = Model> extends ModelEvent<T> {}
+export class ModelCreating<T = Model> extends ModelEvent<T> {}
+export class ModelCreated<T = Model> extends ModelEvent<T> {}
+export class ModelUpdating<T = Model> extends ModelEvent<T> {}
+export class ModelUpdated<T = Model> extends ModelEvent<T> {}
+export class ModelSaving<T = Model> extends ModelEvent<T> {}
+export class ModelSaved<T = Model> extends ModelEvent<T> {}
+export class ModelDeleting<T = Model> extends ModelEvent<T> {}
+export class ModelDeleted<T = Model> extends ModelEvent<T> {}
+export class ModelRestoring<T = Model> extends ModelEvent<T> {}
+export class ModelRestored<T = Model> extends ModelEvent<T> {}
+
+/** The dispatcher event class for each model event */
+export const MODEL_EVENTS: Record<ModelEventName, new (model: Model) => ModelEvent> = {
+  retrieved: ModelRetrieved,
+  creating: ModelCreating,
+  created: ModelCreated,
+  updating: ModelUpdating,
+  updated: ModelUpdated,
+  saving: ModelSaving,
+  saved: ModelSaved,
+  deleting: ModelDeleting,
+  deleted: ModelDeleted,
+  restoring: ModelRestoring,
+  restored: ModelRestored,
+};
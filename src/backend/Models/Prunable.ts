@@ -0,0 +1,178 @@
+/**
+ * Catalyst Prunable Models
+ *
+ * Models implementing `Prunable` delete the records matched by their
+ * `prunable()` query one by one, calling `pruning()` and firing the delete
+ * events for each. `MassPrunable` models delete matching rows in bulk without
+ * loading them. Soft deleted rows are included and removed permanently.
+ *
+ * @example
+ * ```ts
+ * class Session extends Model implements MassPrunable {
+ *   readonly massPrunable = true;
+ *
+ *   prunable() {
+ *     return Session.query().where('last_activity', '<', Date.now() - 30 * 86400000);
+ *   }
+ * }
+ *
+ * class Upload extends Model implements Prunable {
+ *   prunable() {
+ *     return Upload.query().whereNull('attached_at');
+ *   }
+ *
+ *   async pruning() {
+ *     await fs.promises.unlink(this.getAttribute('path'));
+ *   }
+ * }
+ *
+ * // catalyst model:prune --model=Upload --dry-run
+ * await pruneModels({ models: [Session, Upload] });
+ * ```
+ */
+
+import * as path from 'path';
+import { Event } from '@/backend/Events/Event';
+import { EventDispatcher } from '@/backend/Events/Dispatcher';
+import type { Model } from './Model';
+import { discoverModels } from './ModelDiscovery';
+import type { QueryBuilder } from './QueryBuilder';
+
+export interface Prunable {
+  /**
+   * Get the query matching the records to prune
+   */
+  prunable(): QueryBuilder<Record<string, unknown>>;
+
+  /**
+   * Prepare the model for pruning, e.g. delete its files
+   */
+  pruning?(): unknown;
+}
+
+export interface MassPrunable extends Prunable {
+  /** Delete matching rows in bulk, without loading models or firing events */
+  readonly massPrunable: true;
+}
+
+/** A model class whose instances are prunable */
+export type PrunableModelClass = (new () => Model & Prunable) & { name: string };
+
+export interface PruneOptions {
+  /** Model classes, or model names looked up in `path` (default: every prunable model in `path`) */
+  models?: Array<string | PrunableModelClass>;
+  /** Count the prunable records without deleting them */
+  dryRun?: boolean;
+  /** Records deleted per chunk */
+  chunkSize?: number;
+  /** Directory searched for model classes */
+  path?: string;
+}
+
+export interface PruneResult {
+  model: string;
+  count: number;
+}
+
+/**
+ * Dispatched after each chunk of records is pruned
+ */
+export class ModelsPruned extends Event {
+  constructor(public readonly model: string, public readonly count: number) {
+    super();
+  }
+}
+
+/**
+ * Determine if a model defines a prunable() query
+ */
+export function isPrunable(model: unknown): model is Model & Prunable {
+  return typeof (model as Prunable | null)?.prunable === 'function';
+}
+
+/**
+ * Determine if a prunable model deletes in bulk
+ */
+export function isMassPrunable(model: unknown): model is Model & MassPrunable {
+  return isPrunable(model) && (model as unknown as MassPrunable).massPrunable === true;
+}
+
+/**
+ * Prune the given models, or every prunable model found in the models directory
+ */
+export async function pruneModels(options: PruneOptions = {}): Promise<PruneResult[]> {
+  const directory = options.path ?? path.join(process.cwd(), 'src/backend/Models');
+  const requested = options.models ?? [];
+  const names = requested.filter((model): model is string => typeof model === 'string');
+  let classes = requested.filter((model): model is PrunableModelClass => typeof model === 'function');
+
+  if (requested.length === 0 || names.length > 0) {
+    const discovered = await discoverPrunableModels(directory);
+    const missing = names.filter((name) => !discovered.some((model) => model.name === name));
+    if (missing.length > 0) {
+      throw new Error(`Model [${missing.join(', ')}] is not prunable or was not found in [${directory}].`);
+    }
+    classes = [...classes, ...discovered.filter((model) => requested.length === 0 || names.includes(model.name))];
+  }
+
+  const results: PruneResult[] = [];
+  for (const modelClass of classes) {
+    results.push({ model: modelClass.name, count: await pruneModel(modelClass, options) });
+  }
+  return results;
+}
+
+/**
+ * Prune one model class, returning the number of records pruned (or prunable, on a dry run)
+ */
+export async function pruneModel(modelClass: PrunableModelClass, options: Pick<PruneOptions, 'dryRun' | 'chunkSize'> = {}): Promise<number> {
+  const model = new modelClass();
+  const chunkSize = options.chunkSize ?? 1000;
+  const query = () => {
+    const builder = model.prunable();
+    return model.usesSoftDeletes() ? builder.withTrashed() : builder;
+  };
+
+  if (options.dryRun) {
+    return query().count();
+  }
+
+  let total = 0;
+  const pruned = async (count: number) => {
+    total += count;
+    await EventDispatcher.getInstance().dispatch(new ModelsPruned(modelClass.name, count));
+  };
+
+  if (isMassPrunable(model)) {
+    const key = model.getKeyName();
+    for (;;) {
+      const ids = (await query().select(key).limit(chunkSize).get()).map((row) => row.getKey());
+      if (ids.length === 0) break;
+
+      // Delete through the prunable() query itself, so scopes it removed stay removed
+      const deleted = await query().whereIn(key, ids).forceDelete();
+      if (deleted === 0) break;
+      await pruned(deleted);
+    }
+    return total;
+  }
+
+  await query().chunkById(chunkSize, async (models) => {
+    let deleted = 0;
+    for (const record of models as unknown as Array<Model & Prunable>) {
+      await record.pruning?.();
+      if (await record.forceDelete()) deleted++;
+    }
+    await pruned(deleted);
+  });
+  return total;
+}
+
+/**
+ * Import the model classes in a directory that define a prunable() query
+ */
+export async function discoverPrunableModels(directory: string): Promise<PrunableModelClass[]> {
+  return discoverModels(directory, (value): value is PrunableModelClass =>
+    typeof value === 'function' && isPrunable(value.prototype)
+  );
+}
@@ -0,0 +1,1616 @@
+/**
+ * Catalyst Query Builder
+ *
+ * Fluent query builder bound to a model class. Builds Drizzle conditions,
+ * hydrates results into model instances and eager loads relationships.
+ *
+ * @example
+ * ```ts
+ * const users = await User.query()
+ *   .where('active', true)
+ *   .where((q) => q.where('role', 'admin').orWhere('votes', '>', 100))
+ *   .whereHas('posts', (q) => q.where('published', true))
+ *   .with('posts', 'posts.comments')
+ *   .get();
+ *
+ * // Local scopes: scopePopular(query, min) on the model
+ * const popular = await Post.query().popular(100).get();
+ * ```
+ */
+
+import { db, dbWrite } from '@/database';
+import { runTransaction, inTransaction, withWriteLock } from '@/database/transactions';
+import { interpolateBindings } from '@/database/QueryLog';
+import { affectedRows, execute, isMySql, isSQLite } from '@/database/dialect';
+import { tablePrefix } from '@/database/tables';
+import {
+  eq, and, or, like, gt, gte, lt, lte, ne, inArray, notInArray, isNull, isNotNull,
+  between, notBetween, exists, notExists, asc, desc, sql, SQL, getTableColumns, getTableName,
+} from 'drizzle-orm';
+import { alias } from 'drizzle-orm/sqlite-core';
+import type { SQLiteTable, SQLiteColumn } from 'drizzle-orm/sqlite-core';
+import type { Model } from './Model';
+import type { Scope } from './Scope';
+import { ModelCollection } from './ModelCollection';
+import { retrievedTogether } from './LazyLoading';
+import { Relation } from './Relations/Relation';
+import { MorphTo } from './Relations/MorphTo';
+import {
+  LengthAwarePaginator,
+  Paginator,
+  CursorPaginator,
+  Cursor,
+  PaginatorOptions,
+} from '@/backend/Pagination/Paginator';
+
+type ComparisonOperator = '=' | '!=' | '<' | '<=' | '>' | '>=';
+type WhereOperator = ComparisonOperator | 'like' | 'in' | 'not in' | 'is null' | 'is not null';
+
+/** Row lock requested by lockForUpdate() or sharedLock() */
+export type LockMode = 'update' | 'share';
+
+/** How a where condition joins the conditions before it */
+type WhereBoolean = 'and' | 'or';
+
+interface WhereClause {
+  condition: SQL;
+  boolean: WhereBoolean;
+}
+
+/** Aggregate functions supported by the builder */
+type AggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+/** A selected column or expression, keyed by its result name */
+type SelectField = SQLiteColumn | SQL | SQL.Aliased;
+
+interface JoinClause {
+  type: 'inner' | 'left';
+  table: SQLiteTable;
+  on: SQL;
+}
+
+/** A step of the plan the database chose for a query */
+export interface QueryPlanStep {
+  id: number;
+  parent: number;
+  detail: string;
+}
+
+/** Callback receiving each chunk of models; return false to stop chunking */
+export type ChunkCallback<TModel> = (models: TModel[], page: number) => unknown;
+
+/** Callback building a parenthesized group of where conditions */
+export type WhereCallback<TQuery> = (query: TQuery) => void;
+
+/** Constructor of a concrete model class */
+export type ModelConstructor<TModel = Model> = new () => TModel;
+
+/** Callback used to constrain an eager loaded relationship query */
+export type RelationConstraint = (query: QueryBuilder<Record<string, unknown>>) => void;
+
+/** Callback constraining a polymorphic owner query, receiving the owner's morph type */
+export type MorphRelationConstraint = (query: QueryBuilder<Record<string, unknown>>, type: string) => void;
+
+/** Relationship names accepted by `with()` */
+export type EagerLoadDefinition = string | Record<string, RelationConstraint>;
+
+/** How soft deleted rows are treated by a query */
+type TrashedMode = 'exclude' | 'with' | 'only';
+
+type ScopeName<K> = K extends `scope${infer Name}` ? Uncapitalize<Name> : never;
+
+/** Local scope methods (`scopeActive`) exposed as builder methods (`active()`) */
+export type QueryScopes<TAttributes extends Record<string, unknown>, TModel extends Model<TAttributes>> = {
+  [K in keyof TModel as ScopeName<K>]: TModel[K] extends (query: never, ...args: infer A) => unknown
+    ? (...args: A) => ScopedQueryBuilder<TAttributes, TModel>
+    : never;
+};
+
+/** A query builder with the model's local scopes available as methods */
+export type ScopedQueryBuilder<
+  TAttributes extends Record<string, unknown>,
+  TModel extends Model<TAttributes> = Model<TAttributes>
+> = QueryBuilder<TAttributes, TModel> & QueryScopes<TAttributes, TModel>;
+
+export interface QueryBuilderOptions {
+  /** The model's table, typed for the builder API both dialects share */
+  table: SQLiteTable;
+  /** The key column, or the columns of a composite key */
+  primaryKey: string | string[];
+}
+
+/**
+ * Query Builder for fluent database queries
+ */
+export class QueryBuilder<
+  TAttributes extends Record<string, unknown>,
+  TModel extends Model<TAttributes> = Model<TAttributes>
+> {
+  private conditions: WhereClause[] = [];
+  private scopeConditions: SQL[] = [];
+  private orderByClause: Array<{ column: string; direction: 'asc' | 'desc' }> = [];
+  private limitValue?: number;
+  private offsetValue?: number;
+  private selectColumns: string[] = [];
+  private extraSelects: Record<string, SelectField> = {};
+  private joins: JoinClause[] = [];
+  private groups: string[] = [];
+  private havings: SQL[] = [];
+  private eagerLoad: Map<string, RelationConstraint | undefined> = new Map();
+  private trashed: TrashedMode = 'exclude';
+  private removedScopes: Set<string> = new Set();
+  private scopesApplied: boolean = false;
+  private lockMode: LockMode | null = null;
+  private model: TModel;
+
+  constructor(
+    private modelClass: ModelConstructor<TModel>,
+    private options: QueryBuilderOptions
+  ) {
+    this.model = new modelClass();
+
+    // Resolve unknown methods to the model's local scopes
+    return new Proxy(this, {
+      get(target, property, receiver) {
+        if (typeof property === 'string' && !(property in target) && target.hasLocalScope(property)) {
+          return (...args: unknown[]) => (receiver as QueryBuilder<TAttributes, TModel>).scope(property, ...args);
+        }
+        return Reflect.get(target, property, receiver);
+      },
+    });
+  }
+
+  /**
+   * Add a where condition
+   *
+   * Pass a callback to group conditions in parentheses:
+   * `where((q) => q.where('a', 1).orWhere('b', 2))`.
+   */
+  where(column: WhereCallback<this> | keyof TAttributes | string, operatorOrValue?: WhereOperator | unknown, value?: unknown): this {
+    return this.addWhere(column, operatorOrValue, value, 'and');
+  }
+
+  /**
+   * Add an "or where" condition
+   */
+  orWhere(column: WhereCallback<this> | keyof TAttributes | string, operatorOrValue?: WhereOperator | unknown, value?: unknown): this {
+    return this.addWhere(column, operatorOrValue, value, 'or');
+  }
+
+  /**
+   * Add a basic or nested where condition joined with the given boolean
+   */
+  private addWhere(
+    column: WhereCallback<this> | keyof TAttributes | string,
+    operatorOrValue: WhereOperator | unknown,
+    value: unknown,
+    boolean: WhereBoolean
+  ): this {
+    if (typeof column === 'function') {
+      return this.whereNested(column, boolean);
+    }
+
+    const col = this.getColumn(column as string);
+    if (!col) return this;
+
+    // Handle different argument patterns
+    if (value === undefined && operatorOrValue !== undefined) {
+      // where('column', 'value') - equals
+      this.pushCondition(eq(col, operatorOrValue), boolean);
+    } else if (operatorOrValue && value !== undefined) {
+      // where('column', 'operator', 'value')
+      this.pushCondition(this.compare(col, operatorOrValue as WhereOperator, value), boolean);
+    }
+    return this;
+  }
+
+  /**
+   * Add a parenthesized group of conditions built by a callback
+   */
+  private whereNested(callback: WhereCallback<this>, boolean: WhereBoolean): this {
+    const nested = new QueryBuilder<TAttributes, TModel>(this.modelClass, this.options) as this;
+    callback(nested);
+    this.pushCondition(nested.compileWheres(), boolean);
+    return this;
+  }
+
+  /**
+   * Build the comparison for an operator
+   */
+  private compare(left: SQLiteColumn, operator: WhereOperator, value: unknown): SQL | undefined {
+    switch (operator) {
+      case '=':
+        return eq(left, value);
+      case '!=':
+        return ne(left, value);
+      case '<':
+        return lt(left, value);
+      case '<=':
+        return lte(left, value);
+      case '>':
+        return gt(left, value);
+      case '>=':
+        return gte(left, value);
+      case 'like':
+        return like(left, value as string);
+      case 'in':
+        return inArray(left, value as unknown[]);
+      case 'not in':
+        return notInArray(left, value as unknown[]);
+      case 'is null':
+        return isNull(left);
+      case 'is not null':
+        return isNotNull(left);
+    }
+    return undefined;
+  }
+
+  /**
+   * Add a where equals condition
+   */
+  whereEquals(column: keyof TAttributes | string, value: unknown): this {
+    return this.where(column, '=', value);
+  }
+
+  /**
+   * Add a where not equals condition
+   */
+  whereNot(column: keyof TAttributes | string, value: unknown): this {
+    return this.where(column, '!=', value);
+  }
+
+  /**
+   * Add a where null condition
+   */
+  whereNull(column: keyof TAttributes | string): this {
+    const col = this.getColumn(column as string);
+    if (col) this.pushCondition(isNull(col));
+    return this;
+  }
+
+  /**
+   * Add a where not null condition
+   */
+  whereNotNull(column: keyof TAttributes | string): this {
+    const col = this.getColumn(column as string);
+    if (col) this.pushCondition(isNotNull(col));
+    return this;
+  }
+
+  /**
+   * Add a where in condition
+   */
+  whereIn(column: keyof TAttributes | string, values: unknown[]): this {
+    const col = this.getColumn(column as string);
+    if (col) this.pushCondition(inArray(col, values));
+    return this;
+  }
+
+  /**
+   * Add a where not in condition
+   */
+  whereNotIn(column: keyof TAttributes | string, values: unknown[]): this {
+    const col = this.getColumn(column as string);
+    if (col) this.pushCondition(notInArray(col, values));
+    return this;
+  }
+
+  /**
+   * Add a where between condition (inclusive)
+   */
+  whereBetween(column: keyof TAttributes | string, [min, max]: [unknown, unknown]): this {
+    const col = this.getColumn(column as string);
+    if (col) this.pushCondition(between(col, min, max));
+    return this;
+  }
+
+  /**
+   * Add a where not between condition
+   */
+  whereNotBetween(column: keyof TAttributes | string, [min, max]: [unknown, unknown]): this {
+    const col = this.getColumn(column as string);
+    if (col) this.pushCondition(notBetween(col, min, max));
+    return this;
+  }
+
+  /**
+   * Add a where like condition
+   */
+  whereLike(column: keyof TAttributes | string, pattern: string): this {
+    return this.where(column, 'like', pattern);
+  }
+
+  /**
+   * Compare two columns: whereColumn('updated_at', '>', 'created_at')
+   */
+  whereColumn(first: keyof TAttributes | string, operatorOrSecond: WhereOperator | string, second?: string): this {
+    return this.addWhereColumn(first as string, operatorOrSecond, second, 'and');
+  }
+
+  /**
+   * Add an "or" column comparison
+   */
+  orWhereColumn(first: keyof TAttributes | string, operatorOrSecond: WhereOperator | string, second?: string): this {
+    return this.addWhereColumn(first as string, operatorOrSecond, second, 'or');
+  }
+
+  private addWhereColumn(first: string, operatorOrSecond: string, second: string | undefined, boolean: WhereBoolean): this {
+    const operator = (second === undefined ? '=' : operatorOrSecond) as WhereOperator;
+    const left = this.getColumn(first);
+    const right = this.getColumn(second ?? operatorOrSecond);
+    if (left && right) this.pushCondition(this.compare(left, operator, right), boolean);
+    return this;
+  }
+
+  /**
+   * Add a raw Drizzle SQL condition
+   */
+  whereRaw(condition: SQL): this {
+    this.pushCondition(condition);
+    return this;
+  }
+
+  /**
+   * Add a raw Drizzle SQL "or" condition
+   */
+  orWhereRaw(condition: SQL): this {
+    this.pushCondition(condition, 'or');
+    return this;
+  }
+  /**
+   * Filter by primary key: one key, an array of keys, or for composite keys
+   * an array of column values or an array of those
+   */
+  whereKey(id: unknown): this {
+    const columns = this.keyColumns();
+    if (columns.length === 1) {
+      return Array.isArray(id) ? this.whereIn(columns[0], id) : this.where(columns[0], '=', id);
+    }
+
+    const keys = (Array.isArray(id) && (id.length === 0 || Array.isArray(id[0])) ? id : [id]) as unknown[];
+    if (keys.length === 0) {
+      return this.whereRaw(sql`0 = 1`);
+    }
+
+    return this.where((query) => {
+      for (const key of keys) {
+        if (!Array.isArray(key) || key.length !== columns.length) {
+          throw new Error(`A composite key needs values for [${columns.join(', ')}].`);
+        }
+        query.orWhere((match) => columns.forEach((column, index) => match.where(column, '=', key[index])));
+      }
+    });
+  }
+
+
+  // ==================== RELATIONSHIP EXISTENCE ====================
+
+  /**
+   * Filter by the number of related models
+   *
+   * Compiles to an EXISTS subquery, or a correlated count when comparing
+   * against anything other than "at least one". Nested relations use dot
+   * notation: `has('posts.comments')`.
+   */
+  has(
+    relation: string,
+    operator: ComparisonOperator = '>=',
+    count: number = 1,
+    boolean: WhereBoolean = 'and',
+    callback?: RelationConstraint
+  ): this {
+    const [name, ...nested] = relation.split('.');
+    if (nested.length > 0) {
+      // Only the innermost relation is compared with the operator and count
+      return this.has(name, '>=', 1, boolean, (query) => {
+        query.has(nested.join('.'), operator, count, 'and', callback);
+      });
+    }
+
+    const relationship = QueryBuilder.getRelation(this.model as unknown as Model, name);
+    if (relationship instanceof MorphTo) {
+      return this.hasMorph(name, '*', operator, count, boolean, callback);
+    }
+
+    const query = relationship.getRelationExistenceQuery(this.getTable());
+    if (callback) {
+      callback(query);
+    }
+
+    this.pushCondition(this.existenceCondition(query, operator, count), boolean);
+    return this;
+  }
+
+  /**
+   * Filter by the owners of a polymorphic relation, checking each owner type's table
+   *
+   * Pass `'*'` to check every morph type stored in the table.
+   */
+  hasMorph(
+    relation: string,
+    types: Array<ModelConstructor | string> | '*',
+    operator: ComparisonOperator = '>=',
+    count: number = 1,
+    boolean: WhereBoolean = 'and',
+    callback?: MorphRelationConstraint
+  ): this {
+    const morphTo = QueryBuilder.getRelation(this.model as unknown as Model, relation);
+    if (!(morphTo instanceof MorphTo)) {
+      throw new Error(`Relationship [${relation}] on model [${this.model.constructor.name}] is not a morph-to relationship.`);
+    }
+
+    const morphTypes = types === '*'
+      ? morphTo.getMorphTypes()
+      : types.map((type) => (typeof type === 'string' ? type : Relation.getMorphAlias(type)));
+
+    const conditions = morphTypes.map((type) => {
+      const query = morphTo.getRelationExistenceQueryFor(type, this.getTable());
+      if (callback) {
+        callback(query, type);
+      }
+      return and(morphTo.getMorphTypeCondition(type), this.existenceCondition(query, operator, count));
+    });
+
+    this.pushCondition(conditions.length > 0 ? or(...conditions) : sql`0 = 1`, boolean);
+    return this;
+  }
+
+  /**
+   * Filter by polymorphic owners matching the callback's constraints
+   */
+  whereHasMorph(
+    relation: string,
+    types: Array<ModelConstructor | string> | '*',
+    callback?: MorphRelationConstraint,
+    operator: ComparisonOperator = '>=',
+    count: number = 1
+  ): this {
+    return this.hasMorph(relation, types, operator, count, 'and', callback);
+  }
+
+  /**
+   * Add an "or" polymorphic owner filter
+   */
+  orWhereHasMorph(
+    relation: string,
+    types: Array<ModelConstructor | string> | '*',
+    callback?: MorphRelationConstraint,
+    operator: ComparisonOperator = '>=',
+    count: number = 1
+  ): this {
+    return this.hasMorph(relation, types, operator, count, 'or', callback);
+  }
+
+  /**
+   * Filter to models whose polymorphic owner doesn't match the callback's constraints
+   */
+  whereDoesntHaveMorph(relation: string, types: Array<ModelConstructor | string> | '*', callback?: MorphRelationConstraint): this {
+    return this.hasMorph(relation, types, '<', 1, 'and', callback);
+  }
+
+  /**
+   * Compare the number of rows matched by a correlated relation query
+   */
+  private existenceCondition(query: QueryBuilder<Record<string, unknown>>, operator: ComparisonOperator, count: number): SQL {
+    if (operator === '>=' && count === 1) {
+      return exists(query.toSubquery());
+    }
+    if (operator === '<' && count === 1) {
+      return notExists(query.toSubquery());
+    }
+    return sql`${query.toSubquery(sql`count(*)`)} ${sql.raw(operator)} ${count}`;
+  }
+
+  /**
+   * Filter by related models matching the callback's constraints
+   */
+  whereHas(relation: string, callback?: RelationConstraint, operator: ComparisonOperator = '>=', count: number = 1): this {
+    return this.has(relation, operator, count, 'and', callback);
+  }
+
+  /**
+   * Add an "or" relationship existence filter
+   */
+  orWhereHas(relation: string, callback?: RelationConstraint, operator: ComparisonOperator = '>=', count: number = 1): this {
+    return this.has(relation, operator, count, 'or', callback);
+  }
+
+  /**
+   * Filter to models without any related models
+   */
+  doesntHave(relation: string, boolean: WhereBoolean = 'and', callback?: RelationConstraint): this {
+    return this.has(relation, '<', 1, boolean, callback);
+  }
+
+  /**
+   * Filter to models without related models matching the callback's constraints
+   */
+  whereDoesntHave(relation: string, callback?: RelationConstraint): this {
+    return this.doesntHave(relation, 'and', callback);
+  }
+
+  // ==================== RELATIONSHIP AGGREGATES ====================
+
+  /**
+   * Add a `{relation}_count` attribute counting related models
+   *
+   * Use `'posts as drafts_count'` to name the attribute, or pass an object
+   * of relation name to constraint callback.
+   */
+  withCount(...relations: EagerLoadDefinition[]): this {
+    return this.withAggregate(relations, '*', 'count');
+  }
+
+  /**
+   * Add a `{relation}_sum_{column}` attribute summing a related column
+   */
+  withSum(relation: EagerLoadDefinition, column: string): this {
+    return this.withAggregate([relation], column, 'sum');
+  }
+
+  /**
+   * Add a `{relation}_avg_{column}` attribute averaging a related column
+   */
+  withAvg(relation: EagerLoadDefinition, column: string): this {
+    return this.withAggregate([relation], column, 'avg');
+  }
+
+  /**
+   * Add a `{relation}_min_{column}` attribute
+   */
+  withMin(relation: EagerLoadDefinition, column: string): this {
+    return this.withAggregate([relation], column, 'min');
+  }
+
+  /**
+   * Add a `{relation}_max_{column}` attribute
+   */
+  withMax(relation: EagerLoadDefinition, column: string): this {
+    return this.withAggregate([relation], column, 'max');
+  }
+
+  /**
+   * Select a correlated aggregate subquery for each relation
+   */
+  withAggregate(relations: EagerLoadDefinition[], column: string, fn: AggregateFunction): this {
+    const definitions = relations.flatMap((definition): Array<[string, RelationConstraint | undefined]> =>
+      typeof definition === 'string' ? [[definition, undefined]] : Object.entries(definition)
+    );
+
+    for (const [definition, constraint] of definitions) {
+      const [name, alias] = definition.split(/\s+as\s+/i);
+      const query = QueryBuilder.getRelation(this.model as unknown as Model, name).getRelationExistenceQuery(this.getTable());
+      if (constraint) {
+        constraint(query);
+      }
+
+      const col = column === '*' ? null : query.getColumn(column);
+      if (column !== '*' && !col) {
+        throw new Error(`Column [${column}] not found on relation [${name}].`);
+      }
+
+      const expression = sql`${sql.raw(fn)}(${col ?? sql.raw('*')})`;
+      const attribute = alias ?? (fn === 'count' ? `${name}_count` : `${name}_${fn}_${column}`);
+      this.addSelect({ [attribute]: sql`${query.toSubquery(expression)}` });
+    }
+    return this;
+  }
+
+  /**
+   * Build the query as a Drizzle subquery selecting a single expression
+   */
+  toSubquery(expression: SQL = sql`1`) {
+    return this.buildSelect({ value: expression });
+  }
+
+  /**
+   * Order by a column
+   */
+  orderBy(column: keyof TAttributes | string, direction: 'asc' | 'desc' = 'asc'): this {
+    this.orderByClause.push({ column: column as string, direction });
+    return this;
+  }
+
+  /**
+   * Order by descending
+   */
+  orderByDesc(column: keyof TAttributes | string): this {
+    return this.orderBy(column, 'desc');
+  }
+
+  /**
+   * Limit results
+   */
+  limit(count: number): this {
+    this.limitValue = count;
+    return this;
+  }
+
+  /**
+   * Alias for limit
+   */
+  take(count: number): this {
+    return this.limit(count);
+  }
+
+  /**
+   * Offset results
+   */
+  offset(count: number): this {
+    this.offsetValue = count;
+    return this;
+  }
+
+  /**
+   * Alias for offset
+   */
+  skip(count: number): this {
+    return this.offset(count);
+  }
+
+  /**
+   * Lock the selected rows for update until the transaction ends
+   *
+   * On PostgreSQL and MySQL the select uses FOR UPDATE. SQLite has no row locks:
+   * transactions hold the database write lock from BEGIN IMMEDIATE. On both,
+   * a locking query outside a transaction runs in its own transaction and
+   * locking queries read from the write connection.
+   */
+  lockForUpdate(): this {
+    return this.lock('update');
+  }
+
+  /**
+   * Lock the selected rows against updates until the transaction ends
+   */
+  sharedLock(): this {
+    return this.lock('share');
+  }
+
+  /**
+   * Set the row lock mode, or remove it with false
+   */
+  lock(mode: LockMode | boolean = true): this {
+    this.lockMode = mode === true ? 'update' : mode || null;
+    return this;
+  }
+
+  /**
+   * Get the row lock mode
+   */
+  getLock(): LockMode | null {
+    return this.lockMode;
+  }
+
+  /**
+   * Get the primary key columns
+   */
+  private keyColumns(): string[] {
+    return Array.isArray(this.options.primaryKey) ? this.options.primaryKey : [this.options.primaryKey];
+  }
+
+  /**
+   * Get the single primary key column, used to page by key
+   */
+  private keyColumn(): string {
+    if (Array.isArray(this.options.primaryKey)) {
+      throw new Error(`Paging by key needs a single key column; pass one of [${this.options.primaryKey.join(', ')}].`);
+    }
+    return this.options.primaryKey;
+  }
+
+  /**
+   * Get the connection the query reads from
+   */
+  private connection() {
+    return this.lockMode ? dbWrite() : db();
+  }
+
+  /**
+   * Select specific columns
+   */
+  select(...columns: (keyof TAttributes | string)[]): this {
+    this.selectColumns = columns as string[];
+    return this;
+  }
+
+  /**
+   * Add named expressions or joined columns to the selection
+   *
+   * @example
+   * ```ts
+   * Order.query().select('status').addSelect({ revenue: sql`sum(${orders.total})` }).groupBy('status');
+   * ```
+   */
+  addSelect(fields: Record<string, SelectField>): this {
+    for (const [alias, field] of Object.entries(fields)) {
+      this.extraSelects[alias] = field instanceof SQL ? field.as(alias) : field;
+    }
+    return this;
+  }
+
+  /**
+   * Select from the model's table under an alias
+   *
+   * Lets a subquery on the same table correlate with the outer query. Call it
+   * before adding conditions: columns resolve against the alias from then on.
+   */
+  fromAlias(name: string): this {
+    this.options = { ...this.options, table: alias(this.options.table, name) };
+    return this;
+  }
+
+  /**
+   * Get the name (or alias) the query selects its table as
+   */
+  getTable(): string {
+    return getTableName(this.options.table);
+  }
+
+  /**
+   * Inner join another table: join(posts, 'users.id', '=', 'posts.user_id')
+   */
+  join(table: SQLiteTable, first: string, operatorOrSecond: string, second?: string): this {
+    return this.addJoin('inner', table, first, operatorOrSecond, second);
+  }
+
+  /**
+   * Left join another table
+   */
+  leftJoin(table: SQLiteTable, first: string, operatorOrSecond: string, second?: string): this {
+    return this.addJoin('left', table, first, operatorOrSecond, second);
+  }
+
+  private addJoin(type: JoinClause['type'], table: SQLiteTable, first: string, operatorOrSecond: string, second?: string): this {
+    const operator = (second === undefined ? '=' : operatorOrSecond) as WhereOperator;
+    const left = this.getColumn(first, table);
+    const right = this.getColumn(second ?? operatorOrSecond, table);
+    const on = left && right ? this.compare(left, operator, right) : undefined;
+
+    if (!on) {
+      throw new Error(`Invalid join condition [${first} ${operatorOrSecond} ${second ?? ''}] for table [${getTableName(table)}].`);
+    }
+
+    this.joins.push({ type, table, on });
+    return this;
+  }
+
+  /**
+   * Group the results by one or more columns
+   */
+  groupBy(...columns: (keyof TAttributes | string)[]): this {
+    this.groups.push(...(columns as string[]));
+    return this;
+  }
+
+  /**
+   * Filter groups by a column or selected alias
+   */
+  having(column: string, operator: ComparisonOperator, value: unknown): this {
+    const left = this.getColumn(column) ?? sql.identifier(column);
+    this.havings.push(sql`${left} ${sql.raw(operator)} ${value}`);
+    return this;
+  }
+
+  /**
+   * Filter groups with a raw Drizzle SQL condition
+   */
+  havingRaw(condition: SQL): this {
+    this.havings.push(condition);
+    return this;
+  }
+
+  /**
+   * Set the relationships that should be eager loaded
+   *
+   * Nested relationships use dot notation (`posts.comments`) and constraints
+   * can be passed as an object of relation name to callback.
+   */
+  with(...relations: EagerLoadDefinition[]): this {
+    for (const definition of relations) {
+      if (typeof definition === 'string') {
+        this.addEagerLoad(definition);
+      } else {
+        for (const [name, constraint] of Object.entries(definition)) {
+          this.addEagerLoad(name, constraint);
+        }
+      }
+    }
+    return this;
+  }
+
+  /**
+   * Register a relationship path, making sure every parent segment is loaded
+   */
+  private addEagerLoad(name: string, constraint?: RelationConstraint): void {
+    const segments = name.split('.');
+    for (let i = 1; i < segments.length; i++) {
+      const parent = segments.slice(0, i).join('.');
+      if (!this.eagerLoad.has(parent)) {
+        this.eagerLoad.set(parent, undefined);
+      }
+    }
+    this.eagerLoad.set(name, constraint ?? this.eagerLoad.get(name));
+  }
+
+  /**
+   * Include soft deleted models in the results
+   */
+  withTrashed(): this {
+    this.trashed = 'with';
+    return this;
+  }
+
+  /**
+   * Only return soft deleted models
+   */
+  onlyTrashed(): this {
+    this.trashed = 'only';
+    return this;
+  }
+
+  /**
+   * Exclude soft deleted models from the results (the default)
+   */
+  withoutTrashed(): this {
+    this.trashed = 'exclude';
+    return this;
+  }
+
+  /**
+   * Apply a local scope defined as `scope<Name>` on the model
+   */
+  scope(name: string, ...args: unknown[]): this {
+    const method = (this.model as unknown as Record<string, unknown>)[this.localScopeMethod(name)];
+
+    if (typeof method !== 'function') {
+      throw new Error(`Call to undefined scope [${name}] on model [${this.model.constructor.name}].`);
+    }
+
+    method.call(this.model, this, ...args);
+    return this;
+  }
+
+  /**
+   * Determine if the model defines the given local scope
+   */
+  hasLocalScope(name: string): boolean {
+    const method = (this.model as unknown as Record<string, unknown>)[this.localScopeMethod(name)];
+    return typeof method === 'function';
+  }
+
+  /**
+   * Get the model method name backing a local scope
+   */
+  private localScopeMethod(name: string): string {
+    return `scope${name.charAt(0).toUpperCase()}${name.slice(1)}`;
+  }
+
+  /**
+   * Remove a registered global scope from the query
+   */
+  withoutGlobalScope(scope: string | (new () => Scope)): this {
+    this.removedScopes.add(typeof scope === 'string' ? scope : scope.name);
+    return this;
+  }
+
+  /**
+   * Remove all or the given global scopes from the query
+   */
+  withoutGlobalScopes(scopes?: Array<string | (new () => Scope)>): this {
+    const names = scopes ?? Array.from(this.model.getGlobalScopes().keys());
+    for (const scope of names) {
+      this.withoutGlobalScope(scope);
+    }
+    return this;
+  }
+
+  /**
+   * Apply the model's global scopes once, just before the query runs
+   */
+  private applyGlobalScopes(): void {
+    if (this.scopesApplied) return;
+    this.scopesApplied = true;
+
+    const query = this as unknown as QueryBuilder<Record<string, unknown>>;
+    const wheres = this.conditions;
+
+    // Each scope's conditions are grouped so its orWhere calls stay contained
+    for (const [name, scope] of this.model.getGlobalScopes()) {
+      if (this.removedScopes.has(name)) continue;
+
+      this.conditions = [];
+      if (typeof scope === 'function') {
+        scope(query);
+      } else {
+        scope.apply(query, this.model as unknown as Model);
+      }
+
+      const compiled = this.compileWheres();
+      if (compiled) this.scopeConditions.push(compiled);
+    }
+
+    this.conditions = wheres;
+  }
+
+  /**
+   * Add a compiled condition joined with the given boolean
+   */
+  private pushCondition(condition: SQL | undefined, boolean: WhereBoolean = 'and'): void {
+    if (condition) this.conditions.push({ condition, boolean });
+  }
+
+  /**
+   * Group the existing wheres so conditions added afterwards apply to every OR branch
+   */
+  private groupWheres(): this {
+    const wheres = this.compileWheres();
+    this.conditions = [];
+    this.pushCondition(wheres);
+    return this;
+  }
+
+  /**
+   * Compile the where clauses, binding AND tighter than OR
+   */
+  private compileWheres(): SQL | undefined {
+    const groups: SQL[][] = [];
+    for (const { condition, boolean } of this.conditions) {
+      if (boolean === 'or' || groups.length === 0) {
+        groups.push([condition]);
+      } else {
+        groups[groups.length - 1].push(condition);
+      }
+    }
+
+    if (groups.length === 0) return undefined;
+    return groups.length === 1 ? and(...groups[0]) : or(...groups.map((group) => and(...group)));
+  }
+
+  /**
+   * Combine the where conditions with the global and soft delete scopes
+   */
+  private compileConditions(): SQL | undefined {
+    this.applyGlobalScopes();
+
+    const conditions = [this.compileWheres(), ...this.scopeConditions];
+
+    if (this.model.usesSoftDeletes() && this.trashed !== 'with') {
+      const deletedAt = this.getColumn(this.model.getDeletedAtColumn());
+      if (deletedAt) {
+        conditions.push(this.trashed === 'only' ? isNotNull(deletedAt) : isNull(deletedAt));
+      }
+    }
+
+    const defined = conditions.filter((condition): condition is SQL => condition !== undefined);
+    return defined.length > 0 ? and(...defined) : undefined;
+  }
+
+  /**
+   * Get the column reference from the table
+   *
+   * Qualified names (`posts.title`) resolve against the model's table, a
+   * joined table or the table currently being joined, with or without the
+   * connection's table prefix.
+   */
+  private getColumn(name: string, joining?: SQLiteTable): SQLiteColumn | null {
+    let table: SQLiteTable | undefined = this.options.table;
+    let column = name;
+
+    const dot = name.indexOf('.');
+    if (dot !== -1) {
+      const tableName = name.slice(0, dot);
+      const prefixed = `${tablePrefix()}${tableName}`;
+      column = name.slice(dot + 1);
+      table = [this.options.table, ...this.joins.map((join) => join.table), ...(joining ? [joining] : [])]
+        .find((candidate) => getTableName(candidate) === tableName || getTableName(candidate) === prefixed);
+    }
+
+    if (!table) return null;
+    return (table as unknown as Record<string, SQLiteColumn>)[column] || null;
+  }
+
+  /**
+   * Get the fields to select: the model's columns plus any extra selections
+   */
+  private compileSelect(): Record<string, SelectField> {
+    const fields: Record<string, SelectField> = {};
+
+    if (this.selectColumns.length > 0) {
+      for (const name of this.selectColumns) {
+        const col = this.getColumn(name);
+        if (col) fields[name.slice(name.indexOf('.') + 1)] = col;
+      }
+    } else {
+      Object.assign(fields, getTableColumns(this.options.table));
+    }
+
+    return { ...fields, ...this.extraSelects };
+  }
+
+  /**
+   * Build a select with the joins, conditions, groups and havings applied
+   */
+  private buildSelect(fields: Record<string, SelectField>) {
+    let query = this.connection().select(fields).from(this.options.table);
+
+    for (const { type, table, on } of this.joins) {
+      query = (type === 'left' ? query.leftJoin(table, on) : query.innerJoin(table, on)) as unknown as typeof query;
+    }
+
+    query = query.where(this.compileConditions()) as typeof query;
+
+    if (this.groups.length > 0) {
+      const groups = this.groups.flatMap((name) => this.getColumn(name) ?? []);
+      query = query.groupBy(...groups) as typeof query;
+    }
+    if (this.havings.length > 0) {
+      query = query.having(and(...this.havings)) as typeof query;
+    }
+
+    return query;
+  }
+
+  /**
+   * Build the full row query, including ordering, limit and offset
+   */
+  private buildRowsQuery(fields: Record<string, SelectField>) {
+    let query = this.buildSelect(fields);
+
+    // Apply ordering
+    const ordering = this.compileOrderBy();
+    if (ordering.length > 0) {
+      query = query.orderBy(...ordering) as typeof query;
+    }
+
+    // Apply limit and offset
+    if (this.limitValue !== undefined) {
+      query = query.limit(this.limitValue) as typeof query;
+    }
+    if (this.offsetValue !== undefined) {
+      query = query.offset(this.offsetValue) as typeof query;
+    }
+
+    if (this.lockMode && !isSQLite(this.connection())) {
+      const locking = query as unknown as { for(strength: 'update' | 'share'): typeof query };
+      query = locking.for(this.lockMode);
+    }
+
+    return query;
+  }
+
+  /**
+   * Build and execute the query, return all results
+   */
+  async get(): Promise<ModelCollection<TModel>> {
+    if (this.lockMode && !inTransaction(dbWrite())) {
+      return runTransaction(dbWrite(), () => this.getModels());
+    }
+    return this.getModels();
+  }
+
+  /**
+   * Run the select and hydrate the rows into models
+   */
+  private async getModels(): Promise<ModelCollection<TModel>> {
+    const results = await this.buildRowsQuery(this.compileSelect());
+    const models = new ModelCollection(results.map((row) => this.model.newFromBuilder(row as Record<string, unknown>)));
+    for (const model of models) {
+      await (model as unknown as Model).fireModelEvent('retrieved', false);
+    }
+    retrievedTogether(models as unknown as Model[]);
+
+    if (models.length > 0 && this.eagerLoad.size > 0) {
+      await this.eagerLoadRelations(models as unknown as Model[]);
+    }
+
+    return models;
+  }
+
+  /**
+   * Get the first result
+   */
+  async first(): Promise<TModel | null> {
+    this.limitValue = 1;
+    const results = await this.get();
+    return results[0] || null;
+  }
+
+  /**
+   * Get the first result or throw
+   */
+  async firstOrFail(): Promise<TModel> {
+    const result = await this.first();
+    if (!result) {
+      throw new Error('No record found');
+    }
+    return result;
+  }
+
+  /**
+   * Find a model by its primary key
+   */
+  async find(id: unknown): Promise<TModel | null> {
+    return this.whereKey(id).first();
+  }
+
+  /**
+   * Get count of results
+   */
+  async count(): Promise<number> {
+    // Grouped queries count the groups rather than the rows
+    if (this.groups.length > 0 || this.havings.length > 0) {
+      const [result] = await this.connection()
+        .select({ count: sql<number>`count(*)` })
+        .from(this.buildSelect(this.compileSelect()).as('aggregate'));
+      return Number(result?.count) || 0;
+    }
+
+    return Number(await this.aggregate('count', '*')) || 0;
+  }
+
+  /**
+   * Check if any records exist
+   */
+  async exists(): Promise<boolean> {
+    const count = await this.count();
+    return count > 0;
+  }
+
+  // ==================== AGGREGATES ====================
+
+  /**
+   * Get the sum of a column (0 when no rows match)
+   */
+  async sum(column: keyof TAttributes | string): Promise<number> {
+    return Number(await this.aggregate('sum', column as string)) || 0;
+  }
+
+  /**
+   * Get the average of a column
+   */
+  async avg(column: keyof TAttributes | string): Promise<number | null> {
+    const result = await this.aggregate('avg', column as string);
+    return result === null || result === undefined ? null : Number(result);
+  }
+
+  /**
+   * Get the minimum value of a column
+   */
+  async min<K extends keyof TAttributes>(column: K | string): Promise<TAttributes[K] | null> {
+    return ((await this.aggregate('min', column as string)) ?? null) as TAttributes[K] | null;
+  }
+
+  /**
+   * Get the maximum value of a column
+   */
+  async max<K extends keyof TAttributes>(column: K | string): Promise<TAttributes[K] | null> {
+    return ((await this.aggregate('max', column as string)) ?? null) as TAttributes[K] | null;
+  }
+
+  /**
+   * Run an aggregate function over a column
+   *
+   * min/max values are decoded by the column, so timestamp columns return Dates.
+   */
+  private async aggregate(fn: AggregateFunction, column: string): Promise<unknown> {
+    const col = column === '*' ? null : this.getColumn(column);
+    if (column !== '*' && !col) {
+      throw new Error(`Column [${column}] not found on table [${getTableName(this.options.table)}].`);
+    }
+
+    let expression = sql`${sql.raw(fn)}(${col ?? sql.raw('*')})`;
+    if (col && (fn === 'min' || fn === 'max')) {
+      expression = expression.mapWith(col);
+    }
+
+    const [result] = await this.buildSelect({ aggregate: expression });
+    return result?.aggregate;
+  }
+
+  /**
+   * Build the ORDER BY expressions for known columns and selected aliases
+   */
+  private compileOrderBy(): SQL[] {
+    const ordering: SQL[] = [];
+    for (const { column, direction } of this.orderByClause) {
+      const col = this.getColumn(column) ?? (column in this.extraSelects ? sql.identifier(column) : null);
+      if (col) ordering.push(direction === 'desc' ? desc(col) : asc(col));
+    }
+    return ordering;
+  }
+
+  // ==================== PAGINATION ====================
+
+  /**
+   * Paginate the results, counting the total number of matching rows
+   */
+  async paginate(perPage: number = 15, page: number = 1, options: PaginatorOptions = {}): Promise<LengthAwarePaginator<TModel>> {
+    const currentPage = Math.max(Math.floor(page) || 1, 1);
+    const total = await this.count();
+
+    const items = total > 0
+      ? await this.limit(perPage).offset((currentPage - 1) * perPage).get()
+      : [];
+
+    return new LengthAwarePaginator<TModel>(items, total, perPage, currentPage, options);
+  }
+
+  /**
+   * Paginate the results without a count query, only detecting a next page
+   */
+  async simplePaginate(perPage: number = 15, page: number = 1, options: PaginatorOptions = {}): Promise<Paginator<TModel>> {
+    const currentPage = Math.max(Math.floor(page) || 1, 1);
+    const items = await this.limit(perPage + 1).offset((currentPage - 1) * perPage).get();
+
+    return new Paginator<TModel>(items, perPage, currentPage, options);
+  }
+
+  /**
+   * Paginate with keyset cursors over the orderBy columns
+   *
+   * Falls back to ordering by the primary key. The cursor is the opaque
+   * string from a previous page's next_cursor / prev_cursor.
+   */
+  async cursorPaginate(
+    perPage: number = 15,
+    cursor: string | Cursor | null = null,
+    options: PaginatorOptions = {}
+  ): Promise<CursorPaginator<TModel>> {
+    const current = typeof cursor === 'string' ? Cursor.decode(cursor) : cursor;
+
+    if (this.orderByClause.length === 0) {
+      this.keyColumns().forEach((column) => this.orderBy(column, 'asc'));
+    }
+    const orders = [...this.orderByClause];
+
+    if (current) {
+      this.groupWheres().pushCondition(this.cursorCondition(orders, current));
+    }
+
+    // Walk backwards by flipping the ordering, then restore display order
+    if (current?.pointsToPreviousItems()) {
+      this.orderByClause = orders.map(({ column, direction }) => ({
+        column,
+        direction: direction === 'asc' ? 'desc' : 'asc',
+      }));
+    }
+
+    let items: TModel[] = await this.limit(perPage + 1).get();
+    if (current?.pointsToPreviousItems()) {
+      items = items.reverse();
+    }
+
+    return new CursorPaginator<TModel>(
+      items,
+      perPage,
+      current,
+      orders.map(({ column }) => column),
+      options
+    );
+  }
+
+  /**
+   * Build the keyset condition: (a > x) OR (a = x AND b > y) ...
+   */
+  private cursorCondition(orders: Array<{ column: string; direction: 'asc' | 'desc' }>, cursor: Cursor): SQL | undefined {
+    const branches: SQL[] = [];
+
+    orders.forEach(({ column, direction }, index) => {
+      const col = this.getColumn(column);
+      if (!col) return;
+
+      const forward = direction === 'asc' ? cursor.pointsToNextItems : cursor.pointsToPreviousItems();
+      const parts: SQL[] = orders.slice(0, index).flatMap((previous) => {
+        const previousCol = this.getColumn(previous.column);
+        return previousCol ? [eq(previousCol, cursor.parameter(previous.column))] : [];
+      });
+      const value = cursor.parameter(column);
+      parts.push(forward ? gt(col, value) : lt(col, value));
+
+      const branch = and(...parts);
+      if (branch) branches.push(branch);
+    });
+
+    return or(...branches);
+  }
+
+  // ==================== CHUNKING ====================
+
+  /**
+   * Process the results in chunks of the given size
+   *
+   * Pages with limit/offset, ordered by the primary key unless an order is
+   * set. Use chunkById() when the callback changes the rows being filtered.
+   */
+  async chunk(count: number, callback: ChunkCallback<TModel>): Promise<boolean> {
+    for await (const [page, models] of this.pages(count)) {
+      if ((await callback(models, page)) === false) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Process the results in chunks, paging by the last seen id
+   *
+   * Safe to use while updating or deleting the rows being iterated.
+   */
+  async chunkById(count: number, callback: ChunkCallback<TModel>, column: string = this.keyColumn()): Promise<boolean> {
+    for await (const [page, models] of this.pages(count, column)) {
+      if ((await callback(models, page)) === false) return false;
+    }
+    return true;
+  }
+
+  /**
+   * Stream models one at a time, querying in chunks behind the scenes
+   *
+   * Eager loads run per chunk.
+   */
+  async *lazy(chunkSize: number = 1000): AsyncGenerator<TModel> {
+    for await (const [, models] of this.pages(chunkSize)) {
+      yield* models;
+    }
+  }
+
+  /**
+   * Stream models one at a time, querying chunks by the last seen id
+   */
+  async *lazyById(chunkSize: number = 1000, column: string = this.keyColumn()): AsyncGenerator<TModel> {
+    for await (const [, models] of this.pages(chunkSize, column)) {
+      yield* models;
+    }
+  }
+
+  /**
+   * Stream models one at a time, reading them in chunks
+   *
+   * No statement stays open between models, so the loop body can query and
+   * save, even on a SQLite connection that serves reads and writes. Queries
+   * without an order page by the primary key, like lazyById(), which is safe
+   * while updating the rows being iterated. Ordered queries page by offset,
+   * like lazy(); use lazyById() when the loop changes the rows they filter.
+   */
+  async *cursor(chunkSize: number = 1000): AsyncGenerator<TModel> {
+    if (this.orderByClause.length === 0 && !Array.isArray(this.options.primaryKey)) {
+      yield* this.lazyById(chunkSize);
+      return;
+    }
+    yield* this.lazy(chunkSize);
+  }
+
+  /**
+   * Yield successive pages of results as [page, models] pairs
+   *
+   * With a column the pages are keyed by the last seen value of that column
+   * instead of an offset.
+   */
+  private async *pages(count: number, column?: string): AsyncGenerator<[number, TModel[]]> {
+    if (!column && this.orderByClause.length === 0) {
+      this.keyColumns().forEach((key) => this.orderBy(key));
+    }
+
+    let lastValue: unknown = null;
+    for (let page = 1; ; page++) {
+      const query = this.clone().limit(count);
+
+      if (column) {
+        query.orderByClause = [{ column, direction: 'asc' }];
+        if (lastValue !== null) query.groupWheres().where(column, '>', lastValue);
+      } else {
+        query.offset((page - 1) * count);
+      }
+
+      const models = await query.get();
+      if (models.length === 0) return;
+
+      yield [page, models];
+
+      if (models.length < count) return;
+      if (column) {
+        lastValue = models[models.length - 1].getAttribute(column.slice(column.indexOf('.') + 1));
+      }
+    }
+  }
+
+  /**
+   * Create a copy of the query that can be changed independently
+   */
+  clone(): this {
+    const copy = new QueryBuilder<TAttributes, TModel>(this.modelClass, this.options) as this;
+    Object.assign(copy, this, {
+      conditions: [...this.conditions],
+      scopeConditions: [...this.scopeConditions],
+      orderByClause: [...this.orderByClause],
+      selectColumns: [...this.selectColumns],
+      extraSelects: { ...this.extraSelects },
+      joins: [...this.joins],
+      groups: [...this.groups],
+      havings: [...this.havings],
+      eagerLoad: new Map(this.eagerLoad),
+      removedScopes: new Set(this.removedScopes),
+    });
+    return copy;
+  }
+
+  /**
+   * Delete matching records
+   *
+   * Models using soft deletes have their deleted_at column set instead.
+   */
+  async delete(): Promise<number> {
+    if (this.model.usesSoftDeletes()) {
+      return this.update(this.model.softDeleteAttributes(new Date()) as Partial<TAttributes>);
+    }
+
+    return this.forceDelete();
+  }
+
+  /**
+   * Permanently delete matching records, bypassing soft deletes
+   */
+  async forceDelete(): Promise<number> {
+    let query = dbWrite().delete(this.options.table);
+
+    query = query.where(this.compileConditions()) as typeof query;
+
+    return affectedRows(await withWriteLock(dbWrite(), () => query));
+  }
+
+  /**
+   * Restore soft deleted records matching the query
+   */
+  async restore(): Promise<number> {
+    if (!this.model.usesSoftDeletes()) return 0;
+
+    this.withTrashed();
+    return this.update({ [this.model.getDeletedAtColumn()]: null } as Partial<TAttributes>);
+  }
+
+  /**
+   * Update matching records
+   */
+  async update(data: Partial<TAttributes>): Promise<number> {
+    let query = dbWrite().update(this.options.table).set(this.updateValues(data));
+
+    query = query.where(this.compileConditions()) as typeof query;
+
+    return affectedRows(await withWriteLock(dbWrite(), () => query));
+  }
+
+  /**
+   * Get the values an update writes: the table's columns, plus the update timestamp
+   */
+  updateValues(data: Partial<TAttributes>): Record<string, unknown> {
+    const columns = getTableColumns(this.options.table);
+    const values = Object.fromEntries(
+      Object.entries(data).filter(([column, value]) => column in columns && value !== undefined)
+    );
+
+    const updatedAt = this.model.getUpdatedAtColumn();
+    if (this.model.usesTimestamps() && updatedAt in columns && !(updatedAt in values)) {
+      values[updatedAt] = new Date();
+    }
+    return values;
+  }
+
+  // ==================== DEBUGGING ====================
+
+  /**
+   * Get the SQL of the select query, with `?` placeholders for the bindings
+   */
+  toSql(): string {
+    return this.buildRowsQuery(this.compileSelect()).toSQL().sql;
+  }
+
+  /**
+   * Get the values bound to the select query's placeholders
+   */
+  getBindings(): unknown[] {
+    return this.buildRowsQuery(this.compileSelect()).toSQL().params;
+  }
+
+  /**
+   * Get the SQL of the select query with the bindings inlined, for display only
+   */
+  toRawSql(): string {
+    const { sql: text, params } = this.buildRowsQuery(this.compileSelect()).toSQL();
+    return interpolateBindings(text, params);
+  }
+
+  /**
+   * Get the plan the database would use to run the select query
+   *
+   * SQLite reports EXPLAIN QUERY PLAN steps. PostgreSQL's EXPLAIN lines and
+   * MySQL's EXPLAIN rows, one per table read, are returned in order as steps
+   * without parents.
+   */
+  async explain(): Promise<QueryPlanStep[]> {
+    const connection = this.connection();
+    const query = this.buildRowsQuery(this.compileSelect()).getSQL();
+
+    if (isSQLite(connection)) {
+      const { rows } = await execute<QueryPlanStep>(connection, sql`explain query plan ${query}`);
+      return rows.map(({ id, parent, detail }) => ({ id, parent, detail }));
+    }
+
+    if (isMySql(connection)) {
+      const { rows } = await execute<Record<string, unknown>>(connection, sql`explain ${query}`);
+      return rows.map((row, index) => ({
+        id: index,
+        parent: 0,
+        detail: [row.table, row.type, row.key && `using ${row.key}`, row.Extra].filter(Boolean).join(' '),
+      }));
+    }
+
+    const { rows } = await execute<{ 'QUERY PLAN': string }>(connection, sql`explain ${query}`);
+    return rows.map((row, index) => ({ id: index, parent: 0, detail: row['QUERY PLAN'] }));
+  }
+
+  // ==================== EAGER LOADING ====================
+
+  /**
+   * Eager load the registered relationships onto a set of models
+   *
+   * Each relationship is resolved with a single query for all parents,
+   * then nested relationships are loaded onto the related models.
+   */
+  async eagerLoadRelations(models: Model[]): Promise<Model[]> {
+    for (const [name, constraint] of this.eagerLoad) {
+      // Nested relations are handled by the parent relation's query
+      if (name.includes('.')) continue;
+      await this.eagerLoadRelation(models, name, constraint);
+    }
+    return models;
+  }
+
+  /**
+   * Eager load a single relationship onto the given models
+   */
+  private async eagerLoadRelation(models: Model[], name: string, constraint?: RelationConstraint): Promise<void> {
+    const relation = QueryBuilder.getRelation(models[0], name);
+
+    relation.addEagerConstraints(models);
+
+    const query = relation.getQuery();
+    if (constraint) {
+      constraint(query);
+    }
+
+    // Forward nested relations (posts.comments -> comments) to the related query
+    for (const [nestedName, nestedConstraint] of this.eagerLoad) {
+      if (nestedName.startsWith(`${name}.`)) {
+        const nested = nestedName.slice(name.length + 1);
+        query.with(nestedConstraint ? { [nested]: nestedConstraint } : nested);
+      }
+    }
+
+    const results = await relation.getEager();
+    relation.match(relation.initRelation(models, name), results, name);
+  }
+
+  /**
+   * Get the relationships registered for eager loading
+   */
+  getEagerLoads(): Map<string, RelationConstraint | undefined> {
+    return this.eagerLoad;
+  }
+
+  /**
+   * Get the relation instance defined by a relationship method on the model
+   */
+  static getRelation(model: Model, name: string): Relation {
+    const method = (model as unknown as Record<string, unknown>)[name];
+
+    if (typeof method === 'function') {
+      const relation = method.call(model);
+      if (relation instanceof Relation) {
+        return relation;
+      }
+    }
+
+    throw new Error(`Call to undefined relationship [${name}] on model [${model.constructor.name}].`);
+  }
+}
+
+export default QueryBuilder;
@@ -0,0 +1,125 @@
+/**
+ * Catalyst BelongsTo Relation
+ *
+ * The inverse of a one-to-one or one-to-many relation: the parent holds the
+ * foreign key pointing at the related model's owner key.
+ */
+
+import { sql, SQL } from 'drizzle-orm';
+import type { Model } from '../Model';
+import { Relation } from './Relation';
+
+export class BelongsTo<TRelated = Model> extends Relation<TRelated, TRelated | null> {
+  constructor(
+    parent: Model,
+    related: TRelated,
+    protected foreignKey: string,
+    protected ownerKey: string
+  ) {
+    super(parent, related);
+  }
+
+  /**
+   * Constrain the query to the parent's foreign key
+   */
+  protected addConstraints(): void {
+    this.query.where(this.ownerKey, '=', this.parent.getAttribute(this.foreignKey));
+  }
+
+  /**
+   * Constrain the query to the foreign keys of all parents
+   */
+  public addEagerConstraints(models: Model[]): void {
+    this.query.whereIn(this.ownerKey, this.getKeys(models, this.foreignKey));
+  }
+
+  /**
+   * Match the related owner key against the parent's foreign key
+   */
+  protected getRelationExistenceCondition(): SQL {
+    return sql`${this.qualifyRelatedColumn(this.ownerKey)} = ${this.qualifyParentColumn(this.foreignKey)}`;
+  }
+
+  /**
+   * Get the owning model for the parent
+   */
+  public async getResults(): Promise<TRelated | null> {
+    const foreignValue = this.parent.getAttribute(this.foreignKey);
+    if (!this.relatedHasColumn(this.ownerKey) || foreignValue === undefined || foreignValue === null) {
+      return null;
+    }
+
+    this.ensureConstraints();
+    return (await this.query.first()) as unknown as TRelated | null;
+  }
+
+  /**
+   * Default each parent's relation to null
+   */
+  public initRelation(models: Model[], relation: string): Model[] {
+    for (const model of models) {
+      model.setRelation(relation, null);
+    }
+    return models;
+  }
+
+  /**
+   * Assign the owning model to each parent
+   */
+  public match(models: Model[], results: TRelated[], relation: string): Model[] {
+    const dictionary = new Map<string, TRelated>();
+    for (const result of results) {
+      dictionary.set(this.dictionaryKey(this.asModel(result).getAttribute(this.ownerKey)), result);
+    }
+
+    for (const model of models) {
+      const owner = dictionary.get(this.dictionaryKey(model.getAttribute(this.foreignKey)));
+      if (owner) {
+        model.setRelation(relation, owner);
+      }
+    }
+    return models;
+  }
+
+  /**
+   * Point the parent's foreign key at the given model or key, without saving
+   */
+  public associate(model: TRelated | unknown): Model {
+    const owner = model as Model | null;
+    const isModel = owner !== null && typeof owner === 'object' && typeof owner.getAttribute === 'function';
+
+    this.parent.forceFill(isModel ? this.getAssociationAttributes(owner) : { [this.foreignKey]: model });
+    return this.parent;
+  }
+
+  /**
+   * Get the parent attributes pointing at an owner model
+   */
+  public getAssociationAttributes(owner: Model): Record<string, unknown> {
+    return { [this.foreignKey]: owner.getAttribute(this.ownerKey) };
+  }
+
+  /**
+   * Clear the parent's foreign key, without saving
+   */
+  public dissociate(): Model {
+    this.parent.forceFill({ [this.foreignKey]: null });
+    return this.parent;
+  }
+
+  /**
+   * Get the foreign key column on the parent
+   */
+  public getForeignKeyName(): string {
+    return this.foreignKey;
+  }
+
+  /**
+   * Get the owner key column on the related table
+   */
+  public getOwnerKeyName(): string {
+    return this.ownerKey;
+  }
+}
+
+export default BelongsTo;
@@ -0,0 +1,533 @@
+/**
+ * Catalyst BelongsToMany Relation
+ *
+ * Many-to-many relation resolved through a pivot table holding the parent's
+ * and the related model's keys. Loaded models expose their pivot row as
+ * `model.pivot`.
+ *
+ * @example
+ * ```ts
+ * class User extends Model {
+ *   roles() {
+ *     return this.belongsToMany(Role).withPivot('expires_at').withTimestamps();
+ *   }
+ * }
+ *
+ * await user.roles().attach([1, 2], { expires_at: tomorrow });
+ * await user.roles().sync({ 1: { expires_at: null }, 3: {} }); // { attached: [3], detached: [2], updated: [1] }
+ * await user.roles().detach(3);
+ *
+ * const roles = await user.roles();
+ * roles[0].pivot; // { user_id: 1, role_id: 1, expires_at: null, created_at, updated_at }
+ * ```
+ */
+
+import { db, dbWrite } from '@/database';
+import { and, eq, inArray, getTableName, sql, SQL } from 'drizzle-orm';
+import type { SQLiteTable, SQLiteColumn } from 'drizzle-orm/sqlite-core';
+import { affectedRows, dialectOf, ModelTable } from '@/database/dialect';
+import { tableFor } from '@/database/tables';
+import { withWriteLock } from '@/database/transactions';
+import * as schema from '@/database/schema';
+import type { Model } from '../Model';
+import { Relation } from './Relation';
+
+type PivotRow = Record<string, unknown>;
+
+/**
+ * Related models or keys accepted by the pivot write methods
+ *
+ * An object maps related keys to extra pivot attributes: `{ 1: { active: true } }`.
+ */
+export type PivotIds<TRelated = Model> = TRelated | TRelated[] | unknown[] | string | number | Record<string | number, PivotRow>;
+
+/** Related keys changed by sync() */
+export interface SyncChanges {
+  attached: unknown[];
+  detached: unknown[];
+  updated: unknown[];
+}
+
+interface PivotRecord {
+  id: unknown;
+  attributes: PivotRow;
+}
+
+export class BelongsToMany<TRelated = Model> extends Relation<TRelated, TRelated[]> {
+  /** Pivot rows fetched for the current parents */
+  protected pivotRows: PivotRow[] = [];
+
+  /** Parent keys collected for eager loading */
+  protected eagerKeys: unknown[] = [];
+
+  /** Extra pivot columns exposed on `model.pivot` */
+  protected pivotColumns: string[] = [];
+
+  /** Pivot timestamp columns maintained by attach() and updateExistingPivot() */
+  protected pivotTimestamps: [createdAt: string, updatedAt: string] | null = null;
+
+  constructor(
+    parent: Model,
+    related: TRelated,
+    protected pivotTable: string | ModelTable,
+    protected foreignPivotKey: string,
+    protected relatedPivotKey: string,
+    protected parentKey: string,
+    protected relatedKey: string
+  ) {
+    super(parent, related);
+  }
+
+  /**
+   * Constrain the related query to the keys listed in the parent's pivot rows
+   */
+  protected addConstraints(): void {
+    const parentKey = this.parent.getAttribute(this.parentKey);
+    const pivotTable = this.pivotIdentifier();
+    const relatedKey = this.qualifyColumn(this.asModel(this.related), this.relatedKey);
+
+    this.eagerKeys = [parentKey];
+    this.query.whereRaw(
+      sql`${relatedKey} in (select ${pivotTable}.${sql.identifier(this.relatedPivotKey)} from ${pivotTable} where ${pivotTable}.${sql.identifier(this.foreignPivotKey)} = ${parentKey}${this.pivotConstraintSql()})`
+    );
+  }
+
+  /**
+   * Remember the parent keys to look up in the pivot table
+   */
+  public addEagerConstraints(models: Model[]): void {
+    this.eagerKeys = this.getKeys(models, this.parentKey);
+  }
+
+  /**
+   * Get the related models for the parent
+   */
+  public async getResults(): Promise<TRelated[]> {
+    const key = this.parent.getAttribute(this.parentKey);
+    if (key === undefined || key === null) return [];
+
+    return this.get();
+  }
+
+  /**
+   * Get the related models for the parent with their pivot rows
+   */
+  public async get(): Promise<TRelated[]> {
+    this.ensureConstraints();
+    return this.hydratePivot(await this.getEager()).map(({ model }) => model);
+  }
+
+  /**
+   * Fetch pivot rows for the collected parent keys, then the related models
+   */
+  public async getEager(): Promise<TRelated[]> {
+    const pivot = this.getPivotSchema();
+    if (!pivot || this.eagerKeys.length === 0) return [];
+
+    const columns = pivot as unknown as Record<string, SQLiteColumn>;
+    const fpkColumn = columns[this.foreignPivotKey];
+    if (!fpkColumn || !columns[this.relatedPivotKey]) return [];
+
+    this.pivotRows = (await db()
+      .select()
+      .from(pivot)
+      .where(and(
+        this.eagerKeys.length === 1 ? eq(fpkColumn, this.eagerKeys[0]) : inArray(fpkColumn, this.eagerKeys),
+        this.pivotConstraint()
+      ))) as PivotRow[];
+
+    const relatedIds = Array.from(new Set(this.pivotRows.map((row) => row[this.relatedPivotKey])));
+    if (relatedIds.length === 0 || !this.relatedHasColumn(this.relatedKey)) return [];
+
+    this.query.whereIn(this.relatedKey, relatedIds);
+    return (await this.query.get()) as unknown as TRelated[];
+  }
+
+  /**
+   * Match related keys listed in the pivot table for the parent's key
+   */
+  protected getRelationExistenceCondition(): SQL {
+    const pivotTable = this.pivotIdentifier();
+    const relatedKey = this.qualifyRelatedColumn(this.relatedKey);
+
+    return sql`${relatedKey} in (select ${pivotTable}.${sql.identifier(this.relatedPivotKey)} from ${pivotTable} where ${pivotTable}.${sql.identifier(this.foreignPivotKey)} = ${this.qualifyParentColumn(this.parentKey)}${this.pivotConstraintSql()})`;
+  }
+
+  /**
+   * Default each parent's relation to an empty list
+   */
+  public initRelation(models: Model[], relation: string): Model[] {
+    for (const model of models) {
+      model.setRelation(relation, []);
+    }
+    return models;
+  }
+
+  /**
+   * Assign related models to each parent through the pivot rows
+   */
+  public match(models: Model[], results: TRelated[], relation: string): Model[] {
+    const dictionary = new Map<string, TRelated[]>();
+    for (const { row, model } of this.hydratePivot(results)) {
+      const key = this.dictionaryKey(row[this.foreignPivotKey]);
+      const bucket = dictionary.get(key) || [];
+      bucket.push(model);
+      dictionary.set(key, bucket);
+    }
+
+    for (const model of models) {
+      const matches = dictionary.get(this.dictionaryKey(model.getAttribute(this.parentKey)));
+      if (matches) {
+        model.setRelation(relation, matches);
+      }
+    }
+    return models;
+  }
+
+  /**
+   * Pair each pivot row with its related model and set `model.pivot`
+   *
+   * Results keep the query's order. A model listed under several parents is
+   * copied so each copy carries its own pivot row.
+   */
+  protected hydratePivot(results: TRelated[]): Array<{ row: PivotRow; model: TRelated }> {
+    const rowsByRelated = new Map<string, PivotRow[]>();
+    for (const row of this.pivotRows) {
+      const key = this.dictionaryKey(row[this.relatedPivotKey]);
+      rowsByRelated.set(key, [...(rowsByRelated.get(key) || []), row]);
+    }
+
+    const pairs: Array<{ row: PivotRow; model: TRelated }> = [];
+    for (const result of results) {
+      const rows = rowsByRelated.get(this.dictionaryKey(this.asModel(result).getAttribute(this.relatedKey))) || [];
+
+      rows.forEach((row, index) => {
+        const model = index === 0 ? this.asModel(result) : this.replicate(this.asModel(result));
+        model.setRelation('pivot', this.pivotAttributes(row));
+        pairs.push({ row, model: model as unknown as TRelated });
+      });
+    }
+    return pairs;
+  }
+
+  /**
+   * Pick the keys, extra columns and timestamps exposed on `model.pivot`
+   */
+  protected pivotAttributes(row: PivotRow): PivotRow {
+    const columns = [this.foreignPivotKey, this.relatedPivotKey, ...this.pivotColumns, ...(this.pivotTimestamps ?? [])];
+    const attributes: PivotRow = {};
+    for (const column of columns) {
+      if (column in row) attributes[column] = row[column];
+    }
+    return attributes;
+  }
+
+  /**
+   * Copy a loaded model with its relations
+   */
+  protected replicate(model: Model): Model {
+    const copy = model.newFromBuilder(model.getAttributes());
+    for (const [name, value] of model.getRelations()) {
+      copy.setRelation(name, value);
+    }
+    return copy;
+  }
+
+  // ==================== DEFINITION ====================
+
+  /**
+   * Expose extra pivot columns on `model.pivot`
+   */
+  public withPivot(...columns: string[]): this {
+    this.pivotColumns.push(...columns);
+    return this;
+  }
+
+  /**
+   * Maintain created/updated timestamps on the pivot table
+   */
+  public withTimestamps(createdAt: string = 'created_at', updatedAt: string = 'updated_at'): this {
+    this.pivotTimestamps = [createdAt, updatedAt];
+    return this;
+  }
+
+  // ==================== PIVOT WRITES ====================
+
+  /**
+   * Insert pivot rows linking the parent to the given models or keys
+   */
+  public async attach(ids: PivotIds<TRelated>, attributes: PivotRow = {}): Promise<void> {
+    const records = Array.from(this.parseIds(ids).values());
+    await this.insertPivotRecords(records.map(({ id, attributes: extra }) => ({ id, attributes: { ...attributes, ...extra } })));
+  }
+
+  /**
+   * Delete pivot rows for the given models or keys, or all of the parent's rows
+   *
+   * @returns The number of pivot rows deleted
+   */
+  public async detach(ids?: PivotIds<TRelated>): Promise<number> {
+    const pivot = this.requirePivotSchema();
+    const columns = pivot as unknown as Record<string, SQLiteColumn>;
+    const keys = ids === undefined ? null : Array.from(this.parseIds(ids).values(), ({ id }) => id);
+    if (keys !== null && keys.length === 0) return 0;
+
+    const query = dbWrite()
+      .delete(pivot)
+      .where(and(
+        eq(columns[this.foreignPivotKey], this.requireParentKey()),
+        keys === null ? undefined : inArray(columns[this.relatedPivotKey], keys),
+        this.pivotConstraint()
+      ));
+    return affectedRows(await withWriteLock(dbWrite(), () => query));
+  }
+
+  /**
+   * Make the given models or keys the only ones attached to the parent
+   *
+   * Keys given with pivot attributes update the existing rows.
+   */
+  public async sync(ids: PivotIds<TRelated>, detaching: boolean = true): Promise<SyncChanges> {
+    const records = this.parseIds(ids);
+    const current = await this.currentRelatedKeys();
+    const currentKeys = new Set(current.map((id) => this.dictionaryKey(id)));
+    const changes: SyncChanges = { attached: [], detached: [], updated: [] };
+
+    if (detaching) {
+      changes.detached = current.filter((id) => !records.has(this.dictionaryKey(id)));
+      if (changes.detached.length > 0) {
+        await this.detach(changes.detached);
+      }
+    }
+
+    const attaching: PivotRecord[] = [];
+    for (const [key, record] of records) {
+      if (!currentKeys.has(key)) {
+        attaching.push(record);
+      } else if (Object.keys(record.attributes).length > 0 && (await this.updateExistingPivot(record.id, record.attributes)) > 0) {
+        changes.updated.push(record.id);
+      }
+    }
+
+    await this.insertPivotRecords(attaching);
+    changes.attached = attaching.map(({ id }) => id);
+    return changes;
+  }
+
+  /**
+   * Attach the given models or keys, keeping the existing ones
+   */
+  public async syncWithoutDetaching(ids: PivotIds<TRelated>): Promise<SyncChanges> {
+    return this.sync(ids, false);
+  }
+
+  /**
+   * Detach the given models or keys that are attached and attach the others
+   */
+  public async toggle(ids: PivotIds<TRelated>, attributes: PivotRow = {}): Promise<Omit<SyncChanges, 'updated'>> {
+    const records = this.parseIds(ids);
+    const current = new Set((await this.currentRelatedKeys()).map((id) => this.dictionaryKey(id)));
+    const changes = { attached: [] as unknown[], detached: [] as unknown[] };
+    const attaching: PivotRecord[] = [];
+
+    for (const [key, record] of records) {
+      if (current.has(key)) {
+        changes.detached.push(record.id);
+      } else {
+        attaching.push({ id: record.id, attributes: { ...attributes, ...record.attributes } });
+        changes.attached.push(record.id);
+      }
+    }
+
+    if (changes.detached.length > 0) {
+      await this.detach(changes.detached);
+    }
+    await this.insertPivotRecords(attaching);
+    return changes;
+  }
+
+  /**
+   * Update the pivot row for an attached model or key
+   *
+   * @returns The number of pivot rows updated
+   */
+  public async updateExistingPivot(id: unknown, attributes: PivotRow): Promise<number> {
+    const pivot = this.requirePivotSchema();
+    const columns = pivot as unknown as Record<string, SQLiteColumn>;
+    const values = this.pivotTimestamps ? { ...attributes, [this.pivotTimestamps[1]]: new Date() } : attributes;
+
+    const query = dbWrite()
+      .update(pivot)
+      .set(values)
+      .where(and(
+        eq(columns[this.foreignPivotKey], this.requireParentKey()),
+        eq(columns[this.relatedPivotKey], this.relatedKeyOf(id)),
+        this.pivotConstraint()
+      ));
+    return affectedRows(await withWriteLock(dbWrite(), () => query));
+  }
+
+  /**
+   * Insert pivot rows for the parent in a single statement
+   */
+  protected async insertPivotRecords(records: PivotRecord[]): Promise<void> {
+    if (records.length === 0) return;
+
+    const parentKey = this.requireParentKey();
+    const now = new Date();
+    const timestamps = this.pivotTimestamps
+      ? { [this.pivotTimestamps[0]]: now, [this.pivotTimestamps[1]]: now }
+      : {};
+
+    const query = dbWrite()
+      .insert(this.requirePivotSchema())
+      .values(records.map(({ id, attributes }) => ({
+        ...timestamps,
+        ...attributes,
+        ...this.pivotDefaults(),
+        [this.foreignPivotKey]: parentKey,
+        [this.relatedPivotKey]: id,
+      })));
+    await withWriteLock(dbWrite(), () => query);
+  }
+
+  /**
+   * Extra condition on the pivot rows belonging to the relation
+   */
+  protected pivotConstraint(): SQL | undefined {
+    return undefined;
+  }
+
+  /**
+   * The pivot constraint appended to a raw pivot subquery
+   */
+  protected pivotConstraintSql(): SQL {
+    const constraint = this.pivotConstraint();
+    return constraint ? sql` and ${constraint}` : sql``;
+  }
+
+  /**
+   * Extra attributes written to every pivot row inserted for the relation
+   */
+  protected pivotDefaults(): PivotRow {
+    return {};
+  }
+
+  /**
+   * Get the related keys currently attached to the parent
+   */
+  protected async currentRelatedKeys(): Promise<unknown[]> {
+    const pivot = this.requirePivotSchema();
+    const columns = pivot as unknown as Record<string, SQLiteColumn>;
+
+    const rows = await dbWrite()
+      .select({ id: columns[this.relatedPivotKey] })
+      .from(pivot)
+      .where(and(eq(columns[this.foreignPivotKey], this.requireParentKey()), this.pivotConstraint()));
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * Normalize models, keys, lists and `{ key: attributes }` maps into pivot records
+   */
+  protected parseIds(ids: PivotIds<TRelated>): Map<string, PivotRecord> {
+    const records = new Map<string, PivotRecord>();
+    const add = (id: unknown, attributes: PivotRow = {}) => {
+      const key = this.relatedKeyOf(id);
+      records.set(this.dictionaryKey(key), { id: key, attributes });
+    };
+
+    if (Array.isArray(ids)) {
+      ids.forEach((id) => add(id));
+    } else if (ids === null || typeof ids !== 'object' || ids instanceof Date || this.isModel(ids)) {
+      add(ids);
+    } else {
+      for (const [id, attributes] of Object.entries(ids as Record<string, PivotRow>)) {
+        add(this.castKey(id), attributes);
+      }
+    }
+    return records;
+  }
+
+  /**
+   * Get the related key of a model, or the value itself
+   */
+  protected relatedKeyOf(id: unknown): unknown {
+    return this.isModel(id) ? id.getAttribute(this.relatedKey) : id;
+  }
+
+  /**
+   * Convert an object key back to a number for numeric related keys
+   */
+  protected castKey(key: string): unknown {
+    const columns = this.asModel(this.related).getSchemaTable() as unknown as Record<string, SQLiteColumn>;
+    return columns[this.relatedKey]?.dataType === 'number' ? Number(key) : key;
+  }
+
+  protected isModel(value: unknown): value is Model {
+    return value !== null && typeof value === 'object' && typeof (value as Model).getAttribute === 'function';
+  }
+
+  /**
+   * Get the parent's key, which must exist before the pivot table is written
+   */
+  protected requireParentKey(): unknown {
+    const key = this.parent.getAttribute(this.parentKey);
+    if (key === undefined || key === null) {
+      throw new Error(`Cannot write to pivot table [${this.getTable()}] before the [${this.parent.constructor.name}] model is saved.`);
+    }
+    return key;
+  }
+
+  protected requirePivotSchema(): SQLiteTable {
+    const pivot = this.getPivotSchema();
+    if (!pivot) {
+      throw new Error(`Pivot table [${this.getTable()}] is not defined in the database schema.`);
+    }
+    return pivot;
+  }
+
+  /**
+   * Resolve the pivot table by schema export name or SQL table name, built
+   * for the connection's dialect
+   */
+  protected getPivotSchema(): SQLiteTable | null {
+    const table = this.findPivotSchema();
+    return table ? tableFor(table, dialectOf(db())) : null;
+  }
+
+  private findPivotSchema(): SQLiteTable | null {
+    if (typeof this.pivotTable !== 'string') {
+      return this.pivotTable as SQLiteTable;
+    }
+
+    const tables = schema as unknown as Record<string, SQLiteTable>;
+    if (tables[this.pivotTable]) {
+      return tables[this.pivotTable];
+    }
+
+    for (const table of Object.values(tables)) {
+      if (table && typeof table === 'object' && getTableName(table) === this.pivotTable) {
+        return table;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Reference the pivot table in raw SQL
+   */
+  protected pivotIdentifier(): SQL {
+    const pivot = this.getPivotSchema();
+    return sql`${sql.identifier(pivot ? getTableName(pivot) : this.getTable())}`;
+  }
+
+  /**
+   * Get the pivot table name
+   */
+  public getTable(): string {
+    return typeof this.pivotTable === 'string' ? this.pivotTable : getTableName(this.pivotTable);
+  }
+}
+
+export default BelongsToMany;
@@ -0,0 +1,37 @@
+/**
+ * Catalyst HasMany Relation
+ */
+
+import type { Model } from '../Model';
+import { HasOneOrMany } from './HasOneOrMany';
+
+export class HasMany<TRelated = Model> extends HasOneOrMany<TRelated, TRelated[]> {
+  /**
+   * Get the related models for the parent
+   */
+  public async getResults(): Promise<TRelated[]> {
+    if (!this.canQuery()) return [];
+
+    this.ensureConstraints();
+    return (await this.query.get()) as unknown as TRelated[];
+  }
+
+  /**
+   * Default each parent's relation to an empty list
+   */
+  public initRelation(models: Model[], relation: string): Model[] {
+    for (const model of models) {
+      model.setRelation(relation, []);
+    }
+    return models;
+  }
+
+  /**
+   * Assign all matching related models to each parent
+   */
+  public match(models: Model[], results: TRelated[], relation: string): Model[] {
+    return this.matchMany(models, results, relation);
+  }
+}
+
+export default HasMany;
@@ -0,0 +1,173 @@
+/**
+ * Catalyst HasManyThrough Relation
+ *
+ * Reaches distant models through an intermediate model: a country has many
+ * posts through its users. The related query joins the intermediate table,
+ * whose first key points at the parent and whose rows are referenced by the
+ * related table's second key.
+ *
+ * @example
+ * ```ts
+ * class Country extends Model {
+ *   posts() {
+ *     // users.country_id = countries.id, posts.user_id = users.id
+ *     return this.hasManyThrough(Post, User, 'country_id', 'user_id');
+ *   }
+ * }
+ *
+ * await country.posts();
+ * await Country.query().with('posts').whereHas('posts').get();
+ * ```
+ */
+
+import { getTableName, sql, SQL } from 'drizzle-orm';
+import type { SQLiteColumn } from 'drizzle-orm/sqlite-core';
+import type { Model } from '../Model';
+import { Relation } from './Relation';
+
+/** Alias of the intermediate key selected for eager matching */
+const THROUGH_KEY = 'through_key';
+
+export class HasManyThrough<TRelated = Model, TResult = TRelated[]> extends Relation<TRelated, TResult> {
+  /** The intermediate key of each eagerly loaded model */
+  protected throughKeys: WeakMap<object, unknown> = new WeakMap();
+
+  /**
+   * @param firstKey - Key on the intermediate table pointing at the parent
+   * @param secondKey - Key on the related table pointing at the intermediate model
+   * @param localKey - Key on the parent table
+   * @param secondLocalKey - Key on the intermediate table
+   */
+  constructor(
+    parent: Model,
+    related: TRelated,
+    protected throughParent: Model,
+    protected firstKey: string,
+    protected secondKey: string,
+    protected localKey: string,
+    protected secondLocalKey: string
+  ) {
+    super(parent, related);
+
+    const relatedTable = getTableName(this.asModel(related).getSchemaTable());
+    this.query.join(throughParent.getSchemaTable(), this.qualifyThrough(secondLocalKey), '=', `${relatedTable}.${secondKey}`);
+
+    if (throughParent.usesSoftDeletes()) {
+      this.query.whereNull(this.qualifyThrough(throughParent.getDeletedAtColumn()));
+    }
+  }
+
+  /**
+   * Constrain the query to the parent's intermediate rows
+   */
+  protected addConstraints(): void {
+    this.query.where(this.qualifyThrough(this.firstKey), '=', this.getParentKey());
+  }
+
+  /**
+   * Constrain the query to the intermediate rows of all parents
+   */
+  public addEagerConstraints(models: Model[]): void {
+    this.query.whereIn(this.qualifyThrough(this.firstKey), this.getKeys(models, this.localKey));
+  }
+
+  /**
+   * Match the intermediate first key against the parent table
+   */
+  protected getRelationExistenceCondition(): SQL {
+    return sql`${this.qualifyColumn(this.throughParent, this.firstKey)} = ${this.qualifyParentColumn(this.localKey)}`;
+  }
+
+  /**
+   * Get the related models for the parent
+   */
+  public async getResults(): Promise<TResult> {
+    if (!this.canQuery()) return [] as unknown as TResult;
+
+    this.ensureConstraints();
+    return (await this.query.get()) as unknown as TResult;
+  }
+
+  /**
+   * Fetch the related models with the intermediate key used for matching
+   *
+   * The key is selected under an alias and removed from the models' attributes.
+   */
+  public async getEager(): Promise<TRelated[]> {
+    const columns = this.throughParent.getSchemaTable() as unknown as Record<string, SQLiteColumn>;
+    const models = (await this.query.addSelect({ [THROUGH_KEY]: columns[this.firstKey] }).get()) as unknown as Model[];
+
+    for (const model of models) {
+      const { [THROUGH_KEY]: throughKey, ...attributes } = model.getAttributes();
+      this.throughKeys.set(model, throughKey);
+      model.setRawAttributes(attributes, true);
+    }
+    return models as unknown as TRelated[];
+  }
+
+  /**
+   * Default each parent's relation to an empty list
+   */
+  public initRelation(models: Model[], relation: string): Model[] {
+    for (const model of models) {
+      model.setRelation(relation, []);
+    }
+    return models;
+  }
+
+  /**
+   * Assign all related models reached through each parent
+   */
+  public match(models: Model[], results: TRelated[], relation: string): Model[] {
+    const dictionary = this.buildDictionary(results);
+    for (const model of models) {
+      const matches = dictionary.get(this.dictionaryKey(model.getAttribute(this.localKey)));
+      if (matches) {
+        model.setRelation(relation, matches);
+      }
+    }
+    return models;
+  }
+
+  /**
+   * Group results by their intermediate key
+   */
+  protected buildDictionary(results: TRelated[]): Map<string, TRelated[]> {
+    const dictionary = new Map<string, TRelated[]>();
+    for (const result of results) {
+      const key = this.dictionaryKey(this.throughKeys.get(this.asModel(result)));
+      const bucket = dictionary.get(key) || [];
+      bucket.push(result);
+      dictionary.set(key, bucket);
+    }
+    return dictionary;
+  }
+
+  /**
+   * Get the value of the parent's local key
+   */
+  public getParentKey(): unknown {
+    return this.parent.getAttribute(this.localKey);
+  }
+
+  /**
+   * Get the intermediate model instance
+   */
+  public getThroughParent(): Model {
+    return this.throughParent;
+  }
+
+  protected canQuery(): boolean {
+    const key = this.getParentKey();
+    return key !== undefined && key !== null;
+  }
+
+  /**
+   * Qualify a column with the intermediate table name
+   */
+  protected qualifyThrough(column: string): string {
+    return `${getTableName(this.throughParent.getSchemaTable())}.${column}`;
+  }
+}
+
+export default HasManyThrough;
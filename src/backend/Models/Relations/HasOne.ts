@@ -0,0 +1,37 @@
+/**
+ * Catalyst HasOne Relation
+ */
+
+import type { Model } from '../Model';
+import { HasOneOrMany } from './HasOneOrMany';
+
+export class HasOne<TRelated = Model> extends HasOneOrMany<TRelated, TRelated | null> {
+  /**
+   * Get the related model for the parent
+   */
+  public async getResults(): Promise<TRelated | null> {
+    if (!this.canQuery()) return null;
+
+    this.ensureConstraints();
+    return (await this.query.first()) as unknown as TRelated | null;
+  }
+
+  /**
+   * Default each parent's relation to null
+   */
+  public initRelation(models: Model[], relation: string): Model[] {
+    for (const model of models) {
+      model.setRelation(relation, null);
+    }
+    return models;
+  }
+
+  /**
+   * Assign the first matching related model to each parent
+   */
+  public match(models: Model[], results: TRelated[], relation: string): Model[] {
+    return this.matchOne(models, results, relation);
+  }
+}
+
+export default HasOne;
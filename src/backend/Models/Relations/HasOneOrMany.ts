@@ -0,0 +1,178 @@
+/**
+ * Catalyst HasOneOrMany Relation
+ *
+ * Shared behaviour for relations where the related table holds a foreign
+ * key pointing back at the parent model.
+ *
+ * @example
+ * ```ts
+ * const post = await user.posts().create({ title: 'Hello' }); // user_id is set
+ * await user.posts().saveMany([new Post({ title: 'A' }), new Post({ title: 'B' })]);
+ * ```
+ */
+
+import { sql, SQL } from 'drizzle-orm';
+import type { Model } from '../Model';
+import type { ModelConstructor } from '../QueryBuilder';
+import { Relation } from './Relation';
+
+export abstract class HasOneOrMany<TRelated = Model, TResult = unknown> extends Relation<TRelated, TResult> {
+  constructor(
+    parent: Model,
+    related: TRelated,
+    protected foreignKey: string,
+    protected localKey: string
+  ) {
+    super(parent, related);
+  }
+
+  /**
+   * Constrain the query to the parent model
+   */
+  protected addConstraints(): void {
+    this.query.where(this.foreignKey, '=', this.getParentKey());
+  }
+
+  /**
+   * Constrain the query to a set of parent models for eager loading
+   */
+  public addEagerConstraints(models: Model[]): void {
+    this.query.whereIn(this.foreignKey, this.getKeys(models, this.localKey));
+  }
+
+  /**
+   * Match the related foreign key against the parent's local key
+   */
+  protected getRelationExistenceCondition(): SQL {
+    return sql`${this.qualifyRelatedColumn(this.foreignKey)} = ${this.qualifyParentColumn(this.localKey)}`;
+  }
+
+  /**
+   * Build a related model with the foreign key set, without saving it
+   */
+  public make(attributes: Record<string, unknown> = {}): TRelated {
+    const model = new (this.asModel(this.related).constructor as ModelConstructor)();
+    model.fill(attributes);
+    this.setForeignAttributes(model);
+    return model as unknown as TRelated;
+  }
+
+  /**
+   * Create and save a related model for the parent
+   */
+  public async create(attributes: Record<string, unknown> = {}): Promise<TRelated> {
+    const model = this.make(attributes);
+    await this.asModel(model).save();
+    return model;
+  }
+
+  /**
+   * Create and save several related models for the parent
+   */
+  public async createMany(records: Array<Record<string, unknown>>): Promise<TRelated[]> {
+    const models: TRelated[] = [];
+    for (const attributes of records) {
+      models.push(await this.create(attributes));
+    }
+    return models;
+  }
+
+  /**
+   * Attach a model to the parent by setting its foreign key and saving it
+   */
+  public async save(model: TRelated): Promise<TRelated> {
+    this.setForeignAttributes(this.asModel(model));
+    await this.asModel(model).save();
+    return model;
+  }
+
+  /**
+   * Attach several models to the parent
+   */
+  public async saveMany(models: TRelated[]): Promise<TRelated[]> {
+    for (const model of models) {
+      await this.save(model);
+    }
+    return models;
+  }
+
+  /**
+   * Point the related model's foreign key at the parent
+   */
+  protected setForeignAttributes(model: Model): void {
+    model.forceFill(this.getForeignAttributes());
+  }
+
+  /**
+   * Get the attributes linking a related model to the parent
+   */
+  public getForeignAttributes(): Record<string, unknown> {
+    return { [this.foreignKey]: this.getParentKey() };
+  }
+
+  /**
+   * Get the value of the parent's local key
+   */
+  public getParentKey(): unknown {
+    return this.parent.getAttribute(this.localKey);
+  }
+
+  /**
+   * Get the foreign key column on the related table
+   */
+  public getForeignKeyName(): string {
+    return this.foreignKey;
+  }
+
+  /**
+   * Check whether the relation can be queried for the parent
+   */
+  protected canQuery(): boolean {
+    const key = this.getParentKey();
+    return this.relatedHasColumn(this.foreignKey) && key !== undefined && key !== null;
+  }
+
+  /**
+   * Assign the first matching related model to each parent
+   */
+  protected matchOne(models: Model[], results: TRelated[], relation: string): Model[] {
+    const dictionary = this.buildDictionary(results);
+    for (const model of models) {
+      const matches = dictionary.get(this.dictionaryKey(model.getAttribute(this.localKey)));
+      if (matches) {
+        model.setRelation(relation, matches[0]);
+      }
+    }
+    return models;
+  }
+
+  /**
+   * Assign all matching related models to each parent
+   */
+  protected matchMany(models: Model[], results: TRelated[], relation: string): Model[] {
+    const dictionary = this.buildDictionary(results);
+    for (const model of models) {
+      const matches = dictionary.get(this.dictionaryKey(model.getAttribute(this.localKey)));
+      if (matches) {
+        model.setRelation(relation, matches);
+      }
+    }
+    return models;
+  }
+
+  /**
+   * Group results by their foreign key value
+   */
+  protected buildDictionary(results: TRelated[]): Map<string, TRelated[]> {
+    const dictionary = new Map<string, TRelated[]>();
+    for (const result of results) {
+      const key = this.dictionaryKey(this.asModel(result).getAttribute(this.foreignKey));
+      const bucket = dictionary.get(key) || [];
+      bucket.push(result);
+      dictionary.set(key, bucket);
+    }
+    return dictionary;
+  }
+}
+
+export default HasOneOrMany;
@@ -0,0 +1,44 @@
+/**
+ * Catalyst HasOneThrough Relation
+ */
+
+import type { Model } from '../Model';
+import { HasManyThrough } from './HasManyThrough';
+
+export class HasOneThrough<TRelated = Model> extends HasManyThrough<TRelated, TRelated | null> {
+  /**
+   * Get the related model for the parent
+   */
+  public async getResults(): Promise<TRelated | null> {
+    if (!this.canQuery()) return null;
+
+    this.ensureConstraints();
+    return (await this.query.first()) as unknown as TRelated | null;
+  }
+
+  /**
+   * Default each parent's relation to null
+   */
+  public initRelation(models: Model[], relation: string): Model[] {
+    for (const model of models) {
+      model.setRelation(relation, null);
+    }
+    return models;
+  }
+
+  /**
+   * Assign the first related model reached through each parent
+   */
+  public match(models: Model[], results: TRelated[], relation: string): Model[] {
+    const dictionary = this.buildDictionary(results);
+    for (const model of models) {
+      const matches = dictionary.get(this.dictionaryKey(model.getAttribute(this.localKey)));
+      if (matches) {
+        model.setRelation(relation, matches[0]);
+      }
+    }
+    return models;
+  }
+}
+
+export default HasOneThrough;
@@ -0,0 +1,37 @@
+/**
+ * Catalyst MorphMany Relation
+ */
+
+import type { Model } from '../Model';
+import { MorphOneOrMany } from './MorphOneOrMany';
+
+export class MorphMany<TRelated = Model> extends MorphOneOrMany<TRelated, TRelated[]> {
+  /**
+   * Get the related models for the parent
+   */
+  public async getResults(): Promise<TRelated[]> {
+    if (!this.canQuery()) return [];
+
+    this.ensureConstraints();
+    return (await this.query.get()) as unknown as TRelated[];
+  }
+
+  /**
+   * Default each parent's relation to an empty list
+   */
+  public initRelation(models: Model[], relation: string): Model[] {
+    for (const model of models) {
+      model.setRelation(relation, []);
+    }
+    return models;
+  }
+
+  /**
+   * Assign all matching related models to each parent
+   */
+  public match(models: Model[], results: TRelated[], relation: string): Model[] {
+    return this.matchMany(models, results, relation);
+  }
+}
+
+export default MorphMany;
@@ -0,0 +1,73 @@
+/**
+ * Catalyst MorphOneOrMany Relation
+ *
+ * Shared behaviour for polymorphic has-one and has-many relations: the
+ * related table holds the parent's key and its morph type, so one table
+ * (comments) can belong to several parent models (posts, videos).
+ */
+
+import { sql, SQL } from 'drizzle-orm';
+import type { Model } from '../Model';
+import { HasOneOrMany } from './HasOneOrMany';
+
+export abstract class MorphOneOrMany<TRelated = Model, TResult = unknown> extends HasOneOrMany<TRelated, TResult> {
+  /** The morph type stored for the parent model */
+  protected morphClass: string;
+
+  constructor(
+    parent: Model,
+    related: TRelated,
+    protected morphType: string,
+    foreignKey: string,
+    localKey: string
+  ) {
+    super(parent, related, foreignKey, localKey);
+    this.morphClass = parent.getMorphClass();
+  }
+
+  /**
+   * Constrain the query to the parent's key and morph type
+   */
+  protected addConstraints(): void {
+    super.addConstraints();
+    this.query.where(this.morphType, '=', this.morphClass);
+  }
+
+  /**
+   * Constrain the query to the parents' keys and morph type
+   */
+  public addEagerConstraints(models: Model[]): void {
+    super.addEagerConstraints(models);
+    this.query.where(this.morphType, '=', this.morphClass);
+  }
+
+  /**
+   * Match the foreign key and morph type against the parent table
+   */
+  protected getRelationExistenceCondition(): SQL {
+    return sql`${super.getRelationExistenceCondition()} and ${this.qualifyRelatedColumn(this.morphType)} = ${this.morphClass}`;
+  }
+
+  /**
+   * Get the foreign key and morph type linking a related model to the parent
+   */
+  public getForeignAttributes(): Record<string, unknown> {
+    return { ...super.getForeignAttributes(), [this.morphType]: this.morphClass };
+  }
+
+  /**
+   * Get the morph type column on the related table
+   */
+  public getMorphType(): string {
+    return this.morphType;
+  }
+
+  /**
+   * Get the morph type stored for the parent
+   */
+  public getMorphClass(): string {
+    return this.morphClass;
+  }
+}
+
+export default MorphOneOrMany;
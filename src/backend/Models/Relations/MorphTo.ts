@@ -0,0 +1,215 @@
+/**
+ * Catalyst MorphTo Relation
+ *
+ * The inverse of a polymorphic relation: the parent holds the owner's key
+ * and morph type (`commentable_id`, `commentable_type`), so the related
+ * model class is read from each row. The type is a morph map alias or the
+ * model's class name.
+ *
+ * @example
+ * ```ts
+ * Relation.morphMap({ post: Post, video: Video });
+ *
+ * class Comment extends Model {
+ *   commentable() {
+ *     return this.morphTo('commentable');
+ *   }
+ * }
+ *
+ * const owner = await comment.commentable(); // Post or Video
+ * await Comment.query().with('commentable').get();
+ * await Comment.query().whereHasMorph('commentable', [Post], (query) => query.where('published', true)).get();
+ * ```
+ */
+
+import { db } from '@/database';
+import { isSQLite } from '@/database/dialect';
+import { sql, SQL } from 'drizzle-orm';
+import type { SQLiteColumn } from 'drizzle-orm/sqlite-core';
+import type { Model } from '../Model';
+import type { QueryBuilder, EagerLoadDefinition } from '../QueryBuilder';
+import { BelongsTo } from './BelongsTo';
+import { Relation } from './Relation';
+
+export class MorphTo<TRelated = Model> extends BelongsTo<TRelated> {
+  /** Parent models grouped by morph type for eager loading */
+  protected modelsByType: Map<string, Model[]> = new Map();
+
+  /** Eagerly loaded owners grouped by morph type */
+  protected resultsByType: Map<string, Model[]> = new Map();
+
+  /**
+   * @param customOwnerKey - Key column on every owner table, or null to use each owner's primary key
+   */
+  constructor(
+    parent: Model,
+    related: TRelated,
+    foreignKey: string,
+    protected customOwnerKey: string | null,
+    protected morphType: string
+  ) {
+    super(parent, related, foreignKey, customOwnerKey ?? (related as unknown as Model).getKeyName());
+  }
+
+  /**
+   * Get the owner of the parent, resolved from its morph type
+   */
+  public async getResults(): Promise<TRelated | null> {
+    if (!this.parent.getAttribute(this.morphType)) return null;
+    return super.getResults();
+  }
+
+  /**
+   * Group the parents by morph type
+   */
+  public addEagerConstraints(models: Model[]): void {
+    this.modelsByType = new Map();
+    for (const model of models) {
+      const type = model.getAttribute(this.morphType);
+      const key = model.getAttribute(this.foreignKey);
+      if (!type || key === undefined || key === null) continue;
+
+      const bucket = this.modelsByType.get(String(type)) || [];
+      bucket.push(model);
+      this.modelsByType.set(String(type), bucket);
+    }
+  }
+
+  /**
+   * Query each owner type once, keeping the eager loads set on the relation
+   */
+  public async getEager(): Promise<TRelated[]> {
+    this.resultsByType = new Map();
+    const eagerLoads = this.getEagerLoadDefinitions();
+
+    for (const [type, models] of this.modelsByType) {
+      const owner = MorphTo.createModelByType(type);
+      const query = owner.newQuery() as unknown as QueryBuilder<Record<string, unknown>>;
+      if (eagerLoads.length > 0) {
+        query.with(...eagerLoads);
+      }
+
+      const results = await query.whereIn(this.ownerKeyFor(owner), this.getKeys(models, this.foreignKey)).get();
+      this.resultsByType.set(type, results as unknown as Model[]);
+    }
+
+    return Array.from(this.resultsByType.values()).flat() as unknown as TRelated[];
+  }
+
+  /**
+   * Assign each parent the owner matching its morph type and key
+   */
+  public match(models: Model[], _results: TRelated[], relation: string): Model[] {
+    for (const [type, parents] of this.modelsByType) {
+      const dictionary = new Map<string, Model>();
+      for (const owner of this.resultsByType.get(type) || []) {
+        dictionary.set(this.dictionaryKey(owner.getAttribute(this.ownerKeyFor(owner))), owner);
+      }
+
+      for (const model of parents) {
+        const owner = dictionary.get(this.dictionaryKey(model.getAttribute(this.foreignKey)));
+        if (owner) {
+          model.setRelation(relation, owner);
+        }
+      }
+    }
+    return models;
+  }
+
+  /**
+   * Get the parent's key and morph type pointing at an owner model
+   */
+  public getAssociationAttributes(owner: Model): Record<string, unknown> {
+    return {
+      [this.foreignKey]: owner.getAttribute(this.ownerKeyFor(owner)),
+      [this.morphType]: owner.getMorphClass(),
+    };
+  }
+
+  /**
+   * Clear the parent's key and morph type, without saving
+   */
+  public dissociate(): Model {
+    this.parent.forceFill({ [this.foreignKey]: null, [this.morphType]: null });
+    return this.parent;
+  }
+
+  /**
+   * A single existence query cannot span several owner tables
+   */
+  protected getRelationExistenceCondition(): SQL {
+    throw new Error(`Use whereHasMorph() to filter by the polymorphic [${this.morphType}] relation.`);
+  }
+
+  /**
+   * Get the owner query for one morph type, correlated with the parent table
+   */
+  public getRelationExistenceQueryFor(type: string, parentTable?: string): QueryBuilder<Record<string, unknown>> {
+    const owner = MorphTo.createModelByType(type);
+    const query = owner.newQuery() as unknown as QueryBuilder<Record<string, unknown>>;
+
+    this.correlateWith(parentTable);
+    if (this.isSelfRelation(owner)) {
+      query.fromAlias(Relation.selfRelationAlias());
+    }
+
+    return query.whereRaw(
+      sql`${sql.identifier(query.getTable())}.${sql.identifier(this.ownerKeyFor(owner))} = ${this.qualifyParentColumn(this.foreignKey)}`
+    );
+  }
+
+  /**
+   * Match the parent's morph type column against a type
+   */
+  public getMorphTypeCondition(type: string): SQL {
+    return sql`${this.qualifyParentColumn(this.morphType)} = ${type}`;
+  }
+
+  /**
+   * Get the distinct morph types stored in the parent table
+   *
+   * The lookup runs synchronously, which only SQLite connections support.
+   */
+  public getMorphTypes(): string[] {
+    const column = (this.parent.getSchemaTable() as unknown as Record<string, SQLiteColumn>)[this.morphType];
+    if (!column) return [];
+
+    if (!isSQLite(db())) {
+      throw new Error(`Morph types of [${this.morphType}] can only be listed on SQLite; pass the types to check instead of '*'.`);
+    }
+
+    const rows = db().selectDistinct({ type: column }).from(this.parent.getSchemaTable()).all();
+    return rows.flatMap(({ type }) => (type ? [String(type)] : []));
+  }
+
+  /**
+   * Create an instance of the model class stored under a morph type
+   */
+  public static createModelByType(type: string): Model {
+    const modelClass = Relation.getMorphedModel(type);
+    if (!modelClass) {
+      throw new Error(`Class [${type}] is not registered. Register it with Relation.morphMap().`);
+    }
+    return new modelClass();
+  }
+
+  /**
+   * Get the morph type column on the parent
+   */
+  public getMorphType(): string {
+    return this.morphType;
+  }
+
+  protected ownerKeyFor(owner: Model): string {
+    return this.customOwnerKey ?? owner.getKeyName();
+  }
+
+  /**
+   * Rebuild `with()` arguments from the eager loads set on the relation query
+   */
+  protected getEagerLoadDefinitions(): EagerLoadDefinition[] {
+    return Array.from(this.query.getEagerLoads(), ([name, constraint]) => (constraint ? { [name]: constraint } : name));
+  }
+}
+
+export default MorphTo;
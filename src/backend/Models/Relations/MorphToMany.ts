@@ -0,0 +1,80 @@
+/**
+ * Catalyst MorphToMany Relation
+ *
+ * Polymorphic many-to-many relation: one pivot table (taggables) links the
+ * related model (tags) to several parent models, recording each parent's
+ * morph type next to its key. The inverse side (`morphedByMany`) constrains
+ * the pivot rows to the related model's morph type instead.
+ *
+ * @example
+ * ```ts
+ * class Post extends Model {
+ *   tags() {
+ *     return this.morphToMany(Tag, 'taggable'); // taggables: taggable_id, taggable_type, tag_id
+ *   }
+ * }
+ *
+ * class Tag extends Model {
+ *   posts() {
+ *     return this.morphedByMany(Post, 'taggable');
+ *   }
+ * }
+ *
+ * await post.tags().attach([1, 2]);
+ * ```
+ */
+
+import { sql, SQL } from 'drizzle-orm';
+import type { ModelTable } from '@/database/dialect';
+import type { Model } from '../Model';
+import { BelongsToMany } from './BelongsToMany';
+
+export class MorphToMany<TRelated = Model> extends BelongsToMany<TRelated> {
+  /** The morph type stored in the pivot table's type column */
+  protected morphClass: string;
+
+  constructor(
+    parent: Model,
+    related: TRelated,
+    protected morphType: string,
+    pivotTable: string | ModelTable,
+    foreignPivotKey: string,
+    relatedPivotKey: string,
+    parentKey: string,
+    relatedKey: string,
+    protected inverse: boolean = false
+  ) {
+    super(parent, related, pivotTable, foreignPivotKey, relatedPivotKey, parentKey, relatedKey);
+    this.morphClass = inverse ? (related as unknown as Model).getMorphClass() : parent.getMorphClass();
+  }
+
+  /**
+   * Only pivot rows recorded for the morph type belong to the relation
+   */
+  protected pivotConstraint(): SQL | undefined {
+    return sql`${this.pivotIdentifier()}.${sql.identifier(this.morphType)} = ${this.morphClass}`;
+  }
+
+  /**
+   * Record the morph type on inserted pivot rows
+   */
+  protected pivotDefaults(): Record<string, unknown> {
+    return { [this.morphType]: this.morphClass };
+  }
+
+  /**
+   * Get the morph type column on the pivot table
+   */
+  public getMorphType(): string {
+    return this.morphType;
+  }
+
+  /**
+   * Get the morph type stored for the relation
+   */
+  public getMorphClass(): string {
+    return this.morphClass;
+  }
+}
+
+export default MorphToMany;
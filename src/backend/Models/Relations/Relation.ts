@@ -0,0 +1,352 @@
+/**
+ * Catalyst Base Relation
+ *
+ * A relationship between a parent model and a related model class. Relations
+ * are lazy: awaiting one runs the query for the parent, while the eager
+ * loader batches the same definition across many parents.
+ *
+ * @example
+ * ```ts
+ * class User extends Model<UserAttributes> {
+ *   posts() {
+ *     return this.hasMany(Post, 'user_id');
+ *   }
+ * }
+ *
+ * const posts = await user.posts();
+ * const users = await User.query().with('posts').get();
+ *
+ * // Builder methods are forwarded to the related query
+ * const drafts = await user.posts().where('published', false).orderByDesc('id').get();
+ * ```
+ */
+
+import { getTableName, sql, SQL } from 'drizzle-orm';
+import type { Model } from '../Model';
+import type { QueryBuilder, ChunkCallback, ModelConstructor } from '../QueryBuilder';
+import type { LengthAwarePaginator, Paginator, CursorPaginator } from '@/backend/Pagination/Paginator';
+import { detectLazyLoading } from '../LazyLoading';
+
+type RelatedQuery = QueryBuilder<Record<string, unknown>>;
+
+export abstract class Relation<TRelated = Model, TResult = unknown> implements PromiseLike<TResult> {
+  /** The query for the related model */
+  protected query: RelatedQuery;
+
+  /** Whether the parent constraints have been added to the query */
+  private constrained: boolean = false;
+
+  /** Morph type aliases stored in `*_type` columns, mapped to model classes */
+  private static morphMapping: Map<string, ModelConstructor> = new Map();
+
+  /** Booted model classes by name, resolving morph types stored as class names */
+  private static morphModels: Map<string, ModelConstructor> = new Map();
+
+  /** Number of aliases handed out to existence queries on the parent's own table */
+  private static selfRelationCount: number = 0;
+
+  /** The name the outer query selects the parent's table as, while correlating */
+  private parentTable: string | null = null;
+
+  constructor(
+    protected parent: Model,
+    protected related: TRelated
+  ) {
+    this.query = this.asModel(related).newQuery() as unknown as RelatedQuery;
+
+    // Forward unknown methods to the related query, constrained to the parent.
+    // Builder methods that return the query return the relation instead so
+    // calls keep chaining: `user.posts().where(...).orderBy(...).get()`.
+    return new Proxy(this, {
+      get(target, property, receiver) {
+        if (typeof property !== 'string' || property in target) {
+          return Reflect.get(target, property, receiver);
+        }
+
+        const value = Reflect.get(target.query, property);
+        if (typeof value !== 'function') return value;
+
+        return (...args: unknown[]) => {
+          target.ensureConstraints();
+          const result = value.apply(target.query, args);
+          return result === target.query ? receiver : result;
+        };
+      },
+    });
+  }
+
+  // ==================== MORPH MAP ====================
+
+  /**
+   * Register short aliases stored in morph type columns instead of class names
+   *
+   * @example
+   * ```ts
+   * Relation.morphMap({ post: Post, video: Video });
+   * ```
+   */
+  public static morphMap(map?: Record<string, ModelConstructor>, merge: boolean = true): Record<string, ModelConstructor> {
+    if (map) {
+      if (!merge) Relation.morphMapping.clear();
+      for (const [alias, model] of Object.entries(map)) {
+        Relation.morphMapping.set(alias, model);
+      }
+    }
+    return Object.fromEntries(Relation.morphMapping);
+  }
+
+  /**
+   * Get the model class for a stored morph type
+   */
+  public static getMorphedModel(type: string): ModelConstructor | null {
+    return Relation.morphMapping.get(type) ?? Relation.morphModels.get(type) ?? null;
+  }
+
+  /**
+   * Get the morph type stored for a model class: its alias or its class name
+   */
+  public static getMorphAlias(model: ModelConstructor): string {
+    for (const [alias, mapped] of Relation.morphMapping) {
+      if (mapped === model) return alias;
+    }
+    return model.name;
+  }
+
+  /**
+   * Remember a model class so morph types stored as class names resolve
+   */
+  public static registerMorphModel(model: ModelConstructor): void {
+    Relation.morphModels.set(model.name, model);
+  }
+
+  // Query builder methods forwarded to the related query (see constructor)
+  declare where: (...args: Parameters<RelatedQuery['where']>) => this;
+  declare orWhere: (...args: Parameters<RelatedQuery['orWhere']>) => this;
+  declare whereNot: (...args: Parameters<RelatedQuery['whereNot']>) => this;
+  declare whereNull: (...args: Parameters<RelatedQuery['whereNull']>) => this;
+  declare whereNotNull: (...args: Parameters<RelatedQuery['whereNotNull']>) => this;
+  declare whereIn: (...args: Parameters<RelatedQuery['whereIn']>) => this;
+  declare whereNotIn: (...args: Parameters<RelatedQuery['whereNotIn']>) => this;
+  declare whereBetween: (...args: Parameters<RelatedQuery['whereBetween']>) => this;
+  declare whereLike: (...args: Parameters<RelatedQuery['whereLike']>) => this;
+  declare whereColumn: (...args: Parameters<RelatedQuery['whereColumn']>) => this;
+  declare whereRaw: (...args: Parameters<RelatedQuery['whereRaw']>) => this;
+  declare whereHas: (...args: Parameters<RelatedQuery['whereHas']>) => this;
+  declare whereDoesntHave: (...args: Parameters<RelatedQuery['whereDoesntHave']>) => this;
+  declare orderBy: (...args: Parameters<RelatedQuery['orderBy']>) => this;
+  declare orderByDesc: (...args: Parameters<RelatedQuery['orderByDesc']>) => this;
+  declare limit: (count: number) => this;
+  declare take: (count: number) => this;
+  declare offset: (count: number) => this;
+  declare skip: (count: number) => this;
+  declare select: (...args: Parameters<RelatedQuery['select']>) => this;
+  declare with: (...args: Parameters<RelatedQuery['with']>) => this;
+  declare withCount: (...args: Parameters<RelatedQuery['withCount']>) => this;
+  declare withTrashed: () => this;
+  declare onlyTrashed: () => this;
+  declare scope: (name: string, ...args: unknown[]) => this;
+  declare first: () => Promise<TRelated | null>;
+  declare firstOrFail: () => Promise<TRelated>;
+  declare find: (id: unknown) => Promise<TRelated | null>;
+  declare count: () => Promise<number>;
+  declare exists: () => Promise<boolean>;
+  declare sum: (column: string) => Promise<number>;
+  declare avg: (column: string) => Promise<number | null>;
+  declare min: (column: string) => Promise<unknown>;
+  declare max: (column: string) => Promise<unknown>;
+  declare paginate: (...args: Parameters<RelatedQuery['paginate']>) => Promise<LengthAwarePaginator<TRelated>>;
+  declare simplePaginate: (...args: Parameters<RelatedQuery['simplePaginate']>) => Promise<Paginator<TRelated>>;
+  declare cursorPaginate: (...args: Parameters<RelatedQuery['cursorPaginate']>) => Promise<CursorPaginator<TRelated>>;
+  declare chunk: (count: number, callback: ChunkCallback<TRelated>) => Promise<boolean>;
+  declare chunkById: (count: number, callback: ChunkCallback<TRelated>, column?: string) => Promise<boolean>;
+  declare lazy: (chunkSize?: number) => AsyncGenerator<TRelated>;
+  declare update: (...args: Parameters<RelatedQuery['update']>) => Promise<number>;
+  declare delete: () => Promise<number>;
+  declare toSql: () => string;
+  declare toRawSql: () => string;
+  declare getBindings: () => unknown[];
+  declare explain: (...args: Parameters<RelatedQuery['explain']>) => ReturnType<RelatedQuery['explain']>;
+
+  /**
+   * Constrain the query to the parent model
+   */
+  protected abstract addConstraints(): void;
+
+  /**
+   * Constrain the query to a set of parent models for eager loading
+   */
+  public abstract addEagerConstraints(models: Model[]): void;
+
+  /**
+   * Set the default (empty) value of the relation on each parent
+   */
+  public abstract initRelation(models: Model[], relation: string): Model[];
+
+  /**
+   * Assign eagerly loaded results to their parents
+   */
+  public abstract match(models: Model[], results: TRelated[], relation: string): Model[];
+
+  /**
+   * Get the results of the relationship for the parent model
+   */
+  public abstract getResults(): Promise<TResult>;
+
+  /**
+   * Add the parent constraints to the query once
+   */
+  protected ensureConstraints(): void {
+    if (this.constrained) return;
+    this.constrained = true;
+    this.addConstraints();
+  }
+
+  /**
+   * Get all related models for the parent, whatever the relation's cardinality
+   */
+  public async get(): Promise<TRelated[]> {
+    this.ensureConstraints();
+    return this.getEager();
+  }
+
+  /**
+   * Build the condition correlating related rows with the parent table
+   */
+  protected abstract getRelationExistenceCondition(): SQL;
+
+  /**
+   * Get the related query correlated with the parent table
+   *
+   * Used to build the EXISTS subqueries behind `has()` and `whereHas()`.
+   * Pass the outer query's table when it is aliased. A relation on the
+   * parent's own table (`parent()`, `children()`) selects under an alias,
+   * so both sides of the condition stay distinct.
+   */
+  public getRelationExistenceQuery(parentTable?: string): RelatedQuery {
+    this.correlateWith(parentTable);
+    if (this.isSelfRelation(this.asModel(this.related))) {
+      this.query.fromAlias(Relation.selfRelationAlias());
+    }
+    return this.query.whereRaw(this.getRelationExistenceCondition());
+  }
+
+  /**
+   * Set the name the outer query selects the parent's table as
+   */
+  protected correlateWith(parentTable?: string): void {
+    this.parentTable = parentTable ?? null;
+  }
+
+  /**
+   * Check if a model is stored in the parent's table
+   */
+  protected isSelfRelation(model: Model): boolean {
+    return getTableName(model.getSchemaTable()) === getTableName(this.parent.getSchemaTable());
+  }
+
+  /**
+   * Get a fresh alias for a query on the parent's own table
+   */
+  protected static selfRelationAlias(): string {
+    return `catalyst_reserved_${Relation.selfRelationCount++}`;
+  }
+
+  /**
+   * Get the relationship results for eager loading
+   */
+  public async getEager(): Promise<TRelated[]> {
+    return (await this.query.get()) as unknown as TRelated[];
+  }
+
+  /**
+   * Get the underlying query for the relation
+   */
+  public getQuery(): RelatedQuery {
+    return this.query;
+  }
+
+  /**
+   * Get the parent model of the relation
+   */
+  public getParent(): Model {
+    return this.parent;
+  }
+
+  /**
+   * Get the related model instance
+   */
+  public getRelated(): TRelated {
+    return this.related;
+  }
+
+  /**
+   * Allow `await user.posts()` to resolve the relationship results
+   */
+  public then<TFulfilled = TResult, TRejected = never>(
+    onfulfilled?: ((value: TResult) => TFulfilled | PromiseLike<TFulfilled>) | null,
+    onrejected?: ((reason: unknown) => TRejected | PromiseLike<TRejected>) | null
+  ): Promise<TFulfilled | TRejected> {
+    detectLazyLoading(this.parent, `${this.constructor.name} ${this.asModel(this.related).constructor.name}`);
+    return this.getResults().then(onfulfilled, onrejected);
+  }
+
+  /**
+   * Check if the related table has the given column
+   */
+  protected relatedHasColumn(column: string): boolean {
+    return column in (this.asModel(this.related).getSchemaTable() as unknown as Record<string, unknown>);
+  }
+
+  /**
+   * Reference a column qualified with the model's table name
+   */
+  protected qualifyColumn(model: Model, column: string): SQL {
+    return sql`${sql.identifier(getTableName(model.getSchemaTable()))}.${sql.identifier(column)}`;
+  }
+
+  /**
+   * Reference a column of the related query's table, or of its alias
+   */
+  protected qualifyRelatedColumn(column: string): SQL {
+    return sql`${sql.identifier(this.query.getTable())}.${sql.identifier(column)}`;
+  }
+
+  /**
+   * Reference a parent column as the outer query selects it
+   */
+  protected qualifyParentColumn(column: string): SQL {
+    return this.parentTable
+      ? sql`${sql.identifier(this.parentTable)}.${sql.identifier(column)}`
+      : this.qualifyColumn(this.parent, column);
+  }
+
+  /**
+   * Treat a related instance as a base model
+   */
+  protected asModel(related: TRelated): Model {
+    return related as unknown as Model;
+  }
+
+  /**
+   * Collect the unique, non-null values of an attribute across models
+   */
+  protected getKeys(models: Model[], key: string): unknown[] {
+    const keys = new Set<unknown>();
+    for (const model of models) {
+      const value = model.getAttribute(key);
+      if (value !== undefined && value !== null) {
+        keys.add(value);
+      }
+    }
+    return Array.from(keys);
+  }
+
+  /**
+   * Normalize a key value for dictionary lookups
+   */
+  protected dictionaryKey(value: unknown): string {
+    return value instanceof Date ? String(value.getTime()) : String(value);
+  }
+}
+
+export default Relation;
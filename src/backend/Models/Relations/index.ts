@@ -0,0 +1,20 @@
+/**
+ * Catalyst Relations Module
+ *
+ * Export all relationship classes.
+ */
+
+export { Relation } from './Relation';
+export { HasOneOrMany } from './HasOneOrMany';
+export { HasOne } from './HasOne';
+export { HasMany } from './HasMany';
+export { BelongsTo } from './BelongsTo';
+export { BelongsToMany } from './BelongsToMany';
+export type { PivotIds, SyncChanges } from './BelongsToMany';
+export { MorphOneOrMany } from './MorphOneOrMany';
+export { MorphOne } from './MorphOne';
+export { MorphMany } from './MorphMany';
+export { MorphTo } from './MorphTo';
+export { MorphToMany } from './MorphToMany';
+export { HasManyThrough } from './HasManyThrough';
+export { HasOneThrough } from './HasOneThrough';
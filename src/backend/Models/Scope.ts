@@ -0,0 +1,42 @@
+/**
+ * Catalyst Global Scope Contract
+ *
+ * A global scope constrains every query for a model. Register scopes in the
+ * model's `booted()` hook, either as a class or a callback.
+ *
+ * @example
+ * ```ts
+ * class PublishedScope implements Scope {
+ *   apply(query: QueryBuilder<Record<string, unknown>>): void {
+ *     query.whereNotNull('published_at');
+ *   }
+ * }
+ *
+ * class Post extends Model<PostAttributes> {
+ *   protected static booted(): void {
+ *     this.addGlobalScope(new PublishedScope());
+ *     this.addGlobalScope('tenant', (query) => query.where('tenant_id', Context.get('tenantId')));
+ *   }
+ * }
+ *
+ * await Post.query().withoutGlobalScope(PublishedScope).get();
+ * ```
+ */
+
+import type { Model } from './Model';
+import type { QueryBuilder } from './QueryBuilder';
+
+export interface Scope {
+  /**
+   * Apply the scope to a query for the given model
+   */
+  apply(query: QueryBuilder<Record<string, unknown>>, model: Model): void;
+}
+
+/** Callback form of a global scope */
+export type ScopeCallback = (query: QueryBuilder<Record<string, unknown>>) => void;
+
+/** A registered global scope */
+export type GlobalScope = Scope | ScopeCallback;
+
+export default Scope;
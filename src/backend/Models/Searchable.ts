@@ -0,0 +1,242 @@
+/**
+ * Catalyst Full-Text Search
+ *
+ * Models listing `searchable` columns are indexed in an SQLite FTS5 virtual
+ * table (`{table}_fts`) kept in sync through the saved, deleted and restored
+ * model events. Integer keys are stored as the index rowid; string keys, such
+ * as UUIDs, in an unindexed `searchable_key` column. `Model.search()` returns a
+ * regular query builder joined to the index, ordered by relevance, so it can
+ * be constrained, eager loaded and paginated like any other query. Soft
+ * deleted models are removed from the index.
+ *
+ * The index needs a single-column key and a SQLite connection. On other
+ * connections the index is not kept and `search()` throws.
+ *
+ * @example
+ * ```ts
+ * class Post extends Model {
+ *   protected searchable = ['title', 'body'];
+ * }
+ *
+ * const results = await Post.search('larav', { highlight: ['title'] })
+ *   .where('published', true)
+ *   .paginate(20, page);
+ *
+ * results.items()[0].getAttribute('title_highlight'); // '<mark>Laravel</mark> tips'
+ *
+ * // Rebuild the index: catalyst search:import Post
+ * await importSearchable(Post);
+ * ```
+ */
+
+import { dbWrite } from '@/database';
+import { isSQLite } from '@/database/dialect';
+import { withWriteLock } from '@/database/transactions';
+import { eq, inArray, sql, SQL } from 'drizzle-orm';
+import { sqliteTable, integer, real, text } from 'drizzle-orm/sqlite-core';
+import type { SQLiteColumn, SQLiteTable } from 'drizzle-orm/sqlite-core';
+import type { Model } from './Model';
+import type { ModelObserver } from './ModelEvents';
+import type { QueryBuilder, ModelConstructor } from './QueryBuilder';
+
+export interface SearchOptions {
+  /** Match words starting with each search term (default: true) */
+  prefix?: boolean;
+  /** Pass the term to FTS5 unchanged, allowing phrases, OR, NOT and NEAR */
+  raw?: boolean;
+  /** Columns returned with matches wrapped in the highlight tags, as `{column}_highlight` */
+  highlight?: string[];
+  /** Opening and closing highlight tags; the column text itself is not escaped */
+  highlightTags?: [string, string];
+}
+
+/** The FTS5 tokenizer: case and accent insensitive */
+const TOKENIZER = 'unicode61 remove_diacritics 2';
+
+/** The index column holding string keys, which FTS5 rowids cannot */
+const KEY_COLUMN = 'searchable_key';
+
+/** Index tables known to exist, per connection */
+const created = new WeakMap<object, Set<string>>();
+
+/**
+ * Turn user input into an FTS5 query matching every term
+ *
+ * Terms are quoted so punctuation never produces an FTS5 syntax error.
+ * Returns null when the input contains no searchable terms.
+ */
+export function compileSearchQuery(term: string, prefix: boolean = true): string | null {
+  const terms = term.match(/[\p{L}\p{N}_]+/gu) ?? [];
+  if (terms.length === 0) return null;
+
+  return terms.map((word) => `"${word}"${prefix ? '*' : ''}`).join(' ');
+}
+
+/**
+ * The FTS5 index of a searchable model
+ */
+export class SearchIndex {
+  /** The Drizzle table for the FTS5 virtual table, including its hidden columns */
+  public readonly table: SQLiteTable;
+
+  private readonly columns: string[];
+
+  /** The index column matching the model's key */
+  private readonly key: 'rowid' | typeof KEY_COLUMN;
+
+  constructor(private readonly model: Model) {
+    SearchIndex.assertIndexable(model);
+
+    this.columns = model.getSearchableColumns();
+    this.key = model.getKeyType() === 'int' ? 'rowid' : KEY_COLUMN;
+    this.table = sqliteTable(model.searchableAs(), {
+      rowid: integer('rowid'),
+      ...(this.key === KEY_COLUMN ? { [KEY_COLUMN]: text(KEY_COLUMN) } : {}),
+      rank: real('rank'),
+      match: text(model.searchableAs()),
+      ...Object.fromEntries(this.columns.map((column) => [column, text(column)])),
+    });
+  }
+
+  /**
+   * Throw when a model's key cannot identify its index entries
+   */
+  public static assertIndexable(model: Model): void {
+    if (model.hasCompositeKey()) {
+      throw new Error(`Model [${model.constructor.name}] is searchable, but full-text search needs a single-column key.`);
+    }
+  }
+
+  /**
+   * Determine if the write connection can hold full-text indexes
+   */
+  public static isAvailable(): boolean {
+    return isSQLite(dbWrite());
+  }
+
+  /**
+   * Get a column of the index table
+   */
+  public column(name: string): SQLiteColumn {
+    return (this.table as unknown as Record<string, SQLiteColumn>)[name];
+  }
+
+  /**
+   * Create the index table if it does not exist yet
+   */
+  public ensure(): this {
+    const connection = dbWrite();
+    if (!isSQLite(connection)) {
+      throw new Error(`Model [${this.model.constructor.name}] is searchable, but full-text search needs a SQLite connection.`);
+    }
+
+    const tables = created.get(connection) ?? new Set<string>();
+    const name = this.model.searchableAs();
+
+    if (!tables.has(name)) {
+      const columns: SQL[] = this.columns.map((column) => sql`${sql.identifier(column)}`);
+      if (this.key === KEY_COLUMN) {
+        columns.unshift(sql`${sql.identifier(KEY_COLUMN)} UNINDEXED`);
+      }
+      connection.run(sql`CREATE VIRTUAL TABLE IF NOT EXISTS ${sql.identifier(name)} USING fts5(${sql.join(columns, sql`, `)}, tokenize = ${sql.raw(`'${TOKENIZER}'`)}, prefix = '2 3')`);
+      tables.add(name);
+      created.set(connection, tables);
+    }
+    return this;
+  }
+
+  /**
+   * Drop and recreate the index table, e.g. after the searchable columns changed
+   */
+  public recreate(): this {
+    const connection = dbWrite();
+    if (isSQLite(connection)) {
+      connection.run(sql`DROP TABLE IF EXISTS ${sql.identifier(this.model.searchableAs())}`);
+      created.get(connection)?.delete(this.model.searchableAs());
+    }
+    return this.ensure();
+  }
+
+  /**
+   * Add or replace the index entries of the given models
+   */
+  public update(models: Model[]): void {
+    if (models.length === 0) return;
+    this.ensure().delete(models);
+
+    dbWrite().insert(this.table).values(models.map((model) => ({
+      [this.key]: this.keyOf(model),
+      ...model.toSearchableArray(),
+    }))).run();
+  }
+
+  /**
+   * Remove the index entries of the given models
+   */
+  public delete(models: Model[]): void {
+    if (models.length === 0) return;
+    this.ensure();
+
+    const keys = models.map((model) => this.keyOf(model));
+    const key = this.column(this.key);
+    dbWrite().delete(this.table).where(keys.length === 1 ? eq(key, keys[0]) : inArray(key, keys)).run();
+  }
+
+  /**
+   * Constrain a query to the models matching a search, ordered by relevance
+   */
+  public apply(query: QueryBuilder<Record<string, unknown>>, term: string, options: SearchOptions = {}): QueryBuilder<Record<string, unknown>> {
+    this.ensure();
+
+    const match = options.raw ? term.trim() || null : compileSearchQuery(term, options.prefix ?? true);
+    if (match === null) {
+      return query.whereRaw(sql`0 = 1`);
+    }
+
+    const name = this.model.searchableAs();
+    const [open, close] = options.highlightTags ?? ['<mark>', '</mark>'];
+    const highlights: Record<string, SQL> = {};
+    for (const column of options.highlight ?? []) {
+      const index = this.columns.indexOf(column);
+      if (index === -1) {
+        throw new Error(`Column [${column}] is not searchable on [${this.model.constructor.name}].`);
+      }
+      // The key column comes first in indexes of string keys
+      const position = this.key === KEY_COLUMN ? index + 1 : index;
+      highlights[`${column}_highlight`] = sql<string>`highlight(${sql.identifier(name)}, ${position}, ${open}, ${close})`;
+    }
+
+    return query
+      .join(this.table, `${name}.${this.key}`, '=', `${this.model.getTable()}.${this.model.getKeyName()}`)
+      .whereRaw(sql`${this.column('match')} MATCH ${match}`)
+      .addSelect({ search_rank: sql<number>`${this.column('rank')}`, ...highlights })
+      .orderBy('search_rank');
+  }
+
+  private keyOf(model: Model): number | string {
+    return this.key === 'rowid' ? Number(model.getKey()) : String(model.getKey());
+  }
+}
+
+/**
+ * Keeps the index of searchable models in sync, registered when the model boots on a SQLite connection
+ */
+export const SearchableObserver: ModelObserver = {
+  saved: (model) => withWriteLock(dbWrite(), () => new SearchIndex(model).update([model])),
+  deleted: (model) => withWriteLock(dbWrite(), () => new SearchIndex(model).delete([model])),
+  restored: (model) => withWriteLock(dbWrite(), () => new SearchIndex(model).update([model])),
+};
+
+/**
+ * Rebuild a model's index from its table, returning the number of models indexed
+ */
+export async function importSearchable(modelClass: ModelConstructor, chunkSize: number = 500): Promise<number> {
+  const index = await withWriteLock(dbWrite(), () => new SearchIndex(new modelClass()).recreate());
+  let total = 0;
+
+  await new modelClass().newQuery().chunkById(chunkSize, async (models) => {
+    await withWriteLock(dbWrite(), () => index.update(models));
+    total += models.length;
+  });
+  return total;
+}
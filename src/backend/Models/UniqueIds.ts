@@ -0,0 +1,54 @@
+/**
+ * Catalyst Unique IDs
+ *
+ * Generators for string primary keys. Both put a millisecond timestamp
+ * first, so new rows are appended to the key index instead of landing at
+ * random positions, and ids sort by creation time.
+ *
+ * @example
+ * ```ts
+ * orderedUuid(); // '0192f0c4-8a5e-7c1b-9f3a-5d2e8b7c6a41' (UUID version 7)
+ * ulid();        // '01JBRC93JYAXTSG7VN8QZ6K2M4'
+ * ```
+ */
+
+import crypto from 'crypto';
+
+/** The type of unique id generated for a model's key */
+export type UniqueIdType = 'uuid' | 'ulid';
+
+/** Crockford's base32 alphabet used by ULIDs */
+const ULID_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+/**
+ * Generate a time ordered version 7 UUID
+ */
+export function orderedUuid(time: number = Date.now()): string {
+  const bytes = crypto.randomBytes(16);
+  bytes.writeUIntBE(time, 0, 6);
+  bytes[6] = (bytes[6] & 0x0f) | 0x70;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+
+  const hex = bytes.toString('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+/**
+ * Generate a ULID: a 48-bit timestamp and 80 random bits in 26 base32 characters
+ */
+export function ulid(time: number = Date.now()): string {
+  let timestamp = '';
+  for (let i = 0, rest = time; i < 10; i++, rest = Math.floor(rest / 32)) {
+    timestamp = ULID_ALPHABET[rest % 32] + timestamp;
+  }
+
+  const random = Array.from(crypto.randomBytes(16), (byte) => ULID_ALPHABET[byte % 32]).join('');
+  return timestamp + random;
+}
+
+/**
+ * Generate a unique id of the given type
+ */
+export function newUniqueId(type: UniqueIdType): string {
+  return type === 'uuid' ? orderedUuid() : ulid();
+}
@@ -0,0 +1,439 @@
+/**
+ * Catalyst Paginators
+ *
+ * Result objects returned by QueryBuilder.paginate(), simplePaginate() and
+ * cursorPaginate(). Each serializes to plain JSON (Laravel's shape) so it can
+ * be returned from API routes or passed as props to React pages.
+ *
+ * @example
+ * ```ts
+ * const page = await Post.query().orderByDesc('created_at').paginate(15, 2, { path: '/posts' });
+ * page.total();      // 120
+ * page.lastPage();   // 8
+ * return Response.json(page); // { current_page, data, links, total, ... }
+ *
+ * const feed = await Post.query().orderByDesc('id').cursorPaginate(20, request.cursor);
+ * feed.nextCursor(); // opaque string for the next request
+ * ```
+ */
+
+export interface PaginationLink {
+  url: string | null;
+  label: string;
+  active: boolean;
+}
+
+export interface PaginatorOptions {
+  /** Base path used when generating page URLs */
+  path?: string;
+  /** Query string parameter holding the page number or cursor */
+  pageName?: string;
+  /** Extra query string parameters appended to every URL */
+  query?: Record<string, string | number>;
+}
+
+export interface SimplePaginatorJSON<T = unknown> {
+  current_page: number;
+  data: T[];
+  first_page_url: string;
+  from: number | null;
+  next_page_url: string | null;
+  path: string;
+  per_page: number;
+  prev_page_url: string | null;
+  to: number | null;
+}
+
+export interface LengthAwarePaginatorJSON<T = unknown> extends SimplePaginatorJSON<T> {
+  last_page: number;
+  last_page_url: string;
+  links: PaginationLink[];
+  total: number;
+}
+
+export interface CursorPaginatorJSON<T = unknown> {
+  data: T[];
+  path: string;
+  per_page: number;
+  next_cursor: string | null;
+  next_page_url: string | null;
+  prev_cursor: string | null;
+  prev_page_url: string | null;
+}
+
+// ==================== BASE PAGINATOR ====================
+
+abstract class AbstractPaginator<T> implements Iterable<T> {
+  protected path: string;
+  protected pageName: string;
+  protected query: Record<string, string | number>;
+
+  constructor(
+    protected itemList: T[],
+    protected perPageCount: number,
+    options: PaginatorOptions = {},
+    defaultPageName: string = 'page'
+  ) {
+    this.path = options.path ?? '';
+    this.pageName = options.pageName ?? defaultPageName;
+    this.query = { ...options.query };
+  }
+
+  /**
+   * Get the items on the current page
+   */
+  items(): T[] {
+    return this.itemList;
+  }
+
+  /**
+   * Get the number of items shown per page
+   */
+  perPage(): number {
+    return this.perPageCount;
+  }
+
+  /**
+   * Get the number of items on the current page
+   */
+  count(): number {
+    return this.itemList.length;
+  }
+
+  /**
+   * Determine if the current page has no items
+   */
+  isEmpty(): boolean {
+    return this.itemList.length === 0;
+  }
+
+  /**
+   * Set the base path for generated URLs
+   */
+  withPath(path: string): this {
+    this.path = path;
+    return this;
+  }
+
+  /**
+   * Add query string values to generated URLs
+   */
+  appends(key: string | Record<string, string | number>, value?: string | number): this {
+    if (typeof key === 'string') {
+      if (value !== undefined) this.query[key] = value;
+    } else {
+      Object.assign(this.query, key);
+    }
+    return this;
+  }
+
+  /**
+   * Build a URL carrying the given page parameter value
+   */
+  protected buildUrl(value: string | number): string {
+    const params = new URLSearchParams();
+    for (const [key, val] of Object.entries(this.query)) {
+      params.set(key, String(val));
+    }
+    params.set(this.pageName, String(value));
+    return `${this.path}?${params.toString()}`;
+  }
+
+  /**
+   * Serialize items, using each item's toJSON() when available
+   */
+  protected serializeItems(): unknown[] {
+    return this.itemList.map((item) => {
+      const serializable = item as { toJSON?: () => unknown };
+      return typeof serializable?.toJSON === 'function' ? serializable.toJSON() : item;
+    });
+  }
+
+  [Symbol.iterator](): Iterator<T> {
+    return this.itemList[Symbol.iterator]();
+  }
+}
+
+// ==================== SIMPLE PAGINATOR ====================
+
+/**
+ * Paginator that only knows whether another page exists (no count query)
+ */
+export class Paginator<T> extends AbstractPaginator<T> {
+  protected hasMore: boolean;
+
+  /**
+   * @param items - Up to perPage + 1 items; the extra item signals another page
+   */
+  constructor(items: T[], perPage: number, protected page: number = 1, options: PaginatorOptions = {}) {
+    super(items.slice(0, perPage), perPage, options);
+    this.hasMore = items.length > perPage;
+  }
+
+  currentPage(): number {
+    return this.page;
+  }
+
+  hasMorePages(): boolean {
+    return this.hasMore;
+  }
+
+  onFirstPage(): boolean {
+    return this.page <= 1;
+  }
+
+  /**
+   * Get the URL for a page number
+   */
+  url(page: number): string {
+    return this.buildUrl(Math.max(page, 1));
+  }
+
+  nextPageUrl(): string | null {
+    return this.hasMorePages() ? this.url(this.page + 1) : null;
+  }
+
+  previousPageUrl(): string | null {
+    return this.page > 1 ? this.url(this.page - 1) : null;
+  }
+
+  /**
+   * Get the 1-based position of the first item on the page
+   */
+  firstItem(): number | null {
+    return this.isEmpty() ? null : (this.page - 1) * this.perPageCount + 1;
+  }
+
+  /**
+   * Get the 1-based position of the last item on the page
+   */
+  lastItem(): number | null {
+    const first = this.firstItem();
+    return first === null ? null : first + this.count() - 1;
+  }
+
+  toJSON(): SimplePaginatorJSON {
+    return {
+      current_page: this.page,
+      data: this.serializeItems(),
+      first_page_url: this.url(1),
+      from: this.firstItem(),
+      next_page_url: this.nextPageUrl(),
+      path: this.path,
+      per_page: this.perPageCount,
+      prev_page_url: this.previousPageUrl(),
+      to: this.lastItem(),
+    };
+  }
+}
+
+// ==================== LENGTH AWARE PAGINATOR ====================
+
+/**
+ * Paginator that knows the total number of items and pages
+ */
+export class LengthAwarePaginator<T> extends Paginator<T> {
+  /** Number of page links shown on each side of the current page */
+  public onEachSide: number = 3;
+
+  constructor(items: T[], protected totalCount: number, perPage: number, page: number = 1, options: PaginatorOptions = {}) {
+    super(items, perPage, page, options);
+    this.hasMore = page < this.lastPage();
+  }
+
+  total(): number {
+    return this.totalCount;
+  }
+
+  lastPage(): number {
+    return Math.max(Math.ceil(this.totalCount / this.perPageCount), 1);
+  }
+
+  /**
+   * Build the list of page links, collapsing distant pages into "..."
+   */
+  linkCollection(): PaginationLink[] {
+    const last = this.lastPage();
+    const pages: Array<number | '...'> = [];
+
+    for (let page = 1; page <= last; page++) {
+      const nearCurrent = Math.abs(page - this.page) <= this.onEachSide;
+      const nearEdge = page <= 2 || page > last - 2;
+
+      if (nearCurrent || nearEdge) {
+        pages.push(page);
+      } else if (pages[pages.length - 1] !== '...') {
+        pages.push('...');
+      }
+    }
+
+    return [
+      { url: this.previousPageUrl(), label: 'Previous', active: false },
+      ...pages.map((page) =>
+        page === '...'
+          ? { url: null, label: '...', active: false }
+          : { url: this.url(page), label: String(page), active: page === this.page }
+      ),
+      { url: this.nextPageUrl(), label: 'Next', active: false },
+    ];
+  }
+
+  toJSON(): LengthAwarePaginatorJSON {
+    return {
+      ...super.toJSON(),
+      last_page: this.lastPage(),
+      last_page_url: this.url(this.lastPage()),
+      links: this.linkCollection(),
+      total: this.totalCount,
+    };
+  }
+}
+
+// ==================== CURSOR PAGINATOR ====================
+
+/**
+ * Position in a keyset-paginated result set
+ *
+ * Encoded as URL-safe base64 JSON so clients treat it as an opaque token.
+ */
+export class Cursor {
+  constructor(
+    public readonly parameters: Record<string, unknown>,
+    public readonly pointsToNextItems: boolean = true
+  ) {}
+
+  /**
+   * Get the cursor value for a column
+   */
+  parameter(column: string): unknown {
+    return this.parameters[column];
+  }
+
+  pointsToPreviousItems(): boolean {
+    return !this.pointsToNextItems;
+  }
+
+  /**
+   * Encode the cursor into an opaque string
+   */
+  encode(): string {
+    const parameters: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(this.parameters)) {
+      parameters[key] = value instanceof Date ? { $date: value.getTime() } : value;
+    }
+    const json = JSON.stringify({ ...parameters, _pointsToNextItems: this.pointsToNextItems });
+    return Buffer.from(json).toString('base64url');
+  }
+
+  /**
+   * Decode an encoded cursor, returning null when it is missing or invalid
+   */
+  static decode(encoded: string | null | undefined): Cursor | null {
+    if (!encoded) return null;
+
+    try {
+      const { _pointsToNextItems, ...parameters } = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+      for (const [key, value] of Object.entries(parameters)) {
+        const date = value as { $date?: number } | null;
+        if (date && typeof date === 'object' && typeof date.$date === 'number') {
+          parameters[key] = new Date(date.$date);
+        }
+      }
+      return new Cursor(parameters, _pointsToNextItems !== false);
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Paginator that navigates with opaque cursors instead of page numbers
+ */
+export class CursorPaginator<T> extends AbstractPaginator<T> {
+  protected hasMore: boolean;
+
+  /**
+   * @param items - Up to perPage + 1 items, already in display order
+   * @param parameters - The ordered columns that make up a cursor
+   */
+  constructor(
+    items: T[],
+    perPage: number,
+    protected cursor: Cursor | null,
+    protected parameters: string[],
+    options: PaginatorOptions = {}
+  ) {
+    const hasMore = items.length > perPage;
+    // When paging backwards the extra item sits at the start of the list
+    const visible = cursor?.pointsToPreviousItems() && hasMore ? items.slice(1) : items.slice(0, perPage);
+    super(visible, perPage, options, 'cursor');
+    this.hasMore = hasMore;
+  }
+
+  hasMorePages(): boolean {
+    if (this.cursor === null) return this.hasMore;
+    return this.cursor.pointsToPreviousItems() ? true : this.hasMore;
+  }
+
+  onFirstPage(): boolean {
+    return this.cursor === null || (this.cursor.pointsToPreviousItems() && !this.hasMore);
+  }
+
+  /**
+   * Get the cursor pointing at the page after this one
+   */
+  nextCursor(): Cursor | null {
+    if (this.isEmpty() || !this.hasMorePages()) return null;
+    return this.cursorFromItem(this.itemList[this.itemList.length - 1], true);
+  }
+
+  /**
+   * Get the cursor pointing at the page before this one
+   */
+  previousCursor(): Cursor | null {
+    if (this.isEmpty() || this.onFirstPage()) return null;
+    return this.cursorFromItem(this.itemList[0], false);
+  }
+
+  nextPageUrl(): string | null {
+    const cursor = this.nextCursor();
+    return cursor ? this.buildUrl(cursor.encode()) : null;
+  }
+
+  previousPageUrl(): string | null {
+    const cursor = this.previousCursor();
+    return cursor ? this.buildUrl(cursor.encode()) : null;
+  }
+
+  /**
+   * Build a cursor from an item's ordered column values
+   *
+   * Models are read through their raw attributes so casts don't leak into cursors.
+   */
+  protected cursorFromItem(item: T, pointsToNextItems: boolean): Cursor {
+    const source = item as { getAttributes?: () => Record<string, unknown> };
+    const attributes = typeof source.getAttributes === 'function'
+      ? source.getAttributes()
+      : (item as Record<string, unknown>);
+
+    const values: Record<string, unknown> = {};
+    for (const column of this.parameters) {
+      values[column] = attributes[column];
+    }
+    return new Cursor(values, pointsToNextItems);
+  }
+
+  toJSON(): CursorPaginatorJSON {
+    return {
+      data: this.serializeItems(),
+      path: this.path,
+      per_page: this.perPageCount,
+      next_cursor: this.nextCursor()?.encode() ?? null,
+      next_page_url: this.nextPageUrl(),
+      prev_cursor: this.previousCursor()?.encode() ?? null,
+      prev_page_url: this.previousPageUrl(),
+    };
+  }
+}
+
+export default Paginator;
@@ -0,0 +1,191 @@
+/**
+ * Catalyst Encrypter
+ *
+ * Authenticated encryption with the application key (`app.key`) and cipher
+ * (`app.cipher`). Payloads are base64-encoded JSON holding the IV, the
+ * ciphertext and the GCM tag or CBC MAC, so tampered values are rejected.
+ *
+ * @example
+ * ```ts
+ * const payload = encrypter().encrypt({ card: '4242' });
+ * encrypter().decrypt(payload); // { card: '4242' }
+ *
+ * // APP_KEY=base64:... (generate with Encrypter.generateKey())
+ * ```
+ */
+
+import crypto from 'crypto';
+import { config } from '@/backend/Services/Config';
+
+export type Cipher = 'aes-256-cbc' | 'aes-256-gcm';
+
+interface EncryptedPayload {
+  iv: string;
+  value: string;
+  mac: string;
+  tag: string;
+}
+
+/** Key length in bytes required by each supported cipher */
+const KEY_LENGTHS: Record<Cipher, number> = {
+  'aes-256-cbc': 32,
+  'aes-256-gcm': 32,
+};
+
+export class DecryptException extends Error {
+  constructor(message: string = 'The payload is invalid.') {
+    super(message);
+    this.name = 'DecryptException';
+  }
+}
+
+export class MissingAppKeyException extends Error {
+  constructor(message: string = 'No application encryption key has been specified. Set APP_KEY in your environment.') {
+    super(message);
+    this.name = 'MissingAppKeyException';
+  }
+}
+
+export class Encrypter {
+  private static instance: Encrypter | null = null;
+  private readonly key: Buffer;
+
+  /**
+   * @param key - Raw key bytes, or a string (prefix with `base64:` for encoded keys)
+   */
+  constructor(key: Buffer | string, private readonly cipher: Cipher = 'aes-256-gcm') {
+    this.key = typeof key === 'string' ? Encrypter.parseKey(key) : key;
+
+    if (!(cipher in KEY_LENGTHS) || this.key.length !== KEY_LENGTHS[cipher]) {
+      throw new Error(`Unsupported cipher or incorrect key length. Supported ciphers are: ${Object.keys(KEY_LENGTHS).join(', ')}.`);
+    }
+  }
+
+  /**
+   * Get the encrypter for the application key and cipher
+   */
+  static getInstance(): Encrypter {
+    if (!Encrypter.instance) {
+      const key = config<string>('app.key', '');
+      if (!key) {
+        throw new MissingAppKeyException();
+      }
+      Encrypter.instance = new Encrypter(key, config<Cipher>('app.cipher', 'aes-256-gcm'));
+    }
+    return Encrypter.instance;
+  }
+
+  /**
+   * Forget the application encrypter (for testing)
+   */
+  static reset(): void {
+    Encrypter.instance = null;
+  }
+
+  /**
+   * Generate a random key for the cipher, formatted for APP_KEY
+   */
+  static generateKey(cipher: Cipher = 'aes-256-gcm'): string {
+    return `base64:${crypto.randomBytes(KEY_LENGTHS[cipher]).toString('base64')}`;
+  }
+
+  private static parseKey(key: string): Buffer {
+    return key.startsWith('base64:') ? Buffer.from(key.slice(7), 'base64') : Buffer.from(key, 'utf8');
+  }
+
+  /**
+   * Encrypt a value, serializing it as JSON unless `serialize` is false
+   */
+  encrypt(value: unknown, serialize: boolean = true): string {
+    const iv = crypto.randomBytes(this.isAead() ? 12 : 16);
+    const plaintext = serialize ? JSON.stringify(value) : String(value);
+
+    const cipher = crypto.createCipheriv(this.cipher, this.key, iv);
+    const encrypted = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]).toString('base64');
+
+    const payload: EncryptedPayload = {
+      iv: iv.toString('base64'),
+      value: encrypted,
+      mac: this.isAead() ? '' : this.hash(iv.toString('base64'), encrypted),
+      tag: this.isAead() ? (cipher as crypto.CipherGCM).getAuthTag().toString('base64') : '',
+    };
+
+    return Buffer.from(JSON.stringify(payload)).toString('base64');
+  }
+
+  /**
+   * Encrypt a string without serialization
+   */
+  encryptString(value: string): string {
+    return this.encrypt(value, false);
+  }
+
+  /**
+   * Decrypt a payload, parsing the JSON unless `unserialize` is false
+   *
+   * @throws DecryptException when the payload is malformed or was tampered with
+   */
+  decrypt<T = unknown>(payload: string, unserialize: boolean = true): T {
+    const { iv, value, mac, tag } = this.getPayload(payload);
+    const ivBuffer = Buffer.from(iv, 'base64');
+
+    if (!this.isAead() && !this.validMac(iv, value, mac)) {
+      throw new DecryptException('The MAC is invalid.');
+    }
+
+    let decrypted: string;
+    try {
+      const decipher = crypto.createDecipheriv(this.cipher, this.key, ivBuffer);
+      if (this.isAead()) {
+        (decipher as crypto.DecipherGCM).setAuthTag(Buffer.from(tag, 'base64'));
+      }
+      decrypted = Buffer.concat([decipher.update(value, 'base64'), decipher.final()]).toString('utf8');
+    } catch {
+      throw new DecryptException('Could not decrypt the data.');
+    }
+
+    return (unserialize ? JSON.parse(decrypted) : decrypted) as T;
+  }
+
+  /**
+   * Decrypt a payload without unserialization
+   */
+  decryptString(payload: string): string {
+    return this.decrypt<string>(payload, false);
+  }
+
+  private getPayload(payload: string): EncryptedPayload {
+    try {
+      const decoded = JSON.parse(Buffer.from(payload, 'base64').toString('utf8')) as EncryptedPayload;
+      if (typeof decoded?.iv === 'string' && typeof decoded.value === 'string') {
+        return { iv: decoded.iv, value: decoded.value, mac: decoded.mac ?? '', tag: decoded.tag ?? '' };
+      }
+    } catch {
+      // Fall through to the invalid payload error
+    }
+    throw new DecryptException();
+  }
+
+  private isAead(): boolean {
+    return this.cipher === 'aes-256-gcm';
+  }
+
+  private hash(iv: string, value: string): string {
+    return crypto.createHmac('sha256', this.key).update(iv + value).digest('hex');
+  }
+
+  private validMac(iv: string, value: string, mac: string): boolean {
+    const expected = Buffer.from(this.hash(iv, value));
+    const given = Buffer.from(mac);
+    return expected.length === given.length && crypto.timingSafeEqual(expected, given);
+  }
+}
+
+/**
+ * Get the application encrypter
+ */
+export function encrypter(): Encrypter {
+  return Encrypter.getInstance();
+}
+
+export default Encrypter;
@@ -0,0 +1,494 @@
+/**
+ * Catalyst Schema Blueprint
+ *
+ * Describes the table a `Schema.create` or `Schema.table` callback builds or
+ * changes: the columns to add or change, and commands such as indexes,
+ * foreign keys, dropped and renamed columns. The blueprint only records the
+ * change; the schema grammar compiles it to the connection's dialect.
+ *
+ * Columns are NOT NULL unless made `nullable()`. Index and foreign key names
+ * default to `<table>_<columns>_<type>`, such as `posts_user_id_foreign`.
+ *
+ * @example
+ * ```ts
+ * await Schema.create('posts', (table) => {
+ *   table.id();
+ *   table.foreignId('user_id').constrained().cascadeOnDelete();
+ *   table.string('title');
+ *   table.text('body').nullable();
+ *   table.boolean('published').default(false);
+ *   table.timestamps();
+ *   table.softDeletes();
+ *   table.index(['user_id', 'published']);
+ * });
+ * ```
+ */
+
+export type ColumnType =
+  | 'increments'
+  | 'bigIncrements'
+  | 'integer'
+  | 'bigInteger'
+  | 'smallInteger'
+  | 'float'
+  | 'double'
+  | 'decimal'
+  | 'string'
+  | 'char'
+  | 'text'
+  | 'longText'
+  | 'boolean'
+  | 'date'
+  | 'dateTime'
+  | 'timestamp'
+  | 'time'
+  | 'json'
+  | 'binary'
+  | 'uuid'
+  | 'ulid';
+
+/** Raw SQL used as it is in a column definition, such as a default */
+export class Expression {
+  constructor(public readonly value: string) {}
+}
+
+/** A column default: a literal value, or an expression */
+export type ColumnDefault = string | number | boolean | null | Expression;
+
+export type ForeignKeyAction = 'cascade' | 'restrict' | 'set null' | 'no action';
+
+export interface ColumnAttributes {
+  length?: number;
+  precision?: number;
+  scale?: number;
+  nullable: boolean;
+  /** The default, left out when undefined */
+  default?: ColumnDefault;
+  /** Default to the current time */
+  useCurrent: boolean;
+  unsigned: boolean;
+  autoIncrement: boolean;
+  /** Change the existing column instead of adding it */
+  change: boolean;
+}
+
+export type BlueprintCommand =
+  | { type: 'index' | 'unique' | 'primary'; index: string; columns: string[] }
+  | { type: 'dropIndex' | 'dropUnique' | 'dropPrimary' | 'dropForeign'; index: string }
+  | { type: 'foreign'; foreign: ForeignKeyDefinition }
+  | { type: 'dropColumn'; columns: string[] }
+  | { type: 'renameColumn'; from: string; to: string };
+
+/**
+ * A column added or changed by a blueprint
+ */
+export class ColumnDefinition {
+  constructor(
+    protected readonly blueprint: Blueprint,
+    public readonly name: string,
+    public readonly type: ColumnType,
+    public readonly attributes: ColumnAttributes
+  ) {}
+
+  /**
+   * Allow NULL values
+   */
+  nullable(value: boolean = true): this {
+    this.attributes.nullable = value;
+    return this;
+  }
+
+  default(value: ColumnDefault): this {
+    this.attributes.default = value;
+    return this;
+  }
+
+  /**
+   * Default a date or time column to the current time
+   */
+  useCurrent(): this {
+    this.attributes.useCurrent = true;
+    return this;
+  }
+
+  /**
+   * Make an integer column unsigned, on MySQL
+   */
+  unsigned(): this {
+    this.attributes.unsigned = true;
+    return this;
+  }
+
+  autoIncrement(): this {
+    this.attributes.autoIncrement = true;
+    return this;
+  }
+
+  primary(name?: string): this {
+    this.blueprint.primary(this.name, name);
+    return this;
+  }
+
+  unique(name?: string): this {
+    this.blueprint.unique(this.name, name);
+    return this;
+  }
+
+  index(name?: string): this {
+    this.blueprint.index(this.name, name);
+    return this;
+  }
+
+  /**
+   * Change the existing column to this definition
+   */
+  change(): this {
+    this.attributes.change = true;
+    return this;
+  }
+}
+
+/**
+ * A column referencing another table's key
+ */
+export class ForeignIdColumnDefinition extends ColumnDefinition {
+  /**
+   * Reference the key of a table, by default the one named after the column (`user_id` references `users`)
+   */
+  constrained(table?: string, column: string = 'id', name?: string): ForeignKeyDefinition {
+    return this.references(column, name).on(table ?? `${this.name.replace(/_id$/, '')}s`);
+  }
+
+  /**
+   * Reference a column, of the table given with `on()`
+   */
+  references(column: string, name?: string): ForeignKeyDefinition {
+    return this.blueprint.foreign(this.name, name).references(column);
+  }
+}
+
+/**
+ * A foreign key of a blueprint's table
+ */
+export class ForeignKeyDefinition {
+  /** The referenced table, without the table prefix */
+  public referencedTable = '';
+  public referencedColumns: string[] = ['id'];
+  public onDeleteAction?: ForeignKeyAction;
+  public onUpdateAction?: ForeignKeyAction;
+
+  constructor(
+    public readonly name: string,
+    public readonly columns: string[]
+  ) {}
+
+  references(columns: string | string[]): this {
+    this.referencedColumns = Array.isArray(columns) ? columns : [columns];
+    return this;
+  }
+
+  on(table: string): this {
+    this.referencedTable = table;
+    return this;
+  }
+
+  onDelete(action: ForeignKeyAction): this {
+    this.onDeleteAction = action;
+    return this;
+  }
+
+  onUpdate(action: ForeignKeyAction): this {
+    this.onUpdateAction = action;
+    return this;
+  }
+
+  cascadeOnDelete(): this {
+    return this.onDelete('cascade');
+  }
+
+  restrictOnDelete(): this {
+    return this.onDelete('restrict');
+  }
+
+  nullOnDelete(): this {
+    return this.onDelete('set null');
+  }
+
+  cascadeOnUpdate(): this {
+    return this.onUpdate('cascade');
+  }
+
+  restrictOnUpdate(): this {
+    return this.onUpdate('restrict');
+  }
+}
+
+export class Blueprint {
+  /** The columns to add or change, in order */
+  public readonly columns: ColumnDefinition[] = [];
+  public readonly commands: BlueprintCommand[] = [];
+
+  constructor(
+    /** The table, without the table prefix */
+    public readonly table: string,
+    public readonly prefix: string = ''
+  ) {}
+
+  // ==================== Columns ====================
+
+  /**
+   * An autoincrementing integer primary key
+   */
+  id(name: string = 'id'): ColumnDefinition {
+    return this.increments(name);
+  }
+
+  increments(name: string): ColumnDefinition {
+    return this.addColumn(name, 'increments', { unsigned: true, autoIncrement: true });
+  }
+
+  bigIncrements(name: string): ColumnDefinition {
+    return this.addColumn(name, 'bigIncrements', { unsigned: true, autoIncrement: true });
+  }
+
+  integer(name: string): ColumnDefinition {
+    return this.addColumn(name, 'integer');
+  }
+
+  unsignedInteger(name: string): ColumnDefinition {
+    return this.addColumn(name, 'integer', { unsigned: true });
+  }
+
+  bigInteger(name: string): ColumnDefinition {
+    return this.addColumn(name, 'bigInteger');
+  }
+
+  smallInteger(name: string): ColumnDefinition {
+    return this.addColumn(name, 'smallInteger');
+  }
+
+  float(name: string): ColumnDefinition {
+    return this.addColumn(name, 'float');
+  }
+
+  double(name: string): ColumnDefinition {
+    return this.addColumn(name, 'double');
+  }
+
+  decimal(name: string, precision: number = 8, scale: number = 2): ColumnDefinition {
+    return this.addColumn(name, 'decimal', { precision, scale });
+  }
+
+  /**
+   * A VARCHAR column, TEXT on SQLite
+   */
+  string(name: string, length: number = 255): ColumnDefinition {
+    return this.addColumn(name, 'string', { length });
+  }
+
+  char(name: string, length: number = 255): ColumnDefinition {
+    return this.addColumn(name, 'char', { length });
+  }
+
+  text(name: string): ColumnDefinition {
+    return this.addColumn(name, 'text');
+  }
+
+  longText(name: string): ColumnDefinition {
+    return this.addColumn(name, 'longText');
+  }
+
+  /**
+   * A boolean column, stored as 0 or 1 on SQLite
+   */
+  boolean(name: string): ColumnDefinition {
+    return this.addColumn(name, 'boolean');
+  }
+
+  date(name: string): ColumnDefinition {
+    return this.addColumn(name, 'date');
+  }
+
+  dateTime(name: string): ColumnDefinition {
+    return this.addColumn(name, 'dateTime');
+  }
+
+  /**
+   * A date and time column, stored as a unix timestamp on SQLite like `t.timestamp()` of declared tables
+   */
+  timestamp(name: string): ColumnDefinition {
+    return this.addColumn(name, 'timestamp');
+  }
+
+  time(name: string): ColumnDefinition {
+    return this.addColumn(name, 'time');
+  }
+
+  json(name: string): ColumnDefinition {
+    return this.addColumn(name, 'json');
+  }
+
+  binary(name: string): ColumnDefinition {
+    return this.addColumn(name, 'binary');
+  }
+
+  uuid(name: string = 'uuid'): ColumnDefinition {
+    return this.addColumn(name, 'uuid');
+  }
+
+  ulid(name: string = 'ulid'): ColumnDefinition {
+    return this.addColumn(name, 'ulid');
+  }
+
+  /**
+   * An unsigned integer column referencing an `id()` key, constrained with `constrained()`
+   */
+  foreignId(name: string): ForeignIdColumnDefinition {
+    return this.addColumn(name, 'integer', { unsigned: true }, ForeignIdColumnDefinition) as ForeignIdColumnDefinition;
+  }
+
+  /**
+   * A UUID column referencing a UUID key
+   */
+  foreignUuid(name: string): ForeignIdColumnDefinition {
+    return this.addColumn(name, 'uuid', {}, ForeignIdColumnDefinition) as ForeignIdColumnDefinition;
+  }
+
+  /**
+   * The `created_at` and `updated_at` columns, defaulting to the current time
+   */
+  timestamps(): void {
+    this.timestamp('created_at').useCurrent();
+    this.timestamp('updated_at').useCurrent();
+  }
+
+  /**
+   * The nullable `deleted_at` column of soft deleting models
+   */
+  softDeletes(name: string = 'deleted_at'): ColumnDefinition {
+    return this.timestamp(name).nullable();
+  }
+
+  rememberToken(): ColumnDefinition {
+    return this.string('remember_token', 100).nullable();
+  }
+
+  /**
+   * The `<name>_type` and `<name>_id` columns of a polymorphic relation, indexed together
+   */
+  morphs(name: string): void {
+    this.string(`${name}_type`);
+    this.unsignedInteger(`${name}_id`);
+    this.index([`${name}_type`, `${name}_id`]);
+  }
+
+  // ==================== Indexes and keys ====================
+
+  primary(columns: string | string[], name?: string): void {
+    this.addIndex('primary', columns, name);
+  }
+
+  unique(columns: string | string[], name?: string): void {
+    this.addIndex('unique', columns, name);
+  }
+
+  index(columns: string | string[], name?: string): void {
+    this.addIndex('index', columns, name);
+  }
+
+  /**
+   * A foreign key on existing or added columns, completed with `references()` and `on()`
+   */
+  foreign(columns: string | string[], name?: string): ForeignKeyDefinition {
+    const list = Array.isArray(columns) ? columns : [columns];
+    const foreign = new ForeignKeyDefinition(name ?? this.indexName('foreign', list), list);
+    this.commands.push({ type: 'foreign', foreign });
+    return foreign;
+  }
+
+  /**
+   * Drop an index, by name or by the columns it was created on
+   */
+  dropIndex(index: string | string[]): void {
+    this.dropIndexCommand('dropIndex', 'index', index);
+  }
+
+  dropUnique(index: string | string[]): void {
+    this.dropIndexCommand('dropUnique', 'unique', index);
+  }
+
+  /**
+   * Drop the primary key, named `<table>_pkey` by default on PostgreSQL
+   */
+  dropPrimary(name?: string): void {
+    this.commands.push({ type: 'dropPrimary', index: name ?? `${this.prefix}${this.table}_pkey` });
+  }
+
+  dropForeign(index: string | string[]): void {
+    this.dropIndexCommand('dropForeign', 'foreign', index);
+  }
+
+  // ==================== Changing columns ====================
+
+  dropColumn(...columns: (string | string[])[]): void {
+    this.commands.push({ type: 'dropColumn', columns: columns.flat() });
+  }
+
+  renameColumn(from: string, to: string): void {
+    this.commands.push({ type: 'renameColumn', from, to });
+  }
+
+  /**
+   * Drop a column's foreign key and then the column
+   */
+  dropConstrainedForeignId(column: string): void {
+    this.dropForeign([column]);
+    this.dropColumn(column);
+  }
+
+  dropTimestamps(): void {
+    this.dropColumn('created_at', 'updated_at');
+  }
+
+  dropSoftDeletes(name: string = 'deleted_at'): void {
+    this.dropColumn(name);
+  }
+
+  /**
+   * Get the default name of an index, such as `posts_user_id_foreign`
+   */
+  indexName(type: 'index' | 'unique' | 'primary' | 'foreign', columns: string[]): string {
+    return `${this.prefix}${this.table}_${columns.join('_')}_${type}`.toLowerCase().replace(/[-.]/g, '_');
+  }
+
+  private addColumn(
+    name: string,
+    type: ColumnType,
+    attributes: Partial<ColumnAttributes> = {},
+    definition: typeof ColumnDefinition = ColumnDefinition
+  ): ColumnDefinition {
+    const column = new definition(this, name, type, {
+      nullable: false,
+      useCurrent: false,
+      unsigned: false,
+      autoIncrement: false,
+      change: false,
+      ...attributes,
+    });
+    this.columns.push(column);
+    return column;
+  }
+
+  private addIndex(type: 'index' | 'unique' | 'primary', columns: string | string[], name?: string): void {
+    const list = Array.isArray(columns) ? columns : [columns];
+    this.commands.push({ type, index: name ?? this.indexName(type, list), columns: list });
+  }
+
+  private dropIndexCommand(
+    type: 'dropIndex' | 'dropUnique' | 'dropForeign',
+    kind: 'index' | 'unique' | 'foreign',
+    index: string | string[]
+  ): void {
+    this.commands.push({ type, index: Array.isArray(index) ? this.indexName(kind, index) : index });
+  }
+}
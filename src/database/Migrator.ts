@@ -0,0 +1,339 @@
+/**
+ * Catalyst Migrator
+ *
+ * Runs the migration files of `database.migrations.directory` in name order
+ * and records each one in the migrations table with the batch it ran in, so
+ * the latest batch can be rolled back. Every migration runs in its own
+ * transaction together with its record. On SQLite, foreign keys are not
+ * enforced while migrations run, so `Schema.table()` can rebuild tables;
+ * they are checked before each migration commits.
+ *
+ * A migration file default-exports (or exports as `migration`) an object
+ * with `up()` and optionally `down()`, which receive the write connection.
+ * Files exporting no migration, such as table definitions, are ignored.
+ *
+ * @example
+ * ```ts
+ * // src/database/migrations/20260301120000_create_tags_table.ts
+ * export default {
+ *   async up() {
+ *     await Schema.create('tags', (table) => {
+ *       table.id();
+ *       table.string('name').unique();
+ *     });
+ *   },
+ *   async down() {
+ *     await Schema.dropIfExists('tags');
+ *   },
+ * } satisfies Migration;
+ *
+ * await new Migrator().run();
+ * await new Migrator().rollback({ step: 1 });
+ * ```
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { sql, getTableName, desc, eq, max, Name, SQL } from 'drizzle-orm';
+import { config } from '@/backend/Services/Config';
+import { dbWrite } from '@/database';
+import { migrations } from './schema';
+import { tableFor } from './tables';
+import { dialectOf, execute, isMySql, statement, type Dialect } from './dialect';
+import { runTransaction } from './transactions';
+import { Schema } from './SchemaBuilder';
+import { interpolateBindings, listen } from './QueryLog';
+
+/** The connection migrations run on */
+export type MigrationConnection = ReturnType<typeof dbWrite>;
+
+export interface Migration {
+  /** Apply the migration */
+  up(db: MigrationConnection): Promise<void> | void;
+  /** Reverse the migration */
+  down?(db: MigrationConnection): Promise<void> | void;
+}
+
+/** A migration that was run or rolled back */
+export interface MigrationRun {
+  migration: string;
+  batch: number;
+  /** The statements the migration would run, when pretending */
+  statements: string[];
+}
+
+export interface MigrationStatus {
+  migration: string;
+  ran: boolean;
+  /** The batch the migration ran in, or null when pending */
+  batch: number | null;
+}
+
+/**
+ * Statements left out when pretending: the transaction wrapped around each
+ * migration, and reads such as the schema builder inspecting tables
+ */
+const UNLISTED_STATEMENTS = /^\s*(begin|commit|rollback|savepoint|release|pragma|select)\b/i;
+
+/** Thrown to roll back a migration that was only pretended */
+class PretendRollback extends Error {}
+
+export class Migrator {
+  constructor(
+    /** The directory migration files are read from */
+    private readonly directory: string = path.resolve(config<string>('database.migrations.directory', './src/database/migrations'))
+  ) {}
+
+  /**
+   * Run the pending migrations in one batch, or in a batch each with `step`
+   */
+  async run(options: { pretend?: boolean; step?: boolean } = {}): Promise<MigrationRun[]> {
+    await this.ensureRepository();
+
+    const ran = new Set((await this.getRan()).map((row) => row.migration));
+    const pending = (await this.getMigrationFiles()).filter(([name]) => !ran.has(name));
+    let batch = (await this.lastBatch()) + 1;
+    const runs: MigrationRun[] = [];
+
+    return this.pretending(options.pretend, async () => {
+      for (const [name, migration] of pending) {
+        runs.push(await this.runMigration(name, batch, () => migration.up(dbWrite()), 'up', options.pretend));
+        if (options.step) batch++;
+      }
+      return runs;
+    });
+  }
+
+  /**
+   * Roll back the last batch, or the last `step` migrations
+   */
+  async rollback(options: { pretend?: boolean; step?: number } = {}): Promise<MigrationRun[]> {
+    await this.ensureRepository();
+
+    const ran = await this.getRan();
+    const last = options.step && options.step > 0
+      ? ran.slice(0, options.step)
+      : ran.filter((row) => row.batch === ran[0]?.batch);
+
+    return this.rollbackMigrations(last, options.pretend);
+  }
+
+  /**
+   * Roll back every migration that ran
+   */
+  async reset(options: { pretend?: boolean } = {}): Promise<MigrationRun[]> {
+    await this.ensureRepository();
+    return this.rollbackMigrations(await this.getRan(), options.pretend);
+  }
+
+  /**
+   * Roll back every migration and run them all again
+   */
+  async refresh(options: { step?: boolean } = {}): Promise<{ rolledBack: MigrationRun[]; ran: MigrationRun[] }> {
+    const rolledBack = await this.reset();
+    return { rolledBack, ran: await this.run(options) };
+  }
+
+  /**
+   * Drop every table and run all migrations
+   */
+  async fresh(options: { step?: boolean } = {}): Promise<{ dropped: string[]; ran: MigrationRun[] }> {
+    const dropped = await this.dropAllTables();
+    return { dropped, ran: await this.run(options) };
+  }
+
+  /**
+   * Get whether each migration file has run, and in which batch
+   */
+  async status(): Promise<MigrationStatus[]> {
+    await this.ensureRepository();
+
+    const batches = new Map((await this.getRan()).map((row) => [row.migration, row.batch]));
+    return (await this.getMigrationFiles()).map(([migration]) => ({
+      migration,
+      ran: batches.has(migration),
+      batch: batches.get(migration) ?? null,
+    }));
+  }
+
+  /**
+   * Drop every table of the connection, returning their names
+   */
+  async dropAllTables(): Promise<string[]> {
+    const connection = dbWrite();
+    const dialect = dialectOf(connection);
+    const { rows } = await execute<{ name: string }>(connection, TABLES[dialect]);
+    const names = rows.map((row) => row.name);
+
+    if (names.length === 0) return [];
+
+    switch (dialect) {
+      case 'postgres':
+        await statement(connection, sql`drop table if exists ${sql.join(names.map((name) => sql.identifier(name)), sql`, `)} cascade`);
+        break;
+      case 'mysql':
+        await statement(connection, sql`set foreign_key_checks = 0`);
+        await statement(connection, sql`drop table if exists ${sql.join(names.map((name) => sql.identifier(name)), sql`, `)}`);
+        await statement(connection, sql`set foreign_key_checks = 1`);
+        break;
+      default:
+        // Dropping a full-text table drops its shadow tables, which are listed after it
+        await statement(connection, sql`pragma foreign_keys = off`);
+        for (const name of names) {
+          await statement(connection, sql`drop table if exists ${sql.identifier(name)}`);
+        }
+        await statement(connection, sql`pragma foreign_keys = on`);
+    }
+
+    return names;
+  }
+
+  /**
+   * Get the migration files, by name, that export a migration
+   */
+  async getMigrationFiles(): Promise<[string, Migration][]> {
+    if (!fs.existsSync(this.directory)) return [];
+
+    const files = fs.readdirSync(this.directory)
+      .filter((file) => /\.(ts|js)$/.test(file) && !file.endsWith('.d.ts'))
+      .sort();
+    const found: [string, Migration][] = [];
+
+    for (const file of files) {
+      const exports = (await import(path.join(this.directory, file))) as Record<string, unknown>;
+      const migration = [exports.default, exports.migration].find(isMigration);
+      if (migration) {
+        found.push([file.replace(/\.(ts|js)$/, ''), migration]);
+      }
+    }
+
+    return found;
+  }
+
+  /**
+   * Run migrations without SQLite foreign key enforcement, in a transaction
+   * that is rolled back when pretending
+   *
+   * Pretended migrations run one after another, so each sees the changes of
+   * the ones before it. MySQL commits schema changes as they run, so
+   * migrations cannot be pretended there.
+   */
+  private async pretending(pretend: boolean | undefined, operation: () => Promise<MigrationRun[]>): Promise<MigrationRun[]> {
+    if (!pretend) return Schema.withoutForeignKeyConstraints(operation);
+
+    if (isMySql(dbWrite())) {
+      throw new Error('Migrations cannot be pretended on MySQL, which commits schema changes as they run.');
+    }
+
+    let runs: MigrationRun[] = [];
+    try {
+      await Schema.withoutForeignKeyConstraints(() => runTransaction(dbWrite(), async () => {
+        runs = await operation();
+        throw new PretendRollback();
+      }));
+    } catch (error) {
+      if (!(error instanceof PretendRollback)) throw error;
+    }
+    return runs;
+  }
+
+  /**
+   * Run one direction of a migration in a transaction with its record, or
+   * collect its statements when pretending
+   */
+  private async runMigration(
+    name: string,
+    batch: number,
+    callback: () => Promise<void> | void,
+    direction: 'up' | 'down',
+    pretend?: boolean
+  ): Promise<MigrationRun> {
+    const statements: string[] = [];
+    const stop = pretend
+      ? listen((query) => {
+        if (!UNLISTED_STATEMENTS.test(query.sql)) statements.push(interpolateBindings(query.sql, query.bindings));
+      })
+      : () => {};
+
+    try {
+      await runTransaction(dbWrite(), async (tx) => {
+        await callback();
+        await Schema.checkForeignKeys();
+        if (pretend) return;
+
+        const table = this.repository();
+        await (direction === 'up'
+          ? tx.insert(table).values({ migration: name, batch })
+          : tx.delete(table).where(eq(table.migration, name)));
+      });
+    } finally {
+      stop();
+    }
+
+    return { migration: name, batch, statements };
+  }
+
+  private async rollbackMigrations(rows: { migration: string; batch: number }[], pretend?: boolean): Promise<MigrationRun[]> {
+    const files = new Map(await this.getMigrationFiles());
+    const runs: MigrationRun[] = [];
+
+    return this.pretending(pretend, async () => {
+      for (const { migration: name, batch } of rows) {
+        const migration = files.get(name);
+        if (!migration) {
+          throw new Error(`Migration [${name}] was run but its file is missing from [${this.directory}].`);
+        }
+        runs.push(await this.runMigration(name, batch, () => migration.down?.(dbWrite()), 'down', pretend));
+      }
+      return runs;
+    });
+  }
+
+  /**
+   * Get the migrations that ran, latest first
+   */
+  private async getRan(): Promise<{ migration: string; batch: number }[]> {
+    const table = this.repository();
+    return dbWrite()
+      .select({ migration: table.migration, batch: table.batch })
+      .from(table)
+      .orderBy(desc(table.batch), desc(table.migration));
+  }
+
+  private async lastBatch(): Promise<number> {
+    const table = this.repository();
+    const [row] = await dbWrite().select({ batch: max(table.batch) }).from(table);
+    return Number(row?.batch ?? 0);
+  }
+
+  /**
+   * Create the migrations table if it does not exist
+   */
+  private async ensureRepository(): Promise<void> {
+    const connection = dbWrite();
+    const name = sql.identifier(getTableName(this.repository()));
+    await statement(connection, REPOSITORY[dialectOf(connection)](name));
+  }
+
+  private repository() {
+    return tableFor(migrations, dialectOf(dbWrite()));
+  }
+}
+
+/** The statement creating the migrations table, per dialect */
+const REPOSITORY: Record<Dialect, (table: Name) => SQL> = {
+  sqlite: (table) => sql`create table if not exists ${table} ("id" integer primary key autoincrement not null, "migration" text not null, "batch" integer not null)`,
+  postgres: (table) => sql`create table if not exists ${table} ("id" serial primary key, "migration" varchar(255) not null, "batch" integer not null)`,
+  mysql: (table) => sql`create table if not exists ${table} (\`id\` int unsigned auto_increment primary key, \`migration\` varchar(255) not null, \`batch\` int not null)`,
+};
+
+/** The query listing the connection's tables, per dialect */
+const TABLES: Record<Dialect, SQL> = {
+  sqlite: sql`select name from sqlite_master where type = 'table' and name not like 'sqlite_%' order by rowid`,
+  postgres: sql`select tablename as name from pg_tables where schemaname = current_schema()`,
+  mysql: sql`select table_name as name from information_schema.tables where table_schema = database() and table_type = 'BASE TABLE'`,
+};
+
+function isMigration(value: unknown): value is Migration {
+  return value !== null && typeof value === 'object' && typeof (value as Migration).up === 'function';
+}
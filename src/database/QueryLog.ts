@@ -0,0 +1,256 @@
+/**
+ * Catalyst Query Log
+ *
+ * Reports every statement run on an instrumented connection to the
+ * registered listeners, with its bindings and duration. Statements slower
+ * than `database.slowQueryThreshold` milliseconds are logged as warnings,
+ * tagged with the current request id.
+ *
+ * @example
+ * ```ts
+ * const stop = DB.listen(({ sql, bindings, time }) => {
+ *   console.log(`${time}ms ${sql}`, bindings);
+ * });
+ *
+ * await User.query().where('active', true).get();
+ * stop();
+ * ```
+ */
+
+import type Database from 'better-sqlite3';
+import { performance } from 'perf_hooks';
+import { config } from '@/backend/Services/Config';
+import { logger } from '@/backend/Services/Logger';
+import Context from '@/backend/Core/Context';
+
+/** A statement that finished running */
+export interface QueryExecuted {
+  /** The SQL with placeholders for the bindings */
+  sql: string;
+  /** The values bound to the placeholders */
+  bindings: unknown[];
+  /** How long the statement took, in milliseconds */
+  time: number;
+  /** The name of the connection the statement ran on */
+  connection: string;
+}
+
+export type QueryListener = (query: QueryExecuted) => void;
+
+/** Statement methods that execute the query */
+const EXECUTORS = ['run', 'get', 'all'] as const;
+
+const listeners = new Set<QueryListener>();
+
+/** Connections and clients already instrumented */
+const instrumented = new WeakSet<object>();
+
+/**
+ * Register a listener called after every statement, returning a function that removes it
+ */
+export function listen(listener: QueryListener): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Report statements run on a better-sqlite3 connection to the query log
+ */
+export function instrumentConnection(client: Database.Database, name: string): Database.Database {
+  if (instrumented.has(client)) return client;
+  instrumented.add(client);
+
+  const prepare = client.prepare.bind(client);
+  const exec = client.exec.bind(client);
+
+  client.prepare = ((source: string) => instrumentStatement(prepare(source), name)) as typeof client.prepare;
+  client.exec = (source: string) => {
+    const started = performance.now();
+    const result = exec(source);
+    reportQuery({ sql: source, bindings: [], time: elapsed(started), connection: name });
+    return result;
+  };
+
+  return client;
+}
+
+/** A PostgreSQL client: a node-postgres client or a PGlite database or transaction */
+interface PostgresClient {
+  query(...args: unknown[]): unknown;
+  transaction?(callback: (transaction: PostgresClient) => unknown): unknown;
+}
+
+/**
+ * Report statements run on a PostgreSQL client to the query log
+ *
+ * PGlite transactions run on their own client, which is instrumented too.
+ */
+export function instrumentPostgresClient<T extends object>(client: T, name: string): T {
+  const target = client as unknown as PostgresClient;
+  instrumentQuery(target, name);
+
+  if (typeof target.transaction === 'function') {
+    const transaction = target.transaction.bind(client);
+    target.transaction = (callback) => transaction((inner) => callback(instrumentPostgresClient(inner, name)));
+  }
+
+  return client;
+}
+
+/** A mysql2 promise pool */
+interface MySqlPool {
+  query(...args: unknown[]): unknown;
+  getConnection(): Promise<{ query(...args: unknown[]): unknown }>;
+}
+
+/**
+ * Report statements run on a mysql2 promise pool to the query log
+ *
+ * Transactions run on a connection taken from the pool, which is instrumented too.
+ */
+export function instrumentMySqlPool<T extends object>(pool: T, name: string): T {
+  const target = pool as unknown as MySqlPool;
+  instrumentQuery(target, name);
+
+  const getConnection = target.getConnection.bind(pool);
+  target.getConnection = async () => instrumentQuery(await getConnection(), name);
+
+  return pool;
+}
+
+/**
+ * Time a client's promise-returning `query` method
+ *
+ * Statements are SQL strings or query objects, with the SQL under `text`
+ * (node-postgres) or `sql` (mysql2).
+ */
+function instrumentQuery<T extends { query(...args: unknown[]): unknown }>(client: T, name: string): T {
+  if (instrumented.has(client)) return client;
+  instrumented.add(client);
+
+  const query = client.query.bind(client);
+
+  client.query = (...args: unknown[]) => {
+    const [statement, values] = args as [string | { text?: string; sql?: string; values?: unknown[] }, unknown];
+    const started = performance.now();
+    const result = query(...args);
+    if (!isPromise(result)) return result;
+
+    return result.then((value) => {
+      reportQuery({
+        sql: typeof statement === 'string' ? statement : statement.text ?? statement.sql ?? '',
+        bindings: (Array.isArray(values) ? values : typeof statement === 'string' ? [] : statement.values) ?? [],
+        time: elapsed(started),
+        connection: name,
+      });
+      return value;
+    });
+  };
+
+  return client;
+}
+
+/**
+ * Time each execution of a prepared statement
+ */
+function instrumentStatement<T extends Database.Statement>(statement: T, name: string): T {
+  const target = statement as unknown as Record<string, (...args: unknown[]) => unknown>;
+
+  for (const method of EXECUTORS) {
+    const execute = target[method].bind(statement);
+    target[method] = (...bindings: unknown[]) => {
+      const started = performance.now();
+      const result = execute(...bindings);
+      reportQuery({ sql: statement.source, bindings, time: elapsed(started), connection: name });
+      return result;
+    };
+  }
+
+  // Iterating reads rows lazily, so the statement is timed until the rows run out
+  const iterate = target.iterate.bind(statement) as (...args: unknown[]) => IterableIterator<unknown>;
+  target.iterate = function* (...bindings: unknown[]) {
+    const started = performance.now();
+    try {
+      yield* iterate(...bindings);
+    } finally {
+      reportQuery({ sql: statement.source, bindings, time: elapsed(started), connection: name });
+    }
+  };
+
+  return statement;
+}
+
+/**
+ * Notify the listeners of a statement and log it when it was slow
+ */
+export function reportQuery(query: QueryExecuted): void {
+  for (const listener of listeners) {
+    listener(query);
+  }
+
+  const threshold = config<number | null>('database.slowQueryThreshold', null);
+  if (threshold !== null && query.time >= threshold) {
+    logger().warning(`Slow query (${query.time}ms): ${query.sql}`, {
+      bindings: query.bindings,
+      time: query.time,
+      connection: query.connection,
+      request_id: Context.isActive() ? Context.requestId() : null,
+    });
+  }
+}
+
+/**
+ * Inline the bindings into SQL for display; the result is not safe to execute
+ *
+ * Handles the `?` placeholders of SQLite and MySQL and PostgreSQL's numbered `$1` placeholders.
+ */
+export function interpolateBindings(source: string, bindings: unknown[]): string {
+  let next = 0;
+  let quote: string | null = null;
+  let result = '';
+
+  for (let i = 0; i < source.length; i++) {
+    const character = source[i];
+
+    if (quote) {
+      if (character === quote) quote = null;
+    } else if (character === "'" || character === '"' || character === '`') {
+      quote = character;
+    } else if (character === '?' && next < bindings.length) {
+      result += formatBinding(bindings[next++]);
+      continue;
+    } else if (character === '$') {
+      const position = /^\d+/.exec(source.slice(i + 1))?.[0];
+      if (position && Number(position) <= bindings.length) {
+        result += formatBinding(bindings[Number(position) - 1]);
+        i += position.length;
+        continue;
+      }
+    }
+    result += character;
+  }
+
+  return result;
+}
+
+/**
+ * Format a binding as an SQL literal
+ */
+function formatBinding(value: unknown): string {
+  if (value === null || value === undefined) return 'NULL';
+  if (typeof value === 'number' || typeof value === 'bigint') return String(value);
+  if (typeof value === 'boolean') return value ? '1' : '0';
+  if (value instanceof Date) return String(value.getTime());
+  if (Buffer.isBuffer(value)) return `X'${value.toString('hex')}'`;
+  return `'${String(value).replace(/'/g, "''")}'`;
+}
+
+function isPromise(value: unknown): value is Promise<unknown> {
+  return typeof (value as Promise<unknown> | null)?.then === 'function';
+}
+
+function elapsed(started: number): number {
+  return Math.round((performance.now() - started) * 100) / 100;
+}
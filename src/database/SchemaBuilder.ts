@@ -0,0 +1,270 @@
+/**
+ * Catalyst Schema Builder
+ *
+ * Creates, changes and drops tables with a fluent blueprint, on the write
+ * connection (or the one given to `Schema.connection()`) and with its table
+ * prefix. Migrations use it to describe tables once for every dialect.
+ *
+ * On SQLite, changes ALTER TABLE cannot make rebuild the table instead.
+ * Rebuilding drops the table, which would run the ON DELETE actions of
+ * tables referencing it, so foreign keys are not enforced while it runs and
+ * are checked before it commits. SQLite cannot turn enforcement off inside
+ * a transaction: the migrator turns it off around its migrations, and
+ * rebuilding in other transactions throws.
+ *
+ * @example
+ * ```ts
+ * export default {
+ *   async up() {
+ *     await Schema.table('posts', (table) => {
+ *       table.string('slug').nullable().unique();
+ *       table.text('title').change();
+ *       table.renameColumn('body', 'content');
+ *     });
+ *   },
+ *   async down() {
+ *     await Schema.table('posts', (table) => {
+ *       table.dropColumn('slug');
+ *       table.string('title').change();
+ *       table.renameColumn('content', 'body');
+ *     });
+ *   },
+ * } satisfies Migration;
+ * ```
+ */
+
+import { sql, SQL } from 'drizzle-orm';
+import { dbWrite } from '@/database';
+import { Blueprint } from './Blueprint';
+import { SchemaGrammar, type TableDetails } from './SchemaGrammar';
+import { dialectOf, execute, isSQLite, statement, type Dialect } from './dialect';
+import { tablePrefix } from './tables';
+import { inTransaction, runTransaction, withWriteLock } from './transactions';
+
+export { Blueprint, Expression } from './Blueprint';
+
+/** SQLite connections whose foreign key enforcement `withoutForeignKeyConstraints` turned off */
+const suspended = new WeakSet<object>();
+
+export class SchemaBuilder {
+  constructor(
+    /** The connection to use, by default the write connection at the time of each call */
+    private readonly using?: object
+  ) {}
+
+  /**
+   * Get a schema builder for another connection or transaction
+   */
+  connection(connection: object): SchemaBuilder {
+    return new SchemaBuilder(connection);
+  }
+
+  /**
+   * Create a table
+   */
+  async create(table: string, callback: (table: Blueprint) => void): Promise<void> {
+    await this.run(this.grammar().compileCreate(this.blueprint(table, callback)));
+  }
+
+  /**
+   * Change a table, rebuilding it on SQLite when ALTER TABLE cannot make the change
+   */
+  async table(table: string, callback: (table: Blueprint) => void): Promise<void> {
+    const blueprint = this.blueprint(table, callback);
+    const grammar = this.grammar();
+
+    if (grammar.dialect !== 'sqlite') {
+      return this.run(grammar.compileAlter(blueprint));
+    }
+
+    const details = await this.inspect(blueprint);
+    if (!grammar.requiresRebuild(blueprint, details)) {
+      return this.run(grammar.compileAlter(blueprint));
+    }
+
+    const connection = this.db();
+    await this.withoutForeignKeyConstraints(() => runTransaction(connection, async () => {
+      await this.run(grammar.compileRebuild(blueprint, details));
+      await this.checkForeignKeys();
+    }));
+  }
+
+  async drop(table: string): Promise<void> {
+    await this.run([this.grammar().compileDrop(this.prefixed(table))]);
+  }
+
+  async dropIfExists(table: string): Promise<void> {
+    await this.run([this.grammar().compileDrop(this.prefixed(table), true)]);
+  }
+
+  async rename(from: string, to: string): Promise<void> {
+    await this.run([this.grammar().compileRename(this.prefixed(from), this.prefixed(to))]);
+  }
+
+  async hasTable(table: string): Promise<boolean> {
+    const connection = this.db();
+    const { rows } = await execute(connection, TABLE_EXISTS[dialectOf(connection)](this.prefixed(table)));
+    return rows.length > 0;
+  }
+
+  async hasColumn(table: string, column: string): Promise<boolean> {
+    return (await this.getColumnListing(table)).includes(column);
+  }
+
+  /**
+   * Get the column names of a table, in order
+   */
+  async getColumnListing(table: string): Promise<string[]> {
+    const connection = this.db();
+    const { rows } = await execute<{ name: string }>(connection, COLUMNS[dialectOf(connection)](this.prefixed(table)));
+    return rows.map((row) => row.name);
+  }
+
+  /**
+   * Run a callback with SQLite foreign key enforcement turned off, checking the keys with `checkForeignKeys()`
+   *
+   * Other dialects run the callback as it is.
+   */
+  async withoutForeignKeyConstraints<T>(callback: () => Promise<T> | T): Promise<T> {
+    const connection = this.db();
+    if (!isSQLite(connection)) return callback();
+
+    const { rows } = await execute<{ foreign_keys: number }>(connection, sql`pragma foreign_keys`);
+    if (!Number(rows[0]?.foreign_keys)) return callback();
+
+    if (inTransaction(connection)) {
+      throw new Error('SQLite cannot turn foreign keys off inside a transaction; turn them off with withoutForeignKeyConstraints() before starting it.');
+    }
+
+    // The pragma is ignored while another request's transaction is open
+    return withWriteLock(connection, async () => {
+      await statement(connection, sql`pragma foreign_keys = off`);
+      suspended.add(connection);
+      try {
+        return await callback();
+      } finally {
+        suspended.delete(connection);
+        await statement(connection, sql`pragma foreign_keys = on`);
+      }
+    });
+  }
+
+  /**
+   * Throw when rows violate foreign keys that `withoutForeignKeyConstraints()` stopped enforcing
+   */
+  async checkForeignKeys(): Promise<void> {
+    const connection = this.db();
+    if (!suspended.has(connection)) return;
+
+    const { rows } = await execute<{ table: string }>(connection, sql`pragma foreign_key_check`);
+    if (rows.length > 0) {
+      const tables = [...new Set(rows.map((row) => row.table))];
+      throw new Error(`Rows of [${tables.join(', ')}] violate their foreign keys.`);
+    }
+  }
+
+  /**
+   * Read a SQLite table's columns, keys and indexes
+   */
+  private async inspect(blueprint: Blueprint): Promise<TableDetails> {
+    const connection = this.db();
+    const table = `${blueprint.prefix}${blueprint.table}`;
+
+    const { rows: [definition] } = await execute<{ sql: string }>(connection, sql`select sql from sqlite_master where type = 'table' and name = ${table}`);
+    if (!definition) {
+      throw new Error(`Table [${table}] does not exist.`);
+    }
+
+    const { rows: columns } = await execute<{ name: string; type: string; notnull: number; dflt_value: string | null; pk: number }>(
+      connection,
+      sql`select * from pragma_table_info(${table})`
+    );
+    const { rows: keys } = await execute<{ id: number; table: string; from: string; to: string; on_update: string; on_delete: string }>(
+      connection,
+      sql`select * from pragma_foreign_key_list(${table}) order by id, seq`
+    );
+    const { rows: list } = await execute<{ name: string; unique: number; origin: string }>(connection, sql`select * from pragma_index_list(${table})`);
+    const { rows: statements } = await execute<{ name: string; sql: string | null }>(
+      connection,
+      sql`select name, sql from sqlite_master where type = 'index' and tbl_name = ${table}`
+    );
+
+    const indexes: TableDetails['indexes'] = [];
+    for (const index of list.filter((index) => index.origin !== 'pk')) {
+      const { rows } = await execute<{ name: string | null }>(connection, sql`select name from pragma_index_info(${index.name}) order by seqno`);
+      const indexed = rows.map((row) => row.name);
+      const created = statements.find((candidate) => candidate.name === index.name)?.sql ?? null;
+
+      indexes.push({
+        // Unique constraints are named after their columns, as `unique()` names indexes
+        name: created === null ? blueprint.indexName('unique', indexed as string[]) : index.name,
+        columns: indexed,
+        unique: index.unique === 1,
+        sql: created,
+      });
+    }
+
+    const foreignKeys = new Map<number, TableDetails['foreignKeys'][number]>();
+    for (const key of keys) {
+      const entry = foreignKeys.get(key.id)
+        ?? { columns: [], table: key.table, references: [], onDelete: key.on_delete, onUpdate: key.on_update };
+      entry.columns.push(key.from);
+      entry.references.push(key.to);
+      foreignKeys.set(key.id, entry);
+    }
+
+    return {
+      columns: columns.map((column) => ({
+        name: column.name,
+        type: column.type,
+        notNull: column.notnull === 1,
+        default: column.dflt_value,
+        primary: column.pk,
+      })),
+      autoIncrement: /\bautoincrement\b/i.test(definition.sql),
+      indexes,
+      foreignKeys: [...foreignKeys.values()],
+    };
+  }
+
+  private async run(statements: string[]): Promise<void> {
+    const connection = this.db();
+    for (const query of statements) {
+      await statement(connection, sql.raw(query));
+    }
+  }
+
+  private blueprint(table: string, callback: (table: Blueprint) => void): Blueprint {
+    const blueprint = new Blueprint(table, tablePrefix());
+    callback(blueprint);
+    return blueprint;
+  }
+
+  private grammar(): SchemaGrammar {
+    return new SchemaGrammar(dialectOf(this.db()));
+  }
+
+  private prefixed(table: string): string {
+    return `${tablePrefix()}${table}`;
+  }
+
+  private db(): object {
+    return this.using ?? dbWrite();
+  }
+}
+
+export const Schema = new SchemaBuilder();
+
+/** The query finding a table by name, per dialect */
+const TABLE_EXISTS: Record<Dialect, (table: string) => SQL> = {
+  sqlite: (table) => sql`select name from sqlite_master where type = 'table' and name = ${table}`,
+  postgres: (table) => sql`select table_name as name from information_schema.tables where table_schema = current_schema() and table_name = ${table}`,
+  mysql: (table) => sql`select table_name as name from information_schema.tables where table_schema = database() and table_name = ${table}`,
+};
+
+/** The query listing a table's columns in order, per dialect */
+const COLUMNS: Record<Dialect, (table: string) => SQL> = {
+  sqlite: (table) => sql`select name from pragma_table_info(${table})`,
+  postgres: (table) => sql`select column_name as name from information_schema.columns where table_schema = current_schema() and table_name = ${table} order by ordinal_position`,
+  mysql: (table) => sql`select column_name as name from information_schema.columns where table_schema = database() and table_name = ${table} order by ordinal_position`,
+};
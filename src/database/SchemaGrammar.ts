@@ -0,0 +1,437 @@
+/**
+ * Catalyst Schema Grammar
+ *
+ * Compiles schema blueprints to the statements of a dialect. SQLite alters
+ * tables in place only to add, rename and drop plain columns, so changing a
+ * column, adding or dropping keys, or dropping an indexed column compiles
+ * to a table rebuild instead: the rows are copied into a new table with the
+ * changed definition, which then takes the table's name, and the indexes
+ * are created again.
+ *
+ * @example
+ * ```ts
+ * const grammar = new SchemaGrammar('postgres');
+ *
+ * for (const statement of grammar.compileAlter(blueprint)) {
+ *   await statement(dbWrite(), sql.raw(statement));
+ * }
+ * ```
+ */
+
+import type { Dialect } from './dialect';
+import { Blueprint, ColumnDefinition, Expression, ForeignKeyDefinition, type BlueprintCommand, type ColumnType } from './Blueprint';
+
+/** A SQLite table as it is, read before rebuilding it */
+export interface TableDetails {
+  columns: {
+    name: string;
+    type: string;
+    notNull: boolean;
+    /** The default as written in the table definition */
+    default: string | null;
+    /** The position of the column in the primary key, 0 when not part of it */
+    primary: number;
+  }[];
+  /** Whether the integer primary key uses AUTOINCREMENT */
+  autoIncrement: boolean;
+  indexes: {
+    name: string;
+    /** The indexed columns, null for expressions */
+    columns: (string | null)[];
+    unique: boolean;
+    /** The statement that created the index, null for unique constraints */
+    sql: string | null;
+  }[];
+  foreignKeys: { columns: string[]; table: string; references: string[]; onDelete: string; onUpdate: string }[];
+}
+
+/** Column types as SQLite, PostgreSQL and MySQL declare them */
+const TYPES: Record<ColumnType, [string, string, string]> = {
+  increments: ['integer', 'serial', 'int'],
+  bigIncrements: ['integer', 'bigserial', 'bigint'],
+  integer: ['integer', 'integer', 'int'],
+  bigInteger: ['integer', 'bigint', 'bigint'],
+  smallInteger: ['integer', 'smallint', 'smallint'],
+  float: ['real', 'real', 'float'],
+  double: ['real', 'double precision', 'double'],
+  decimal: ['numeric', 'decimal({precision}, {scale})', 'decimal({precision}, {scale})'],
+  string: ['text', 'varchar({length})', 'varchar({length})'],
+  char: ['text', 'char({length})', 'char({length})'],
+  text: ['text', 'text', 'text'],
+  longText: ['text', 'text', 'longtext'],
+  boolean: ['integer', 'boolean', 'tinyint(1)'],
+  date: ['date', 'date', 'date'],
+  dateTime: ['integer', 'timestamp', 'datetime'],
+  timestamp: ['integer', 'timestamp', 'datetime'],
+  time: ['time', 'time', 'time'],
+  json: ['text', 'jsonb', 'json'],
+  binary: ['blob', 'bytea', 'blob'],
+  uuid: ['text', 'uuid', 'char(36)'],
+  ulid: ['text', 'char(26)', 'char(26)'],
+};
+
+/** SQLite defaults that are not expressions, which are parenthesized */
+const LITERAL_DEFAULT = /^(-?[\d.]+|'[\s\S]*'|x'[\s\S]*'|null|true|false|current_(time|date|timestamp)|\([\s\S]*\))$/i;
+
+const DIALECT_INDEX: Record<Dialect, number> = { sqlite: 0, postgres: 1, mysql: 2 };
+
+/** Commands SQLite cannot run with ALTER TABLE */
+const REBUILD_COMMANDS = new Set<BlueprintCommand['type']>(['primary', 'dropPrimary', 'foreign', 'dropForeign']);
+
+interface CompiledForeignKey {
+  name: string;
+  columns: string[];
+  /** The referenced table, with the table prefix */
+  table: string;
+  references: string[];
+  onDelete?: string;
+  onUpdate?: string;
+}
+
+export class SchemaGrammar {
+  constructor(public readonly dialect: Dialect) {}
+
+  /**
+   * Compile creating a blueprint's table, with its keys and then its indexes
+   */
+  compileCreate(blueprint: Blueprint): string[] {
+    const definitions = blueprint.columns.map((column) => this.compileColumn(column));
+
+    for (const command of blueprint.commands) {
+      if (command.type === 'primary') {
+        definitions.push(`primary key (${this.columnize(command.columns)})`);
+      } else if (command.type === 'foreign') {
+        definitions.push(this.compileForeignKey(this.foreignKey(blueprint, command.foreign)));
+      }
+    }
+
+    return [
+      `create table ${this.wrapTable(blueprint)} (${definitions.join(', ')})`,
+      ...blueprint.commands
+        .filter((command) => command.type !== 'primary' && command.type !== 'foreign')
+        .flatMap((command) => this.compileCommand(blueprint, command)),
+    ];
+  }
+
+  /**
+   * Compile altering a blueprint's table in place: added and changed columns, then the commands in order
+   */
+  compileAlter(blueprint: Blueprint): string[] {
+    const table = this.wrapTable(blueprint);
+
+    return [
+      ...blueprint.columns.flatMap((column) => column.attributes.change
+        ? this.compileChange(table, column)
+        : [`alter table ${table} add column ${this.compileColumn(column)}`]),
+      ...blueprint.commands.flatMap((command) => this.compileCommand(blueprint, command)),
+    ];
+  }
+
+  /**
+   * Determine if a SQLite blueprint must rebuild its table, as ALTER TABLE cannot apply it
+   *
+   * Added columns need a rebuild when they are keys, NOT NULL without a
+   * default or default to an expression; dropped columns when they are
+   * part of a key or index.
+   */
+  requiresRebuild(blueprint: Blueprint, details: TableDetails): boolean {
+    const keyed = new Set<string | null>([
+      ...details.columns.filter((column) => column.primary > 0).map((column) => column.name),
+      ...details.indexes.flatMap((index) => index.columns),
+      ...details.foreignKeys.flatMap((key) => key.columns),
+    ]);
+    const constraints = new Set(details.indexes.filter((index) => index.sql === null).map((index) => index.name));
+
+    return blueprint.columns.some(({ attributes }) => attributes.change
+      || attributes.autoIncrement
+      || attributes.useCurrent
+      || attributes.default instanceof Expression
+      || (!attributes.nullable && attributes.default === undefined))
+      || blueprint.commands.some((command) => REBUILD_COMMANDS.has(command.type)
+        || (command.type === 'dropColumn' && command.columns.some((column) => keyed.has(column)))
+        || ((command.type === 'dropIndex' || command.type === 'dropUnique') && constraints.has(command.index)));
+  }
+
+  /**
+   * Compile rebuilding a SQLite table with a blueprint's changes
+   */
+  compileRebuild(blueprint: Blueprint, details: TableDetails): string[] {
+    const table = `${blueprint.prefix}${blueprint.table}`;
+    const temporary = `__temp__${table}`;
+
+    let columns = details.columns.map((column) => ({
+      name: column.name,
+      /** The column copied into this one, null for added columns */
+      source: column.name as string | null,
+      definition: [column.type, column.notNull ? 'not null' : '', column.default !== null ? `default ${sqliteDefault(column.default)}` : '']
+        .filter(Boolean)
+        .join(' '),
+    }));
+    let primary = details.columns
+      .filter((column) => column.primary > 0)
+      .sort((a, b) => a.primary - b.primary)
+      .map((column) => column.name);
+    let inlinePrimary = false;
+    let foreignKeys: CompiledForeignKey[] = details.foreignKeys.map((key) => ({
+      ...key,
+      name: blueprint.indexName('foreign', key.columns),
+      onDelete: key.onDelete === 'NO ACTION' ? undefined : key.onDelete.toLowerCase(),
+      onUpdate: key.onUpdate === 'NO ACTION' ? undefined : key.onUpdate.toLowerCase(),
+    }));
+    let indexes = [...details.indexes];
+
+    for (const column of blueprint.columns) {
+      const definition = this.compileDefinition(column);
+      if (column.attributes.autoIncrement) {
+        primary = [];
+        inlinePrimary = true;
+      }
+
+      if (!column.attributes.change) {
+        columns.push({ name: column.name, source: null, definition });
+        continue;
+      }
+
+      const existing = columns.find((candidate) => candidate.name === column.name);
+      if (!existing) {
+        throw new Error(`Column [${column.name}] of table [${table}] cannot be changed as it does not exist.`);
+      }
+      existing.definition = definition;
+    }
+
+    const rename = (names: string[], from: string, to: string) => names.map((name) => (name === from ? to : name));
+
+    for (const command of blueprint.commands) {
+      switch (command.type) {
+        case 'dropColumn': {
+          const dropped = (name: string | null) => name !== null && command.columns.includes(name);
+          columns = columns.filter((column) => !dropped(column.name));
+          primary = primary.some(dropped) ? [] : primary;
+          foreignKeys = foreignKeys.filter((key) => !key.columns.some(dropped));
+          indexes = indexes.filter((index) => !index.columns.some(dropped));
+          break;
+        }
+        case 'renameColumn':
+          for (const column of columns) {
+            if (column.name === command.from) column.name = command.to;
+          }
+          primary = rename(primary, command.from, command.to);
+          foreignKeys = foreignKeys.map((key) => {
+            const renamed = rename(key.columns, command.from, command.to);
+            const name = key.name === blueprint.indexName('foreign', key.columns) ? blueprint.indexName('foreign', renamed) : key.name;
+            return { ...key, name, columns: renamed };
+          });
+          // Indexes on the renamed column are created again from their columns
+          indexes = indexes.map((index) => index.columns.includes(command.from)
+            ? { ...index, sql: null, columns: index.columns.map((name) => (name === command.from ? command.to : name)) }
+            : index);
+          break;
+        case 'primary':
+          primary = command.columns;
+          break;
+        case 'dropPrimary':
+          primary = [];
+          break;
+        case 'foreign':
+          foreignKeys.push(this.foreignKey(blueprint, command.foreign));
+          break;
+        case 'dropForeign':
+          foreignKeys = foreignKeys.filter((key) => key.name !== command.index);
+          break;
+        case 'index':
+        case 'unique':
+          indexes.push({ name: command.index, columns: command.columns, unique: command.type === 'unique', sql: null });
+          break;
+        case 'dropIndex':
+        case 'dropUnique':
+          indexes = indexes.filter((index) => index.name !== command.index);
+          break;
+      }
+    }
+
+    const autoIncrement = details.autoIncrement && primary.length === 1 ? primary[0] : null;
+    const definitions = [
+      ...columns.map((column) => `${this.wrap(column.name)} ${column.definition}${column.name === autoIncrement ? ' primary key autoincrement' : ''}`),
+      ...(primary.length > 0 && !autoIncrement && !inlinePrimary ? [`primary key (${this.columnize(primary)})`] : []),
+      ...foreignKeys.map((key) => this.compileForeignKey(key)),
+    ];
+    const copied = columns.filter((column) => column.source !== null);
+
+    return [
+      `create table ${this.wrap(temporary)} (${definitions.join(', ')})`,
+      ...(copied.length > 0
+        ? [`insert into ${this.wrap(temporary)} (${this.columnize(copied.map((column) => column.name))}) select ${this.columnize(copied.map((column) => column.source!))} from ${this.wrap(table)}`]
+        : []),
+      `drop table ${this.wrap(table)}`,
+      `alter table ${this.wrap(temporary)} rename to ${this.wrap(table)}`,
+      ...indexes.map((index) => index.sql
+        ?? `create ${index.unique ? 'unique ' : ''}index ${this.wrap(index.name)} on ${this.wrap(table)} (${this.columnize(index.columns as string[])})`),
+    ];
+  }
+
+  compileRename(from: string, to: string): string {
+    return this.dialect === 'mysql'
+      ? `rename table ${this.wrap(from)} to ${this.wrap(to)}`
+      : `alter table ${this.wrap(from)} rename to ${this.wrap(to)}`;
+  }
+
+  compileDrop(table: string, ifExists: boolean = false): string {
+    return `drop table ${ifExists ? 'if exists ' : ''}${this.wrap(table)}`;
+  }
+
+  /**
+   * Compile a column with its name, type and modifiers
+   */
+  compileColumn(column: ColumnDefinition): string {
+    return `${this.wrap(column.name)} ${this.compileDefinition(column)}`;
+  }
+
+  /**
+   * Quote an identifier
+   */
+  wrap(name: string): string {
+    return this.dialect === 'mysql' ? `\`${name.replace(/`/g, '``')}\`` : `"${name.replace(/"/g, '""')}"`;
+  }
+
+  private compileCommand(blueprint: Blueprint, command: BlueprintCommand): string[] {
+    const table = this.wrapTable(blueprint);
+
+    switch (command.type) {
+      case 'index':
+      case 'unique':
+        return [`create ${command.type === 'unique' ? 'unique ' : ''}index ${this.wrap(command.index)} on ${table} (${this.columnize(command.columns)})`];
+      case 'primary':
+        return [`alter table ${table} add primary key (${this.columnize(command.columns)})`];
+      case 'foreign':
+        return [`alter table ${table} add ${this.compileForeignKey(this.foreignKey(blueprint, command.foreign))}`];
+      case 'dropIndex':
+      case 'dropUnique':
+        return [this.dialect === 'mysql' ? `drop index ${this.wrap(command.index)} on ${table}` : `drop index ${this.wrap(command.index)}`];
+      case 'dropPrimary':
+        return [this.dialect === 'mysql' ? `alter table ${table} drop primary key` : `alter table ${table} drop constraint ${this.wrap(command.index)}`];
+      case 'dropForeign':
+        return [`alter table ${table} drop ${this.dialect === 'mysql' ? 'foreign key' : 'constraint'} ${this.wrap(command.index)}`];
+      case 'dropColumn':
+        // SQLite drops one column per statement
+        return this.dialect === 'sqlite'
+          ? command.columns.map((column) => `alter table ${table} drop column ${this.wrap(column)}`)
+          : [`alter table ${table} ${command.columns.map((column) => `drop column ${this.wrap(column)}`).join(', ')}`];
+      case 'renameColumn':
+        return [`alter table ${table} rename column ${this.wrap(command.from)} to ${this.wrap(command.to)}`];
+    }
+  }
+
+  /**
+   * Compile changing a column in place, on PostgreSQL and MySQL
+   */
+  private compileChange(table: string, column: ColumnDefinition): string[] {
+    if (this.dialect === 'mysql') {
+      return [`alter table ${table} modify ${this.compileColumn(column)}`];
+    }
+
+    const name = this.wrap(column.name);
+    const type = this.compileType(column);
+    const fallback = this.compileDefault(column);
+
+    return [`alter table ${table} ${[
+      `alter column ${name} type ${type} using ${name}::${type}`,
+      `alter column ${name} ${column.attributes.nullable ? 'drop' : 'set'} not null`,
+      fallback === undefined ? `alter column ${name} drop default` : `alter column ${name} set default ${fallback}`,
+    ].join(', ')}`];
+  }
+
+  private compileDefinition(column: ColumnDefinition): string {
+    const { attributes } = column;
+    const type = this.compileType(column);
+    const fallback = this.compileDefault(column);
+    let definition = type;
+
+    if (this.dialect === 'mysql' && attributes.unsigned && /int|decimal|float|double/.test(type)) {
+      definition += ' unsigned';
+    }
+    if (attributes.autoIncrement && this.dialect === 'sqlite') {
+      definition += ' primary key autoincrement';
+    }
+    if (!attributes.nullable) {
+      definition += ' not null';
+    }
+    if (fallback !== undefined) {
+      definition += ` default ${fallback}`;
+    }
+    if (attributes.autoIncrement && this.dialect === 'mysql') {
+      // A changed column keeps the primary key it has
+      definition += attributes.change ? ' auto_increment' : ' auto_increment primary key';
+    }
+    if (attributes.autoIncrement && this.dialect === 'postgres' && !attributes.change) {
+      definition += ' primary key';
+    }
+
+    return definition;
+  }
+
+  private compileType(column: ColumnDefinition): string {
+    const { attributes } = column;
+    // Serial types only exist when creating a column
+    const type = this.dialect === 'postgres' && attributes.change && column.type.endsWith('ncrements')
+      ? (column.type === 'bigIncrements' ? 'bigint' : 'integer')
+      : TYPES[column.type][DIALECT_INDEX[this.dialect]];
+
+    return type
+      .replace('{length}', String(attributes.length ?? 255))
+      .replace('{precision}', String(attributes.precision ?? 8))
+      .replace('{scale}', String(attributes.scale ?? 2));
+  }
+
+  private compileDefault(column: ColumnDefinition): string | undefined {
+    const { attributes } = column;
+    if (attributes.useCurrent) {
+      // Timestamps are unix timestamps on SQLite
+      return this.dialect === 'sqlite' && TYPES[column.type][0] === 'integer' ? '(unixepoch())' : 'CURRENT_TIMESTAMP';
+    }
+
+    const value = attributes.default;
+    if (value === undefined) return undefined;
+    if (value instanceof Expression) return value.value;
+    if (value === null) return 'null';
+    if (typeof value === 'boolean') return this.dialect === 'postgres' ? String(value) : value ? '1' : '0';
+    if (typeof value === 'number') return String(value);
+    return `'${value.replace(/'/g, "''")}'`;
+  }
+
+  private compileForeignKey(key: CompiledForeignKey): string {
+    let definition = `constraint ${this.wrap(key.name)} foreign key (${this.columnize(key.columns)}) references ${this.wrap(key.table)} (${this.columnize(key.references)})`;
+    if (key.onDelete) definition += ` on delete ${key.onDelete}`;
+    if (key.onUpdate) definition += ` on update ${key.onUpdate}`;
+    return definition;
+  }
+
+  private foreignKey(blueprint: Blueprint, foreign: ForeignKeyDefinition): CompiledForeignKey {
+    if (!foreign.referencedTable) {
+      throw new Error(`Foreign key [${foreign.name}] of table [${blueprint.table}] does not reference a table; call on() or constrained().`);
+    }
+
+    return {
+      name: foreign.name,
+      columns: foreign.columns,
+      table: `${blueprint.prefix}${foreign.referencedTable}`,
+      references: foreign.referencedColumns,
+      onDelete: foreign.onDeleteAction,
+      onUpdate: foreign.onUpdateAction,
+    };
+  }
+
+  private wrapTable(blueprint: Blueprint): string {
+    return this.wrap(`${blueprint.prefix}${blueprint.table}`);
+  }
+
+  private columnize(columns: string[]): string {
+    return columns.map((column) => this.wrap(column)).join(', ');
+  }
+}
+
+/**
+ * Parenthesize a SQLite default read from the table, which reports expressions without their parentheses
+ */
+function sqliteDefault(value: string): string {
+  return LITERAL_DEFAULT.test(value) ? value : `(${value})`;
+}
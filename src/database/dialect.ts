@@ -0,0 +1,125 @@
+/**
+ * Catalyst SQL Dialects
+ *
+ * Models and the query builder build statements with drizzle's SQLite
+ * builder API, which PostgreSQL and MySQL connections share: select, insert,
+ * update and delete chain the same way and run when awaited. These helpers
+ * cover what differs between the dialects: result shapes and raw statements.
+ *
+ * @example
+ * ```ts
+ * const changed = affectedRows(await dbWrite().update(users).set({ active: false }));
+ *
+ * if (isPostgres(db())) {
+ *   const { rows } = await execute(db(), sql`select now()`);
+ * }
+ * ```
+ */
+
+import { is, SQL } from 'drizzle-orm';
+import { PgDatabase } from 'drizzle-orm/pg-core';
+import { MySqlDatabase } from 'drizzle-orm/mysql-core';
+import type { PgTable, PgColumn } from 'drizzle-orm/pg-core';
+import type { MySqlTable, MySqlColumn } from 'drizzle-orm/mysql-core';
+import type { SQLiteTable, SQLiteColumn } from 'drizzle-orm/sqlite-core';
+import type { SQLiteConnection } from './index';
+
+export type Dialect = 'sqlite' | 'postgres' | 'mysql';
+
+/** A table a model can be stored in */
+export type ModelTable = SQLiteTable | PgTable | MySqlTable;
+
+/** A column of a model's table */
+export type ModelColumn = SQLiteColumn | PgColumn | MySqlColumn;
+
+/**
+ * Get the SQL dialect of a drizzle connection or transaction
+ */
+export function dialectOf(connection: object): Dialect {
+  if (is(connection, PgDatabase)) return 'postgres';
+  if (is(connection, MySqlDatabase)) return 'mysql';
+  return 'sqlite';
+}
+
+/**
+ * Determine if a drizzle connection or transaction talks to SQLite
+ *
+ * Narrows the connection to SQLite's API: `run`, `get`, `all` and `$client`.
+ */
+export function isSQLite(connection: object): connection is SQLiteConnection {
+  return dialectOf(connection) === 'sqlite';
+}
+
+/**
+ * Determine if a drizzle connection or transaction talks to PostgreSQL
+ */
+export function isPostgres(connection: object): boolean {
+  return dialectOf(connection) === 'postgres';
+}
+
+/**
+ * Determine if a drizzle connection or transaction talks to MySQL or MariaDB
+ */
+export function isMySql(connection: object): boolean {
+  return dialectOf(connection) === 'mysql';
+}
+
+/**
+ * Get the number of rows changed by an insert, update or delete
+ *
+ * SQLite reports `changes`, node-postgres `rowCount`, PGlite `affectedRows`
+ * and mysql2 `affectedRows` on the first entry of a `[header, fields]` pair.
+ */
+export function affectedRows(result: unknown): number {
+  const { changes, rowCount, affectedRows } = (unwrap(result) ?? {}) as {
+    changes?: number;
+    rowCount?: number | null;
+    affectedRows?: number;
+  };
+  return Number(changes ?? rowCount ?? affectedRows ?? 0);
+}
+
+/**
+ * Get the id generated for an autoincrementing key by an insert on SQLite or MySQL
+ *
+ * PostgreSQL reports no id; insert with `returning()` instead.
+ */
+export function insertId(result: unknown): unknown {
+  const { lastInsertRowid, insertId } = (unwrap(result) ?? {}) as { lastInsertRowid?: unknown; insertId?: unknown };
+  return lastInsertRowid ?? insertId;
+}
+
+/**
+ * Run a raw statement and get its rows
+ */
+export async function execute<T = Record<string, unknown>>(connection: object, query: SQL): Promise<{ rows: T[] }> {
+  if (isPostgres(connection)) {
+    const result = await (connection as unknown as { execute(query: SQL): Promise<{ rows: T[] }> }).execute(query);
+    return { rows: result.rows };
+  }
+
+  if (isMySql(connection)) {
+    const [rows] = await (connection as unknown as { execute(query: SQL): Promise<[T[] | object, unknown]> }).execute(query);
+    return { rows: Array.isArray(rows) ? rows : [] };
+  }
+
+  const rows = (connection as unknown as { all(query: SQL): T[] }).all(query);
+  return { rows };
+}
+
+/**
+ * Run a raw statement that returns no rows, such as DDL, and get the number of rows it changed
+ */
+export async function statement(connection: object, query: SQL): Promise<number> {
+  if (isSQLite(connection)) {
+    return affectedRows((connection as unknown as { run(query: SQL): unknown }).run(query));
+  }
+  return affectedRows(await (connection as unknown as { execute(query: SQL): Promise<unknown> }).execute(query));
+}
+
+/**
+ * mysql2 resolves statements to `[result, fields]` pairs
+ */
+function unwrap(result: unknown): unknown {
+  return Array.isArray(result) ? result[0] : result;
+}
@@ -2,27 +2,75 @@
  * Catalyst Database Connection Factory
  * 
  * Provides lazy database connection establishment with read/write replica support.
+ *
+ * Connections are typed as a `Connection`: drizzle's SQLite builder API for
+ * select, insert, update and delete, which PostgreSQL connections (the
+ * `postgres` driver, or `pglite` for an embedded database) and MySQL or
+ * MariaDB connections (the `mysql` driver) share. Raw statements go through
+ * `./dialect`, and `isSQLite()` narrows to a `SQLiteConnection`.
+ *
+ * Each connection gets the tables of `./schema` built for its dialect and
+ * prefixed with its `prefix`; see `./tables`.
+ *
+ * Connections with `read.host` send reads to those replicas, in turn or at
+ * random, and writes to `write.host` (or `host`). Reads go to the writer
+ * inside its transactions, for the rest of a request that wrote on `sticky`
+ * connections, and while replicas cannot be reached.
  */
 
+import fs from 'fs';
+import path from 'path';
 import Database from 'better-sqlite3';
+import { Pool, type PoolConfig } from 'pg';
+import { PGlite } from '@electric-sql/pglite';
+import { createPool as createMySqlPool } from 'mysql2/promise';
 import { drizzle, BetterSQLite3Database } from 'drizzle-orm/better-sqlite3';
+import { drizzle as drizzlePostgres } from 'drizzle-orm/node-postgres';
+import { drizzle as drizzlePGlite } from 'drizzle-orm/pglite';
+import { drizzle as drizzleMySql } from 'drizzle-orm/mysql2';
 import { config } from '@/backend/Services/Config';
+import { logger } from '@/backend/Services/Logger';
+import type { ConnectionConfig } from '../../config/database';
 import * as schema from './schema';
+import { schemaFor } from './tables';
+import { runTransaction, transactionConnection, inTransaction } from './transactions';
+import { failOver, hasModified, recordWrite, REPLICA_RETRY_AFTER } from './replicas';
+import { instrumentConnection, instrumentMySqlPool, instrumentPostgresClient, listen } from './QueryLog';
 
-type DrizzleDB = BetterSQLite3Database<typeof schema>;
+/** A SQLite connection, with drizzle's synchronous run, get and all */
+export type SQLiteConnection = BetterSQLite3Database<typeof schema> & {
+  /** The underlying better-sqlite3 connection */
+  $client: Database.Database;
+};
+
+/** A connection of any dialect: the statement builders they share */
+export type Connection = Pick<SQLiteConnection, 'select' | 'selectDistinct' | 'insert' | 'update' | 'delete'>;
+
+/** A connection with its driver's client, to fail over and close */
+type PooledConnection = Connection & { $client: object };
 
 interface ConnectionPool {
-  read: DrizzleDB | null;
-  write: DrizzleDB | null;
+  /** The writer, which also serves reads without replicas */
+  write: PooledConnection | null;
+  /** Replica connections by read host, opened on first use */
+  read: (PooledConnection | null)[];
+  /** Counts reads for round-robin replica selection */
+  reads: number;
+  /** When each unreachable replica may be tried again, by read host */
+  downUntil: Map<number, number>;
 }
 
 class DatabaseFactory {
   private static instance: DatabaseFactory | null = null;
   private connections: Map<string, ConnectionPool> = new Map();
   private defaultConnection: string;
+  private stopRecordingWrites: () => void;
 
   private constructor() {
     this.defaultConnection = config<string>('database.default', 'sqlite');
+
+    // Writes make sticky connections read from the writer for the rest of the request
+    this.stopRecordingWrites = listen(({ connection, sql }) => recordWrite(connection, sql));
   }
 
   /**
@@ -42,6 +90,7 @@ class DatabaseFactory {
     if (DatabaseFactory.instance) {
       // Close all connections
       DatabaseFactory.instance.disconnectAll();
+      DatabaseFactory.instance.stopRecordingWrites();
     }
     DatabaseFactory.instance = null;
   }
@@ -50,52 +99,107 @@ class DatabaseFactory {
    * Get a database connection
    * 
    * @param name - Connection name (default: from config)
-   * @param forWrite - Whether this is for a write operation (uses write replica if configured)
+   * @param forWrite - Whether this is for a write operation (uses the writer when replicas are configured)
    */
-  public connection(name?: string, forWrite: boolean = false): DrizzleDB {
+  public connection(name?: string, forWrite: boolean = false): Connection {
     const connectionName = name || this.defaultConnection;
+    const dbConfig = this.getConfig(connectionName);
     
     let pool = this.connections.get(connectionName);
     
     if (!pool) {
-      pool = { read: null, write: null };
+      pool = { write: null, read: [], reads: 0, downUntil: new Map() };
       this.connections.set(connectionName, pool);
     }
 
-    // For SQLite, read and write use the same connection
-    // For PostgreSQL/MySQL with replicas, they would differ
-    const key = forWrite ? 'write' : 'read';
-    
-    if (!pool[key]) {
-      pool[key] = this.createConnection(connectionName);
+    if (!pool.write) {
+      pool.write = this.createConnection(connectionName, dbConfig.write ? { ...dbConfig, host: dbConfig.write.host } : dbConfig);
     }
 
-    return pool[key]!;
+    if (forWrite) {
+      return pool.write;
+    }
+
+    return this.readConnection(connectionName, dbConfig, pool) ?? pool.write;
   }
 
   /**
-   * Create a new database connection
+   * Pick the replica to read from, or null to read from the writer
    */
-  private createConnection(name: string): DrizzleDB {
-    const dbConfig = config<Record<string, unknown>>(`database.connections.${name}`);
+  private readConnection(name: string, dbConfig: ConnectionConfig, pool: ConnectionPool): PooledConnection | null {
+    const hosts = dbConfig.read?.host ?? [];
+    if (hosts.length === 0 || inTransaction(pool.write!)) return null;
+    if (dbConfig.sticky && hasModified(name)) return null;
+
+    const now = Date.now();
+    const available = hosts.map((_, index) => index).filter((index) => (pool.downUntil.get(index) ?? 0) <= now);
+    if (available.length === 0) return null;
+
+    const index = dbConfig.read?.strategy === 'random'
+      ? available[Math.floor(Math.random() * available.length)]
+      : available[pool.reads++ % available.length];
+
+    try {
+      pool.read[index] ??= this.createReplica(name, dbConfig, pool, index);
+      return pool.read[index];
+    } catch (error) {
+      this.markReplicaDown(name, hosts[index], pool, index, error);
+      return null;
+    }
+  }
+
+  /**
+   * Open the connection to a read replica, whose statements fail over to the writer
+   */
+  private createReplica(name: string, dbConfig: ConnectionConfig, pool: ConnectionPool, index: number): PooledConnection {
+    const host = dbConfig.read!.host[index];
+    const replica = this.createConnection(name, { ...dbConfig, host });
+
+    failOver(replica.$client, pool.write!.$client, (error) => this.markReplicaDown(name, host, pool, index, error));
+    return replica;
+  }
+
+  /**
+   * Skip an unreachable replica for a while, reading from the others or the writer
+   */
+  private markReplicaDown(name: string, host: string, pool: ConnectionPool, index: number, error: unknown): void {
+    pool.downUntil.set(index, Date.now() + REPLICA_RETRY_AFTER);
+    logger().warning(`Read replica [${host}] of connection [${name}] is unreachable; reading from the writer.`, {
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  /**
+   * Get the configuration of a connection
+   */
+  private getConfig(name: string): ConnectionConfig {
+    const dbConfig = config<ConnectionConfig>(`database.connections.${name}`);
     
     if (!dbConfig) {
       throw new Error(`Database connection [${name}] not configured.`);
     }
 
+    return dbConfig;
+  }
+
+  /**
+   * Create a new database connection
+   */
+  private createConnection(name: string, dbConfig: ConnectionConfig): PooledConnection {
     const driver = dbConfig.driver as string;
 
     switch (driver) {
       case 'sqlite':
-        return this.createSQLiteConnection(dbConfig);
+        return this.createSQLiteConnection(name, dbConfig);
       
       case 'postgres':
-        // TODO: Implement PostgreSQL with drizzle-orm/postgres-js
-        throw new Error('PostgreSQL connection not yet implemented');
+        return this.createPostgresConnection(name, dbConfig);
+
+      case 'pglite':
+        return this.createPGliteConnection(name, dbConfig);
       
       case 'mysql':
-        // TODO: Implement MySQL with drizzle-orm/mysql2
-        throw new Error('MySQL connection not yet implemented');
+        return this.createMySqlConnection(name, dbConfig);
       
       default:
         throw new Error(`Unsupported database driver: ${driver}`);
@@ -105,13 +209,11 @@ class DatabaseFactory {
   /**
    * Create SQLite connection
    */
-  private createSQLiteConnection(config: Record<string, unknown>): DrizzleDB {
-    const dbPath = (config.database as string) || ':memory:';
+  private createSQLiteConnection(name: string, config: ConnectionConfig): SQLiteConnection {
+    const dbPath = config.database || ':memory:';
     
     // Ensure the directory exists
     if (dbPath !== ':memory:') {
-      const fs = require('fs');
-      const path = require('path');
       const dir = path.dirname(dbPath);
       if (!fs.existsSync(dir)) {
         fs.mkdirSync(dir, { recursive: true });
@@ -122,8 +224,93 @@ class DatabaseFactory {
     
     // Enable WAL mode for better concurrent performance
     sqlite.pragma('journal_mode = WAL');
+
+    // Report executed statements to query listeners and the slow query log
+    instrumentConnection(sqlite, name);
     
-    return drizzle(sqlite, { schema });
+    return drizzle(sqlite, { schema: schemaFor(schema, 'sqlite', config.prefix) });
+  }
+
+  /**
+   * Create a pooled PostgreSQL connection
+   */
+  private createPostgresConnection(name: string, config: ConnectionConfig): PooledConnection {
+    const options: PoolConfig = {
+      host: config.host,
+      port: config.port,
+      database: config.database,
+      user: config.username,
+      password: config.password,
+      min: config.pool?.min,
+      max: config.pool?.max,
+      ssl: this.postgresSsl(config.sslmode),
+    };
+    if (config.schema) {
+      options.options = `-c search_path=${config.schema}`;
+    }
+
+    const pool = new Pool(options);
+
+    // Each pooled client reports its statements, including those in transactions
+    pool.on('connect', (client) => {
+      instrumentPostgresClient(client, name);
+    });
+
+    return drizzlePostgres(pool, { schema: schemaFor(schema, 'postgres', config.prefix) }) as unknown as PooledConnection;
+  }
+
+  /**
+   * Map a libpq sslmode to node-postgres SSL options
+   *
+   * node-postgres cannot fall back to plain connections, so `prefer` and
+   * `allow` connect without SSL.
+   */
+  private postgresSsl(sslmode?: string): PoolConfig['ssl'] {
+    switch (sslmode) {
+      case 'require':
+        return { rejectUnauthorized: false };
+      case 'verify-ca':
+      case 'verify-full':
+        return { rejectUnauthorized: true };
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Create an embedded PostgreSQL connection, stored in a directory or in memory
+   */
+  private createPGliteConnection(name: string, config: ConnectionConfig): PooledConnection {
+    const dataDir = config.database && config.database !== ':memory:' ? config.database : undefined;
+    if (dataDir && !fs.existsSync(dataDir)) {
+      fs.mkdirSync(dataDir, { recursive: true });
+    }
+
+    const client = instrumentPostgresClient(new PGlite(dataDir), name);
+    return drizzlePGlite(client, { schema: schemaFor(schema, 'postgres', config.prefix) }) as unknown as PooledConnection;
+  }
+
+  /**
+   * Create a pooled MySQL or MariaDB connection
+   */
+  private createMySqlConnection(name: string, config: ConnectionConfig): PooledConnection {
+    const pool = createMySqlPool({
+      host: config.host,
+      port: config.port,
+      database: config.database,
+      user: config.username,
+      password: config.password,
+      charset: config.charset,
+      connectionLimit: config.pool?.max,
+    });
+
+    // Report statements, including those run on a connection taken for a transaction
+    instrumentMySqlPool(pool, name);
+
+    return drizzleMySql(pool, {
+      schema: schemaFor(schema, 'mysql', config.prefix),
+      mode: 'default',
+    }) as unknown as PooledConnection;
   }
 
   /**
@@ -131,25 +318,26 @@ class DatabaseFactory {
    */
   public disconnectAll(): void {
     for (const [, pool] of this.connections) {
-      // Note: Drizzle doesn't expose close method directly
-      // The underlying driver should be closed
+      for (const connection of [pool.write, ...pool.read]) {
+        const client = connection?.$client as { close?(): unknown; end?(): unknown } | undefined;
+        // better-sqlite3 and PGlite close; node-postgres and mysql2 pools end
+        void (client?.close?.() ?? client?.end?.());
+      }
     }
     this.connections.clear();
   }
 
   /**
-   * Begin a database transaction
+   * Run a callback in a transaction on the write connection
+   *
+   * Drizzle's better-sqlite3 transactions cannot await, so the transaction is
+   * managed on the connection directly and models used in the callback join it.
    */
   public async transaction<T>(
-    callback: (db: DrizzleDB) => Promise<T>,
+    callback: (db: Connection) => Promise<T>,
     connectionName?: string
   ): Promise<T> {
-    const db = this.connection(connectionName, true);
-    
-    // Drizzle transactions
-    return db.transaction(async (tx) => {
-      return callback(tx as unknown as DrizzleDB);
-    });
+    return runTransaction(this.connection(connectionName, true), callback);
   }
 
   /**
@@ -168,9 +356,24 @@ class DatabaseFactory {
 }
 
 // Export singleton accessors
-export const db = () => DatabaseFactory.getInstance().connection();
-export const dbWrite = () => DatabaseFactory.getInstance().connection(undefined, true);
-export const dbConnection = (name: string) => DatabaseFactory.getInstance().connection(name);
-export const transaction = DatabaseFactory.getInstance().transaction.bind(DatabaseFactory.getInstance());
+export const db = () => transactionConnection(DatabaseFactory.getInstance().connection());
+export const dbWrite = () => transactionConnection(DatabaseFactory.getInstance().connection(undefined, true));
+export const dbConnection = (name: string) => transactionConnection(DatabaseFactory.getInstance().connection(name));
+export const transaction: DatabaseFactory['transaction'] = (callback, connectionName) =>
+  DatabaseFactory.getInstance().transaction(callback, connectionName);
+
+/**
+ * Database facade
+ *
+ * @example
+ * ```ts
+ * DB.listen(({ sql, bindings, time }) => console.log(`${time}ms ${sql}`, bindings));
+ * ```
+ */
+export const DB = {
+  connection: (name?: string) => transactionConnection(DatabaseFactory.getInstance().connection(name)),
+  transaction,
+  listen,
+};
 
 export default DatabaseFactory;
@@ -4,18 +4,22 @@
  * Creates the posts table.
  */
 
-import { sql } from 'drizzle-orm';
-import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
+import { Schema } from '@/database/SchemaBuilder';
+import type { Migration } from '@/database/Migrator';
 
-export const posts = sqliteTable('posts', {
-  id: text('id').primaryKey(),
-  // Add your columns here
-  // name: text('name').notNull(),
-  // email: text('email').notNull().unique(),
-  // status: text('status').default('active'),
-  created_at: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
-  updated_at: integer('updated_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
-});
+export default {
+  async up() {
+    await Schema.create('posts', (table) => {
+      table.string('id').primary();
+      // Add your columns here
+      // table.string('name');
+      // table.string('email').unique();
+      // table.string('status').default('active');
+      table.timestamps();
+    });
+  },
 
-export type PostsRecord = typeof posts.$inferSelect;
-export type NewPostsRecord = typeof posts.$inferInsert;
+  async down() {
+    await Schema.dropIfExists('posts');
+  },
+} satisfies Migration;
@@ -0,0 +1,90 @@
+/**
+ * Catalyst Read Replicas
+ *
+ * Support for routing reads to replicas: remembering which connections were
+ * written to during the current request, so sticky connections can read the
+ * writes back from the writer, and failing a replica's statements over to
+ * the writer when the replica cannot be reached.
+ *
+ * @example
+ * ```ts
+ * failOver(replica.$client, writer.$client, () => markReplicaDown(index));
+ *
+ * if (config.sticky && hasModified('mysql')) {
+ *   return writer;
+ * }
+ * ```
+ */
+
+import Context from '@/backend/Core/Context';
+
+/** How long a replica that could not be reached is skipped, in milliseconds */
+export const REPLICA_RETRY_AFTER = 30_000;
+
+/** Statements that change data or the schema */
+const WRITE_STATEMENT = /^\s*(insert|update|delete|replace|create|alter|drop|truncate|rename)\b/i;
+
+/** Error codes of connections that could not be made or were lost */
+const CONNECTION_ERRORS = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'ENOTFOUND',
+  'EHOSTUNREACH',
+  'PROTOCOL_CONNECTION_LOST',
+  // PostgreSQL: the server is shutting down or not accepting connections yet
+  '57P01',
+  '57P03',
+]);
+
+/**
+ * Remember a connection was written to in the current request, if the statement writes
+ */
+export function recordWrite(connection: string, statement: string): void {
+  if (!Context.isActive() || !WRITE_STATEMENT.test(statement)) return;
+
+  const modified = Context.get('modifiedConnections') ?? [];
+  if (!modified.includes(connection)) {
+    Context.set('modifiedConnections', [...modified, connection]);
+  }
+}
+
+/**
+ * Determine if a connection was written to in the current request
+ */
+export function hasModified(connection: string): boolean {
+  return Context.get('modifiedConnections')?.includes(connection) ?? false;
+}
+
+/**
+ * Determine if an error means the database could not be reached
+ */
+export function isConnectionError(error: unknown): boolean {
+  const { code, message } = (error ?? {}) as { code?: unknown; message?: unknown };
+  if (typeof code === 'string' && CONNECTION_ERRORS.has(code)) return true;
+  return typeof message === 'string' && /connection terminated|timeout exceeded when trying to connect/i.test(message);
+}
+
+/**
+ * Run a replica client's statements on the writer's client when the replica cannot be reached
+ *
+ * Wraps the promise-returning `query` method node-postgres and mysql2 pools
+ * share; clients without one are left as they are.
+ */
+export function failOver(replica: object, writer: object, onFailure: (error: unknown) => void): void {
+  const target = replica as { query?: (...args: unknown[]) => unknown };
+  const fallback = writer as { query(...args: unknown[]): unknown };
+  if (typeof target.query !== 'function') return;
+
+  const query = target.query.bind(replica);
+  target.query = (...args: unknown[]) => {
+    const result = query(...args) as Promise<unknown>;
+    if (typeof result?.then !== 'function') return result;
+
+    return result.catch((error: unknown) => {
+      if (!isConnectionError(error)) throw error;
+      onFailure(error);
+      return fallback.query(...args);
+    });
+  };
+}
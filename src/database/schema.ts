@@ -3,99 +3,121 @@
  * 
  * Central schema definition file for Drizzle ORM.
  * All table definitions should be imported and re-exported here.
+ *
+ * Tables are declared with `defineTable`, so each connection gets them in
+ * its own dialect and with its table prefix; see `./tables`.
  */
 
-import { sql } from 'drizzle-orm';
-import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
+import { defineTable } from './tables';
 
 // ==================== USERS TABLE ====================
 
-export const users = sqliteTable('users', {
-  id: text('id').primaryKey(),
-  name: text('name').notNull(),
-  email: text('email').notNull().unique(),
-  email_verified_at: integer('email_verified_at', { mode: 'timestamp' }),
-  password: text('password'), // Optional for social users
-  github_id: text('github_id').unique(),
-  google_id: text('google_id').unique(),
-  avatar: text('avatar'),
-  remember_token: text('remember_token'),
-  created_at: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
-  updated_at: integer('updated_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
-});
+export const users = defineTable('users', (t) => ({
+  id: t.string('id').primaryKey(),
+  name: t.string('name').notNull(),
+  email: t.string('email').notNull().unique(),
+  email_verified_at: t.timestamp('email_verified_at'),
+  password: t.string('password'), // Optional for social users
+  github_id: t.string('github_id').unique(),
+  google_id: t.string('google_id').unique(),
+  avatar: t.text('avatar'),
+  remember_token: t.string('remember_token', 100),
+  created_at: t.timestamp('created_at').notNull().default(t.now()),
+  updated_at: t.timestamp('updated_at').notNull().default(t.now()),
+}));
 
 export type UserRecord = typeof users.$inferSelect;
 export type NewUserRecord = typeof users.$inferInsert;
 
 // ==================== PASSWORD RESET TOKENS ====================
 
-export const passwordResetTokens = sqliteTable('password_reset_tokens', {
-  email: text('email').primaryKey(),
-  token: text('token').notNull(),
-  created_at: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
-});
+export const passwordResetTokens = defineTable('password_reset_tokens', (t) => ({
+  email: t.string('email').primaryKey(),
+  token: t.string('token').notNull(),
+  created_at: t.timestamp('created_at').notNull().default(t.now()),
+}));
 
 export type PasswordResetTokenRecord = typeof passwordResetTokens.$inferSelect;
 
 // ==================== SESSIONS TABLE ====================
 
-export const sessions = sqliteTable('sessions', {
-  id: text('id').primaryKey(),
-  user_id: text('user_id').references(() => users.id, { onDelete: 'cascade' }),
-  ip_address: text('ip_address'),
-  user_agent: text('user_agent'),
-  payload: text('payload').notNull(),
-  last_activity: integer('last_activity').notNull(),
-});
+export const sessions = defineTable('sessions', (t) => ({
+  id: t.string('id').primaryKey(),
+  user_id: t.string('user_id').references(() => t.resolve(users).id, { onDelete: 'cascade' }),
+  ip_address: t.string('ip_address', 45),
+  user_agent: t.text('user_agent'),
+  payload: t.text('payload').notNull(),
+  last_activity: t.integer('last_activity').notNull(),
+}));
 
 export type SessionRecord = typeof sessions.$inferSelect;
 export type NewSessionRecord = typeof sessions.$inferInsert;
 
 // ==================== JOBS TABLE (Queue) ====================
 
-export const jobs = sqliteTable('jobs', {
-  id: integer('id').primaryKey({ autoIncrement: true }),
-  queue: text('queue').notNull().default('default'),
-  payload: text('payload').notNull(),
-  attempts: integer('attempts').notNull().default(0),
-  reserved_at: integer('reserved_at', { mode: 'timestamp' }),
-  available_at: integer('available_at', { mode: 'timestamp' }).notNull(),
-  created_at: integer('created_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
-});
+export const jobs = defineTable('jobs', (t) => ({
+  id: t.id(),
+  queue: t.string('queue').notNull().default('default'),
+  payload: t.text('payload').notNull(),
+  attempts: t.integer('attempts').notNull().default(0),
+  reserved_at: t.timestamp('reserved_at'),
+  available_at: t.timestamp('available_at').notNull(),
+  created_at: t.timestamp('created_at').notNull().default(t.now()),
+}));
 
 export type JobRecord = typeof jobs.$inferSelect;
 export type NewJobRecord = typeof jobs.$inferInsert;
 
 // ==================== FAILED JOBS TABLE ====================
 
-export const failedJobs = sqliteTable('failed_jobs', {
-  id: integer('id').primaryKey({ autoIncrement: true }),
-  uuid: text('uuid').notNull().unique(),
-  connection: text('connection').notNull(),
-  queue: text('queue').notNull(),
-  payload: text('payload').notNull(),
-  exception: text('exception').notNull(),
-  failed_at: integer('failed_at', { mode: 'timestamp' }).notNull().default(sql`(unixepoch())`),
-});
+export const failedJobs = defineTable('failed_jobs', (t) => ({
+  id: t.id(),
+  uuid: t.string('uuid').notNull().unique(),
+  connection: t.text('connection').notNull(),
+  queue: t.text('queue').notNull(),
+  payload: t.text('payload').notNull(),
+  exception: t.text('exception').notNull(),
+  failed_at: t.timestamp('failed_at').notNull().default(t.now()),
+}));
 
 export type FailedJobRecord = typeof failedJobs.$inferSelect;
 
 // ==================== CACHE TABLE ====================
 
-export const cache = sqliteTable('cache', {
-  key: text('key').primaryKey(),
-  value: text('value').notNull(),
-  expiration: integer('expiration').notNull(),
-});
+export const cache = defineTable('cache', (t) => ({
+  key: t.string('key').primaryKey(),
+  value: t.text('value').notNull(),
+  expiration: t.integer('expiration').notNull(),
+}));
 
 export type CacheRecord = typeof cache.$inferSelect;
 
 // ==================== MIGRATIONS TABLE ====================
 
-export const migrations = sqliteTable('catalyst_migrations', {
-  id: integer('id').primaryKey({ autoIncrement: true }),
-  migration: text('migration').notNull(),
-  batch: integer('batch').notNull(),
-});
+export const migrations = defineTable('catalyst_migrations', (t) => ({
+  id: t.id(),
+  migration: t.string('migration').notNull(),
+  batch: t.integer('batch').notNull(),
+}));
 
 export type MigrationRecord = typeof migrations.$inferSelect;
+
+// ==================== AUDITS TABLE ====================
+
+export const audits = defineTable('audits', (t) => ({
+  id: t.id(),
+  auditable_type: t.string('auditable_type').notNull(),
+  // NUMERIC affinity matches both integer and text keys on SQLite; other dialects store keys as strings
+  auditable_id: (t.dialect === 'sqlite' ? t.numeric('auditable_id') : t.string('auditable_id')).notNull(),
+  event: t.string('event').notNull(),
+  old_values: t.text('old_values').notNull().default('{}'),
+  new_values: t.text('new_values').notNull().default('{}'),
+  user_id: t.string('user_id'),
+  request_id: t.string('request_id'),
+  created_at: t.timestamp('created_at').notNull().default(t.now()),
+}), (table, t) => [
+  t.index('audits_auditable_index').on(table.auditable_type, table.auditable_id),
+]);
+
+export type AuditRecord = typeof audits.$inferSelect;
+export type NewAuditRecord = typeof audits.$inferInsert;
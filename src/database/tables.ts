@@ -0,0 +1,256 @@
+/**
+ * Catalyst Portable Tables
+ *
+ * Declares a table once and builds it for whichever dialect a connection
+ * speaks. `defineTable` returns the SQLite table, which types the table for
+ * the builder API every dialect shares; `tableFor` builds the PostgreSQL or
+ * MySQL version from the same declaration, with the connection's table prefix.
+ *
+ * The column factory picks the matching column type per dialect: `string`
+ * columns are VARCHAR on PostgreSQL and MySQL (so they can be keyed and
+ * indexed) and TEXT on SQLite, timestamps are integers on SQLite, and so on.
+ *
+ * @example
+ * ```ts
+ * export const posts = defineTable('posts', (t) => ({
+ *   id: t.id(),
+ *   user_id: t.string('user_id').references(() => t.resolve(users).id),
+ *   title: t.string('title').notNull(),
+ *   body: t.text('body'),
+ *   created_at: t.timestamp('created_at').notNull().default(t.now()),
+ * }), (table, t) => [
+ *   t.index('posts_user_id_index').on(table.user_id),
+ * ]);
+ *
+ * const table = tableFor(posts, 'postgres');
+ * ```
+ */
+
+import { sql, SQL } from 'drizzle-orm';
+import type { BuildColumns } from 'drizzle-orm/column-builder';
+import * as sqlite from 'drizzle-orm/sqlite-core';
+import * as pg from 'drizzle-orm/pg-core';
+import * as mysql from 'drizzle-orm/mysql-core';
+import { config } from '@/backend/Services/Config';
+import type { Dialect, ModelTable } from './dialect';
+
+type ColumnMap = Record<string, sqlite.SQLiteColumnBuilderBase>;
+
+type ExtraConfig<TName extends string, TColumns extends ColumnMap> = (
+  table: BuildColumns<TName, TColumns, 'sqlite'>,
+  t: ColumnFactory
+) => sqlite.SQLiteTableExtraConfigValue[];
+
+/** A table declaration, built again for each dialect and prefix */
+interface TableDefinition {
+  name: string;
+  columns: (t: ColumnFactory) => ColumnMap;
+  extraConfig?: ExtraConfig<string, ColumnMap>;
+}
+
+/** Declarations by the SQLite table `defineTable` returned */
+const definitions = new WeakMap<object, TableDefinition>();
+
+/** Tables already built, by declaration and `dialect:prefix` */
+const built = new WeakMap<TableDefinition, Map<string, ModelTable>>();
+
+/**
+ * Builds columns of the dialect a table is being built for
+ *
+ * Columns are typed as SQLite columns whatever the dialect, matching the
+ * table `defineTable` returns.
+ */
+export class ColumnFactory {
+  constructor(
+    /** The dialect the table is being built for */
+    public readonly dialect: Dialect,
+    private readonly prefix: string = ''
+  ) {}
+
+  /**
+   * An autoincrementing integer primary key
+   */
+  id<TName extends string = 'id'>(name: TName = 'id' as TName) {
+    return this.pick(
+      () => sqlite.integer(name).primaryKey({ autoIncrement: true }),
+      () => pg.serial(name).primaryKey(),
+      () => mysql.int(name).autoincrement().primaryKey()
+    );
+  }
+
+  /**
+   * A string column, VARCHAR of the given length outside SQLite
+   */
+  string<TName extends string>(name: TName, length: number = 255) {
+    return this.pick(
+      () => sqlite.text(name),
+      () => pg.varchar(name, { length }),
+      () => mysql.varchar(name, { length })
+    );
+  }
+
+  /**
+   * A text column of unbounded length
+   */
+  text<TName extends string>(name: TName) {
+    return this.pick(() => sqlite.text(name), () => pg.text(name), () => mysql.text(name));
+  }
+
+  /**
+   * An integer column
+   */
+  integer<TName extends string>(name: TName) {
+    return this.pick(() => sqlite.integer(name), () => pg.integer(name), () => mysql.int(name));
+  }
+
+  /**
+   * A boolean column, stored as 0 or 1 on SQLite
+   */
+  boolean<TName extends string>(name: TName) {
+    return this.pick(
+      () => sqlite.integer(name, { mode: 'boolean' }),
+      () => pg.boolean(name),
+      () => mysql.boolean(name)
+    );
+  }
+
+  /**
+   * A date and time column, stored as a unix timestamp on SQLite and DATETIME on MySQL
+   */
+  timestamp<TName extends string>(name: TName) {
+    return this.pick(
+      () => sqlite.integer(name, { mode: 'timestamp' }),
+      () => pg.timestamp(name),
+      () => mysql.datetime(name)
+    );
+  }
+
+  /**
+   * An exact numeric column, DECIMAL on MySQL
+   */
+  numeric<TName extends string>(name: TName) {
+    return this.pick(() => sqlite.numeric(name), () => pg.numeric(name), () => mysql.decimal(name));
+  }
+
+  /**
+   * The current time as a column default
+   */
+  now(): SQL {
+    return this.dialect === 'sqlite' ? sql`(unixepoch())` : sql`CURRENT_TIMESTAMP`;
+  }
+
+  /**
+   * An index on the table
+   */
+  index(name: string) {
+    return this.pick(() => sqlite.index(name), () => pg.index(name), () => mysql.index(name));
+  }
+
+  /**
+   * A unique index on the table
+   */
+  uniqueIndex(name: string) {
+    return this.pick(() => sqlite.uniqueIndex(name), () => pg.uniqueIndex(name), () => mysql.uniqueIndex(name));
+  }
+
+  /**
+   * Get another declared table in the dialect and prefix being built, for references
+   */
+  resolve<TTable extends ModelTable>(table: TTable): TTable {
+    return tableFor(table, this.dialect, this.prefix);
+  }
+
+  private pick<T>(sqlite: () => T, postgres: () => unknown, mysql: () => unknown): T {
+    switch (this.dialect) {
+      case 'postgres':
+        return postgres() as T;
+      case 'mysql':
+        return mysql() as T;
+      default:
+        return sqlite();
+    }
+  }
+}
+
+/**
+ * Declare a table that can be built for any dialect
+ */
+export function defineTable<TName extends string, TColumns extends ColumnMap>(
+  name: TName,
+  columns: (t: ColumnFactory) => TColumns,
+  extraConfig?: ExtraConfig<TName, TColumns>
+) {
+  const definition: TableDefinition = { name, columns, extraConfig: extraConfig as ExtraConfig<string, ColumnMap> | undefined };
+  const t = new ColumnFactory('sqlite');
+  const table = sqlite.sqliteTable(name, columns(t), extraConfig && ((self) => extraConfig(self, t)));
+
+  definitions.set(table, definition);
+  built.set(definition, new Map([['sqlite:', table]]));
+  return table;
+}
+
+/**
+ * Get a table built for a dialect, with its name prefixed
+ *
+ * Tables not declared with `defineTable` are returned unchanged.
+ */
+export function tableFor<TTable extends ModelTable>(table: TTable, dialect: Dialect, prefix: string = tablePrefix()): TTable {
+  const definition = definitions.get(table);
+  if (!definition) return table;
+
+  const tables = built.get(definition)!;
+  const key = `${dialect}:${prefix}`;
+  if (!tables.has(key)) {
+    tables.set(key, buildTable(definition, dialect, prefix));
+  }
+  return tables.get(key) as TTable;
+}
+
+/**
+ * Build every declared table in a schema module for a dialect, keeping the export names
+ */
+export function schemaFor<TSchema extends Record<string, unknown>>(schema: TSchema, dialect: Dialect, prefix: string = ''): TSchema {
+  const result: Record<string, unknown> = {};
+  for (const [name, value] of Object.entries(schema)) {
+    result[name] = value !== null && typeof value === 'object' && definitions.has(value)
+      ? tableFor(value as ModelTable, dialect, prefix)
+      : value;
+  }
+  return result as TSchema;
+}
+
+/**
+ * Get the table prefix of a connection, by default the default connection
+ */
+export function tablePrefix(connection?: string): string {
+  const name = connection ?? config<string>('database.default', 'sqlite');
+  return config<string>(`database.connections.${name}.prefix`, '') ?? '';
+}
+
+function buildTable(definition: TableDefinition, dialect: Dialect, prefix: string): ModelTable {
+  const t = new ColumnFactory(dialect, prefix);
+  const columns = definition.columns(t);
+  const extraConfig = definition.extraConfig && ((self: unknown) => definition.extraConfig!(self as BuildColumns<string, ColumnMap, 'sqlite'>, t));
+  const prefixed = (name: string) => `${prefix}${name}`;
+
+  switch (dialect) {
+    case 'postgres':
+      return pg.pgTableCreator(prefixed)(
+        definition.name,
+        columns as unknown as Record<string, pg.PgColumnBuilderBase>,
+        extraConfig as unknown as (self: unknown) => pg.PgTableExtraConfigValue[]
+      );
+    case 'mysql':
+      return mysql.mysqlTableCreator(prefixed)(
+        definition.name,
+        columns as unknown as Record<string, mysql.MySqlColumnBuilderBase>,
+        extraConfig as unknown as (self: unknown) => mysql.MySqlTableExtraConfigValue[]
+      );
+    default:
+      return sqlite.sqliteTableCreator(prefixed)(
+        definition.name,
+        columns,
+        extraConfig as unknown as (self: unknown) => sqlite.SQLiteTableExtraConfigValue[]
+      );
+  }
+}
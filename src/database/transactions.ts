@@ -0,0 +1,146 @@
+/**
+ * Catalyst Transactions
+ *
+ * Runs an async callback inside a transaction. On SQLite, transactions
+ * start with BEGIN IMMEDIATE so they hold the database write lock from the
+ * start: concurrent writers wait (up to the busy timeout) instead of failing
+ * when a read is later upgraded to a write. Nested calls use savepoints.
+ *
+ * A SQLite connection is shared by every request, so its transactions take
+ * turns: each holds the connection's write lock until it settles, and only
+ * code in the callback's async context nests in it. Writes outside a
+ * transaction take the lock with `withWriteLock()`, waiting for other
+ * requests' transactions instead of joining them.
+ *
+ * PostgreSQL and MySQL transactions run on one pooled client, so the
+ * transaction is bound to the async context of the callback: `db()` and
+ * `dbWrite()` return it until the callback settles, and models used in the
+ * callback join it.
+ *
+ * @example
+ * ```ts
+ * await runTransaction(dbWrite(), async () => {
+ *   const account = await Account.query().lockForUpdate().find(1);
+ *   account.setAttribute('balance', account.getAttribute('balance') - 10);
+ *   await account.save();
+ * });
+ * ```
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import type Database from 'better-sqlite3';
+import { isSQLite } from './dialect';
+
+/** SQLite connections whose write lock the current async context holds, with its open transaction depth */
+const owners = new AsyncLocalStorage<Map<Database.Database, number>>();
+
+/** The last holder queued for each SQLite connection's write lock, settling when it releases */
+const queues = new WeakMap<Database.Database, Promise<void>>();
+
+/** Pooled transactions open in the current async context, by the connection they started on */
+const scopes = new AsyncLocalStorage<Map<object, object>>();
+
+/** The connection each pooled transaction started on */
+const roots = new WeakMap<object, object>();
+
+/**
+ * Run a callback in a transaction, committing when it resolves and rolling back when it throws
+ */
+export async function runTransaction<TConnection extends object, T>(
+  connection: TConnection,
+  callback: (connection: TConnection) => Promise<T> | T
+): Promise<T> {
+  if (!isSQLite(connection)) {
+    return runPooledTransaction(connection, callback);
+  }
+
+  const client = sqliteClient(connection);
+  return withWriteLock(connection, async () => {
+    const depth = owners.getStore()!.get(client)!;
+    const savepoint = `catalyst_transaction_${depth}`;
+
+    client.exec(depth === 0 ? 'BEGIN IMMEDIATE' : `SAVEPOINT ${savepoint}`);
+
+    try {
+      const result = await owners.run(new Map(owners.getStore()).set(client, depth + 1), async () => callback(connection));
+      client.exec(depth === 0 ? 'COMMIT' : `RELEASE ${savepoint}`);
+      return result;
+    } catch (error) {
+      if (client.inTransaction) {
+        client.exec(depth === 0 ? 'ROLLBACK' : `ROLLBACK TO ${savepoint}; RELEASE ${savepoint}`);
+      }
+      throw error;
+    }
+  });
+}
+
+/**
+ * Run a callback holding a SQLite connection's write lock
+ *
+ * Waits until transactions of other async contexts settle, so writes made
+ * in the callback never join them. Runs at once when the current context
+ * holds the lock, and on other dialects.
+ */
+export async function withWriteLock<T>(connection: object, callback: () => Promise<T> | T): Promise<T> {
+  if (!isSQLite(connection)) return callback();
+
+  const client = sqliteClient(connection);
+  if (owners.getStore()?.has(client)) return callback();
+
+  const previous = queues.get(client) ?? Promise.resolve();
+  let release!: () => void;
+  const released = new Promise<void>((resolve) => {
+    release = resolve;
+  });
+  queues.set(client, previous.then(() => released));
+
+  await previous;
+  try {
+    return await owners.run(new Map(owners.getStore()).set(client, 0), async () => callback());
+  } finally {
+    release();
+  }
+}
+
+/**
+ * Run a callback in a drizzle transaction bound to the async context
+ *
+ * Inside an open transaction drizzle nests the new one in a savepoint.
+ */
+async function runPooledTransaction<TConnection extends object, T>(
+  connection: TConnection,
+  callback: (connection: TConnection) => Promise<T> | T
+): Promise<T> {
+  const root = roots.get(connection) ?? connection;
+  const current = transactionConnection(root) as unknown as {
+    transaction<R>(callback: (transaction: object) => Promise<R>): Promise<R>;
+  };
+
+  return current.transaction(async (transaction) => {
+    roots.set(transaction, root);
+    const scope = new Map(scopes.getStore());
+    scope.set(root, transaction);
+    return scopes.run(scope, async () => callback(transaction as TConnection));
+  });
+}
+
+/**
+ * Get the pooled transaction open on a connection in the current async context, or the connection
+ */
+export function transactionConnection<TConnection extends object>(connection: TConnection): TConnection {
+  return (scopes.getStore()?.get(connection) as TConnection | undefined) ?? connection;
+}
+
+/**
+ * Determine if a connection has a transaction open in the current async context
+ */
+export function inTransaction(connection: object): boolean {
+  if (!isSQLite(connection)) {
+    return roots.has(connection) || scopes.getStore()?.has(connection) === true;
+  }
+  return (owners.getStore()?.get(sqliteClient(connection)) ?? 0) > 0;
+}
+
+function sqliteClient(connection: object): Database.Database {
+  return (connection as { $client: Database.Database }).$client;
+}
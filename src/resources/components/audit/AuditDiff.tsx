@@ -0,0 +1,85 @@
+import type { AuditDiff as AuditDiffEntry } from '@/backend/Models/Model';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/resources/components/ui/table';
+
+interface AuditDiffProps {
+  /** Audits serialized on the server with `audit.toDiff()` */
+  audits: AuditDiffEntry[];
+}
+
+const eventStyles: Record<AuditDiffEntry['event'], string> = {
+  created: 'bg-emerald-500/10 text-emerald-400',
+  updated: 'bg-sky-500/10 text-sky-400',
+  deleted: 'bg-red-500/10 text-red-400',
+  restored: 'bg-amber-500/10 text-amber-400',
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Change history of a model, one table of attribute changes per audit
+ *
+ * @example
+ * ```tsx
+ * const audits = await post.audits().orderByDesc('id').get();
+ * <AuditDiff audits={audits.map((audit) => audit.toDiff())} />
+ * ```
+ */
+export function AuditDiff({ audits }: AuditDiffProps) {
+  if (audits.length === 0) {
+    return <p className="text-sm text-muted-foreground">No changes recorded.</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {audits.map((audit) => (
+        <section key={audit.id} className="rounded-lg border border-white/10">
+          <header className="flex flex-wrap items-center gap-3 border-b border-white/10 px-4 py-3 text-sm">
+            <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${eventStyles[audit.event]}`}>
+              {audit.event}
+            </span>
+            <time dateTime={audit.createdAt} className="text-muted-foreground">
+              {new Date(audit.createdAt).toLocaleString()}
+            </time>
+            <span className="text-muted-foreground">by {audit.userId ?? 'system'}</span>
+            {audit.requestId && (
+              <span className="ml-auto font-mono text-xs text-muted-foreground">{audit.requestId}</span>
+            )}
+          </header>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Attribute</TableHead>
+                <TableHead>Old</TableHead>
+                <TableHead>New</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {audit.changes.map((change) => (
+                <TableRow key={change.attribute}>
+                  <TableCell className="font-mono text-xs">{change.attribute}</TableCell>
+                  <TableCell className="font-mono text-xs text-red-400 line-through decoration-red-400/40">
+                    {formatValue(change.old)}
+                  </TableCell>
+                  <TableCell className="font-mono text-xs text-emerald-400">{formatValue(change.new)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </section>
+      ))}
+    </div>
+  );
+}
+
+export default AuditDiff;
@@ -1,5 +1,7 @@
 import * as React from 'react';
+import Link from 'next/link';
 import { cn } from '@/resources/lib/utils';
+import type { PaginationLink } from '@/backend/Pagination/Paginator';
 
 const Table = React.forwardRef<
   HTMLTableElement,
@@ -104,6 +106,73 @@ const TableCaption = React.forwardRef<
 ));
 TableCaption.displayName = 'TableCaption';
 
+interface TablePaginationProps extends React.HTMLAttributes<HTMLElement> {
+  /** Serialized paginator from paginate(), simplePaginate() or cursorPaginate() */
+  paginator: {
+    links?: PaginationLink[];
+    prev_page_url: string | null;
+    next_page_url: string | null;
+    from?: number | null;
+    to?: number | null;
+    total?: number;
+  };
+}
+
+const paginationItemClass =
+  'inline-flex h-9 min-w-9 items-center justify-center rounded-md px-3 text-sm font-medium transition-colors';
+
+/**
+ * Pagination controls for a table, driven by a serialized paginator
+ */
+const TablePagination = React.forwardRef<HTMLElement, TablePaginationProps>(
+  ({ className, paginator, ...props }, ref) => {
+    const links: PaginationLink[] = paginator.links ?? [
+      { url: paginator.prev_page_url, label: 'Previous', active: false },
+      { url: paginator.next_page_url, label: 'Next', active: false },
+    ];
+
+    return (
+      <nav
+        ref={ref}
+        aria-label="Pagination"
+        className={cn('flex items-center justify-between gap-4 py-4', className)}
+        {...props}
+      >
+        {paginator.total !== undefined && paginator.from != null && paginator.to != null ? (
+          <p className="text-sm text-muted-foreground">
+            Showing {paginator.from} to {paginator.to} of {paginator.total} results
+          </p>
+        ) : (
+          <span />
+        )}
+        <ul className="flex items-center gap-1">
+          {links.map((link, index) => (
+            <li key={`${link.label}-${index}`}>
+              {link.url && !link.active ? (
+                <Link href={link.url} className={cn(paginationItemClass, 'hover:bg-accent hover:text-accent-foreground')}>
+                  {link.label}
+                </Link>
+              ) : (
+                <span
+                  aria-current={link.active ? 'page' : undefined}
+                  aria-disabled={link.active ? undefined : true}
+                  className={cn(
+                    paginationItemClass,
+                    link.active ? 'border border-input bg-background' : 'text-muted-foreground opacity-50'
+                  )}
+                >
+                  {link.label}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      </nav>
+    );
+  }
+);
+TablePagination.displayName = 'TablePagination';
+
 export {
   Table,
   TableHeader,
@@ -113,4 +182,5 @@ export {
   TableRow,
   TableCell,
   TableCaption,
+  TablePagination,
 };
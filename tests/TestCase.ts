@@ -6,6 +6,7 @@
 
 import { describe, it, expect, beforeEach, afterEach, beforeAll, afterAll, vi } from 'vitest';
 import Context, { User } from '@/backend/Core/Context';
+import { faker } from '@/backend/Models/Factories';
 
 // ==================== TEST CASE CLASS ====================
 
@@ -44,12 +45,14 @@ export abstract class TestCase {
 
   /**
    * Create a fake user for testing
+   *
+   * Use a model factory instead when the user must exist in the database.
    */
   protected createUser(overrides: Partial<User> = {}): User {
     return {
-      id: 'test-user-' + Math.random().toString(36).substring(7),
-      email: 'test@example.com',
-      name: 'Test User',
+      id: faker.uuid(),
+      email: faker.unique().email(),
+      name: faker.name(),
       ...overrides,
     };
   }
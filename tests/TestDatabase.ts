@@ -0,0 +1,70 @@
+/**
+ * Catalyst Test Database
+ *
+ * An in-memory SQLite connection standing in for `@/database` in unit
+ * tests. Mock the module with `sqliteDatabase()`, then use `db()` for
+ * setup statements: it returns the mocked connection typed as SQLite, with
+ * drizzle's `run`, `get` and `all`.
+ *
+ * @example
+ * ```ts
+ * import { db } from '../TestDatabase';
+ *
+ * vi.mock('@/database', () => import('../TestDatabase').then(({ sqliteDatabase }) => sqliteDatabase()));
+ *
+ * db().run(sql`CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT NOT NULL)`);
+ * ```
+ */
+
+import type { Logger } from 'drizzle-orm';
+import type { SQLiteConnection } from '@/database';
+
+export interface TestDatabaseOptions {
+  /** Database file, for tests that open a second connection to it (default: in memory) */
+  filename?: string;
+  /** Report statements to query listeners, as the real connections do */
+  instrument?: boolean;
+  /** Drizzle logger receiving every query */
+  logger?: Logger;
+}
+
+/** The connection the mocked `db()` and `dbWrite()` return */
+let current: object | null = null;
+
+/**
+ * Open the connection and get the `@/database` exports that return it
+ */
+export async function sqliteDatabase(options: TestDatabaseOptions = {}) {
+  const { default: Database } = await import('better-sqlite3');
+  const { drizzle } = await import('drizzle-orm/better-sqlite3');
+
+  let client = new Database(options.filename ?? ':memory:');
+  if (options.instrument) {
+    const { instrumentConnection } = await import('@/database/QueryLog');
+    client = instrumentConnection(client, 'sqlite');
+  }
+
+  current = drizzle(client, { logger: options.logger });
+  return { db: () => current, dbWrite: () => current };
+}
+
+/**
+ * Point the mocked `db()` and `dbWrite()` at another connection, returning the previous one
+ */
+export function swapConnection(connection: object): object {
+  const previous = db();
+  current = connection;
+  return previous;
+}
+
+/**
+ * Get the mocked connection
+ */
+export function db(): SQLiteConnection {
+  if (!current) {
+    throw new Error("Mock '@/database' with sqliteDatabase() before using the test database.");
+  }
+  return current as SQLiteConnection;
+}
+
+export const dbWrite = db;
@@ -0,0 +1,110 @@
+/**
+ * Unit Test - Aggregates
+ *
+ * Tests for aggregate functions, grouping, joins and relationship aggregates.
+ */
+
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { sql } from 'drizzle-orm';
+import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
+import { db } from '../TestDatabase';
+import { Model } from '@/backend/Models/Model';
+
+vi.mock('@/database', () => import('../TestDatabase').then(({ sqliteDatabase }) => sqliteDatabase()));
+
+const customers = sqliteTable('customers', {
+  id: integer('id').primaryKey(),
+  name: text('name').notNull(),
+});
+
+const orders = sqliteTable('orders', {
+  id: integer('id').primaryKey(),
+  customer_id: integer('customer_id').notNull(),
+  status: text('status').notNull(),
+  total: integer('total').notNull(),
+  placed_at: integer('placed_at', { mode: 'timestamp' }).notNull(),
+});
+
+class Customer extends Model {
+  protected table = 'customers';
+  protected schemaTable = customers;
+
+  orders() {
+    return this.hasMany(Order, 'customer_id');
+  }
+}
+
+class Order extends Model {
+  protected table = 'orders';
+  protected schemaTable = orders;
+}
+
+describe('Aggregates', () => {
+  beforeAll(() => {
+    db().run(sql`CREATE TABLE customers (id INTEGER PRIMARY KEY, name TEXT NOT NULL)`);
+    db().run(sql`CREATE TABLE orders (id INTEGER PRIMARY KEY, customer_id INTEGER NOT NULL, status TEXT NOT NULL, total INTEGER NOT NULL, placed_at INTEGER NOT NULL)`);
+
+    db().insert(customers).values([
+      { id: 1, name: 'Ada' },
+      { id: 2, name: 'Grace' },
+      { id: 3, name: 'Linus' },
+    ]).run();
+    db().insert(orders).values([
+      { id: 1, customer_id: 1, status: 'paid', total: 100, placed_at: new Date('2026-01-01') },
+      { id: 2, customer_id: 1, status: 'paid', total: 50, placed_at: new Date('2026-02-01') },
+      { id: 3, customer_id: 2, status: 'refunded', total: 30, placed_at: new Date('2026-03-01') },
+      { id: 4, customer_id: 2, status: 'paid', total: 20, placed_at: new Date('2026-04-01') },
+    ]).run();
+  });
+
+  it('computes aggregates over the filtered rows', async () => {
+    expect(await Order.query().sum('total')).toBe(200);
+    expect(await Order.query().where('status', 'paid').avg('total')).toBeCloseTo(56.67, 2);
+    expect(await Order.query().min('total')).toBe(20);
+    expect(await Order.query().max('placed_at')).toEqual(new Date('2026-04-01'));
+    expect(await Order.query().where('status', 'void').sum('total')).toBe(0);
+    expect(await Order.query().where('status', 'void').avg('total')).toBeNull();
+  });
+
+  it('groups rows and filters groups with having', async () => {
+    const query = Order.query()
+      .select('status')
+      .addSelect({ revenue: sql`sum(${orders.total})` })
+      .groupBy('status')
+      .having('revenue', '>', 40)
+      .orderByDesc('revenue');
+
+    expect(await query.count()).toBe(1);
+    expect((await query.get()).map((row) => row.toJSON())).toEqual([{ status: 'paid', revenue: 170 }]);
+  });
+
+  it('joins related tables', async () => {
+    const refunded = await Customer.query()
+      .join(orders, 'customers.id', '=', 'orders.customer_id')
+      .where('orders.status', 'refunded')
+      .get();
+    expect(refunded.map((customer) => customer.getAttribute('name'))).toEqual(['Grace']);
+
+    const withoutOrders = await Customer.query()
+      .leftJoin(orders, 'customers.id', 'orders.customer_id')
+      .whereNull('orders.id')
+      .get();
+    expect(withoutOrders.map((customer) => customer.getAttribute('name'))).toEqual(['Linus']);
+
+    expect(() => Customer.query().join(orders, 'customers.id', 'orders.missing')).toThrow('Invalid join condition');
+  });
+
+  it('attaches relationship counts and sums', async () => {
+    const result = await Customer.query()
+      .withCount('orders', { 'orders as paid_orders': (query) => query.where('status', 'paid') })
+      .withSum('orders', 'total')
+      .orderByDesc('orders_sum_total')
+      .get();
+
+    expect(result.map((customer) => customer.toJSON())).toEqual([
+      { id: 1, name: 'Ada', orders_count: 2, paid_orders: 2, orders_sum_total: 150 },
+      { id: 2, name: 'Grace', orders_count: 2, paid_orders: 1, orders_sum_total: 50 },
+      { id: 3, name: 'Linus', orders_count: 0, paid_orders: 0, orders_sum_total: null },
+    ]);
+  });
+});
@@ -0,0 +1,109 @@
+/**
+ * Unit Test - Auditing
+ *
+ * Tests for audit records on create/update/delete/restore, the acting user
+ * and request id from the Context, revertTo() and the diff view data.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import { sql } from 'drizzle-orm';
+import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
+import { db } from '../TestDatabase';
+import { Model, Audit } from '@/backend/Models/Model';
+import Context from '@/backend/Core/Context';
+
+vi.mock('@/database', () => import('../TestDatabase').then(({ sqliteDatabase }) => sqliteDatabase()));
+
+const documents = sqliteTable('documents', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  title: text('title').notNull(),
+  status: text('status').notNull(),
+  secret: text('secret'),
+  published_at: integer('published_at', { mode: 'timestamp' }),
+  deleted_at: integer('deleted_at', { mode: 'timestamp' }),
+});
+
+class Document extends Model {
+  protected table = 'documents';
+  protected schemaTable = documents;
+  protected timestamps = false;
+  protected softDeletes = true;
+  protected auditable = true;
+  protected hidden = ['secret'];
+}
+
+const user = { id: 'user-1', email: 'ada@example.com', name: 'Ada' };
+
+describe('Auditing', () => {
+  beforeAll(() => {
+    db().run(sql`CREATE TABLE documents (id INTEGER PRIMARY KEY AUTOINCREMENT, title TEXT NOT NULL, status TEXT NOT NULL, secret TEXT, published_at INTEGER, deleted_at INTEGER)`);
+    db().run(sql`CREATE TABLE audits (
+      id INTEGER PRIMARY KEY AUTOINCREMENT, auditable_type TEXT NOT NULL, auditable_id NUMERIC NOT NULL, event TEXT NOT NULL,
+      old_values TEXT NOT NULL DEFAULT '{}', new_values TEXT NOT NULL DEFAULT '{}', user_id TEXT, request_id TEXT, created_at INTEGER NOT NULL
+    )`);
+  });
+
+  beforeEach(() => {
+    db().run(sql`DELETE FROM audits`);
+  });
+
+  it('records who changed which attributes in each request', async () => {
+    const document = await Context.run({ user, requestId: 'req-1' }, async () => {
+      const created = new Document().forceFill({ title: 'Draft', status: 'draft', secret: 's3cret' });
+      await created.save();
+      created.setAttribute('status', 'review');
+      await created.save();
+      return created;
+    });
+
+    const audits = await document.audits().orderBy('id').get();
+
+    expect(audits.map((audit) => audit.getAttribute('event'))).toEqual(['created', 'updated']);
+    expect(audits[0].getAttribute('new_values')).toEqual({ id: document.getKey(), title: 'Draft', status: 'draft' });
+    expect(audits[1].getModified()).toEqual({ status: { old: 'draft', new: 'review' } });
+    expect(audits[1].getAttributes()).toMatchObject({ user_id: 'user-1', request_id: 'req-1', auditable_type: 'Document' });
+  });
+
+  it('records deletes and restores, skipping saves without changes', async () => {
+    const document = new Document().forceFill({ title: 'Temp', status: 'draft' });
+    await document.save();
+    await document.save();
+    await document.delete();
+    await document.restore();
+
+    const events = (await document.audits().orderBy('id').get()).map((audit) => audit.getAttribute('event'));
+    expect(events).toEqual(['created', 'deleted', 'restored']);
+    expect((await document.audits().where('event', 'restored').first())?.getAttribute('user_id')).toBeNull();
+  });
+
+  it('reverts the model to its state after an audit', async () => {
+    const published = new Date('2026-01-02T03:04:05Z');
+    const document = new Document().forceFill({ title: 'v1', status: 'draft' });
+    await document.save();
+    document.forceFill({ title: 'v2', published_at: published });
+    await document.save();
+    document.forceFill({ title: 'v3', status: 'archived', published_at: null });
+    await document.save();
+
+    const [, second] = await document.audits().orderBy('id').get();
+    await document.revertTo(second);
+
+    const fresh = (await Document.find(document.getKey()))!;
+    expect(fresh.getAttributes()).toMatchObject({ title: 'v2', status: 'draft', published_at: published });
+    expect(await document.audits().count()).toBe(4);
+    await expect(fresh.revertTo(9999)).rejects.toThrow(/does not belong/);
+  });
+
+  it('serializes audits for the diff view', async () => {
+    const document = new Document().forceFill({ title: 'Diff', status: 'draft' });
+    await document.save();
+    document.setAttribute('status', 'live');
+    await document.save();
+
+    const diff = (await document.audits().orderByDesc('id').first())!.toDiff();
+
+    expect(diff).toMatchObject({ event: 'updated', userId: null, changes: [{ attribute: 'status', old: 'draft', new: 'live' }] });
+    expect(new Date(diff.createdAt).getTime()).not.toBeNaN();
+    expect((await Audit.query().where('auditable_id', document.getKey()).first())?.getAttribute('event')).toBe('created');
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * Unit Test - Bulk Inserts
+ *
+ * Tests for Model.insert, Model.insertOrIgnore and Model.upsert, including
+ * batching under the SQLite variable limit and transactional rollback.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import { sql } from 'drizzle-orm';
+import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
+import { db } from '../TestDatabase';
+import { Model } from '@/backend/Models/Model';
+
+vi.mock('@/database', () => import('../TestDatabase').then(({ sqliteDatabase }) => sqliteDatabase()));
+
+const products = sqliteTable('products', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  sku: text('sku').notNull().unique(),
+  name: text('name').notNull(),
+  stock: integer('stock').notNull().default(0),
+  created_at: integer('created_at', { mode: 'timestamp' }),
+  updated_at: integer('updated_at', { mode: 'timestamp' }),
+});
+
+class Product extends Model {
+  protected table = 'products';
+  protected schemaTable = products;
+}
+
+const skus = (count: number, offset: number = 0) =>
+  Array.from({ length: count }, (_, index) => ({ sku: `SKU-${index + offset}`, name: `Product ${index + offset}` }));
+
+describe('Bulk Inserts', () => {
+  beforeAll(() => {
+    db().run(sql`CREATE TABLE products (
+      id INTEGER PRIMARY KEY AUTOINCREMENT, sku TEXT NOT NULL UNIQUE, name TEXT NOT NULL,
+      stock INTEGER NOT NULL DEFAULT 0, created_at INTEGER, updated_at INTEGER
+    )`);
+  });
+
+  beforeEach(() => {
+    db().run(sql`DELETE FROM products`);
+  });
+
+  it('inserts more rows than fit in one statement, with timestamps', async () => {
+    expect(await Product.insert(skus(1500))).toBe(1500);
+
+    const last = (await Product.query().where('sku', 'SKU-1499').first())!;
+    expect(await Product.query().count()).toBe(1500);
+    expect(last.getAttribute('stock')).toBe(0);
+    expect(last.getAttribute('created_at')).toBeInstanceOf(Date);
+  });
+
+  it('rolls back every batch when one fails', async () => {
+    const rows = [...skus(400), { sku: 'SKU-0', name: 'Duplicate' }];
+
+    await expect(Product.insert(rows)).rejects.toThrow(/UNIQUE/);
+    expect(await Product.query().count()).toBe(0);
+  });
+
+  it('skips conflicting rows with insertOrIgnore', async () => {
+    await Product.insert(skus(3));
+
+    expect(await Product.insertOrIgnore(skus(5))).toBe(2);
+    expect(await Product.query().count()).toBe(5);
+  });
+
+  it('updates matching rows with upsert', async () => {
+    await Product.insert([{ sku: 'A', name: 'Apple', stock: 1 }, { sku: 'B', name: 'Banana', stock: 2 }]);
+
+    const changed = await Product.upsert(
+      [{ sku: 'A', name: 'Apricot', stock: 10 }, { sku: 'C', name: 'Cherry', stock: 3 }],
+      'sku',
+      ['stock']
+    );
+    const rows = await Product.query().orderBy('sku').get();
+
+    expect(changed).toBe(2);
+    expect(rows.map((row) => [row.getAttribute('name'), row.getAttribute('stock')])).toEqual([
+      ['Apple', 10],
+      ['Banana', 2],
+      ['Cherry', 3],
+    ]);
+  });
+
+  it('updates every non-unique column by default', async () => {
+    await Product.insert([{ sku: 'A', name: 'Apple', stock: 1 }]);
+    await Product.upsert([{ sku: 'A', name: 'Apricot', stock: 5 }], ['sku']);
+
+    expect((await Product.query().first())?.getAttributes()).toMatchObject({ sku: 'A', name: 'Apricot', stock: 5 });
+  });
+});
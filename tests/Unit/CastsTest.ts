@@ -0,0 +1,148 @@
+/**
+ * Unit Test - Attribute Casts
+ *
+ * Tests for custom cast classes, encrypted casts, accessors, mutators and
+ * appended attributes.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, vi } from 'vitest';
+import { sql } from 'drizzle-orm';
+import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
+import { db } from '../TestDatabase';
+import { Model, CastsAttributes } from '@/backend/Models/Model';
+import { Encrypter, DecryptException } from '@/backend/Services/Encrypter';
+
+vi.mock('@/database', () => import('../TestDatabase').then(({ sqliteDatabase }) => sqliteDatabase()));
+
+const customers = sqliteTable('customers', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  first_name: text('first_name').notNull(),
+  last_name: text('last_name').notNull(),
+  email: text('email').notNull(),
+  balance: integer('balance').notNull().default(0),
+  currency: text('currency').notNull().default('USD'),
+  ssn: text('ssn'),
+  preferences: text('preferences'),
+});
+
+class Money {
+  constructor(public amount: number, public currency: string) {}
+
+  format(): string {
+    return `${(this.amount / 100).toFixed(2)} ${this.currency}`;
+  }
+}
+
+class MoneyCast implements CastsAttributes<Money, Money> {
+  get(_model: Model, _key: string, value: unknown, attributes: Record<string, unknown>): Money {
+    return new Money(Number(value), String(attributes.currency));
+  }
+
+  set(_model: Model, key: string, value: Money): Record<string, unknown> {
+    return { [key]: value.amount, currency: value.currency };
+  }
+}
+
+class Customer extends Model {
+  protected table = 'customers';
+  protected schemaTable = customers;
+  protected timestamps = false;
+  protected casts = { balance: MoneyCast, ssn: 'encrypted', preferences: 'encrypted:json' };
+  protected hidden = ['ssn'];
+  protected appends = ['full_name'];
+
+  getFullNameAttribute(): string {
+    return `${this.getAttribute('first_name')} ${this.getAttribute('last_name')}`;
+  }
+
+  setEmailAttribute(value: string): string {
+    return value.trim().toLowerCase();
+  }
+}
+
+const makeCustomer = (): Customer =>
+  new Customer().forceFill({
+    first_name: 'Ada',
+    last_name: 'Lovelace',
+    email: '  Ada@Example.COM ',
+    balance: new Money(1250, 'EUR'),
+    ssn: '123-45-6789',
+    preferences: { theme: 'dark', tags: ['math'] },
+  });
+
+describe('Attribute Casts', () => {
+  beforeAll(() => {
+    Model.encryptUsing(new Encrypter(Encrypter.generateKey()));
+    db().run(sql`CREATE TABLE customers (
+      id INTEGER PRIMARY KEY AUTOINCREMENT, first_name TEXT NOT NULL, last_name TEXT NOT NULL, email TEXT NOT NULL,
+      balance INTEGER NOT NULL DEFAULT 0, currency TEXT NOT NULL DEFAULT 'USD', ssn TEXT, preferences TEXT
+    )`);
+  });
+
+  afterAll(() => {
+    Model.encryptUsing(null);
+  });
+
+  describe('cast classes', () => {
+    it('sets several columns and rebuilds the value object', async () => {
+      const customer = makeCustomer();
+      await customer.save();
+
+      const fresh = (await Customer.find(customer.getKey()))!;
+      expect(fresh.getAttributes()).toMatchObject({ balance: 1250, currency: 'EUR' });
+      expect((fresh.getAttribute('balance') as Money).format()).toBe('12.50 EUR');
+    });
+
+    it('saves changes made to the cast object', async () => {
+      const customer = makeCustomer();
+      await customer.save();
+
+      (customer.getAttribute('balance') as Money).amount = 900;
+      expect(customer.isDirty('balance')).toBe(true);
+      await customer.save();
+
+      expect((await Customer.find(customer.getKey()))!.getAttributes().balance).toBe(900);
+    });
+  });
+
+  describe('encrypted casts', () => {
+    it('stores ciphertext and decrypts strings and JSON', async () => {
+      const customer = makeCustomer();
+      await customer.save();
+
+      const [row] = db().select().from(customers).where(sql`id = ${customer.getKey()}`).all();
+      expect(row.ssn).not.toContain('123-45-6789');
+      expect(row.preferences).not.toContain('dark');
+
+      const fresh = (await Customer.find(customer.getKey()))!;
+      expect(fresh.getAttribute('ssn')).toBe('123-45-6789');
+      expect(fresh.getAttribute('preferences')).toEqual({ theme: 'dark', tags: ['math'] });
+      expect(fresh.isDirty()).toBe(false);
+    });
+
+    it('rejects tampered payloads', () => {
+      const customer = new Customer().setRawAttributes({ ssn: Buffer.from('{"iv":"AA==","value":"AA==","tag":"AA=="}').toString('base64') });
+
+      expect(() => customer.getAttribute('ssn')).toThrow(DecryptException);
+    });
+  });
+
+  describe('accessors, mutators and appends', () => {
+    it('applies mutators on write and accessors on read', () => {
+      const customer = makeCustomer();
+
+      expect(customer.getAttributes().email).toBe('ada@example.com');
+      expect(customer.getAttribute('full_name')).toBe('Ada Lovelace');
+    });
+
+    it('serializes appended accessors and casts, without hidden attributes', () => {
+      const json = makeCustomer().append('initials').toJSON() as Record<string, unknown>;
+
+      expect(json.full_name).toBe('Ada Lovelace');
+      expect(json.preferences).toEqual({ theme: 'dark', tags: ['math'] });
+      expect(json.balance).toBeInstanceOf(Money);
+      expect(json).not.toHaveProperty('ssn');
+      expect(json).toHaveProperty('initials', undefined);
+    });
+  });
+});
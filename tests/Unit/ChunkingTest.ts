@@ -0,0 +1,115 @@
+/**
+ * Unit Test - Chunking
+ *
+ * Tests for chunk(), chunkById(), lazy() and cursor() iteration.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { sql } from 'drizzle-orm';
+import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
+import { db } from '../TestDatabase';
+import { Model } from '@/backend/Models/Model';
+
+vi.mock('@/database', () => import('../TestDatabase').then(({ sqliteDatabase }) => sqliteDatabase()));
+
+const events = sqliteTable('events', {
+  id: integer('id').primaryKey(),
+  type: text('type').notNull(),
+  processed: integer('processed', { mode: 'boolean' }).notNull(),
+  created_at: integer('created_at', { mode: 'timestamp' }).notNull(),
+});
+
+class Event extends Model {
+  protected table = 'events';
+  protected schemaTable = events;
+}
+
+const keys = (models: Model[]) => models.map((model) => model.getKey());
+
+describe('Chunking', () => {
+  beforeEach(() => {
+    db().run(sql`DROP TABLE IF EXISTS events`);
+    db().run(sql`CREATE TABLE events (id INTEGER PRIMARY KEY, type TEXT NOT NULL, processed INTEGER NOT NULL, created_at INTEGER NOT NULL)`);
+    db().insert(events).values(
+      Array.from({ length: 10 }, (_, i) => ({
+        id: i + 1,
+        type: i % 2 === 0 ? 'click' : 'view',
+        processed: false,
+        created_at: new Date(Date.UTC(2026, 0, i + 1)),
+      }))
+    ).run();
+  });
+
+  it('processes results in chunks', async () => {
+    const chunks: unknown[][] = [];
+    const completed = await Event.query().chunk(4, (models, page) => {
+      chunks.push([page, ...keys(models)]);
+    });
+
+    expect(completed).toBe(true);
+    expect(chunks).toEqual([[1, 1, 2, 3, 4], [2, 5, 6, 7, 8], [3, 9, 10]]);
+  });
+
+  it('stops when the callback returns false', async () => {
+    let calls = 0;
+    const completed = await Event.query().chunk(3, () => {
+      calls++;
+      return false;
+    });
+
+    expect(completed).toBe(false);
+    expect(calls).toBe(1);
+  });
+
+  it('chunks by id while rows are being updated', async () => {
+    const seen: unknown[] = [];
+    await Event.query()
+      .where('processed', false)
+      .where((query) => query.where('type', 'click').orWhere('id', '>', 8))
+      .chunkById(2, async (models) => {
+        seen.push(...keys(models));
+        await Event.query().whereIn('id', keys(models)).update({ processed: true });
+      });
+
+    expect(seen).toEqual([1, 3, 5, 7, 9, 10]);
+    expect(await Event.query().where('processed', true).count()).toBe(6);
+  });
+
+  it('streams models lazily and through a cursor', async () => {
+    const lazy: unknown[] = [];
+    for await (const event of Event.query().where('type', 'view').lazy(2)) {
+      lazy.push(event.getKey());
+    }
+
+    const streamed: Event[] = [];
+    for await (const event of Event.query().orderByDesc('id').cursor()) {
+      streamed.push(event);
+      if (streamed.length === 3) break;
+    }
+
+    expect(lazy).toEqual([2, 4, 6, 8, 10]);
+    expect(keys(streamed)).toEqual([10, 9, 8]);
+    expect(streamed[0].getAttribute('created_at')).toEqual(new Date(Date.UTC(2026, 0, 10)));
+    expect(streamed[0].getAttribute('processed')).toBe(false);
+  });
+
+  it('saves models inside a cursor loop on the shared SQLite connection', async () => {
+    const seen: unknown[] = [];
+    for await (const event of Event.query().where('processed', false).cursor(3)) {
+      seen.push(event.getKey());
+      event.setAttribute('processed', true);
+      await event.save();
+    }
+
+    expect(seen).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    expect(await Event.query().where('processed', true).count()).toBe(10);
+  });
+
+  it('clones queries independently', async () => {
+    const base = Event.query().where('type', 'click');
+    const first = base.clone().where('id', '>', 5);
+
+    expect(await base.count()).toBe(5);
+    expect(await first.count()).toBe(2);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Unit Test - Eager Loading
+ *
+ * Tests for QueryBuilder.with(), Model.load() and Model.loadMissing().
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import { sql } from 'drizzle-orm';
+import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
+import { db } from '../TestDatabase';
+import { Model } from '@/backend/Models/Model';
+
+const queries = vi.hoisted(() => ({ count: 0 }));
+
+vi.mock('@/database', () => import('../TestDatabase').then(({ sqliteDatabase }) => sqliteDatabase({
+  logger: { logQuery: () => { queries.count++; } },
+})));
+
+const users = sqliteTable('users', {
+  id: integer('id').primaryKey(),
+  name: text('name').notNull(),
+});
+
+const posts = sqliteTable('posts', {
+  id: integer('id').primaryKey(),
+  user_id: integer('user_id').notNull(),
+  title: text('title').notNull(),
+});
+
+const comments = sqliteTable('comments', {
+  id: integer('id').primaryKey(),
+  post_id: integer('post_id').notNull(),
+  body: text('body').notNull(),
+});
+
+class User extends Model {
+  protected table = 'users';
+  protected schemaTable = users;
+
+  posts() {
+    return this.hasMany(Post, 'user_id');
+  }
+}
+
+class Post extends Model {
+  protected table = 'posts';
+  protected schemaTable = posts;
+
+  author() {
+    return this.belongsTo(User, 'user_id');
+  }
+
+  comments() {
+    return this.hasMany(Comment, 'post_id');
+  }
+}
+
+class Comment extends Model {
+  protected table = 'comments';
+  protected schemaTable = comments;
+}
+
+describe('Eager Loading', () => {
+  beforeAll(() => {
+    db().run(sql`CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT NOT NULL)`);
+    db().run(sql`CREATE TABLE posts (id INTEGER PRIMARY KEY, user_id INTEGER NOT NULL, title TEXT NOT NULL)`);
+    db().run(sql`CREATE TABLE comments (id INTEGER PRIMARY KEY, post_id INTEGER NOT NULL, body TEXT NOT NULL)`);
+
+    db().insert(users).values([
+      { id: 1, name: 'Ada' },
+      { id: 2, name: 'Grace' },
+      { id: 3, name: 'Linus' },
+    ]).run();
+    db().insert(posts).values([
+      { id: 1, user_id: 1, title: 'First' },
+      { id: 2, user_id: 1, title: 'Second' },
+      { id: 3, user_id: 2, title: 'Third' },
+    ]).run();
+    db().insert(comments).values([
+      { id: 1, post_id: 1, body: 'Nice' },
+      { id: 2, post_id: 3, body: 'Great' },
+    ]).run();
+  });
+
+  beforeEach(() => {
+    queries.count = 0;
+  });
+
+  it('loads a has-many relation with one query per relation', async () => {
+    const result = await User.query().with('posts').get();
+
+    expect(queries.count).toBe(2);
+    expect(result.map((user) => user.getRelation<Post[]>('posts')?.length)).toEqual([2, 1, 0]);
+  });
+
+  it('loads nested relations', async () => {
+    const result = await User.query().with('posts.comments').get();
+
+    expect(queries.count).toBe(3);
+    const firstPosts = result[0].getRelation<Post[]>('posts') ?? [];
+    expect(firstPosts[0].getRelation<Comment[]>('comments')).toHaveLength(1);
+    expect(firstPosts[1].getRelation<Comment[]>('comments')).toHaveLength(0);
+  });
+
+  it('loads belongs-to relations and applies constraints', async () => {
+    const result = await Post.query()
+      .with('author', { comments: (query) => query.where('body', 'Great') })
+      .get();
+
+    expect(result.map((post) => post.getRelation<User>('author')?.getAttribute('name'))).toEqual(['Ada', 'Ada', 'Grace']);
+    expect(result.map((post) => post.getRelation<Comment[]>('comments')?.length)).toEqual([0, 0, 1]);
+  });
+
+  it('only loads missing relations', async () => {
+    const result = await User.query().with('posts').get();
+    queries.count = 0;
+
+    await Model.loadMissing(result, 'posts', 'posts.comments');
+
+    expect(queries.count).toBe(1);
+    expect(result[1].getRelation<Post[]>('posts')?.[0].relationLoaded('comments')).toBe(true);
+  });
+
+  it('still resolves relations lazily when awaited', async () => {
+    const user = await User.find(1);
+    const related = await user!.posts();
+
+    expect(related.map((post) => post.getAttribute('title'))).toEqual(['First', 'Second']);
+  });
+
+  it('serializes loaded relations', async () => {
+    const user = await User.with('posts').find(2);
+
+    expect(user?.toJSON()).toEqual({ id: 2, name: 'Grace', posts: [{ id: 3, user_id: 2, title: 'Third' }] });
+  });
+
+  it('throws for undefined relations', async () => {
+    await expect(User.query().with('missing').get()).rejects.toThrow('Call to undefined relationship [missing]');
+  });
+});
@@ -0,0 +1,155 @@
+/**
+ * Unit Test - Model Factories
+ *
+ * Tests for Factory states, sequences, relationships and the fake data generator.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { sql } from 'drizzle-orm';
+import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
+import { db } from '../TestDatabase';
+import { Model } from '@/backend/Models/Model';
+import { Factory, Faker, faker } from '@/backend/Models/Factories';
+
+vi.mock('@/database', () => import('../TestDatabase').then(({ sqliteDatabase }) => sqliteDatabase()));
+
+const users = sqliteTable('users', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  name: text('name').notNull(),
+  email: text('email').notNull(),
+  role: text('role').notNull(),
+  created_at: integer('created_at', { mode: 'timestamp' }),
+  updated_at: integer('updated_at', { mode: 'timestamp' }),
+});
+
+const posts = sqliteTable('posts', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  user_id: integer('user_id').notNull(),
+  title: text('title').notNull(),
+  slug: text('slug').notNull(),
+  created_at: integer('created_at', { mode: 'timestamp' }),
+  updated_at: integer('updated_at', { mode: 'timestamp' }),
+});
+
+interface UserAttributes extends Record<string, unknown> {
+  id: number;
+  name: string;
+  email: string;
+  role: string;
+}
+
+interface PostAttributes extends Record<string, unknown> {
+  id: number;
+  user_id: number;
+  title: string;
+  slug: string;
+}
+
+class User extends Model<UserAttributes> {
+  protected table = 'users';
+  protected schemaTable = users;
+
+  posts() {
+    return this.hasMany(Post, 'user_id');
+  }
+}
+
+class Post extends Model<PostAttributes> {
+  protected table = 'posts';
+  protected schemaTable = posts;
+
+  author() {
+    return this.belongsTo(User, 'user_id');
+  }
+}
+
+class UserFactory extends Factory<User> {
+  protected model = User;
+
+  definition() {
+    return {
+      name: this.faker.name(),
+      email: this.faker.unique().email(),
+      role: 'member',
+    };
+  }
+
+  admin() {
+    return this.state({ role: 'admin' });
+  }
+}
+
+class PostFactory extends Factory<Post> {
+  protected model = Post;
+
+  definition() {
+    return {
+      user_id: UserFactory.new(),
+      title: this.faker.sentence(4),
+      slug: (attributes: Partial<PostAttributes>) => String(attributes.title).toLowerCase().replace(/\W+/g, '-'),
+    };
+  }
+}
+
+describe('Model Factories', () => {
+  beforeEach(() => {
+    db().run(sql`DROP TABLE IF EXISTS users`);
+    db().run(sql`DROP TABLE IF EXISTS posts`);
+    db().run(sql`CREATE TABLE users (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT NOT NULL, email TEXT NOT NULL, role TEXT NOT NULL, created_at INTEGER, updated_at INTEGER)`);
+    db().run(sql`CREATE TABLE posts (id INTEGER PRIMARY KEY AUTOINCREMENT, user_id INTEGER NOT NULL, title TEXT NOT NULL, slug TEXT NOT NULL, created_at INTEGER, updated_at INTEGER)`);
+  });
+
+  it('makes models without saving them', async () => {
+    const user = await UserFactory.new().make({ name: 'Ada Lovelace' });
+
+    expect(user).toBeInstanceOf(User);
+    expect(user.exists).toBe(false);
+    expect(user.getAttribute('name')).toBe('Ada Lovelace');
+    expect(user.getAttribute('email')).toMatch(/@example\.(com|org|net)$/);
+    expect(await User.query().count()).toBe(0);
+  });
+
+  it('creates models with states and sequences', async () => {
+    const admin = await UserFactory.new().admin().create();
+    const team = await UserFactory.count(3).sequence({ role: 'owner' }, { role: 'guest' }).create();
+
+    expect(admin.exists).toBe(true);
+    expect(admin.getKey()).toBe(1);
+    expect(admin.getAttribute('role')).toBe('admin');
+    expect(team.map((user) => user.getAttribute('role'))).toEqual(['owner', 'guest', 'owner']);
+    expect(await User.query().count()).toBe(4);
+  });
+
+  it('creates has-many children for each parent', async () => {
+    const authors = await UserFactory.count(2).has(PostFactory.count(3), 'posts').create();
+
+    expect(await Post.query().count()).toBe(6);
+    expect(await Post.query().where('user_id', authors[1].getKey()).count()).toBe(3);
+    expect(authors[0].getRelation<Post[]>('posts')).toHaveLength(3);
+  });
+
+  it('sets belongs-to parents and resolves attribute callbacks', async () => {
+    const author = await UserFactory.new().create();
+    const post = await PostFactory.new().for(author, 'author').create({ title: 'Hello World' });
+    const orphan = await PostFactory.new().create();
+
+    expect(post.getAttribute('user_id')).toBe(author.getKey());
+    expect(post.getRelation('author')).toBe(author);
+    expect(post.getAttribute('slug')).toBe('hello-world');
+    expect(orphan.getAttribute('user_id')).toBe(2);
+    expect(await User.query().count()).toBe(2);
+  });
+
+  it('generates deterministic fake data from a seed', () => {
+    const first = new Faker(42);
+    const second = new Faker(42);
+
+    expect([first.name(), first.uuid(), first.number(1, 6)]).toEqual([second.name(), second.uuid(), second.number(1, 6)]);
+    expect(first.uuid()).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+
+    const unique = faker.seed(1).unique();
+    const rolls = Array.from({ length: 6 }, () => unique.number(1, 6));
+    expect(new Set(rolls).size).toBe(6);
+    expect(() => unique.number(1, 6)).toThrow('Maximum retries');
+  });
+});
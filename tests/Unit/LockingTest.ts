@@ -0,0 +1,152 @@
+/**
+ * Unit Test - Locking
+ *
+ * Tests for optimistic locking with a version column and pessimistic
+ * locking with lockForUpdate() / sharedLock() inside transactions.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from 'vitest';
+import { sql } from 'drizzle-orm';
+import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { db, dbWrite } from '../TestDatabase';
+import { runTransaction, inTransaction } from '@/database/transactions';
+import { Model, StaleModelException } from '@/backend/Models/Model';
+
+vi.mock('@/database', async () => {
+  const os = await import('os');
+  const path = await import('path');
+  const { sqliteDatabase } = await import('../TestDatabase');
+  return sqliteDatabase({ filename: path.join(os.tmpdir(), `catalyst-locking-${process.pid}.sqlite`) });
+});
+
+const file = path.join(os.tmpdir(), `catalyst-locking-${process.pid}.sqlite`);
+
+const accounts = sqliteTable('accounts', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  owner: text('owner').notNull(),
+  balance: integer('balance').notNull(),
+  version: integer('version'),
+});
+
+class Account extends Model {
+  protected table = 'accounts';
+  protected schemaTable = accounts;
+  protected timestamps = false;
+  protected versionColumn = 'version';
+}
+
+describe('Locking', () => {
+  let account: Account;
+
+  beforeAll(() => {
+    db().run(sql`CREATE TABLE IF NOT EXISTS accounts (id INTEGER PRIMARY KEY AUTOINCREMENT, owner TEXT NOT NULL, balance INTEGER NOT NULL, version INTEGER)`);
+  });
+
+  beforeEach(async () => {
+    db().run(sql`DELETE FROM accounts`);
+    account = new Account().forceFill({ owner: 'Ada', balance: 100 });
+    await account.save();
+  });
+
+  afterAll(() => {
+    dbWrite().$client.close();
+    for (const suffix of ['', '-wal', '-shm', '-journal']) {
+      fs.rmSync(`${file}${suffix}`, { force: true });
+    }
+  });
+
+  describe('optimistic locking', () => {
+    it('starts at version 1 and increments on every update', async () => {
+      expect(account.getAttribute('version')).toBe(1);
+
+      account.setAttribute('balance', 90);
+      await account.save();
+
+      expect(account.getAttribute('version')).toBe(2);
+      expect((await Account.find(account.getKey()))?.getAttributes()).toMatchObject({ balance: 90, version: 2 });
+    });
+
+    it('throws when the row changed since it was read', async () => {
+      const first = (await Account.find(account.getKey()))!;
+      const second = (await Account.find(account.getKey()))!;
+
+      first.setAttribute('balance', 50);
+      await first.save();
+      second.setAttribute('balance', 70);
+
+      const error = await second.save().catch((caught: unknown) => caught);
+      expect(error).toBeInstanceOf(StaleModelException);
+      expect((error as StaleModelException).model).toBe(second);
+      expect(second.getAttribute('version')).toBe(1);
+      expect((await Account.find(account.getKey()))?.getAttribute('balance')).toBe(50);
+    });
+  });
+
+  describe('pessimistic locking', () => {
+    it('holds the write lock for the whole transaction', async () => {
+      const other = new Database(file, { timeout: 0 });
+
+      await runTransaction(dbWrite(), async () => {
+        const locked = (await Account.query().lockForUpdate().find(account.getKey()))!;
+        expect(() => other.prepare('UPDATE accounts SET balance = 0').run()).toThrow(/locked|busy/i);
+
+        locked.setAttribute('balance', locked.getAttribute('balance') as number - 10);
+        await locked.save();
+      });
+
+      expect(other.prepare('SELECT balance FROM accounts').get()).toEqual({ balance: 90 });
+      other.close();
+    });
+
+    it('rolls back when the callback throws', async () => {
+      await expect(runTransaction(dbWrite(), async () => {
+        await Account.query().where('id', account.getKey()).update({ balance: 0 });
+        throw new Error('Transfer failed');
+      })).rejects.toThrow('Transfer failed');
+
+      expect((await Account.find(account.getKey()))?.getAttribute('balance')).toBe(100);
+    });
+
+    it('keeps overlapping transactions and writes out of a transaction that rolls back', async () => {
+    let started!: () => void;
+    const running = new Promise<void>((resolve) => {
+      started = resolve;
+    });
+
+    const failing = runTransaction(dbWrite(), async () => {
+      await new Account().forceFill({ owner: 'Rolled back', balance: 1 }).save();
+      started();
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      throw new Error('Transfer failed');
+    });
+    await running;
+
+    const committed = runTransaction(dbWrite(), async () => {
+      expect(inTransaction(dbWrite())).toBe(true);
+      await new Account().forceFill({ owner: 'Grace', balance: 50 }).save();
+      return 'ok';
+    });
+    const created = new Account().forceFill({ owner: 'Linus', balance: 10 }).save();
+    expect(inTransaction(dbWrite())).toBe(false);
+
+    await expect(failing).rejects.toThrow('Transfer failed');
+    expect(await committed).toBe('ok');
+    expect(await created).toBe(true);
+
+    const owners = (await Account.query().orderBy('id').get()).map((model) => model.getAttribute('owner'));
+    expect(owners).toEqual(['Ada', 'Grace', 'Linus']);
+  });
+
+    it('runs locking queries outside a transaction in their own transaction', async () => {
+      const shared = await Account.query().sharedLock().get();
+
+      expect(shared).toHaveLength(1);
+      expect(Account.query().sharedLock().getLock()).toBe('share');
+      expect(inTransaction(dbWrite())).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Unit Test - Migrator
+ *
+ * Tests for running migration files in batches, rolling back by batch or
+ * step, resetting, refreshing, dropping all tables, pretending and the
+ * migration status.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { sql } from 'drizzle-orm';
+import { db } from '../TestDatabase';
+import { Migrator } from '@/database/Migrator';
+
+vi.mock('@/database', async (importOriginal) => {
+  const { sqliteDatabase } = await import('../TestDatabase');
+  return { ...(await importOriginal<object>()), ...(await sqliteDatabase({ instrument: true })) };
+});
+
+const MIGRATIONS = {
+  '20260101000000_create_authors_table.ts': `export default {
+    up: (db) => db.run('create table authors (id integer primary key, name text not null)'),
+    down: (db) => db.run('drop table authors'),
+  };`,
+  '20260102000000_create_books_table.ts': `export const migration = {
+    up: (db) => db.run('create table books (id integer primary key, title text not null)'),
+    down: (db) => db.run('drop table books'),
+  };`,
+  '20260103000000_add_isbn_to_books.ts': `export default {
+    up: (db) => db.run("alter table books add column isbn text default 'unknown'"),
+    down: (db) => db.run('alter table books drop column isbn'),
+  };`,
+  // Table definitions and other modules are not migrations
+  'helpers.ts': 'export const TABLE = "authors";',
+};
+
+let directory: string;
+let migrator: Migrator;
+
+const tables = () => db()
+  .all<{ name: string }>(sql`select name from sqlite_master where type = 'table' and name not like 'sqlite_%' order by name`)
+  .map((row) => row.name);
+
+describe('Migrator', () => {
+  beforeAll(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'catalyst-migrations-'));
+    for (const [file, source] of Object.entries(MIGRATIONS)) {
+      fs.writeFileSync(path.join(directory, file), source);
+    }
+    migrator = new Migrator(directory);
+  });
+
+  beforeEach(async () => {
+    await migrator.dropAllTables();
+  });
+
+  afterAll(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('runs pending migrations in one batch and records them', async () => {
+    const runs = await migrator.run();
+
+    expect(runs.map((run) => [run.migration, run.batch])).toEqual([
+      ['20260101000000_create_authors_table', 1],
+      ['20260102000000_create_books_table', 1],
+      ['20260103000000_add_isbn_to_books', 1],
+    ]);
+    expect(tables()).toEqual(['authors', 'books', 'catalyst_migrations']);
+    expect(await migrator.run()).toEqual([]);
+  });
+
+  it('reports the status of each migration', async () => {
+    fs.renameSync(path.join(directory, '20260103000000_add_isbn_to_books.ts'), path.join(directory, 'pending.tmp'));
+    await migrator.run();
+    fs.renameSync(path.join(directory, 'pending.tmp'), path.join(directory, '20260103000000_add_isbn_to_books.ts'));
+
+    expect(await migrator.status()).toEqual([
+      { migration: '20260101000000_create_authors_table', ran: true, batch: 1 },
+      { migration: '20260102000000_create_books_table', ran: true, batch: 1 },
+      { migration: '20260103000000_add_isbn_to_books', ran: false, batch: null },
+    ]);
+  });
+
+  it('rolls back the last batch', async () => {
+    await migrator.run({ step: true });
+    expect((await migrator.status()).map((status) => status.batch)).toEqual([1, 2, 3]);
+
+    const runs = await migrator.rollback();
+
+    expect(runs.map((run) => run.migration)).toEqual(['20260103000000_add_isbn_to_books']);
+    expect(db().all(sql`select name from pragma_table_info('books')`)).toEqual([{ name: 'id' }, { name: 'title' }]);
+  });
+
+  it('rolls back a number of migrations with step', async () => {
+    await migrator.run();
+
+    const runs = await migrator.rollback({ step: 2 });
+
+    expect(runs.map((run) => run.migration)).toEqual(['20260103000000_add_isbn_to_books', '20260102000000_create_books_table']);
+    expect(tables()).toEqual(['authors', 'catalyst_migrations']);
+  });
+
+  it('resets, refreshes and runs fresh', async () => {
+    await migrator.run({ step: true });
+
+    expect((await migrator.reset()).map((run) => run.batch)).toEqual([3, 2, 1]);
+    expect(tables()).toEqual(['catalyst_migrations']);
+
+    await migrator.run();
+    db().run(sql`insert into authors (name) values ('Le Guin')`);
+    const { rolledBack, ran } = await migrator.refresh();
+    expect([rolledBack.length, ran.length]).toEqual([3, 3]);
+    expect(db().all(sql`select * from authors`)).toEqual([]);
+
+    db().run(sql`create table stray (id integer)`);
+    const { dropped } = await migrator.fresh();
+    expect(dropped).toContain('stray');
+    expect(tables()).toEqual(['authors', 'books', 'catalyst_migrations']);
+  });
+
+  it('pretends by collecting the SQL without running it', async () => {
+    const runs = await migrator.run({ pretend: true });
+
+    expect(runs.map((run) => run.statements)).toEqual([
+      ['create table authors (id integer primary key, name text not null)'],
+      ['create table books (id integer primary key, title text not null)'],
+      ["alter table books add column isbn text default 'unknown'"],
+    ]);
+    expect(tables()).toEqual(['catalyst_migrations']);
+    expect((await migrator.status()).every((status) => !status.ran)).toBe(true);
+  });
+
+  it('rolls back a failing migration and keeps the ones before it', async () => {
+    const failing = path.join(directory, '20260104000000_broken.ts');
+    fs.writeFileSync(failing, `export default {
+      up: (db) => { db.run('create table broken (id integer)'); db.run('insert into missing values (1)'); },
+    };`);
+
+    try {
+      await expect(migrator.run()).rejects.toThrow('insert into missing');
+    } finally {
+      fs.rmSync(failing);
+    }
+
+    expect(tables()).toEqual(['authors', 'books', 'catalyst_migrations']);
+    expect((await migrator.status()).filter((status) => status.ran)).toHaveLength(3);
+  });
+});
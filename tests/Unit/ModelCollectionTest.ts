@@ -0,0 +1,177 @@
+/**
+ * Unit Test - Model Collections
+ *
+ * Tests for the collection returned by get() and all(): keyed and grouped
+ * access, sorting, set operations, eager loading, refreshing, serialization
+ * and bulk writes.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import { sql } from 'drizzle-orm';
+import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
+import { db } from '../TestDatabase';
+import { Model } from '@/backend/Models/Model';
+import { ModelCollection } from '@/backend/Models/ModelCollection';
+
+vi.mock('@/database', () => import('../TestDatabase').then(({ sqliteDatabase }) => sqliteDatabase()));
+
+const members = sqliteTable('members', {
+  id: integer('id').primaryKey(),
+  name: text('name').notNull(),
+  team: text('team').notNull(),
+  score: integer('score').notNull(),
+  token: text('token'),
+  deleted_at: integer('deleted_at', { mode: 'timestamp' }),
+});
+
+const badges = sqliteTable('badges', {
+  id: integer('id').primaryKey(),
+  member_id: integer('member_id').notNull(),
+  label: text('label').notNull(),
+});
+
+const tasks = sqliteTable('tasks', {
+  id: integer('id').primaryKey(),
+  title: text('title').notNull(),
+  status: text('status').notNull(),
+  updated_at: integer('updated_at', { mode: 'timestamp' }),
+});
+
+class Task extends Model {
+  protected table = 'tasks';
+  protected schemaTable = tasks;
+
+  setTitleAttribute(value: string): string {
+    return value.toUpperCase();
+  }
+}
+
+class Badge extends Model {
+  protected table = 'badges';
+  protected schemaTable = badges;
+  protected timestamps = false;
+}
+
+class Member extends Model {
+  protected table = 'members';
+  protected schemaTable = members;
+  protected timestamps = false;
+  protected softDeletes = true;
+  protected hidden = ['token'];
+
+  badges() {
+    return this.hasMany(Badge, 'member_id');
+  }
+}
+
+describe('Model Collections', () => {
+  beforeAll(() => {
+    db().run(sql`CREATE TABLE members (id INTEGER PRIMARY KEY, name TEXT NOT NULL, team TEXT NOT NULL, score INTEGER NOT NULL, token TEXT, deleted_at INTEGER)`);
+    db().run(sql`CREATE TABLE badges (id INTEGER PRIMARY KEY, member_id INTEGER NOT NULL, label TEXT NOT NULL)`);
+    db().run(sql`CREATE TABLE tasks (id INTEGER PRIMARY KEY, title TEXT NOT NULL, status TEXT NOT NULL, updated_at INTEGER)`);
+  });
+
+  beforeEach(() => {
+    db().run(sql`DELETE FROM members`);
+    db().run(sql`DELETE FROM badges`);
+    db().run(sql`DELETE FROM tasks`);
+    db().run(sql`INSERT INTO members (id, name, team, score, token) VALUES
+      (1, 'Ada', 'red', 30, 'a'), (2, 'Grace', 'blue', 50, 'b'), (3, 'Linus', 'red', 10, 'c')`);
+    db().run(sql`INSERT INTO badges (id, member_id, label) VALUES (1, 1, 'first'), (2, 1, 'second'), (3, 2, 'third')`);
+    db().run(sql`INSERT INTO tasks (id, title, status) VALUES (1, 'draft', 'open'), (2, 'review', 'open')`);
+  });
+
+  it('returns collections from get() and all() that still behave like arrays', async () => {
+    const all = await Member.all();
+
+    expect(all).toBeInstanceOf(ModelCollection);
+    expect(all).toHaveLength(3);
+    expect(all.map((member) => member.getKey())).toEqual([1, 2, 3]);
+    expect(all.map((member) => member.getKey())).not.toBeInstanceOf(ModelCollection);
+    expect(all.filter((member) => member.getAttribute('team') === 'red')).toBeInstanceOf(ModelCollection);
+  });
+
+  it('plucks, keys, groups and finds models', async () => {
+    const all = await Member.all();
+
+    expect(all.pluck('name')).toEqual(['Ada', 'Grace', 'Linus']);
+    expect(all.pluck('score', 'name')).toEqual({ Ada: 30, Grace: 50, Linus: 10 });
+    expect(all.keyBy('name').Grace.getKey()).toBe(2);
+    expect(all.groupBy('team').red.modelKeys()).toEqual([1, 3]);
+    expect(all.find(3)?.getAttribute('name')).toBe('Linus');
+    expect(all.find('2')?.getAttribute('name')).toBe('Grace');
+    expect(all.find((member) => member.getAttribute('score') === 50)?.getKey()).toBe(2);
+    expect(all.find(9)).toBeUndefined();
+  });
+
+  it('sorts, diffs and removes duplicates', async () => {
+    const all = await Member.all();
+    const red = await Member.query().where('team', 'red').get();
+
+    expect(all.sortBy('score').modelKeys()).toEqual([3, 1, 2]);
+    expect(all.sortByDesc((member) => member.getAttribute('name')).pluck('name')).toEqual(['Linus', 'Grace', 'Ada']);
+    expect(all.diff(red).modelKeys()).toEqual([2]);
+    expect(ModelCollection.make([...all, ...red]).unique().modelKeys()).toEqual([1, 2, 3]);
+    expect(all.unique('team').pluck('name')).toEqual(['Ada', 'Grace']);
+  });
+
+  it('eager loads relations and refreshes models', async () => {
+    const all = await Member.all();
+    await all.load('badges');
+
+    expect(all.map((member) => (member.getRelation('badges') as Badge[]).length)).toEqual([2, 1, 0]);
+
+    db().run(sql`UPDATE members SET name = 'Ada L.' WHERE id = 1`);
+    db().run(sql`DELETE FROM members WHERE id = 2`);
+    const fresh = await all.sortByDesc('id').fresh('badges');
+
+    expect(fresh.pluck('name')).toEqual(['Linus', 'Ada L.']);
+    expect(fresh[1].relationLoaded('badges')).toBe(true);
+    expect(all[0].getAttribute('name')).toBe('Ada');
+  });
+
+  it('serializes models respecting hidden attributes', async () => {
+    const json = JSON.parse(JSON.stringify(await Member.query().where('id', 1).get()));
+
+    expect(json).toEqual([{ id: 1, name: 'Ada', team: 'red', score: 30, deleted_at: null }]);
+  });
+
+  it('updates and deletes every model with a single query', async () => {
+    const red = await Member.query().where('team', 'red').get();
+
+    expect(await red.update({ score: 0 })).toBe(2);
+    expect(red.pluck('score')).toEqual([0, 0]);
+    expect(red[0].isDirty()).toBe(false);
+    expect((await Member.find(3))!.getAttribute('score')).toBe(0);
+
+    expect(await red.delete()).toBe(2);
+    expect((await Member.all()).modelKeys()).toEqual([2]);
+    expect(await Member.onlyTrashed().count()).toBe(2);
+  });
+
+  it('touches the update timestamp and syncs only the values written', async () => {
+    const all = await Task.query().orderBy('id').get();
+    all[0].setAttribute('title', 'renamed');
+
+    expect(await all.update({ status: 'done', unknown: 1 })).toBe(2);
+    expect(all[0].isDirty('status')).toBe(false);
+    expect(all[0].isDirty('title')).toBe(true);
+    expect(all[0].getAttributes()).not.toHaveProperty('unknown');
+    expect(all[1].getAttribute('updated_at')).toBeInstanceOf(Date);
+
+    await all.update({ title: 'shipped' });
+    expect(all.pluck('title')).toEqual(['shipped', 'shipped']);
+    expect(all[1].isDirty()).toBe(false);
+
+    const rows = db().all(sql`SELECT title, updated_at FROM tasks ORDER BY id`) as Array<{ title: string; updated_at: number | null }>;
+    expect(rows.map((row) => row.title)).toEqual(['shipped', 'shipped']);
+    expect(rows.every((row) => row.updated_at !== null)).toBe(true);
+  });
+
+  it('touches the update timestamp on query updates', async () => {
+    await Task.query().where('id', 2).update({ status: 'done' });
+
+    const rows = db().all(sql`SELECT updated_at FROM tasks ORDER BY id`) as Array<{ updated_at: number | null }>;
+    expect(rows.map((row) => row.updated_at !== null)).toEqual([false, true]);
+  });
+});
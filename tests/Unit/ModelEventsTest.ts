@@ -0,0 +1,157 @@
+/**
+ * Unit Test - Model Events
+ *
+ * Tests for model event callbacks, observers, cancellation, muting and
+ * dispatching through the EventDispatcher.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import { sql } from 'drizzle-orm';
+import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
+import { db } from '../TestDatabase';
+import { Model } from '@/backend/Models/Model';
+import { ModelCreated, ModelObserver, ModelSaved, ModelRetrieved, ModelEvent } from '@/backend/Models/ModelEvents';
+import { EventDispatcher } from '@/backend/Events/Dispatcher';
+
+vi.mock('@/database', () => import('../TestDatabase').then(({ sqliteDatabase }) => sqliteDatabase()));
+
+const users = sqliteTable('users', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  name: text('name').notNull(),
+  role: text('role').notNull().default('member'),
+});
+
+class User extends Model {
+  protected table = 'users';
+  protected schemaTable = users;
+  protected timestamps = false;
+}
+
+const log: string[] = [];
+
+class UserObserver implements ModelObserver<User> {
+  saving(user: User) {
+    log.push(`saving:${user.getAttribute('name')}`);
+  }
+
+  creating(user: User) {
+    log.push('creating');
+    return user.getAttribute('name') !== 'Blocked';
+  }
+
+  created() {
+    log.push('created');
+  }
+
+  updated() {
+    log.push('updated');
+  }
+
+  saved() {
+    log.push('saved');
+  }
+
+  deleting(user: User) {
+    return user.getAttribute('role') !== 'admin';
+  }
+}
+
+describe('Model Events', () => {
+  beforeAll(() => {
+    db().run(sql`CREATE TABLE users (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT NOT NULL, role TEXT NOT NULL DEFAULT 'member')`);
+    User.observe(UserObserver);
+  });
+
+  beforeEach(() => {
+    log.length = 0;
+    EventDispatcher.reset();
+  });
+
+  afterEach(() => {
+    EventDispatcher.reset();
+  });
+
+  it('calls observer methods in lifecycle order', async () => {
+    const user = new User().forceFill({ name: 'Ada' });
+    await user.save();
+    user.setAttribute('name', 'Ada L.');
+    await user.save();
+
+    expect(log).toEqual(['saving:Ada', 'creating', 'created', 'saved', 'saving:Ada L.', 'updated', 'saved']);
+  });
+
+  it('cancels the operation when a *ing hook returns false', async () => {
+    const blocked = new User().forceFill({ name: 'Blocked' });
+    expect(await blocked.save()).toBe(false);
+    expect(blocked.exists).toBe(false);
+    expect(log).toEqual(['saving:Blocked', 'creating']);
+
+    const admin = new User().forceFill({ name: 'Root', role: 'admin' });
+    await admin.save();
+    expect(await admin.delete()).toBe(false);
+    expect(await User.find(admin.getKey())).not.toBeNull();
+  });
+
+  it('fires retrieved and static callbacks', async () => {
+    const retrieved: unknown[] = [];
+    User.retrieved((user) => {
+      retrieved.push(user.getKey());
+    });
+
+    await User.query().where('name', 'Root').get();
+    expect(retrieved).toHaveLength(1);
+    User.flushEventListeners();
+    User.observe(UserObserver);
+  });
+
+  it('dispatches events through the EventDispatcher', async () => {
+    const dispatched: string[] = [];
+    EventDispatcher.getInstance().listen(ModelCreated, (event) => {
+      dispatched.push(`${(event as ModelEvent).getModelName()}:${(event as ModelEvent).model.getAttribute('name')}`);
+    });
+
+    await new User().forceFill({ name: 'Grace' }).save();
+    expect(dispatched).toEqual(['User:Grace']);
+  });
+
+  it('records events when the dispatcher is faked', async () => {
+    const events = EventDispatcher.getInstance().fake();
+
+    const user = new User().forceFill({ name: 'Linus' });
+    await user.save();
+    await User.find(user.getKey());
+
+    events.assertDispatched(ModelSaved, 1);
+    events.assertDispatched(ModelRetrieved, 1);
+  });
+
+  it('runs callbacks without events', async () => {
+    const events = EventDispatcher.getInstance().fake();
+
+    const user = await Model.withoutEvents(async () => {
+      const created = new User().forceFill({ name: 'Blocked' });
+      await created.save();
+      return created;
+    });
+
+    expect(user.exists).toBe(true);
+    expect(log).toEqual([]);
+    events.assertNothingDispatched();
+  });
+
+  it('keeps firing events for concurrent work while a callback runs without events', async () => {
+    let release!: () => void;
+    const pending = Model.withoutEvents(async () => {
+      await new Promise<void>((resolve) => {
+        release = resolve;
+      });
+      await new User().forceFill({ name: 'Muted' }).save();
+    });
+
+    await new User().forceFill({ name: 'Concurrent' }).save();
+    release();
+    await pending;
+
+    expect(log).toEqual(['saving:Concurrent', 'creating', 'created', 'saved']);
+  });
+});
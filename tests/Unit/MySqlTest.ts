@@ -0,0 +1,94 @@
+/**
+ * Unit Test - MySQL
+ *
+ * Runs models against a stand-in mysql2 client that records the statements
+ * it receives: placeholders and quoting, row locks, autoincrementing keys
+ * and bulk writes with INSERT IGNORE and ON DUPLICATE KEY UPDATE.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { getTableConfig } from 'drizzle-orm/mysql-core';
+import { db } from '@/database';
+import { dialectOf } from '@/database/dialect';
+import { defineTable } from '@/database/tables';
+import { Model } from '@/backend/Models/Model';
+
+const client = vi.hoisted(() => ({
+  statements: [] as { sql: string; params: unknown[] }[],
+  result: { affectedRows: 1, insertId: 1 } as Record<string, unknown>,
+  query: async (query: { sql: string; rowsAsArray?: boolean }, params: unknown[] = []) => {
+    client.statements.push({ sql: query.sql, params });
+    return query.rowsAsArray ? [[], []] : [client.result, []];
+  },
+}));
+
+vi.mock('@/database', async () => {
+  const { drizzle } = await import('drizzle-orm/mysql2');
+  const connection = drizzle(client as never, { mode: 'default' });
+  return { db: () => connection, dbWrite: () => connection };
+});
+
+const posts = defineTable('posts', (t) => ({
+  id: t.id(),
+  title: t.string('title').notNull(),
+  views: t.integer('views').notNull().default(0),
+  published_at: t.timestamp('published_at'),
+}));
+
+class Post extends Model {
+  protected table = 'posts';
+  protected schemaTable = posts;
+  protected timestamps = false;
+}
+
+describe('MySQL', () => {
+  beforeEach(() => {
+    client.statements = [];
+    client.result = { affectedRows: 1, insertId: 1 };
+  });
+
+  it('builds declared tables with MySQL columns', () => {
+    expect(dialectOf(db())).toBe('mysql');
+
+    const { name, columns } = getTableConfig(new Post().getSchemaTable() as never);
+    expect(name).toBe('posts');
+    expect(columns.map((column) => column.getSQLType())).toEqual(['int', 'varchar(255)', 'int', 'datetime']);
+  });
+
+  it('compiles backtick quoting, positional placeholders and row locks', () => {
+    const query = Post.query().where('title', "It's").where('views', '>', 3).lockForUpdate();
+
+    expect(query.toSql()).toBe('select `id`, `title`, `views`, `published_at` from `posts` where (`posts`.`title` = ? and `posts`.`views` > ?) for update');
+    expect(query.toRawSql()).toContain("`posts`.`title` = 'It''s' and `posts`.`views` > 3");
+  });
+
+  it('reads the autoincrementing key from the insert id', async () => {
+    client.result = { affectedRows: 1, insertId: 7 };
+    const post = new Post().forceFill({ title: 'Engines' });
+    await post.save();
+
+    expect(post.getKey()).toBe(7);
+    expect(client.statements[0].sql).toMatch(/^insert into `posts`/);
+  });
+
+  it('inserts with INSERT IGNORE and upserts with ON DUPLICATE KEY UPDATE', async () => {
+    client.result = { affectedRows: 2, insertId: 1 };
+
+    expect(await Post.insertOrIgnore([{ title: 'Engines' }])).toBe(2);
+    expect(await Post.upsert([{ title: 'Engines', views: 5 }], ['title'], ['views'])).toBe(2);
+    await Post.upsert([{ title: 'Notes' }], ['title']);
+
+    const statements = client.statements.map((statement) => statement.sql);
+    expect(statements).toEqual([
+      'begin',
+      expect.stringMatching(/^insert ignore into `posts`/),
+      'commit',
+      'begin',
+      expect.stringMatching(/on duplicate key update `views` = values\(`views`\)$/),
+      'commit',
+      'begin',
+      expect.stringMatching(/on duplicate key update `title` = `title`$/),
+      'commit',
+    ]);
+  });
+});
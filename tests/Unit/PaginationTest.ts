@@ -0,0 +1,97 @@
+/**
+ * Unit Test - Pagination
+ *
+ * Tests for QueryBuilder.paginate(), simplePaginate() and cursorPaginate().
+ */
+
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { sql } from 'drizzle-orm';
+import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
+import { db } from '../TestDatabase';
+import { Model } from '@/backend/Models/Model';
+import { Cursor } from '@/backend/Pagination/Paginator';
+
+vi.mock('@/database', () => import('../TestDatabase').then(({ sqliteDatabase }) => sqliteDatabase()));
+
+const posts = sqliteTable('posts', {
+  id: integer('id').primaryKey(),
+  title: text('title').notNull(),
+  score: integer('score').notNull(),
+});
+
+class Post extends Model {
+  protected table = 'posts';
+  protected schemaTable = posts;
+}
+
+const ids = (models: Iterable<Model>) => Array.from(models, (model) => model.getKey());
+
+describe('Pagination', () => {
+  beforeAll(() => {
+    db().run(sql`CREATE TABLE posts (id INTEGER PRIMARY KEY, title TEXT NOT NULL, score INTEGER NOT NULL)`);
+    db().insert(posts).values(
+      Array.from({ length: 23 }, (_, i) => ({ id: i + 1, title: `Post ${i + 1}`, score: i % 5 }))
+    ).run();
+  });
+
+  describe('paginate', () => {
+    it('returns the page with totals', async () => {
+      const page = await Post.query().orderBy('id').paginate(10, 2, { path: '/posts' });
+
+      expect(ids(page)).toEqual([11, 12, 13, 14, 15, 16, 17, 18, 19, 20]);
+      expect(page.total()).toBe(23);
+      expect(page.lastPage()).toBe(3);
+      expect(page.nextPageUrl()).toBe('/posts?page=3');
+      expect(page.previousPageUrl()).toBe('/posts?page=1');
+    });
+
+    it('serializes to JSON with links', async () => {
+      const page = await Post.query().orderBy('id').paginate(5, 1);
+      const json = JSON.parse(JSON.stringify(page));
+
+      expect(json).toMatchObject({ current_page: 1, from: 1, to: 5, last_page: 5, per_page: 5, total: 23 });
+      expect(json.data[0]).toEqual({ id: 1, title: 'Post 1', score: 0 });
+      expect(json.links.map((link: { label: string }) => link.label)).toEqual(['Previous', '1', '2', '3', '4', '5', 'Next']);
+    });
+  });
+
+  describe('simplePaginate', () => {
+    it('detects whether another page exists', async () => {
+      const middle = await Post.query().orderBy('id').simplePaginate(10, 2);
+      const last = await Post.query().orderBy('id').simplePaginate(10, 3);
+
+      expect(middle.hasMorePages()).toBe(true);
+      expect(ids(last)).toEqual([21, 22, 23]);
+      expect(last.nextPageUrl()).toBeNull();
+    });
+  });
+
+  describe('cursorPaginate', () => {
+    it('walks forward and backward through pages', async () => {
+      const first = await Post.query().orderByDesc('score').orderBy('id').cursorPaginate(4);
+      expect(ids(first)).toEqual([5, 10, 15, 20]);
+      expect(first.previousCursor()).toBeNull();
+
+      const second = await Post.query().orderByDesc('score').orderBy('id').cursorPaginate(4, first.nextCursor()!.encode());
+      expect(ids(second)).toEqual([4, 9, 14, 19]);
+
+      const back = await Post.query().orderByDesc('score').orderBy('id').cursorPaginate(4, second.previousCursor()!.encode());
+      expect(ids(back)).toEqual([5, 10, 15, 20]);
+      expect(back.previousCursor()).toBeNull();
+      expect(back.hasMorePages()).toBe(true);
+    });
+
+    it('stops at the last page', async () => {
+      const cursor = new Cursor({ id: 20 });
+      const page = await Post.query().cursorPaginate(10, cursor);
+
+      expect(ids(page)).toEqual([21, 22, 23]);
+      expect(page.nextCursor()).toBeNull();
+      expect(page.toJSON().prev_cursor).not.toBeNull();
+    });
+
+    it('ignores invalid cursors', () => {
+      expect(Cursor.decode('not-a-cursor')).toBeNull();
+    });
+  });
+});
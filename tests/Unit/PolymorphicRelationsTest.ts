@@ -0,0 +1,248 @@
+/**
+ * Unit Test - Polymorphic and Through Relationships
+ *
+ * Tests for morphOne, morphMany, morphTo, morphToMany, the morph map and
+ * hasManyThrough / hasOneThrough, lazily, eagerly and in whereHas.
+ */
+
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { sql } from 'drizzle-orm';
+import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
+import { db } from '../TestDatabase';
+import { Model } from '@/backend/Models/Model';
+import { Relation } from '@/backend/Models/Relations';
+
+vi.mock('@/database', () => import('../TestDatabase').then(({ sqliteDatabase }) => sqliteDatabase()));
+
+const countries = sqliteTable('countries', {
+  id: integer('id').primaryKey(),
+  name: text('name').notNull(),
+});
+
+const users = sqliteTable('users', {
+  id: integer('id').primaryKey(),
+  country_id: integer('country_id').notNull(),
+  name: text('name').notNull(),
+});
+
+const posts = sqliteTable('posts', {
+  id: integer('id').primaryKey(),
+  user_id: integer('user_id').notNull(),
+  title: text('title').notNull(),
+});
+
+const videos = sqliteTable('videos', {
+  id: integer('id').primaryKey(),
+  title: text('title').notNull(),
+});
+
+const comments = sqliteTable('comments', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  commentable_id: integer('commentable_id'),
+  commentable_type: text('commentable_type'),
+  body: text('body').notNull(),
+});
+
+const tags = sqliteTable('tags', {
+  id: integer('id').primaryKey(),
+  name: text('name').notNull(),
+});
+
+const taggables = sqliteTable('taggables', {
+  tag_id: integer('tag_id').notNull(),
+  taggable_id: integer('taggable_id').notNull(),
+  taggable_type: text('taggable_type').notNull(),
+});
+
+class Country extends Model {
+  protected table = 'countries';
+  protected schemaTable = countries;
+
+  posts() {
+    return this.hasManyThrough(Post, User, 'country_id', 'user_id');
+  }
+
+  latestPost() {
+    return this.hasOneThrough(Post, User, 'country_id', 'user_id');
+  }
+}
+
+class User extends Model {
+  protected table = 'users';
+  protected schemaTable = users;
+}
+
+class Post extends Model {
+  protected table = 'posts';
+  protected schemaTable = posts;
+
+  comments() {
+    return this.morphMany(Comment, 'commentable');
+  }
+
+  tags() {
+    return this.morphToMany(Tag, 'taggable', taggables);
+  }
+}
+
+class Video extends Model {
+  protected table = 'videos';
+  protected schemaTable = videos;
+  protected timestamps = false;
+
+  comments() {
+    return this.morphMany(Comment, 'commentable');
+  }
+
+  latestComment() {
+    return this.morphOne(Comment, 'commentable');
+  }
+
+  tags() {
+    return this.morphToMany(Tag, 'taggable', taggables);
+  }
+}
+
+class Comment extends Model {
+  protected table = 'comments';
+  protected schemaTable = comments;
+  protected fillable = ['body'];
+  protected timestamps = false;
+
+  commentable() {
+    return this.morphTo('commentable');
+  }
+}
+
+class Tag extends Model {
+  protected table = 'tags';
+  protected schemaTable = tags;
+
+  posts() {
+    return this.morphedByMany(Post, 'taggable', taggables);
+  }
+}
+
+const attribute = (models: Model[], key: string) => models.map((model) => model.getAttribute(key));
+
+describe('Polymorphic and Through Relationships', () => {
+  let post: Post;
+  let video: Video;
+
+  beforeAll(async () => {
+    Relation.morphMap({ post: Post, video: Video });
+
+    db().run(sql`CREATE TABLE countries (id INTEGER PRIMARY KEY, name TEXT NOT NULL)`);
+    db().run(sql`CREATE TABLE users (id INTEGER PRIMARY KEY, country_id INTEGER NOT NULL, name TEXT NOT NULL)`);
+    db().run(sql`CREATE TABLE posts (id INTEGER PRIMARY KEY, user_id INTEGER NOT NULL, title TEXT NOT NULL)`);
+    db().run(sql`CREATE TABLE videos (id INTEGER PRIMARY KEY, title TEXT NOT NULL)`);
+    db().run(sql`CREATE TABLE comments (id INTEGER PRIMARY KEY AUTOINCREMENT, commentable_id INTEGER, commentable_type TEXT, body TEXT NOT NULL)`);
+    db().run(sql`CREATE TABLE tags (id INTEGER PRIMARY KEY, name TEXT NOT NULL)`);
+    db().run(sql`CREATE TABLE taggables (tag_id INTEGER NOT NULL, taggable_id INTEGER NOT NULL, taggable_type TEXT NOT NULL)`);
+
+    db().insert(countries).values([{ id: 1, name: 'Norway' }, { id: 2, name: 'Chile' }, { id: 3, name: 'Peru' }]).run();
+    db().insert(users).values([
+      { id: 1, country_id: 1, name: 'Ada' },
+      { id: 2, country_id: 1, name: 'Alan' },
+      { id: 3, country_id: 2, name: 'Grace' },
+    ]).run();
+    db().insert(posts).values([
+      { id: 1, user_id: 1, title: 'Fjords' },
+      { id: 2, user_id: 2, title: 'Aurora' },
+      { id: 3, user_id: 3, title: 'Andes' },
+    ]).run();
+    db().insert(videos).values([{ id: 1, title: 'Trailer' }]).run();
+    db().insert(tags).values([{ id: 1, name: 'travel' }, { id: 2, name: 'nature' }]).run();
+
+    post = (await Post.find(1))!;
+    video = (await Video.find(1))!;
+    await post.comments().create({ body: 'Lovely' });
+    await video.comments().createMany([{ body: 'First' }, { body: 'Great cut' }]);
+  });
+
+  describe('morphMany / morphOne', () => {
+    it('stores the morph map alias and reads comments per owner', async () => {
+      const created = await post.comments().create({ body: 'Again' });
+
+      expect(created.getAttribute('commentable_type')).toBe('post');
+      expect(attribute(await post.comments(), 'body')).toEqual(['Lovely', 'Again']);
+      expect(attribute(await video.comments(), 'body')).toEqual(['First', 'Great cut']);
+      expect((await video.latestComment())?.getAttribute('body')).toBe('First');
+      await created.delete();
+    });
+
+    it('eager loads and filters by morph-many relations', async () => {
+      const loaded = await Video.query().with('comments').get();
+
+      expect(attribute(loaded[0].getRelation<Model[]>('comments')!, 'body')).toEqual(['First', 'Great cut']);
+      expect(await Post.query().whereHas('comments').count()).toBe(1);
+      expect((await Video.query().withCount('comments').first())?.getAttribute('comments_count')).toBe(2);
+    });
+  });
+
+  describe('morphTo', () => {
+    it('resolves owners of mixed types lazily and eagerly', async () => {
+      const comment = (await Comment.query().where('body', 'Lovely').first())!;
+      expect(await comment.commentable()).toBeInstanceOf(Post);
+
+      const loaded = await Comment.query().orderBy('id').with('commentable').get();
+      const owners = loaded.map((model) => model.getRelation<Model>('commentable'));
+
+      expect(owners.map((owner) => owner?.constructor.name)).toEqual(['Post', 'Video', 'Video']);
+      expect(owners[1]).toBe(owners[2]);
+    });
+
+    it('associates owners and returns null without a type', async () => {
+      const comment = new Comment({ body: 'Draft' });
+      expect(await comment.commentable()).toBeNull();
+
+      comment.commentable().associate(video);
+      expect(comment.getAttributes()).toMatchObject({ commentable_id: 1, commentable_type: 'video' });
+    });
+
+    it('filters by owners with whereHasMorph and whereHas', async () => {
+      const onVideos = await Comment.query().whereHasMorph('commentable', [Video], (query) => query.where('title', 'Trailer')).count();
+      const onFjords = await Comment.query().whereHas('commentable', (query) => query.where('title', 'Fjords')).get();
+
+      expect(onVideos).toBe(2);
+      expect(attribute(onFjords, 'body')).toEqual(['Lovely']);
+    });
+  });
+
+  describe('morphToMany', () => {
+    it('attaches tags per owner type and reads them from both sides', async () => {
+      await post.tags().attach([1, 2]);
+      await video.tags().attach(1);
+
+      expect(attribute(await post.tags(), 'name')).toEqual(['travel', 'nature']);
+      expect(attribute(await video.tags(), 'name')).toEqual(['travel']);
+      expect(attribute(await (await Tag.find(1))!.posts(), 'title')).toEqual(['Fjords']);
+
+      const loaded = await Tag.query().orderBy('id').with('posts').get();
+      expect(loaded.map((tag) => tag.getRelation<Model[]>('posts')!.length)).toEqual([1, 1]);
+      expect(await Video.query().whereHas('tags', (query) => query.where('name', 'nature')).count()).toBe(0);
+    });
+  });
+
+  describe('hasManyThrough / hasOneThrough', () => {
+    it('reads distant models lazily and eagerly', async () => {
+      const norway = (await Country.find(1))!;
+      expect(attribute(await norway.posts(), 'title')).toEqual(['Fjords', 'Aurora']);
+      expect((await norway.latestPost())?.getAttribute('title')).toBe('Fjords');
+
+      const loaded = await Country.query().orderBy('id').with('posts', 'latestPost').get();
+      expect(loaded.map((country) => country.getRelation<Model[]>('posts')!.length)).toEqual([2, 1, 0]);
+      expect(loaded[1].getRelation<Model>('latestPost')?.getAttributes()).toEqual({ id: 3, user_id: 3, title: 'Andes' });
+      expect(loaded[2].getRelation('latestPost')).toBeNull();
+    });
+
+    it('filters and counts through the intermediate table', async () => {
+      const withAndes = await Country.query().whereHas('posts', (query) => query.where('title', 'Andes')).get();
+      const counted = await Country.query().orderBy('id').withCount('posts').get();
+
+      expect(attribute(withAndes, 'name')).toEqual(['Chile']);
+      expect(attribute(counted, 'posts_count')).toEqual([2, 1, 0]);
+      expect(await Country.query().doesntHave('posts').count()).toBe(1);
+    });
+  });
+});
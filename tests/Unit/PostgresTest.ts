@@ -0,0 +1,203 @@
+/**
+ * Unit Test - PostgreSQL
+ *
+ * Runs models against an embedded PostgreSQL (PGlite): inserting with
+ * serial keys, querying, relations, bulk writes, transactions, row locks
+ * and inspecting the generated SQL.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import { sql } from 'drizzle-orm';
+import { pgTable, serial, text, integer, boolean, timestamp, primaryKey } from 'drizzle-orm/pg-core';
+import { db, dbWrite } from '@/database';
+import { runTransaction, inTransaction } from '@/database/transactions';
+import { dialectOf, execute } from '@/database/dialect';
+import { Model, StaleModelException } from '@/backend/Models/Model';
+
+vi.mock('@/database', async () => {
+  const { PGlite } = await import('@electric-sql/pglite');
+  const { drizzle } = await import('drizzle-orm/pglite');
+  const { transactionConnection } = await import('@/database/transactions');
+  const connection = drizzle(new PGlite());
+  return { db: () => transactionConnection(connection), dbWrite: () => transactionConnection(connection) };
+});
+
+const authors = pgTable('authors', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  active: boolean('active').notNull().default(true),
+  version: integer('version'),
+  created_at: timestamp('created_at'),
+  updated_at: timestamp('updated_at'),
+  deleted_at: timestamp('deleted_at'),
+});
+
+const posts = pgTable('posts', {
+  id: serial('id').primaryKey(),
+  author_id: integer('author_id').notNull(),
+  title: text('title').notNull(),
+  views: integer('views').notNull().default(0),
+});
+
+const follows = pgTable('follows', {
+  follower_id: integer('follower_id').notNull(),
+  author_id: integer('author_id').notNull(),
+}, (table) => [primaryKey({ columns: [table.follower_id, table.author_id] })]);
+
+class Post extends Model {
+  protected table = 'posts';
+  protected schemaTable = posts;
+  protected timestamps = false;
+}
+
+class Author extends Model {
+  protected table = 'authors';
+  protected schemaTable = authors;
+  protected softDeletes = true;
+  protected versionColumn = 'version';
+
+  posts() {
+    return this.hasMany(Post, 'author_id');
+  }
+}
+
+class Follow extends Model {
+  protected table = 'follows';
+  protected schemaTable = follows;
+  protected timestamps = false;
+  protected primaryKey = ['follower_id', 'author_id'];
+}
+
+describe('PostgreSQL', () => {
+  beforeAll(async () => {
+    await execute(db(), sql`CREATE TABLE authors (
+      id serial PRIMARY KEY, name text NOT NULL, active boolean NOT NULL DEFAULT true, version integer,
+      created_at timestamp, updated_at timestamp, deleted_at timestamp
+    )`);
+    await execute(db(), sql`CREATE TABLE posts (id serial PRIMARY KEY, author_id integer NOT NULL, title text NOT NULL UNIQUE, views integer NOT NULL DEFAULT 0)`);
+    await execute(db(), sql`CREATE TABLE follows (follower_id integer NOT NULL, author_id integer NOT NULL, PRIMARY KEY (follower_id, author_id))`);
+  }, 60_000);
+
+  beforeEach(async () => {
+    await execute(db(), sql`TRUNCATE authors, posts, follows RESTART IDENTITY`);
+  });
+
+  it('runs on a PostgreSQL connection', () => {
+    expect(dialectOf(db())).toBe('postgres');
+  });
+
+  it('inserts, finds, updates and deletes models', async () => {
+    const author = new Author().forceFill({ name: 'Ada' });
+    await author.save();
+
+    expect(author.getKey()).toBe(1);
+    expect(author.getAttribute('version')).toBe(1);
+
+    author.setAttribute('name', 'Ada Lovelace');
+    await author.save();
+
+    const found = (await Author.find(1))!;
+    expect(found.getAttribute('name')).toBe('Ada Lovelace');
+    expect(found.getAttribute('created_at')).toBeInstanceOf(Date);
+
+    await found.delete();
+    expect(await Author.find(1)).toBeNull();
+    expect(await Author.onlyTrashed().count()).toBe(1);
+  });
+
+  it('detects stale models with the version column', async () => {
+    await new Author().forceFill({ name: 'Grace' }).save();
+    const first = (await Author.find(1))!;
+    const second = (await Author.find(1))!;
+
+    first.setAttribute('name', 'Grace Hopper');
+    await first.save();
+    second.setAttribute('name', 'G. Hopper');
+
+    await expect(second.save()).rejects.toBeInstanceOf(StaleModelException);
+  });
+
+  it('queries, aggregates and paginates', async () => {
+    await Author.insert([{ name: 'Ada' }, { name: 'Grace', active: false }, { name: 'Linus' }]);
+    await Post.insert([
+      { author_id: 1, title: 'Engines', views: 10 },
+      { author_id: 1, title: 'Notes', views: 30 },
+      { author_id: 3, title: 'Kernels', views: 20 },
+    ]);
+
+    expect((await Author.query().where('active', true).orderByDesc('name').get()).pluck('name')).toEqual(['Linus', 'Ada']);
+    expect(await Post.query().sum('views')).toBe(60);
+    expect(await Post.query().avg('views')).toBe(20);
+    expect(await Post.query().max('views')).toBe(30);
+
+    const page = await Author.query().orderBy('id').paginate(2, 2);
+    expect(page.total()).toBe(3);
+    expect(page.items().map((author) => author.getAttribute('name'))).toEqual(['Linus']);
+  });
+
+  it('loads relations lazily and eagerly', async () => {
+    await Author.insert([{ name: 'Ada' }, { name: 'Grace' }]);
+    await Post.insert([{ author_id: 1, title: 'Engines' }, { author_id: 1, title: 'Notes' }]);
+
+    const ada = (await Author.find(1))!;
+    expect((await ada.posts()).map((post) => post.getAttribute('title'))).toEqual(['Engines', 'Notes']);
+
+    const authors = await Author.query().with('posts').withCount('posts').orderBy('id').get();
+    expect(authors.map((author) => (author.getRelation('posts') as Post[]).length)).toEqual([2, 0]);
+    expect(authors.pluck('posts_count')).toEqual([2, 0]);
+    expect((await Author.query().whereHas('posts').get()).modelKeys()).toEqual([1]);
+  });
+
+  it('upserts and uses composite keys', async () => {
+    await Post.insert([{ author_id: 1, title: 'Engines', views: 1 }]);
+    expect(await Post.upsert([{ author_id: 1, title: 'Engines', views: 5 }, { author_id: 2, title: 'Notes', views: 2 }], ['title'], ['views'])).toBe(2);
+    expect((await Post.query().orderBy('id').get()).pluck('views')).toEqual([5, 2]);
+
+    await Follow.insert([{ follower_id: 1, author_id: 2 }, { follower_id: 2, author_id: 1 }]);
+    await Follow.destroy([1, 2]);
+    expect((await Follow.all()).modelKeys()).toEqual([[2, 1]]);
+  });
+
+  it('commits and rolls back transactions that models join', async () => {
+    await runTransaction(dbWrite(), async () => {
+      expect(inTransaction(dbWrite())).toBe(true);
+      await new Author().forceFill({ name: 'Committed' }).save();
+    });
+
+    await expect(runTransaction(dbWrite(), async () => {
+      await new Author().forceFill({ name: 'Rolled back' }).save();
+      throw new Error('Abort');
+    })).rejects.toThrow('Abort');
+
+    expect(inTransaction(dbWrite())).toBe(false);
+    expect((await Author.all()).pluck('name')).toEqual(['Committed']);
+  });
+
+  it('rolls back to a savepoint in nested transactions', async () => {
+    await runTransaction(dbWrite(), async () => {
+      await new Author().forceFill({ name: 'Outer' }).save();
+      await runTransaction(dbWrite(), async () => {
+        await new Author().forceFill({ name: 'Inner' }).save();
+        throw new Error('Inner failed');
+      }).catch(() => undefined);
+    });
+
+    expect((await Author.all()).pluck('name')).toEqual(['Outer']);
+  });
+
+  it('locks rows with FOR UPDATE', async () => {
+    await Author.insert([{ name: 'Ada' }]);
+    const query = Author.query().where('id', 1).lockForUpdate();
+
+    expect(query.toSql()).toMatch(/for update$/);
+    expect((await query.first())!.getAttribute('name')).toBe('Ada');
+  });
+
+  it('compiles numbered placeholders and explains queries', async () => {
+    const query = Post.query().where('title', "It's").where('views', '>', 3);
+
+    expect(query.toSql()).toContain('"posts"."title" = $1 and "posts"."views" > $2');
+    expect(query.toRawSql()).toContain(`"posts"."title" = 'It''s' and "posts"."views" > 3`);
+    expect((await query.explain())[0].detail).toContain('Index Scan using posts_title_key');
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Unit Test - Primary Keys
+ *
+ * Tests for generated UUID and ULID keys, key types, autoincrement read back
+ * and composite primary keys.
+ */
+
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { sql } from 'drizzle-orm';
+import { sqliteTable, text, integer, primaryKey } from 'drizzle-orm/sqlite-core';
+import { db } from '../TestDatabase';
+import { Model } from '@/backend/Models/Model';
+import { orderedUuid, ulid } from '@/backend/Models/UniqueIds';
+
+vi.mock('@/database', () => import('../TestDatabase').then(({ sqliteDatabase }) => sqliteDatabase()));
+
+const accounts = sqliteTable('accounts', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(),
+});
+
+const tickets = sqliteTable('tickets', {
+  id: text('id').primaryKey(),
+  subject: text('subject').notNull(),
+});
+
+const counters = sqliteTable('counters', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  label: text('label').notNull(),
+});
+
+const memberships = sqliteTable('memberships', {
+  team_id: integer('team_id').notNull(),
+  user_id: integer('user_id').notNull(),
+  role: text('role').notNull(),
+}, (table) => [primaryKey({ columns: [table.team_id, table.user_id] })]);
+
+class Account extends Model {
+  protected table = 'accounts';
+  protected schemaTable = accounts;
+  protected timestamps = false;
+  protected uniqueIdType = 'uuid' as const;
+}
+
+class Ticket extends Model {
+  protected table = 'tickets';
+  protected schemaTable = tickets;
+  protected timestamps = false;
+  protected uniqueIdType = 'ulid' as const;
+}
+
+class Counter extends Model {
+  protected table = 'counters';
+  protected schemaTable = counters;
+  protected timestamps = false;
+  protected keyType = 'string' as const;
+}
+
+class Membership extends Model {
+  protected table = 'memberships';
+  protected schemaTable = memberships;
+  protected timestamps = false;
+  protected primaryKey = ['team_id', 'user_id'];
+}
+
+describe('Primary Keys', () => {
+  beforeAll(() => {
+    db().run(sql`CREATE TABLE accounts (id TEXT PRIMARY KEY, name TEXT NOT NULL)`);
+    db().run(sql`CREATE TABLE tickets (id TEXT PRIMARY KEY, subject TEXT NOT NULL)`);
+    db().run(sql`CREATE TABLE counters (id INTEGER PRIMARY KEY AUTOINCREMENT, label TEXT NOT NULL)`);
+    db().run(sql`CREATE TABLE memberships (team_id INTEGER NOT NULL, user_id INTEGER NOT NULL, role TEXT NOT NULL, PRIMARY KEY (team_id, user_id))`);
+  });
+
+  describe('unique ids', () => {
+    it('generates ordered UUID keys on insert', async () => {
+      const account = new Account().forceFill({ name: 'Acme' });
+      await account.save();
+
+      expect(account.getKey()).toMatch(/^[0-9a-f]{8}-[0-9a-f]{4}-7[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/);
+      expect(account.getIncrementing()).toBe(false);
+      expect(account.getKeyType()).toBe('string');
+      expect((await Account.find(account.getKey()))!.getAttribute('name')).toBe('Acme');
+    });
+
+    it('generates ULID keys and keeps keys set by the caller', async () => {
+      const generated = new Ticket().forceFill({ subject: 'Broken' });
+      const given = new Ticket().forceFill({ id: 'custom', subject: 'Given' });
+      await generated.save();
+      await given.save();
+
+      expect(generated.getKey()).toMatch(/^[0-9A-HJKMNP-TV-Z]{26}$/);
+      expect(given.getKey()).toBe('custom');
+    });
+
+    it('sorts ids by creation time', () => {
+      expect(orderedUuid(1000) < orderedUuid(2000)).toBe(true);
+      expect(ulid(1000) < ulid(2000)).toBe(true);
+      expect(ulid(0).slice(0, 10)).toBe('0000000000');
+    });
+  });
+
+  describe('autoincrement keys', () => {
+    it('reads back the id as the key type', async () => {
+      const counter = new Counter().forceFill({ label: 'visits' });
+      await counter.save();
+
+      expect(counter.getKey()).toBe('1');
+    });
+  });
+
+  describe('composite keys', () => {
+    it('saves, finds, updates and deletes by every key column', async () => {
+      await new Membership().forceFill({ team_id: 1, user_id: 1, role: 'owner' }).save();
+      await new Membership().forceFill({ team_id: 1, user_id: 2, role: 'member' }).save();
+      await new Membership().forceFill({ team_id: 2, user_id: 1, role: 'member' }).save();
+
+      const membership = (await Membership.find([1, 2]))!;
+      expect(membership.getKey()).toEqual([1, 2]);
+      expect(membership.getAttribute('role')).toBe('member');
+
+      membership.setAttribute('role', 'admin');
+      await membership.save();
+      expect((await Membership.query().where('role', 'admin').get()).modelKeys()).toEqual([[1, 2]]);
+
+      await membership.delete();
+      expect(await Membership.find([1, 2])).toBeNull();
+      expect(await Membership.query().count()).toBe(2);
+    });
+
+    it('destroys and queries several composite keys', async () => {
+      expect(await Membership.query().whereKey([[1, 1], [2, 1]]).count()).toBe(2);
+
+      await Membership.destroy([1, 1]);
+      expect((await Membership.all()).modelKeys()).toEqual([[2, 1]]);
+      expect(await Membership.query().whereKey([]).count()).toBe(0);
+    });
+
+    it('has no single key column', async () => {
+      expect(() => new Membership().getKeyName()).toThrow('composite primary key');
+      await expect(Membership.query().find([1])).rejects.toThrow('composite key needs values');
+    });
+  });
+});
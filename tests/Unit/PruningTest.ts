@@ -0,0 +1,164 @@
+/**
+ * Unit Test - Prunable Models
+ *
+ * Tests for Prunable and MassPrunable models, dry runs and pruning by name.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import { sql } from 'drizzle-orm';
+import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
+import { db } from '../TestDatabase';
+import { Model } from '@/backend/Models/Model';
+import { MassPrunable, ModelsPruned, Prunable, pruneModel, pruneModels } from '@/backend/Models/Prunable';
+import { EventDispatcher } from '@/backend/Events/Dispatcher';
+
+vi.mock('@/database', () => import('../TestDatabase').then(({ sqliteDatabase }) => sqliteDatabase()));
+
+const uploads = sqliteTable('uploads', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  path: text('path').notNull(),
+  attached: integer('attached').notNull().default(0),
+  deleted_at: integer('deleted_at', { mode: 'timestamp' }),
+});
+
+const sessions = sqliteTable('sessions', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  last_activity: integer('last_activity').notNull(),
+});
+
+const tokens = sqliteTable('tokens', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  revoked: integer('revoked').notNull().default(0),
+});
+
+const removedFiles: string[] = [];
+const keptFiles: string[] = [];
+
+class Upload extends Model implements Prunable {
+  protected table = 'uploads';
+  protected schemaTable = uploads;
+  protected timestamps = false;
+  protected softDeletes = true;
+
+  prunable() {
+    return Upload.query().where('attached', 0);
+  }
+
+  pruning() {
+    removedFiles.push(this.getAttribute('path') as string);
+  }
+
+  protected static booted(): void {
+    this.deleting((upload) => !keptFiles.includes(upload.getAttribute('path') as string));
+  }
+}
+
+class Session extends Model implements MassPrunable {
+  readonly massPrunable = true;
+  protected table = 'sessions';
+  protected schemaTable = sessions;
+  protected timestamps = false;
+
+  prunable() {
+    return Session.query().where('last_activity', '<', 100);
+  }
+}
+
+class Token extends Model implements MassPrunable {
+  readonly massPrunable = true;
+  protected table = 'tokens';
+  protected schemaTable = tokens;
+  protected timestamps = false;
+
+  protected static booted(): void {
+    this.addGlobalScope('active', (query) => query.where('revoked', 0));
+  }
+
+  prunable() {
+    return Token.query().withoutGlobalScope('active').where('revoked', 1);
+  }
+}
+
+const count = (table: string): number =>
+  (db().get(sql`SELECT COUNT(*) AS total FROM ${sql.identifier(table)}`) as { total: number }).total;
+
+const pruneEvents = (): ModelsPruned[] =>
+  EventDispatcher.getInstance().fired().filter((event): event is ModelsPruned => event instanceof ModelsPruned);
+
+describe('Prunable Models', () => {
+  beforeAll(() => {
+    db().run(sql`CREATE TABLE uploads (
+      id INTEGER PRIMARY KEY AUTOINCREMENT, path TEXT NOT NULL, attached INTEGER NOT NULL DEFAULT 0, deleted_at INTEGER
+    )`);
+    db().run(sql`CREATE TABLE sessions (id INTEGER PRIMARY KEY AUTOINCREMENT, last_activity INTEGER NOT NULL)`);
+    db().run(sql`CREATE TABLE tokens (id INTEGER PRIMARY KEY AUTOINCREMENT, revoked INTEGER NOT NULL DEFAULT 0)`);
+  });
+
+  beforeEach(async () => {
+    db().run(sql`DELETE FROM uploads`);
+    db().run(sql`DELETE FROM sessions`);
+    db().run(sql`DELETE FROM tokens`);
+    removedFiles.length = 0;
+    keptFiles.length = 0;
+
+    for (let i = 1; i <= 5; i++) {
+      await new Upload().forceFill({ path: `file-${i}.txt`, attached: i <= 2 ? 1 : 0 }).save();
+    }
+    await (await Upload.query().where('path', 'file-5.txt').first())!.delete();
+
+    await Session.insert(Array.from({ length: 25 }, (_, i) => ({ last_activity: i * 10 })));
+    EventDispatcher.getInstance().fake();
+  });
+
+  afterEach(() => {
+    EventDispatcher.reset();
+  });
+
+  it('deletes prunable models one by one, calling pruning() and including trashed records', async () => {
+    expect(await pruneModel(Upload, { chunkSize: 2 })).toBe(3);
+
+    expect(removedFiles.sort()).toEqual(['file-3.txt', 'file-4.txt', 'file-5.txt']);
+    expect(count('uploads')).toBe(2);
+    expect(pruneEvents().map((event) => event.count)).toEqual([2, 1]);
+  });
+
+  it('mass prunes in chunks without loading models', async () => {
+    expect(await pruneModel(Session, { chunkSize: 4 })).toBe(10);
+
+    expect(count('sessions')).toBe(15);
+    expect(pruneEvents().map((event) => event.count)).toEqual([4, 4, 2]);
+  });
+
+  it('only counts the models whose deletion was not cancelled', async () => {
+    keptFiles.push('file-4.txt');
+
+    expect(await pruneModel(Upload, { chunkSize: 2 })).toBe(2);
+
+    expect(count('uploads')).toBe(3);
+    expect(pruneEvents().map((event) => event.count)).toEqual([1, 1]);
+  });
+
+  it('mass prunes through the prunable() query when it removes a global scope', async () => {
+    await Token.insert([{ revoked: 0 }, { revoked: 1 }, { revoked: 1 }, { revoked: 1 }]);
+
+    expect(await pruneModel(Token, { chunkSize: 2 })).toBe(3);
+
+    expect(count('tokens')).toBe(1);
+    expect(pruneEvents().map((event) => event.count)).toEqual([2, 1]);
+  });
+
+  it('counts prunable records on a dry run', async () => {
+    const results = await pruneModels({ models: [Upload, Session], dryRun: true });
+
+    expect(results).toEqual([
+      { model: 'Upload', count: 3 },
+      { model: 'Session', count: 10 },
+    ]);
+    expect(count('uploads')).toBe(5);
+    expect(removedFiles).toEqual([]);
+  });
+
+  it('rejects model names that are not prunable', async () => {
+    await expect(pruneModels({ models: ['Missing'], path: '/nonexistent' })).rejects.toThrow('Model [Missing] is not prunable');
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * Unit Test - Query Logging
+ *
+ * Tests for inspecting generated SQL, query plans, query listeners, the
+ * slow query log and N+1 lazy loading warnings.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from 'vitest';
+import { sql } from 'drizzle-orm';
+import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
+import { DB } from '@/database';
+import { db } from '../TestDatabase';
+import type { QueryExecuted } from '@/database/QueryLog';
+import { Model } from '@/backend/Models/Model';
+import { logger } from '@/backend/Services/Logger';
+import Context from '@/backend/Core/Context';
+
+vi.hoisted(() => {
+  process.env.DB_SLOW_QUERY_THRESHOLD = '0';
+});
+
+vi.mock('@/database', async (importOriginal) => {
+  const { sqliteDatabase } = await import('../TestDatabase');
+  return { ...(await importOriginal<object>()), ...(await sqliteDatabase({ instrument: true })) };
+});
+
+const authors = sqliteTable('authors', {
+  id: integer('id').primaryKey(),
+  name: text('name').notNull(),
+});
+
+const books = sqliteTable('books', {
+  id: integer('id').primaryKey(),
+  author_id: integer('author_id').notNull(),
+  title: text('title').notNull(),
+});
+
+class Book extends Model {
+  protected table = 'books';
+  protected schemaTable = books;
+  protected timestamps = false;
+}
+
+class Author extends Model {
+  protected table = 'authors';
+  protected schemaTable = authors;
+  protected timestamps = false;
+
+  books() {
+    return this.hasMany(Book, 'author_id');
+  }
+}
+
+describe('Query Logging', () => {
+  let warning: ReturnType<typeof vi.spyOn>;
+
+  beforeAll(() => {
+    warning = vi.spyOn(logger(), 'warning').mockImplementation(() => {});
+    db().run(sql`CREATE TABLE authors (id INTEGER PRIMARY KEY, name TEXT NOT NULL)`);
+    db().run(sql`CREATE TABLE books (id INTEGER PRIMARY KEY, author_id INTEGER NOT NULL, title TEXT NOT NULL)`);
+    db().run(sql`CREATE INDEX books_author_id_index ON books (author_id)`);
+    db().run(sql`INSERT INTO authors (id, name) VALUES (1, 'Le Guin'), (2, 'O''Brien'), (3, 'Herbert')`);
+    db().run(sql`INSERT INTO books (id, author_id, title) VALUES (1, 1, 'Earthsea'), (2, 2, 'Mrs Frisby'), (3, 3, 'Dune')`);
+  });
+
+  beforeEach(() => {
+    warning.mockClear();
+  });
+
+  afterAll(() => {
+    warning.mockRestore();
+  });
+
+  describe('inspecting queries', () => {
+    it('compiles the SQL with placeholders, bindings or inlined values', () => {
+      const query = Author.query().where('name', "O'Brien").whereIn('id', [1, 2]).limit(5);
+
+      expect(query.toSql()).toBe('select "id", "name" from "authors" where ("authors"."name" = ? and "authors"."id" in (?, ?)) limit ?');
+      expect(query.getBindings()).toEqual(["O'Brien", 1, 2, 5]);
+      expect(query.toRawSql()).toBe(`select "id", "name" from "authors" where ("authors"."name" = 'O''Brien' and "authors"."id" in (1, 2)) limit 5`);
+    });
+
+    it('explains the query plan', async () => {
+      const plan = await Book.query().where('author_id', 1).explain();
+
+      expect(plan.map((step) => step.detail).join()).toContain('books_author_id_index');
+    });
+  });
+
+  describe('listening', () => {
+    it('reports executed statements with bindings and duration', async () => {
+      const queries: QueryExecuted[] = [];
+      const stop = DB.listen((query) => queries.push(query));
+
+      await Author.query().where('name', 'Herbert').get();
+      stop();
+      await Author.all();
+
+      expect(queries).toHaveLength(1);
+      expect(queries[0]).toMatchObject({ bindings: ['Herbert'], connection: 'sqlite' });
+      expect(queries[0].sql).toContain('from "authors"');
+      expect(typeof queries[0].time).toBe('number');
+    });
+
+    it('logs slow queries with the request id', async () => {
+      await Context.run({ requestId: 'req-42' }, () => Author.find(1));
+
+      expect(warning).toHaveBeenCalledWith(
+        expect.stringContaining('Slow query'),
+        expect.objectContaining({ bindings: [1, 1], connection: 'sqlite', request_id: 'req-42' })
+      );
+    });
+  });
+
+  describe('lazy loading', () => {
+    const lazyLoadWarnings = () => warning.mock.calls.filter(([message]) => String(message).includes('N+1'));
+
+    it('warns once when a relation is lazy loaded in a loop', async () => {
+      for (const author of await Author.all()) {
+        await author.books();
+      }
+
+      expect(lazyLoadWarnings()).toHaveLength(1);
+      expect(lazyLoadWarnings()[0][0]).toContain('[HasMany Book] is lazy loaded on each of 3 Author models');
+    });
+
+    it('does not warn for single models or eager loaded relations', async () => {
+      const author = (await Author.find(1))!;
+      await author.books();
+      await author.books();
+
+      for (const eager of await Author.query().with('books').get()) {
+        eager.getRelation('books');
+      }
+
+      expect(lazyLoadWarnings()).toHaveLength(0);
+    });
+  });
+});
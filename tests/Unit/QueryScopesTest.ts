@@ -0,0 +1,77 @@
+/**
+ * Unit Test - Query Scopes
+ *
+ * Tests for local scopes and global scopes on models.
+ */
+
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { sql } from 'drizzle-orm';
+import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
+import { db } from '../TestDatabase';
+import { Model, QueryBuilder, Scope } from '@/backend/Models/Model';
+
+vi.mock('@/database', () => import('../TestDatabase').then(({ sqliteDatabase }) => sqliteDatabase()));
+
+const posts = sqliteTable('posts', {
+  id: integer('id').primaryKey(),
+  tenant_id: integer('tenant_id').notNull(),
+  status: text('status').notNull(),
+  views: integer('views').notNull(),
+});
+
+class PublishedScope implements Scope {
+  apply(query: QueryBuilder<Record<string, unknown>>): void {
+    query.where('status', 'published');
+  }
+}
+
+class Post extends Model {
+  protected table = 'posts';
+  protected schemaTable = posts;
+
+  protected static booted(): void {
+    this.addGlobalScope(new PublishedScope());
+    this.addGlobalScope('tenant', (query) => query.where('tenant_id', 1));
+  }
+
+  scopePopular(query: QueryBuilder<Record<string, unknown>>, minViews: number = 100) {
+    query.where('views', '>=', minViews);
+  }
+}
+
+const ids = (models: Model[]) => models.map((model) => model.getKey());
+
+describe('Query Scopes', () => {
+  beforeAll(() => {
+    db().run(sql`CREATE TABLE posts (id INTEGER PRIMARY KEY, tenant_id INTEGER NOT NULL, status TEXT NOT NULL, views INTEGER NOT NULL)`);
+    db().insert(posts).values([
+      { id: 1, tenant_id: 1, status: 'published', views: 500 },
+      { id: 2, tenant_id: 1, status: 'draft', views: 900 },
+      { id: 3, tenant_id: 1, status: 'published', views: 10 },
+      { id: 4, tenant_id: 2, status: 'published', views: 800 },
+    ]).run();
+  });
+
+  it('applies global scopes to every query', async () => {
+    expect(ids(await Post.query().get())).toEqual([1, 3]);
+    expect(await Post.query().count()).toBe(2);
+    expect(await Post.find(4)).toBeNull();
+  });
+
+  it('removes global scopes by name or class', async () => {
+    expect(ids(await Post.query().withoutGlobalScope('tenant').get())).toEqual([1, 3, 4]);
+    expect(ids(await Post.query().withoutGlobalScope(PublishedScope).get())).toEqual([1, 2, 3]);
+    expect(await Post.query().withoutGlobalScopes().count()).toBe(4);
+    expect(Post.hasGlobalScope(PublishedScope)).toBe(true);
+  });
+
+  it('calls local scopes as builder methods', async () => {
+    expect(ids(await Post.query().popular().get())).toEqual([1]);
+    expect(ids(await Post.query().withoutGlobalScopes().popular(800).get())).toEqual([2, 4]);
+    expect(ids(await Post.query().scope('popular', 5).get())).toEqual([1, 3]);
+  });
+
+  it('throws for undefined local scopes', () => {
+    expect(() => Post.query().scope('missing')).toThrow('Call to undefined scope [missing]');
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Unit Test - Read Replicas
+ *
+ * Tests for routing reads to replicas over stand-in mysql2 pools that
+ * record the host each statement ran on: round-robin reads, sticky writes
+ * within a request, transactions and failing over to the writer.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, afterAll, vi } from 'vitest';
+import { sql } from 'drizzle-orm';
+import DatabaseFactory, { db, dbWrite, transaction } from '@/database';
+import { execute } from '@/database/dialect';
+import { logger } from '@/backend/Services/Logger';
+import Context from '@/backend/Core/Context';
+
+const servers = vi.hoisted(() => {
+  vi.stubEnv('DB_CONNECTION', 'mysql');
+  vi.stubEnv('DB_HOST', 'primary');
+  vi.stubEnv('DB_READ_HOST', 'replica-1, replica-2');
+
+  return {
+    /** Statements run, as `host: sql` */
+    log: [] as string[],
+    /** Hosts that refuse connections */
+    down: new Set<string>(),
+  };
+});
+
+vi.mock('mysql2/promise', () => ({
+  createPool: ({ host }: { host: string }) => {
+    const query = async ({ sql }: { sql: string }) => {
+      if (servers.down.has(host)) {
+        throw Object.assign(new Error(`connect ECONNREFUSED ${host}:3306`), { code: 'ECONNREFUSED' });
+      }
+      servers.log.push(`${host}: ${sql}`);
+      return /^select/.test(sql) ? [[], []] : [{ affectedRows: 1, insertId: 1 }, []];
+    };
+    return { query, getConnection: async () => ({ query, release: () => {} }), end: async () => {} };
+  },
+}));
+
+const read = () => execute(db(), sql`select 1`);
+const write = () => execute(dbWrite(), sql`insert into posts (title) values ('Engines')`);
+const hosts = () => servers.log.map((entry) => entry.split(':')[0]);
+
+describe('Read Replicas', () => {
+  let warning: ReturnType<typeof vi.spyOn>;
+
+  beforeAll(() => {
+    warning = vi.spyOn(logger(), 'warning').mockImplementation(() => {});
+  });
+
+  beforeEach(() => {
+    DatabaseFactory.reset();
+    servers.log = [];
+    servers.down.clear();
+    warning.mockClear();
+  });
+
+  afterAll(() => {
+    warning.mockRestore();
+    DatabaseFactory.reset();
+    vi.unstubAllEnvs();
+  });
+
+  it('reads from the replicas in turn and writes to the writer', async () => {
+    await read();
+    await read();
+    await read();
+    await write();
+
+    expect(hosts()).toEqual(['replica-1', 'replica-2', 'replica-1', 'primary']);
+  });
+
+  it('reads from the writer for the rest of a request after a write', async () => {
+    await Context.run({}, async () => {
+      await read();
+      await write();
+      await read();
+    });
+    await Context.run({}, () => read());
+
+    expect(hosts()).toEqual(['replica-1', 'primary', 'primary', 'replica-2']);
+  });
+
+  it('reads from the writer inside its transactions', async () => {
+    await transaction(async () => {
+      await read();
+    });
+
+    expect(servers.log).toEqual(['primary: begin', 'primary: select 1', 'primary: commit']);
+  });
+
+  it('fails over to the writer and skips a replica that is down', async () => {
+    servers.down.add('replica-1');
+
+    await read();
+    await read();
+    await read();
+
+    expect(hosts()).toEqual(['primary', 'replica-2', 'replica-2']);
+    expect(warning).toHaveBeenCalledOnce();
+    expect(warning.mock.calls[0][0]).toContain('Read replica [replica-1] of connection [mysql] is unreachable');
+  });
+
+  it('reads from the writer when every replica is down', async () => {
+    servers.down.add('replica-1');
+    servers.down.add('replica-2');
+
+    await read();
+    await read();
+    await read();
+
+    expect(hosts()).toEqual(['primary', 'primary', 'primary']);
+  });
+});
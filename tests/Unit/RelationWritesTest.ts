@@ -0,0 +1,175 @@
+/**
+ * Unit Test - Relationship Writes
+ *
+ * Tests for has-many creation, belongs-to association, pivot table writes
+ * and query chaining on relationship objects.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import { sql } from 'drizzle-orm';
+import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
+import { db } from '../TestDatabase';
+import { Model } from '@/backend/Models/Model';
+
+vi.mock('@/database', () => import('../TestDatabase').then(({ sqliteDatabase }) => sqliteDatabase()));
+
+const users = sqliteTable('users', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  name: text('name').notNull(),
+});
+
+const posts = sqliteTable('posts', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  user_id: integer('user_id'),
+  title: text('title').notNull(),
+  published: integer('published', { mode: 'boolean' }).notNull().default(false),
+});
+
+const roles = sqliteTable('roles', {
+  id: integer('id').primaryKey(),
+  name: text('name').notNull(),
+});
+
+const roleUser = sqliteTable('role_user', {
+  user_id: integer('user_id').notNull(),
+  role_id: integer('role_id').notNull(),
+  scope: text('scope'),
+  created_at: integer('created_at', { mode: 'timestamp' }),
+  updated_at: integer('updated_at', { mode: 'timestamp' }),
+});
+
+class User extends Model {
+  protected table = 'users';
+  protected schemaTable = users;
+  protected fillable = ['name'];
+  protected timestamps = false;
+
+  posts() {
+    return this.hasMany(Post, 'user_id');
+  }
+
+  roles() {
+    return this.belongsToMany(Role, roleUser).withPivot('scope').withTimestamps();
+  }
+}
+
+class Post extends Model {
+  protected table = 'posts';
+  protected schemaTable = posts;
+  protected fillable = ['title', 'published'];
+  protected timestamps = false;
+
+  author() {
+    return this.belongsTo(User, 'user_id');
+  }
+}
+
+class Role extends Model {
+  protected table = 'roles';
+  protected schemaTable = roles;
+  protected timestamps = false;
+}
+
+const names = (models: Model[]) => models.map((model) => model.getAttribute('name') ?? model.getAttribute('title'));
+
+describe('Relationship Writes', () => {
+  let user: User;
+
+  beforeAll(() => {
+    db().run(sql`CREATE TABLE users (id INTEGER PRIMARY KEY AUTOINCREMENT, name TEXT NOT NULL)`);
+    db().run(sql`CREATE TABLE posts (id INTEGER PRIMARY KEY AUTOINCREMENT, user_id INTEGER, title TEXT NOT NULL, published INTEGER NOT NULL DEFAULT 0)`);
+    db().run(sql`CREATE TABLE roles (id INTEGER PRIMARY KEY, name TEXT NOT NULL)`);
+    db().run(sql`CREATE TABLE role_user (user_id INTEGER NOT NULL, role_id INTEGER NOT NULL, scope TEXT, created_at INTEGER, updated_at INTEGER)`);
+    db().insert(roles).values([
+      { id: 1, name: 'admin' },
+      { id: 2, name: 'editor' },
+      { id: 3, name: 'viewer' },
+    ]).run();
+  });
+
+  beforeEach(async () => {
+    db().run(sql`DELETE FROM role_user`);
+    user = new User({ name: 'Ada' });
+    await user.save();
+  });
+
+  describe('hasMany', () => {
+    it('creates and saves related models with the foreign key set', async () => {
+      const created = await user.posts().create({ title: 'First' });
+      const saved = await user.posts().saveMany([new Post({ title: 'Second' }), new Post({ title: 'Third' })]);
+
+      expect(created.getAttribute('user_id')).toBe(user.getKey());
+      expect(saved.every((post) => post.exists)).toBe(true);
+      expect(names(await user.posts())).toEqual(['First', 'Second', 'Third']);
+    });
+
+    it('chains query methods on the relation', async () => {
+      await user.posts().createMany([
+        { title: 'Draft', published: false },
+        { title: 'Live', published: true },
+        { title: 'Also live', published: true },
+      ]);
+
+      expect(names(await user.posts().where('published', true).orderByDesc('id').get())).toEqual(['Also live', 'Live']);
+      expect(await user.posts().where('published', false).count()).toBe(1);
+      expect(await Post.query().count()).toBeGreaterThan(3);
+    });
+  });
+
+  describe('belongsTo', () => {
+    it('associates and dissociates the owner', async () => {
+      const post = new Post({ title: 'Orphan' });
+      post.author().associate(user);
+      expect(post.getAttribute('user_id')).toBe(user.getKey());
+
+      post.author().dissociate();
+      expect(post.getAttribute('user_id')).toBeNull();
+    });
+  });
+
+  describe('belongsToMany', () => {
+    it('attaches with pivot data and exposes model.pivot', async () => {
+      await user.roles().attach([1, 2], { scope: 'blog' });
+      const loaded = await user.roles().orderBy('id').get();
+
+      expect(names(loaded)).toEqual(['admin', 'editor']);
+      expect(loaded[0].pivot).toMatchObject({ user_id: user.getKey(), role_id: 1, scope: 'blog' });
+      expect(loaded[0].pivot?.created_at).toBeInstanceOf(Date);
+    });
+
+    it('detaches some or all related models', async () => {
+      await user.roles().attach([1, 2, 3]);
+
+      expect(await user.roles().detach(2)).toBe(1);
+      expect(names(await user.roles())).toEqual(['admin', 'viewer']);
+      expect(await user.roles().detach()).toBe(2);
+      expect(await user.roles()).toEqual([]);
+    });
+
+    it('syncs, toggles and updates pivot rows', async () => {
+      await user.roles().attach([1, 2]);
+
+      expect(await user.roles().sync({ 1: { scope: 'all' }, 3: {} })).toEqual({ attached: [3], detached: [2], updated: [1] });
+      expect(await user.roles().syncWithoutDetaching([2])).toEqual({ attached: [2], detached: [], updated: [] });
+      expect(await user.roles().toggle([1, 2])).toEqual({ attached: [], detached: [1, 2] });
+      expect(await user.roles().updateExistingPivot(3, { scope: 'docs' })).toBe(1);
+
+      const [role] = await user.roles();
+      expect(role.getKey()).toBe(3);
+      expect(role.pivot?.scope).toBe('docs');
+    });
+
+    it('keeps a pivot row per parent when eager loading', async () => {
+      const other = new User({ name: 'Grace' });
+      await other.save();
+      await user.roles().attach(1, { scope: 'first' });
+      await other.roles().attach(1, { scope: 'second' });
+
+      const loaded = await User.query().whereIn('id', [user.getKey(), other.getKey()]).orderBy('id').with('roles').get();
+      const scopes = loaded.map((model) => model.getRelation<Role[]>('roles')![0].pivot?.scope);
+
+      expect(scopes).toEqual(['first', 'second']);
+      expect(await User.query().whereHas('roles', (query) => query.where('name', 'admin')).count()).toBe(2);
+    });
+  });
+});
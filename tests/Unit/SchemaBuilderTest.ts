@@ -0,0 +1,289 @@
+/**
+ * Unit Test - Schema Builder
+ *
+ * Tests for creating and changing tables with blueprints: column types,
+ * keys and indexes, altering SQLite tables in place or rebuilding them,
+ * PostgreSQL over an embedded PGlite, and the statements MySQL compiles to.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import { sql } from 'drizzle-orm';
+import { db } from '../TestDatabase';
+import { execute, statement } from '@/database/dialect';
+import { listen } from '@/database/QueryLog';
+import { runTransaction } from '@/database/transactions';
+import { Migrator } from '@/database/Migrator';
+import { Blueprint, Schema } from '@/database/SchemaBuilder';
+import { SchemaGrammar } from '@/database/SchemaGrammar';
+
+vi.mock('@/database', async (importOriginal) => {
+  const { sqliteDatabase } = await import('../TestDatabase');
+  return { ...(await importOriginal<object>()), ...(await sqliteDatabase({ instrument: true })) };
+});
+
+const rows = async <T = Record<string, unknown>>(query: ReturnType<typeof sql>, connection: object = db()) =>
+  (await execute<T>(connection, query)).rows;
+
+const indexes = (table: string) =>
+  rows<{ name: string; sql: string }>(sql`select name, sql from sqlite_master where type = 'index' and tbl_name = ${table} and sql is not null order by name`);
+
+/** Collect the statements a callback runs, leaving out reads */
+async function statements(callback: () => Promise<void>): Promise<string[]> {
+  const ran: string[] = [];
+  const stop = listen((query) => {
+    if (!/^(select|pragma)/.test(query.sql)) ran.push(query.sql);
+  });
+  try {
+    await callback();
+  } finally {
+    stop();
+  }
+  return ran;
+}
+
+const createUsersAndPosts = async () => {
+  await Schema.create('users', (table) => {
+    table.id();
+    table.string('email').unique();
+    table.timestamps();
+  });
+  await Schema.create('posts', (table) => {
+    table.id();
+    table.foreignId('user_id').constrained().cascadeOnDelete();
+    table.string('title');
+    table.text('body').nullable();
+    table.boolean('published').default(false);
+    table.timestamps();
+    table.softDeletes();
+    table.index(['user_id', 'published']);
+  });
+};
+
+describe('Schema Builder', () => {
+  describe('on SQLite', () => {
+    beforeEach(async () => {
+      await new Migrator().dropAllTables();
+    });
+
+    it('creates tables with columns, keys and indexes', async () => {
+      await createUsersAndPosts();
+
+      expect(await rows(sql`select name, type, "notnull", dflt_value, pk from pragma_table_info('posts')`)).toEqual([
+        { name: 'id', type: 'INTEGER', notnull: 1, dflt_value: null, pk: 1 },
+        { name: 'user_id', type: 'INTEGER', notnull: 1, dflt_value: null, pk: 0 },
+        { name: 'title', type: 'TEXT', notnull: 1, dflt_value: null, pk: 0 },
+        { name: 'body', type: 'TEXT', notnull: 0, dflt_value: null, pk: 0 },
+        { name: 'published', type: 'INTEGER', notnull: 1, dflt_value: '0', pk: 0 },
+        { name: 'created_at', type: 'INTEGER', notnull: 1, dflt_value: 'unixepoch()', pk: 0 },
+        { name: 'updated_at', type: 'INTEGER', notnull: 1, dflt_value: 'unixepoch()', pk: 0 },
+        { name: 'deleted_at', type: 'INTEGER', notnull: 0, dflt_value: null, pk: 0 },
+      ]);
+      expect(await rows(sql`select "table", "from", "to", on_delete from pragma_foreign_key_list('posts')`)).toEqual([
+        { table: 'users', from: 'user_id', to: 'id', on_delete: 'CASCADE' },
+      ]);
+      expect((await indexes('posts')).map((index) => index.name)).toEqual(['posts_user_id_published_index']);
+      expect((await indexes('users')).map((index) => index.name)).toEqual(['users_email_unique']);
+
+      await statement(db(), sql`insert into users (email) values ('ada@example.com')`);
+      const [user] = await rows<{ created_at: number }>(sql`select created_at from users`);
+      expect(user.created_at).toBeGreaterThan(1_700_000_000);
+    });
+
+    it('adds, renames and drops plain columns in place', async () => {
+      await createUsersAndPosts();
+
+      const ran = await statements(() => Schema.table('posts', (table) => {
+        table.string('slug').nullable().unique();
+        table.renameColumn('body', 'content');
+        table.dropColumn('deleted_at');
+      }));
+
+      expect(ran).toEqual([
+        'alter table "posts" add column "slug" text',
+        'create unique index "posts_slug_unique" on "posts" ("slug")',
+        'alter table "posts" rename column "body" to "content"',
+        'alter table "posts" drop column "deleted_at"',
+      ]);
+      expect(await Schema.getColumnListing('posts')).toEqual([
+        'id', 'user_id', 'title', 'content', 'published', 'created_at', 'updated_at', 'slug',
+      ]);
+    });
+
+    it('rebuilds the table for changes ALTER TABLE cannot make, keeping rows, keys and indexes', async () => {
+      await createUsersAndPosts();
+      await statement(db(), sql`insert into users (email) values ('ada@example.com')`);
+      await statement(db(), sql`insert into posts (user_id, title, body) values (1, 'Engines', 'Analytical')`);
+
+      const ran = await statements(() => Schema.table('posts', (table) => {
+        table.string('title', 100).nullable().change();
+        table.renameColumn('user_id', 'author_id');
+        table.dropColumn('published');
+      }));
+
+      expect(ran).toContain('drop table "posts"');
+      expect(await rows(sql`select id, author_id, title, body from posts`)).toEqual([
+        { id: 1, author_id: 1, title: 'Engines', body: 'Analytical' },
+      ]);
+      expect(await rows(sql`select name, "notnull" from pragma_table_info('posts') where name = 'title'`)).toEqual([
+        { name: 'title', notnull: 0 },
+      ]);
+      expect(await rows(sql`select "from", on_delete from pragma_foreign_key_list('posts')`)).toEqual([
+        { from: 'author_id', on_delete: 'CASCADE' },
+      ]);
+      // The index on the dropped column is dropped with it
+      expect(await indexes('posts')).toEqual([]);
+
+      // The autoincrementing key keeps counting
+      await statement(db(), sql`insert into posts (author_id, title) values (1, 'Looms')`);
+      expect(await rows(sql`select max(id) as id from posts`)).toEqual([{ id: 2 }]);
+    });
+
+    it('adds and drops foreign keys and unique constraints by rebuilding', async () => {
+      await statement(db(), sql`create table tags (id integer primary key, name text not null unique, slug text)`);
+      await createUsersAndPosts();
+
+      await Schema.table('tags', (table) => {
+        table.foreignId('user_id').nullable().constrained().nullOnDelete();
+        table.dropUnique(['name']);
+        table.index('slug');
+      });
+
+      expect(await rows(sql`select "from", on_delete from pragma_foreign_key_list('tags')`)).toEqual([{ from: 'user_id', on_delete: 'SET NULL' }]);
+      expect((await indexes('tags')).map((index) => index.name)).toEqual(['tags_slug_index']);
+
+      await Schema.table('tags', (table) => {
+        table.dropConstrainedForeignId('user_id');
+      });
+
+      expect(await rows(sql`select * from pragma_foreign_key_list('tags')`)).toEqual([]);
+      expect(await Schema.hasColumn('tags', 'user_id')).toBe(false);
+    });
+
+    it('rebuilds a referenced table without running the ON DELETE actions of the tables referencing it', async () => {
+      await createUsersAndPosts();
+      await statement(db(), sql`insert into users (email) values ('ada@example.com')`);
+      await statement(db(), sql`insert into posts (user_id, title) values (1, 'Engines')`);
+
+      await Schema.table('users', (table) => {
+        table.string('email', 120).nullable().change();
+      });
+
+      expect(await rows(sql`select title from posts`)).toEqual([{ title: 'Engines' }]);
+      expect(await rows(sql`pragma foreign_keys`)).toEqual([{ foreign_keys: 1 }]);
+    });
+
+    it('rolls a rebuild back when rows violate the new foreign keys', async () => {
+      await createUsersAndPosts();
+      await Schema.create('comments', (table) => {
+        table.id();
+        table.unsignedInteger('post_id');
+      });
+      await statement(db(), sql`insert into comments (post_id) values (99)`);
+
+      await expect(Schema.table('comments', (table) => {
+        table.foreign('post_id').references('id').on('posts');
+      })).rejects.toThrow('Rows of [comments] violate their foreign keys.');
+
+      expect(await rows(sql`select * from pragma_foreign_key_list('comments')`)).toEqual([]);
+      expect(await rows(sql`select post_id from comments`)).toEqual([{ post_id: 99 }]);
+    });
+
+    it('refuses to rebuild inside a transaction that enforces foreign keys', async () => {
+      await createUsersAndPosts();
+
+      await expect(runTransaction(db(), () => Schema.table('posts', (table) => {
+        table.text('title').nullable().change();
+      }))).rejects.toThrow('SQLite cannot turn foreign keys off inside a transaction');
+    });
+
+    it('checks, renames and drops tables', async () => {
+      await createUsersAndPosts();
+
+      await Schema.rename('posts', 'articles');
+      expect([await Schema.hasTable('posts'), await Schema.hasTable('articles')]).toEqual([false, true]);
+      expect(await Schema.hasColumn('articles', 'title')).toBe(true);
+
+      await Schema.drop('articles');
+      await Schema.dropIfExists('articles');
+      expect(await Schema.hasTable('articles')).toBe(false);
+    });
+  });
+
+  describe('on PostgreSQL', () => {
+    let pg: object;
+    let schema: typeof Schema;
+
+    beforeAll(async () => {
+      const { PGlite } = await import('@electric-sql/pglite');
+      const { drizzle } = await import('drizzle-orm/pglite');
+      pg = drizzle(new PGlite());
+      schema = Schema.connection(pg);
+    }, 60_000);
+
+    it('creates and alters tables in place', async () => {
+      await schema.create('users', (table) => {
+        table.id();
+        table.string('email', 120).unique();
+      });
+      await schema.create('posts', (table) => {
+        table.id();
+        table.foreignId('user_id').constrained();
+        table.string('title');
+        table.boolean('published').default(true);
+        table.timestamps();
+      });
+
+      await schema.table('posts', (table) => {
+        table.text('title').nullable().change();
+        table.decimal('price', 10, 2).default(0);
+        table.renameColumn('published', 'visible');
+        table.dropForeign(['user_id']);
+      });
+
+      expect(await rows(sql`
+        select column_name, data_type, is_nullable, column_default from information_schema.columns
+        where table_name = 'posts' order by ordinal_position
+      `, pg)).toEqual([
+        { column_name: 'id', data_type: 'integer', is_nullable: 'NO', column_default: "nextval('posts_id_seq'::regclass)" },
+        { column_name: 'user_id', data_type: 'integer', is_nullable: 'NO', column_default: null },
+        { column_name: 'title', data_type: 'text', is_nullable: 'YES', column_default: null },
+        { column_name: 'visible', data_type: 'boolean', is_nullable: 'NO', column_default: 'true' },
+        { column_name: 'created_at', data_type: 'timestamp without time zone', is_nullable: 'NO', column_default: 'CURRENT_TIMESTAMP' },
+        { column_name: 'updated_at', data_type: 'timestamp without time zone', is_nullable: 'NO', column_default: 'CURRENT_TIMESTAMP' },
+        { column_name: 'price', data_type: 'numeric', is_nullable: 'NO', column_default: '0' },
+      ]);
+      expect(await rows(sql`select conname from pg_constraint where conrelid = 'posts'::regclass and contype = 'f'`, pg)).toEqual([]);
+      expect(await schema.hasTable('posts')).toBe(true);
+    });
+  });
+
+  describe('on MySQL', () => {
+    it('compiles columns, keys and changes', () => {
+      const grammar = new SchemaGrammar('mysql');
+      const create = new Blueprint('posts', 'app_');
+      create.id();
+      create.foreignId('user_id').constrained().cascadeOnDelete();
+      create.string('title', 100);
+      create.boolean('published').default(false);
+      create.index('title');
+
+      const alter = new Blueprint('posts', 'app_');
+      alter.text('title').nullable().change();
+      alter.dropForeign(['user_id']);
+      alter.dropIndex(['title']);
+
+      expect(grammar.compileCreate(create)).toEqual([
+        'create table `app_posts` (`id` int unsigned not null auto_increment primary key, `user_id` int unsigned not null, '
+          + '`title` varchar(100) not null, `published` tinyint(1) not null default 0, '
+          + 'constraint `app_posts_user_id_foreign` foreign key (`user_id`) references `app_users` (`id`) on delete cascade)',
+        'create index `app_posts_title_index` on `app_posts` (`title`)',
+      ]);
+      expect(grammar.compileAlter(alter)).toEqual([
+        'alter table `app_posts` modify `title` text',
+        'alter table `app_posts` drop foreign key `app_posts_user_id_foreign`',
+        'drop index `app_posts_title_index` on `app_posts`',
+      ]);
+      expect(grammar.compileRename('app_posts', 'app_articles')).toBe('rename table `app_posts` to `app_articles`');
+    });
+  });
+});
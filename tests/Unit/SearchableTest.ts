@@ -0,0 +1,163 @@
+/**
+ * Unit Test - Full-Text Search
+ *
+ * Tests for searchable models, index syncing, ranking, highlighting, prefix
+ * matching and rebuilding the index.
+ */
+
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import { sql } from 'drizzle-orm';
+import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
+import { db, swapConnection } from '../TestDatabase';
+import { execute } from '@/database/dialect';
+import { Model } from '@/backend/Models/Model';
+import { compileSearchQuery, importSearchable } from '@/backend/Models/Searchable';
+
+vi.mock('@/database', () => import('../TestDatabase').then(({ sqliteDatabase }) => sqliteDatabase()));
+
+const articles = sqliteTable('articles', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  title: text('title').notNull(),
+  body: text('body').notNull(),
+  published: integer('published').notNull().default(1),
+  deleted_at: integer('deleted_at', { mode: 'timestamp' }),
+});
+
+class Article extends Model {
+  protected table = 'articles';
+  protected schemaTable = articles;
+  protected timestamps = false;
+  protected softDeletes = true;
+  protected searchable = ['title', 'body'];
+}
+
+const members = sqliteTable('members', {
+  id: text('id').primaryKey(),
+  name: text('name').notNull(),
+});
+
+class Member extends Model {
+  protected table = 'members';
+  protected schemaTable = members;
+  protected timestamps = false;
+  protected keyType: 'int' | 'string' = 'string';
+  protected incrementing = false;
+  protected searchable = ['name'];
+}
+
+const publish = (title: string, body: string, published = 1): Promise<boolean> =>
+  new Article().forceFill({ title, body, published }).save();
+
+const titles = (models: Model[]): unknown[] => models.map((model) => model.getAttribute('title'));
+
+describe('Full-Text Search', () => {
+  beforeAll(() => {
+    db().run(sql`CREATE TABLE members (id TEXT PRIMARY KEY, name TEXT NOT NULL)`);
+    db().run(sql`CREATE TABLE articles (
+      id INTEGER PRIMARY KEY AUTOINCREMENT, title TEXT NOT NULL, body TEXT NOT NULL, published INTEGER NOT NULL DEFAULT 1, deleted_at INTEGER
+    )`);
+  });
+
+  beforeEach(async () => {
+    db().run(sql`DELETE FROM articles`);
+    await importSearchable(Article);
+
+    await publish('Laravel tips', 'A few framework tricks');
+    await publish('Cooking pasta', 'Laravel laravel laravel, said nobody in the kitchen');
+    await publish('Drafts', 'Unpublished laravel notes', 0);
+    await publish('Gardening', 'Tomatoes and basil');
+  });
+
+  it('ranks matches and combines with other constraints', async () => {
+    const results = await Article.search('laravel').where('published', 1).get();
+
+    expect(titles(results)).toEqual(['Cooking pasta', 'Laravel tips']);
+    expect(typeof results[0].getAttribute('search_rank')).toBe('number');
+  });
+
+  it('matches prefixes, ignores accents and punctuation', async () => {
+    expect(titles(await Article.search('tomat').get())).toEqual(['Gardening']);
+    expect(titles(await Article.search('"cóoking" (past').get())).toEqual(['Cooking pasta']);
+    expect(await Article.search('tomat', { prefix: false }).count()).toBe(0);
+    expect(await Article.search('  !! ').count()).toBe(0);
+  });
+
+  it('highlights matches in the requested columns', async () => {
+    const [article] = await Article.search('tips', { highlight: ['title'], highlightTags: ['[', ']'] }).get();
+
+    expect(article.getAttribute('title_highlight')).toBe('Laravel [tips]');
+  });
+
+  it('paginates search results', async () => {
+    const page = await Article.search('laravel').paginate(2, 2);
+
+    expect(page.total()).toBe(3);
+    expect(page.items()).toHaveLength(1);
+  });
+
+  it('keeps the index in sync with updates, deletes and restores', async () => {
+    const article = (await Article.search('gardening').first())!;
+    article.setAttribute('title', 'Orchards');
+    await article.save();
+
+    expect(await Article.search('gardening').count()).toBe(0);
+    expect(await Article.search('orchards').count()).toBe(1);
+
+    await article.delete();
+    expect(await Article.search('orchards').withTrashed().count()).toBe(0);
+
+    await article.restore();
+    expect(await Article.search('orchards').count()).toBe(1);
+  });
+
+  it('rebuilds the index from the table', async () => {
+    db().run(sql`INSERT INTO articles (title, body) VALUES ('Imported', 'Written outside the model')`);
+    expect(await Article.search('imported').count()).toBe(0);
+
+    expect(await importSearchable(Article)).toBe(5);
+    expect(await Article.search('imported').count()).toBe(1);
+  });
+
+  it('indexes models with string keys', async () => {
+    await new Member().forceFill({ id: 'member-b', name: 'Grace Hopper' }).save();
+    const ada = new Member().forceFill({ id: 'member-a', name: 'Ada Lovelace' });
+    await ada.save();
+
+    const [found] = await Member.search('lovelace', { highlight: ['name'] }).get();
+    expect(found.getKey()).toBe('member-a');
+    expect(found.getAttribute('name_highlight')).toBe('Ada <mark>Lovelace</mark>');
+
+    await ada.delete();
+    expect(await Member.search('lovelace').count()).toBe(0);
+    expect(await Member.search('hopper').count()).toBe(1);
+  });
+
+  it('saves searchable models on other dialects without indexing them', async () => {
+    const { PGlite } = await import('@electric-sql/pglite');
+    const { drizzle } = await import('drizzle-orm/pglite');
+    const notes = sqliteTable('notes', { id: integer('id').primaryKey({ autoIncrement: true }), body: text('body').notNull() });
+
+    class Note extends Model {
+      protected table = 'notes';
+      protected schemaTable = notes;
+      protected timestamps = false;
+      protected searchable = ['body'];
+    }
+
+    const sqlite = swapConnection(drizzle(new PGlite()));
+    try {
+      await execute(db(), sql`CREATE TABLE notes (id serial PRIMARY KEY, body text NOT NULL)`);
+
+      expect(await new Note().forceFill({ body: 'Postgres' }).save()).toBe(true);
+      expect(() => Note.search('postgres')).toThrow('full-text search needs a SQLite connection');
+    } finally {
+      swapConnection(sqlite);
+    }
+  }, 60_000);
+
+  it('quotes user input as FTS5 terms', () => {
+    expect(compileSearchQuery('foo-bar "baz')).toBe('"foo"* "bar"* "baz"*');
+    expect(compileSearchQuery('foo', false)).toBe('"foo"');
+    expect(compileSearchQuery('---')).toBeNull();
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Unit Test - Soft Deletes
+ *
+ * Tests for soft deleting models and the trashed query scopes.
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { sql } from 'drizzle-orm';
+import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
+import { db } from '../TestDatabase';
+import { Model } from '@/backend/Models/Model';
+
+vi.mock('@/database', () => import('../TestDatabase').then(({ sqliteDatabase }) => sqliteDatabase()));
+
+const posts = sqliteTable('posts', {
+  id: integer('id').primaryKey(),
+  title: text('title').notNull(),
+  updated_at: integer('updated_at', { mode: 'timestamp' }),
+  deleted_at: integer('deleted_at', { mode: 'timestamp' }),
+});
+
+class Post extends Model {
+  protected table = 'posts';
+  protected schemaTable = posts;
+  protected softDeletes = true;
+}
+
+describe('Soft Deletes', () => {
+  beforeEach(() => {
+    db().run(sql`DROP TABLE IF EXISTS posts`);
+    db().run(sql`CREATE TABLE posts (id INTEGER PRIMARY KEY, title TEXT NOT NULL, updated_at INTEGER, deleted_at INTEGER)`);
+    db().insert(posts).values([
+      { id: 1, title: 'Draft' },
+      { id: 2, title: 'Published' },
+    ]).run();
+  });
+
+  it('sets deleted_at instead of removing the row', async () => {
+    const post = await Post.find(1);
+    await post!.delete();
+
+    expect(post!.trashed()).toBe(true);
+    expect(await Post.find(1)).toBeNull();
+    expect(db().select().from(posts).all()).toHaveLength(2);
+  });
+
+  it('scopes trashed models in and out of queries', async () => {
+    await Post.query().where('id', 2).delete();
+
+    expect(await Post.query().count()).toBe(1);
+    expect(await Post.withTrashed().count()).toBe(2);
+    expect((await Post.onlyTrashed().get()).map((post) => post.getKey())).toEqual([2]);
+  });
+
+  it('restores soft deleted models and fires restore events', async () => {
+    const events: string[] = [];
+    Post.restoring(() => { events.push('restoring'); });
+    Post.restored(() => { events.push('restored'); });
+
+    await Post.destroy(1);
+    const post = await Post.onlyTrashed().firstOrFail();
+    await post.restore();
+
+    expect(post.trashed()).toBe(false);
+    expect(await Post.find(1)).not.toBeNull();
+    expect(events).toEqual(['restoring', 'restored']);
+  });
+
+  it('restores through the query builder', async () => {
+    await Post.query().delete();
+    await Post.onlyTrashed().restore();
+
+    expect(await Post.query().count()).toBe(2);
+  });
+
+  it('force deletes rows permanently', async () => {
+    const post = await Post.find(1);
+    await post!.forceDelete();
+    await Post.query().where('id', 2).forceDelete();
+
+    expect(await Post.withTrashed().count()).toBe(0);
+  });
+});
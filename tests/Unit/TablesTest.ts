@@ -0,0 +1,104 @@
+/**
+ * Unit Test - Portable Tables
+ *
+ * Tests for declaring tables once with `defineTable` and building them per
+ * dialect: column types, prefixes, references, and models running on a
+ * declared table over an embedded PostgreSQL (PGlite).
+ */
+
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { sql, getTableName } from 'drizzle-orm';
+import { getTableConfig as getSQLiteTableConfig } from 'drizzle-orm/sqlite-core';
+import { getTableConfig as getPgTableConfig, pgTable, serial, PgTable } from 'drizzle-orm/pg-core';
+import { getTableConfig as getMySqlTableConfig, MySqlTable } from 'drizzle-orm/mysql-core';
+import { db } from '@/database';
+import { execute } from '@/database/dialect';
+import { defineTable, tableFor, schemaFor } from '@/database/tables';
+import { Model } from '@/backend/Models/Model';
+
+vi.mock('@/database', async () => {
+  const { PGlite } = await import('@electric-sql/pglite');
+  const { drizzle } = await import('drizzle-orm/pglite');
+  const connection = drizzle(new PGlite());
+  return { db: () => connection, dbWrite: () => connection };
+});
+
+const members = defineTable('members', (t) => ({
+  id: t.id(),
+  email: t.string('email', 120).notNull().unique(),
+  bio: t.text('bio'),
+  active: t.boolean('active').notNull().default(true),
+  joined_at: t.timestamp('joined_at').notNull().default(t.now()),
+}));
+
+const badges = defineTable('badges', (t) => ({
+  id: t.id(),
+  member_id: t.integer('member_id').notNull().references(() => t.resolve(members).id),
+}), (table, t) => [
+  t.index('badges_member_id_index').on(table.member_id),
+]);
+
+class Member extends Model {
+  protected table = 'members';
+  protected schemaTable = members;
+  protected timestamps = false;
+}
+
+const types = (columns: { getSQLType(): string }[]) => columns.map((column) => column.getSQLType());
+
+describe('Portable Tables', () => {
+  describe('building', () => {
+    it('picks column types per dialect', () => {
+      expect(types(getSQLiteTableConfig(members).columns)).toEqual(['integer', 'text', 'text', 'integer', 'integer']);
+      expect(types(getPgTableConfig(tableFor(members, 'postgres', '') as unknown as PgTable).columns))
+        .toEqual(['serial', 'varchar(120)', 'text', 'boolean', 'timestamp']);
+      expect(types(getMySqlTableConfig(tableFor(members, 'mysql', '') as unknown as MySqlTable).columns))
+        .toEqual(['int', 'varchar(120)', 'text', 'boolean', 'datetime']);
+    });
+
+    it('builds each dialect and prefix once, prefixing the table name', () => {
+      const prefixed = tableFor(members, 'postgres', 'app_');
+
+      expect(getTableName(prefixed)).toBe('app_members');
+      expect(tableFor(members, 'postgres', 'app_')).toBe(prefixed);
+      expect(tableFor(members, 'sqlite', '')).toBe(members);
+    });
+
+    it('resolves references and indexes in the same dialect and prefix', () => {
+      const config = getPgTableConfig(tableFor(badges, 'postgres', 'app_') as unknown as PgTable);
+
+      expect(config.foreignKeys[0].reference().foreignTable).toBe(tableFor(members, 'postgres', 'app_'));
+      expect(config.indexes[0].config.name).toBe('badges_member_id_index');
+    });
+
+    it('leaves tables not declared with defineTable unchanged', () => {
+      const plain = pgTable('plain', { id: serial('id').primaryKey() });
+
+      expect(tableFor(plain, 'mysql', 'app_')).toBe(plain);
+      expect(schemaFor({ plain, members, version: 1 }, 'postgres')).toEqual({
+        plain,
+        members: tableFor(members, 'postgres', ''),
+        version: 1,
+      });
+    });
+  });
+
+  describe('on PostgreSQL', () => {
+    beforeAll(async () => {
+      await execute(db(), sql`CREATE TABLE members (
+        id serial PRIMARY KEY, email varchar(120) NOT NULL UNIQUE, bio text,
+        active boolean NOT NULL DEFAULT true, joined_at timestamp NOT NULL DEFAULT CURRENT_TIMESTAMP
+      )`);
+    }, 60_000);
+
+    it('saves and queries models on the declared table', async () => {
+      const member = new Member().forceFill({ email: 'ada@example.com', active: false, joined_at: new Date('2024-01-02T03:04:05Z') });
+      await member.save();
+
+      const found = (await Member.query().where('active', false).first())!;
+      expect(found.getKey()).toBe(member.getKey());
+      expect(found.getAttribute('active')).toBe(false);
+      expect(found.getAttribute('joined_at')).toBeInstanceOf(Date);
+    });
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Unit Test - Where Clauses
+ *
+ * Tests for or/nested where groups, column comparisons and relationship
+ * existence filters on the QueryBuilder.
+ */
+
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import { sql } from 'drizzle-orm';
+import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
+import { db } from '../TestDatabase';
+import { Model } from '@/backend/Models/Model';
+
+vi.mock('@/database', () => import('../TestDatabase').then(({ sqliteDatabase }) => sqliteDatabase()));
+
+const users = sqliteTable('users', {
+  id: integer('id').primaryKey(),
+  name: text('name').notNull(),
+  role: text('role').notNull(),
+  votes: integer('votes').notNull(),
+  tenant_id: integer('tenant_id').notNull(),
+});
+
+const posts = sqliteTable('posts', {
+  id: integer('id').primaryKey(),
+  user_id: integer('user_id').notNull(),
+  title: text('title').notNull(),
+  created_at: integer('created_at').notNull(),
+  updated_at: integer('updated_at').notNull(),
+});
+
+const comments = sqliteTable('comments', {
+  id: integer('id').primaryKey(),
+  post_id: integer('post_id').notNull(),
+  body: text('body').notNull(),
+});
+
+const role_user = sqliteTable('role_user', {
+  user_id: integer('user_id').notNull(),
+  role_id: integer('role_id').notNull(),
+});
+
+const roles = sqliteTable('roles', {
+  id: integer('id').primaryKey(),
+  name: text('name').notNull(),
+});
+
+class User extends Model {
+  protected table = 'users';
+  protected schemaTable = users;
+
+  protected static booted(): void {
+    this.addGlobalScope('tenant', (query) => query.where('tenant_id', 1));
+  }
+
+  posts() {
+    return this.hasMany(Post, 'user_id');
+  }
+
+  roles() {
+    return this.belongsToMany(Role, 'role_user', 'user_id', 'role_id');
+  }
+}
+
+class Post extends Model {
+  protected table = 'posts';
+  protected schemaTable = posts;
+
+  author() {
+    return this.belongsTo(User, 'user_id');
+  }
+
+  comments() {
+    return this.hasMany(Comment, 'post_id');
+  }
+}
+
+class Comment extends Model {
+  protected table = 'comments';
+  protected schemaTable = comments;
+}
+
+class Role extends Model {
+  protected table = 'roles';
+  protected schemaTable = roles;
+}
+
+const categories = sqliteTable('categories', {
+  id: integer('id').primaryKey(),
+  parent_id: integer('parent_id'),
+  name: text('name').notNull(),
+});
+
+class Category extends Model {
+  protected table = 'categories';
+  protected schemaTable = categories;
+  protected timestamps = false;
+
+  parent() {
+    return this.belongsTo(Category, 'parent_id');
+  }
+
+  children() {
+    return this.hasMany(Category, 'parent_id');
+  }
+}
+
+const names = (models: Model[]) => models.map((model) => model.getAttribute('name'));
+
+describe('Where Clauses', () => {
+  beforeAll(() => {
+    db().run(sql`CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT NOT NULL, role TEXT NOT NULL, votes INTEGER NOT NULL, tenant_id INTEGER NOT NULL)`);
+    db().run(sql`CREATE TABLE posts (id INTEGER PRIMARY KEY, user_id INTEGER NOT NULL, title TEXT NOT NULL, created_at INTEGER NOT NULL, updated_at INTEGER NOT NULL)`);
+    db().run(sql`CREATE TABLE comments (id INTEGER PRIMARY KEY, post_id INTEGER NOT NULL, body TEXT NOT NULL)`);
+    db().run(sql`CREATE TABLE role_user (user_id INTEGER NOT NULL, role_id INTEGER NOT NULL)`);
+    db().run(sql`CREATE TABLE roles (id INTEGER PRIMARY KEY, name TEXT NOT NULL)`);
+    db().run(sql`CREATE TABLE categories (id INTEGER PRIMARY KEY, parent_id INTEGER, name TEXT NOT NULL)`);
+
+    db().insert(users).values([
+      { id: 1, name: 'Ada', role: 'admin', votes: 10, tenant_id: 1 },
+      { id: 2, name: 'Grace', role: 'editor', votes: 150, tenant_id: 1 },
+      { id: 3, name: 'Linus', role: 'editor', votes: 50, tenant_id: 1 },
+      { id: 4, name: 'Other', role: 'admin', votes: 500, tenant_id: 2 },
+    ]).run();
+    db().insert(posts).values([
+      { id: 1, user_id: 1, title: 'First', created_at: 1, updated_at: 5 },
+      { id: 2, user_id: 1, title: 'Second', created_at: 2, updated_at: 2 },
+      { id: 3, user_id: 2, title: 'Third', created_at: 3, updated_at: 9 },
+    ]).run();
+    db().insert(comments).values([
+      { id: 1, post_id: 1, body: 'Nice' },
+      { id: 2, post_id: 3, body: 'Great' },
+    ]).run();
+    db().insert(roles).values([{ id: 1, name: 'Owner' }]).run();
+    db().insert(role_user).values([{ user_id: 3, role_id: 1 }]).run();
+    db().insert(categories).values([
+      { id: 1, parent_id: null, name: 'Books' },
+      { id: 2, parent_id: 1, name: 'Fiction' },
+      { id: 3, parent_id: 2, name: 'Fantasy' },
+      { id: 4, parent_id: 1, name: 'Poetry' },
+    ]).run();
+  });
+
+  it('joins orWhere conditions with OR inside the global scopes', async () => {
+    const result = await User.query().where('role', 'admin').orWhere('votes', '>', 100).orderBy('id').get();
+
+    expect(names(result)).toEqual(['Ada', 'Grace']);
+  });
+
+  it('groups conditions with a callback', async () => {
+    const result = await User.query()
+      .where('role', 'editor')
+      .where((query) => query.where('votes', '<', 20).orWhere('votes', '>', 100))
+      .get();
+
+    expect(names(result)).toEqual(['Grace']);
+  });
+
+  it('filters with between, not in and column comparisons', async () => {
+    expect(names(await User.query().whereBetween('votes', [10, 50]).orderBy('id').get())).toEqual(['Ada', 'Linus']);
+    expect(names(await User.query().whereNotIn('id', [1, 2]).get())).toEqual(['Linus']);
+
+    const edited = await Post.query().whereColumn('updated_at', '>', 'created_at').get();
+    expect(edited.map((post) => post.getKey())).toEqual([1, 3]);
+  });
+
+  it('filters by relationship existence', async () => {
+    expect(names(await User.query().has('posts').get())).toEqual(['Ada', 'Grace']);
+    expect(names(await User.query().doesntHave('posts').get())).toEqual(['Linus']);
+    expect(names(await User.query().has('posts', '>=', 2).get())).toEqual(['Ada']);
+    expect(names(await User.query().has('roles').get())).toEqual(['Linus']);
+
+    const authors = await Post.query().whereHas('author', (query) => query.where('name', 'Grace')).get();
+    expect(authors.map((post) => post.getKey())).toEqual([3]);
+  });
+
+  it('constrains and nests relationship existence filters', async () => {
+    const great = await User.query().whereHas('posts.comments', (query) => query.where('body', 'Great')).get();
+    expect(names(great)).toEqual(['Grace']);
+
+    const withoutGreat = await User.query().whereDoesntHave('posts', (query) => query.where('title', 'Third')).get();
+    expect(names(withoutGreat)).toEqual(['Ada', 'Linus']);
+
+    const either = await User.query().whereHas('roles').orWhereHas('posts', (query) => query.where('title', 'Third')).get();
+    expect(names(either)).toEqual(['Grace', 'Linus']);
+  });
+
+  it('aliases the related table for self-referencing relationships', async () => {
+    expect(names(await Category.query().has('children').orderBy('id').get())).toEqual(['Books', 'Fiction']);
+    expect(names(await Category.query().doesntHave('parent').get())).toEqual(['Books']);
+    expect(names(await Category.query().has('children.children').get())).toEqual(['Books']);
+
+    const underBooks = await Category.query().whereHas('parent', (query) => query.where('name', 'Books')).orderBy('id').get();
+    expect(names(underBooks)).toEqual(['Fiction', 'Poetry']);
+
+    const counted = await Category.query().withCount('children').orderBy('id').get();
+    expect(counted.map((category) => category.getAttribute('children_count'))).toEqual([2, 1, 0, 0]);
+  });
+});